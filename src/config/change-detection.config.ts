@@ -0,0 +1,33 @@
+export interface ChangeDetectionConfig {
+  /** Contents checked more recently than this are not checked again */
+  recheckIntervalHours: number
+  /** Changes below this share of the text (0-1) don't trigger a re-analysis: dates, counters, banners... */
+  minChangeRatio: number
+}
+
+const DEFAULT_RECHECK_INTERVAL_HOURS = 7 * 24
+const DEFAULT_MIN_CHANGE_RATIO = 0.05
+
+/**
+ * Builds the change detection configuration from the environment
+ * (CHANGE_DETECTION_RECHECK_INTERVAL_HOURS, CHANGE_DETECTION_MIN_CHANGE_RATIO)
+ */
+export function loadChangeDetectionConfig(): ChangeDetectionConfig {
+  const recheckIntervalHours = Number(
+    process.env.CHANGE_DETECTION_RECHECK_INTERVAL_HOURS || DEFAULT_RECHECK_INTERVAL_HOURS,
+  )
+  if (!Number.isFinite(recheckIntervalHours) || recheckIntervalHours < 0) {
+    throw new Error(
+      `Invalid CHANGE_DETECTION_RECHECK_INTERVAL_HOURS "${process.env.CHANGE_DETECTION_RECHECK_INTERVAL_HOURS}"`,
+    )
+  }
+
+  const minChangeRatio = Number(process.env.CHANGE_DETECTION_MIN_CHANGE_RATIO || DEFAULT_MIN_CHANGE_RATIO)
+  if (!Number.isFinite(minChangeRatio) || minChangeRatio < 0 || minChangeRatio > 1) {
+    throw new Error(
+      `Invalid CHANGE_DETECTION_MIN_CHANGE_RATIO "${process.env.CHANGE_DETECTION_MIN_CHANGE_RATIO}" (expected 0-1)`,
+    )
+  }
+
+  return { recheckIntervalHours, minChangeRatio }
+}
@@ -0,0 +1,59 @@
+export interface DedupConfig {
+  /**
+   * Only places within this distance of each other are compared (PostGIS pre-filter)
+   * The distance is between the geometries, overlapping polygons are at 0 whatever the distance between their centers
+   */
+  maxCandidateDistanceM: number
+  /** Only places whose names share this much of their trigrams are compared (pg_trgm word similarity pre-filter) */
+  minCandidateNameSimilarity: number
+  /** Minimum name match score (0-1, see calculateNameMatchScore) for two places to be considered the same */
+  minNameSimilarity: number
+  /** Places whose centers are closer than this are duplicates when their names match */
+  maxCenterDistanceKm: number
+  /**
+   * Polygons overlapping at least this much (intersection / smaller area) are duplicates when their names match,
+   * whatever the distance between their centers (large parks have distant centers depending on the geometry source)
+   */
+  minOverlapRatio: number
+  /** The canonical record of a cluster is the place from the first source in this list */
+  sourcePriority: string[]
+  /** Fields copied from the merged places when the canonical place has no value */
+  mergedFields: Array<
+    | 'short_name'
+    | 'description'
+    | 'region'
+    | 'osm_id'
+    | 'website'
+    | 'wikipedia_query'
+    | 'google_places_id'
+    | 'website_generated'
+    | 'website_generated_localized'
+    | 'wikipedia_generated'
+    | 'wikipedia_generated_localized'
+    | 'reddit_generated'
+  >
+}
+
+export const DEDUP_CONFIG: DedupConfig = {
+  maxCandidateDistanceM: 2_000,
+  minCandidateNameSimilarity: 0.3,
+  minNameSimilarity: 0.85,
+  maxCenterDistanceKm: 2,
+  minOverlapRatio: 0.5,
+  // Curated sources first: their names and geometries are the most reliable
+  sourcePriority: ['MANUAL', 'DATA.GOUV', 'OSM', 'OVERTURE'],
+  mergedFields: [
+    'short_name',
+    'description',
+    'region',
+    'osm_id',
+    'website',
+    'wikipedia_query',
+    'google_places_id',
+    'website_generated',
+    'website_generated_localized',
+    'wikipedia_generated',
+    'wikipedia_generated_localized',
+    'reddit_generated',
+  ],
+}
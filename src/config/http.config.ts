@@ -0,0 +1,97 @@
+export type HttpUpstream = 'overpass' | 'nominatim' | 'wikipedia' | 'wikimedia' | 'reddit' | 'google-places'
+
+export const HTTP_UPSTREAMS: HttpUpstream[] = [
+  'overpass',
+  'nominatim',
+  'wikipedia',
+  'wikimedia',
+  'reddit',
+  'google-places',
+]
+
+export interface HttpPolicy {
+  timeoutMs: number
+  /** Retries after the first attempt, on network errors, timeouts and the retryable statuses */
+  maxRetries: number
+  /** Delay before the first retry, doubled on each retry up to maxDelayMs (Retry-After wins when the server sends it) */
+  baseDelayMs: number
+  maxDelayMs: number
+  retryOnStatuses: number[]
+  /** Servers tried in turn, the client moves to the next one after a failover status or a timeout */
+  baseUrls: string[]
+  failoverOnStatuses: number[]
+  /** Consecutive failed requests that open the circuit: requests then fail fast until circuitResetMs has passed */
+  circuitFailureThreshold: number
+  circuitResetMs: number
+}
+
+const DEFAULT_POLICY: HttpPolicy = {
+  timeoutMs: 10_000,
+  maxRetries: 2,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+  retryOnStatuses: [429, 500, 502, 503, 504],
+  baseUrls: [],
+  failoverOnStatuses: [],
+  circuitFailureThreshold: 5,
+  circuitResetMs: 60_000,
+}
+
+const DEFAULT_UPSTREAM_POLICIES: Record<HttpUpstream, Partial<HttpPolicy>> = {
+  // Overpass queries have timeout:60 in the query itself, so allow 90s for the HTTP request
+  overpass: {
+    timeoutMs: 90_000,
+    baseDelayMs: 5000,
+    maxDelayMs: 60_000,
+    baseUrls: ['https://overpass-api.de/api/interpreter', 'https://lambert.openstreetmap.de/api/interpreter'],
+    failoverOnStatuses: [502, 504],
+  },
+  nominatim: {},
+  wikipedia: {},
+  wikimedia: {},
+  reddit: {},
+  // Quota errors (429) won't clear within a batch, don't spend more of the quota retrying them
+  'google-places': { retryOnStatuses: [500, 502, 503, 504] },
+}
+
+/**
+ * Reads the overrides of an upstream from its HTTP_POLICY_<UPSTREAM> env variable,
+ * e.g. HTTP_POLICY_OVERPASS='{"maxRetries": 4, "baseUrls": ["https://overpass.kumi.systems/api/interpreter"]}'
+ */
+function loadEnvOverride(upstream: HttpUpstream): Partial<HttpPolicy> {
+  const name = `HTTP_POLICY_${upstream.toUpperCase().replace(/-/g, '_')}`
+  const value = process.env[name]
+  if (!value) {
+    return {}
+  }
+
+  let overrides: unknown
+  try {
+    overrides = JSON.parse(value)
+  } catch {
+    throw new Error(`Invalid ${name}: expected a JSON object of policy fields`)
+  }
+
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    throw new Error(`Invalid ${name}: expected a JSON object of policy fields`)
+  }
+
+  for (const [field, fieldValue] of Object.entries(overrides)) {
+    if (!(field in DEFAULT_POLICY)) {
+      throw new Error(`Invalid ${name}: unknown field "${field}"`)
+    }
+    const expectsArray = Array.isArray(DEFAULT_POLICY[field as keyof HttpPolicy])
+    if (expectsArray ? !Array.isArray(fieldValue) : typeof fieldValue !== 'number' || fieldValue < 0) {
+      throw new Error(`Invalid ${name}: "${field}" must be ${expectsArray ? 'an array' : 'a positive number'}`)
+    }
+  }
+
+  return overrides as Partial<HttpPolicy>
+}
+
+/**
+ * Builds the policy of an upstream: the defaults, its own defaults, then its env overrides
+ */
+export function loadHttpPolicy(upstream: HttpUpstream): HttpPolicy {
+  return { ...DEFAULT_POLICY, ...DEFAULT_UPSTREAM_POLICIES[upstream], ...loadEnvOverride(upstream) }
+}
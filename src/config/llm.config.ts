@@ -0,0 +1,184 @@
+export type LlmProviderName = 'gemini' | 'openai-compatible' | 'fake'
+
+export type LlmTask = 'summarization' | 'extraction' | 'sitemap-filtering'
+
+export const LLM_TASKS: LlmTask[] = ['summarization', 'extraction', 'sitemap-filtering']
+
+/**
+ * - record: calls the provider and saves every response on disk
+ * - replay: answers from the saved responses only, without calling any provider (fails on unknown prompts)
+ */
+export type LlmFixturesMode = 'off' | 'record' | 'replay'
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface LlmModelPricing {
+  input: number
+  output: number
+}
+
+export interface LlmConfig {
+  provider: LlmProviderName
+  /** Model used for the tasks without an override */
+  model: string | null
+  /** Per-task model overrides, e.g. a small local model for sitemap filtering */
+  taskModels: Partial<Record<LlmTask, string>>
+  geminiApiKey: string | null
+  /** Base URL of the OpenAI-compatible API, including the version prefix (e.g. http://localhost:11434/v1) */
+  openAiCompatibleBaseUrl: string
+  openAiCompatibleApiKey: string | null
+  timeoutMs: number
+  /** JSON file with the scripted responses of the fake provider */
+  fakeScriptPath: string | null
+  fixturesMode: LlmFixturesMode
+  fixturesDir: string
+  /** Records the tokens, latency and cost of every call in the llm_usage table */
+  usageTracking: boolean
+  /** Prices by model name (or model name prefix), models without a price cost nothing (with a warning) */
+  pricing: Record<string, LlmModelPricing>
+  /** Batches stop once the calls of the current day (UTC) cost more than this, no cap when null */
+  dailyBudgetUsd: number | null
+}
+
+const DEFAULT_MODELS: Record<LlmProviderName, string | null> = {
+  gemini: 'gemma-3-27b-it',
+  // Local servers serve whatever model was pulled, there is no sensible default
+  'openai-compatible': null,
+  fake: 'fake',
+}
+
+// Ollama's default address
+const DEFAULT_OPENAI_COMPATIBLE_BASE_URL = 'http://localhost:11434/v1'
+const DEFAULT_TIMEOUT_MS = 120_000
+const DEFAULT_FIXTURES_DIR = 'fixtures/llm'
+
+// Paid tier prices of the Gemini API, its Gemma models are free
+// Local servers have no price: set theirs (0 for free models) with LLM_PRICING
+const DEFAULT_PRICING: Record<string, LlmModelPricing> = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash-lite': { input: 0.1, output: 0.4 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.3 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4 },
+  'gemma-': { input: 0, output: 0 },
+}
+
+/**
+ * Reads the model override of a task from its LLM_MODEL_<TASK> env variable (e.g. LLM_MODEL_SITEMAP_FILTERING)
+ */
+function loadTaskModels(): Partial<Record<LlmTask, string>> {
+  const taskModels: Partial<Record<LlmTask, string>> = {}
+
+  for (const task of LLM_TASKS) {
+    const value = process.env[`LLM_MODEL_${task.toUpperCase().replace(/-/g, '_')}`]
+    if (value && value.trim()) {
+      taskModels[task] = value.trim()
+    }
+  }
+
+  return taskModels
+}
+
+/**
+ * Reads the LLM_PRICING overrides, e.g. {"qwen2.5:7b": {"input": 0, "output": 0}, "gpt-4o-mini": {"input": 0.15, "output": 0.6}}
+ */
+function loadPricing(): Record<string, LlmModelPricing> {
+  if (!process.env.LLM_PRICING) {
+    return DEFAULT_PRICING
+  }
+
+  let overrides: unknown
+  try {
+    overrides = JSON.parse(process.env.LLM_PRICING)
+  } catch {
+    throw new Error('Invalid LLM_PRICING: expected a JSON object of {"<model>": {"input": <usd>, "output": <usd>}}')
+  }
+
+  if (typeof overrides !== 'object' || overrides === null || Array.isArray(overrides)) {
+    throw new Error('Invalid LLM_PRICING: expected a JSON object of {"<model>": {"input": <usd>, "output": <usd>}}')
+  }
+
+  for (const [model, price] of Object.entries(overrides)) {
+    if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+      throw new Error(`Invalid LLM_PRICING for "${model}": expected {"input": <usd>, "output": <usd>}`)
+    }
+  }
+
+  return { ...DEFAULT_PRICING, ...(overrides as Record<string, LlmModelPricing>) }
+}
+
+/**
+ * Builds the LLM configuration from the environment
+ * LLM_PROVIDER selects the provider (gemini by default), LLM_MODEL the default model,
+ * LLM_FIXTURES records or replays the responses (see llm-provider.service)
+ * LLM_USAGE_TRACKING and LLM_DAILY_BUDGET_USD control the usage accounting (see llm-usage.service)
+ */
+export function loadLlmConfig(): LlmConfig {
+  const provider = (process.env.LLM_PROVIDER || 'gemini').trim().toLowerCase()
+
+  if (provider !== 'gemini' && provider !== 'openai-compatible' && provider !== 'fake') {
+    throw new Error(`Unknown LLM_PROVIDER "${provider}" (expected "gemini", "openai-compatible" or "fake")`)
+  }
+
+  const fixturesMode = (process.env.LLM_FIXTURES || 'off').trim().toLowerCase()
+
+  if (fixturesMode !== 'off' && fixturesMode !== 'record' && fixturesMode !== 'replay') {
+    throw new Error(`Unknown LLM_FIXTURES mode "${fixturesMode}" (expected "off", "record" or "replay")`)
+  }
+
+  const timeoutMs = process.env.LLM_TIMEOUT_MS ? Number(process.env.LLM_TIMEOUT_MS) : DEFAULT_TIMEOUT_MS
+  if (!Number.isFinite(timeoutMs) || timeoutMs <= 0) {
+    throw new Error(`Invalid LLM_TIMEOUT_MS "${process.env.LLM_TIMEOUT_MS}"`)
+  }
+
+  const dailyBudgetUsd = process.env.LLM_DAILY_BUDGET_USD ? Number(process.env.LLM_DAILY_BUDGET_USD) : null
+  if (dailyBudgetUsd !== null && (!Number.isFinite(dailyBudgetUsd) || dailyBudgetUsd < 0)) {
+    throw new Error(`Invalid LLM_DAILY_BUDGET_USD "${process.env.LLM_DAILY_BUDGET_USD}"`)
+  }
+
+  // Fake and replayed responses cost nothing, they are only tracked when explicitly enabled
+  const usageTracking = process.env.LLM_USAGE_TRACKING
+    ? process.env.LLM_USAGE_TRACKING.trim().toLowerCase() !== 'false'
+    : provider !== 'fake' && fixturesMode !== 'replay'
+
+  return {
+    provider,
+    model: process.env.LLM_MODEL?.trim() || DEFAULT_MODELS[provider],
+    taskModels: loadTaskModels(),
+    geminiApiKey: process.env.GEMINI_API_KEY || null,
+    openAiCompatibleBaseUrl: (process.env.OPENAI_COMPATIBLE_BASE_URL || DEFAULT_OPENAI_COMPATIBLE_BASE_URL).replace(
+      /\/+$/,
+      '',
+    ),
+    openAiCompatibleApiKey: process.env.OPENAI_COMPATIBLE_API_KEY || null,
+    timeoutMs,
+    fakeScriptPath: process.env.LLM_FAKE_SCRIPT_PATH || null,
+    fixturesMode,
+    fixturesDir: process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+    usageTracking,
+    pricing: loadPricing(),
+    dailyBudgetUsd,
+  }
+}
+
+/**
+ * Model used for a task: its override, or the default model
+ */
+export function getTaskModel(config: LlmConfig, task: LlmTask): string | null {
+  return config.taskModels[task] || config.model
+}
+
+/**
+ * Price of a model: its exact entry, or the longest entry its name starts with (e.g. gemini-2.5-flash-001)
+ */
+export function getModelPricing(config: LlmConfig, model: string | null): LlmModelPricing | null {
+  if (!model) return null
+  if (config.pricing[model]) return config.pricing[model]
+
+  const prefix = Object.keys(config.pricing)
+    .filter((name) => model.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0]
+
+  return prefix ? config.pricing[prefix] : null
+}
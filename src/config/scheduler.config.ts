@@ -0,0 +1,106 @@
+import { readFileSync } from 'fs'
+
+export type ScheduledTaskName =
+  | 'fetch-photos'
+  | 'fetch-ratings'
+  | 'enhance-places'
+  | 'recalculate-scores'
+  | 'verify-places'
+  | 'check-content-changes'
+
+export interface ScheduledTaskConfig {
+  task: ScheduledTaskName
+  /** 5-field cron expression, evaluated in server local time */
+  cron: string
+  enabled: boolean
+  /** Maximum number of items processed per run (all items when undefined) */
+  limit?: number
+  /** A running lock older than this is considered stale (e.g. the server crashed mid-run) */
+  lockTimeoutMinutes: number
+}
+
+type TaskOverrides = Partial<Omit<ScheduledTaskConfig, 'task'>>
+
+const DEFAULT_LOCK_TIMEOUT_MINUTES = 6 * 60
+
+/**
+ * Default cadence: nightly runs, spread out so the pipelines don't compete for the same APIs,
+ * with limits that keep Google Places and AI usage bounded
+ */
+export const DEFAULT_SCHEDULES: Record<ScheduledTaskName, TaskOverrides> = {
+  'verify-places': { cron: '0 1 * * *', limit: 100 },
+  'fetch-photos': { cron: '0 2 * * *', limit: 100 },
+  'fetch-ratings': { cron: '0 3 * * *', limit: 100 },
+  'enhance-places': { cron: '0 4 * * *', limit: 50 },
+  'check-content-changes': { cron: '0 5 * * *', limit: 50 },
+  'recalculate-scores': { cron: '0 6 * * *' },
+}
+
+/**
+ * Reads task overrides from the JSON file at SCHEDULER_CONFIG_PATH, if set
+ * Format: { "fetch-photos": { "cron": "30 2 * * *", "limit": 200 }, "verify-places": { "enabled": false } }
+ */
+function loadConfigFile(): Partial<Record<ScheduledTaskName, TaskOverrides>> {
+  const configPath = process.env.SCHEDULER_CONFIG_PATH
+  if (!configPath) {
+    return {}
+  }
+
+  try {
+    return JSON.parse(readFileSync(configPath, 'utf-8'))
+  } catch (error) {
+    throw new Error(`Failed to read scheduler config file ${configPath}: ${error}`)
+  }
+}
+
+/**
+ * Reads the override for a task from its SCHEDULE_<TASK> env variable (e.g. SCHEDULE_FETCH_PHOTOS)
+ * The value is a cron expression, or "off" to disable the task
+ */
+function loadEnvOverride(task: ScheduledTaskName): TaskOverrides {
+  const value = process.env[`SCHEDULE_${task.toUpperCase().replace(/-/g, '_')}`]
+  if (!value) {
+    return {}
+  }
+
+  if (value.trim().toLowerCase() === 'off') {
+    return { enabled: false }
+  }
+
+  return { cron: value.trim() }
+}
+
+/**
+ * Builds the scheduled tasks configuration
+ * Precedence: SCHEDULE_<TASK> env variables > config file > defaults
+ */
+export function loadSchedulerConfig(): ScheduledTaskConfig[] {
+  const fileConfig = loadConfigFile()
+
+  return (Object.keys(DEFAULT_SCHEDULES) as ScheduledTaskName[]).map((task) => {
+    const config = {
+      ...DEFAULT_SCHEDULES[task],
+      ...fileConfig[task],
+      ...loadEnvOverride(task),
+    }
+
+    if (!config.cron) {
+      throw new Error(`No cron expression configured for scheduled task ${task}`)
+    }
+
+    return {
+      task,
+      cron: config.cron,
+      enabled: config.enabled ?? true,
+      limit: config.limit,
+      lockTimeoutMinutes: config.lockTimeoutMinutes ?? DEFAULT_LOCK_TIMEOUT_MINUTES,
+    }
+  })
+}
+
+/**
+ * Whether the in-process scheduler should start with the server
+ */
+export function isSchedulerEnabled(): boolean {
+  return process.env.SCHEDULER_ENABLED === 'true' || process.env.SCHEDULER_ENABLED === '1'
+}
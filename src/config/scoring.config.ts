@@ -0,0 +1,106 @@
+import { OSM_FILTERS } from '../data/osm.data'
+
+export interface PointsTier {
+  min: number
+  points: number
+}
+
+export interface StaleDecayConfig {
+  /** Enrichments younger than this keep their full points */
+  graceDays: number
+  /** Points then decrease linearly over this many days... */
+  decayDays: number
+  /** ...down to this fraction of the original points */
+  minFactor: number
+}
+
+export interface ScoringConfig {
+  enrichments: {
+    website: { points: number }
+    reddit: { points: number }
+    wikipedia: { points: number }
+  }
+  staleDecay: StaleDecayConfig
+  googleRating: {
+    /** Points for having a Google rating at all */
+    basePoints: number
+    /** Extra points by rating (first matching tier, tiers sorted by descending min) */
+    ratingTiers: PointsTier[]
+    /** Extra points by number of ratings (first matching tier, tiers sorted by descending min) */
+    countTiers: PointsTier[]
+    maxPoints: number
+  }
+  photos: { points: number }
+  /** Points by area in m² (first matching tier, tiers sorted by descending min) */
+  area: { tiers: PointsTier[] }
+  protectedArea: {
+    /** Place types boosted when they lie within a protected area */
+    boostedTypes: string[]
+    /** Place types considered protected areas */
+    protectedAreaTypes: string[]
+    points: number
+  }
+  /** Points by number of other places whose website or Wikipedia article mentions the place (first matching tier) */
+  mentions: { tiers: PointsTier[] }
+  /** Upper bound of the enhancement score */
+  maxEnhancementScore: number
+  /** Weighting of the source score bump a verified mention gives to a place */
+  sourceReputation: {
+    /** Trust of a domain without verified or rejected places yet, the bump is scaled by trust / neutralTrust */
+    neutralTrust: number
+    /** Weight of the neutral trust against the verified ratio of a domain, in generated places */
+    priorWeight: number
+    /** Factor of the bump when a domain that already mentions the place mentions it again (another page) */
+    repeatedDomainFactor: number
+  }
+}
+
+export const SCORING_CONFIG: ScoringConfig = {
+  enrichments: {
+    website: { points: 2 },
+    reddit: { points: 2 },
+    wikipedia: { points: 4 },
+  },
+  staleDecay: {
+    graceDays: 365,
+    decayDays: 365,
+    minFactor: 0.5,
+  },
+  googleRating: {
+    basePoints: 2,
+    ratingTiers: [
+      { min: 4.5, points: 2 },
+      { min: 4.0, points: 1 },
+    ],
+    countTiers: [
+      { min: 1000, points: 2 },
+      { min: 100, points: 1 },
+    ],
+    maxPoints: 5,
+  },
+  photos: { points: 2 },
+  area: {
+    tiers: [
+      { min: 10_000_000, points: 2 }, // 10 km²
+      { min: 1_000_000, points: 1 }, // 1 km²
+    ],
+  },
+  protectedArea: {
+    boostedTypes: OSM_FILTERS.boostIfInProtectedArea,
+    protectedAreaTypes: ['national_park', 'regional_park', 'protected_area', 'nature_reserve'],
+    points: 2,
+  },
+  mentions: {
+    tiers: [
+      { min: 10, points: 3 },
+      { min: 3, points: 2 },
+      { min: 1, points: 1 },
+    ],
+  },
+  maxEnhancementScore: 20,
+  sourceReputation: {
+    neutralTrust: 0.5,
+    priorWeight: 4,
+    repeatedDomainFactor: 0.25,
+  },
+}
@@ -0,0 +1,94 @@
+/**
+ * - none: pages are only read from their static HTML
+ * - chromium: pages with too little static text are rendered by a local headless Chromium (see page-renderer.service)
+ */
+export type RenderingBackend = 'none' | 'chromium'
+
+export interface ScraperConfig {
+  /** User-Agent header of every request made by the scrapers */
+  userAgent: string
+  /** Token looked up in the user-agent groups of robots.txt */
+  robotsUserAgent: string
+  timeoutMs: number
+  /** When false, robots.txt is neither fetched nor enforced (crawl delays and concurrency limits still apply) */
+  respectRobotsTxt: boolean
+  robotsCacheTtlMs: number
+  /** Minimum delay between two requests to the same host, used when robots.txt sets no crawl-delay */
+  minDelayMs: number
+  /** Robots.txt crawl-delays above this are capped, so a single site can't stall an analysis */
+  maxCrawlDelayMs: number
+  /** Maximum number of requests in flight to the same host */
+  maxConcurrentPerHost: number
+  renderingBackend: RenderingBackend
+  /** Chromium executable, a name on the PATH or an absolute path */
+  chromiumPath: string
+  /** Extra Chromium flags, e.g. --no-sandbox when running as root in a container */
+  chromiumArgs: string[]
+  renderTimeoutMs: number
+  /** Pages whose static HTML yields less text than this are rendered, when a rendering backend is set */
+  minStaticTextLength: number
+  /** poppler's pdftotext executable, used to read PDF documents (see document-reader.service) */
+  pdftotextPath: string
+  /** Larger documents (e.g. high-resolution brochures) are skipped */
+  maxDocumentBytes: number
+}
+
+const DEFAULT_USER_AGENT = 'Mozilla/5.0 (compatible; EmpreinteBot/1.0; Nature Places Data Enhancement)'
+const DEFAULT_ROBOTS_USER_AGENT = 'EmpreinteBot'
+const DEFAULT_TIMEOUT_MS = 10_000
+const DEFAULT_ROBOTS_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+const DEFAULT_MIN_DELAY_MS = 500
+const DEFAULT_MAX_CRAWL_DELAY_MS = 10_000
+const DEFAULT_MAX_CONCURRENT_PER_HOST = 2
+const DEFAULT_CHROMIUM_PATH = 'chromium'
+const DEFAULT_RENDER_TIMEOUT_MS = 30_000
+const DEFAULT_MIN_STATIC_TEXT_LENGTH = 200
+const DEFAULT_PDFTOTEXT_PATH = 'pdftotext'
+const DEFAULT_MAX_DOCUMENT_BYTES = 20 * 1024 * 1024
+
+function readNumber(name: string, defaultValue: number, { allowZero = true } = {}): number {
+  const raw = process.env[name]
+  if (!raw) {
+    return defaultValue
+  }
+
+  const value = Number(raw)
+  if (!Number.isFinite(value) || value < 0 || (!allowZero && value === 0)) {
+    throw new Error(`Invalid ${name} "${raw}"`)
+  }
+  return value
+}
+
+/**
+ * Builds the scraper configuration from the environment
+ * SCRAPER_RESPECT_ROBOTS=false disables robots.txt checks, SCRAPER_MIN_DELAY_MS, SCRAPER_MAX_CRAWL_DELAY_MS
+ * and SCRAPER_MAX_CONCURRENT_PER_HOST tune the per-host politeness (see polite-fetch.service)
+ * SCRAPER_RENDERING=chromium enables the headless rendering of JavaScript pages (see page-renderer.service)
+ */
+export function loadScraperConfig(): ScraperConfig {
+  const renderingBackend = (process.env.SCRAPER_RENDERING || 'none').trim().toLowerCase()
+
+  if (renderingBackend !== 'none' && renderingBackend !== 'chromium') {
+    throw new Error(`Unknown SCRAPER_RENDERING backend "${renderingBackend}" (expected "none" or "chromium")`)
+  }
+
+  return {
+    userAgent: process.env.SCRAPER_USER_AGENT?.trim() || DEFAULT_USER_AGENT,
+    robotsUserAgent: process.env.SCRAPER_ROBOTS_USER_AGENT?.trim() || DEFAULT_ROBOTS_USER_AGENT,
+    timeoutMs: readNumber('SCRAPER_TIMEOUT_MS', DEFAULT_TIMEOUT_MS, { allowZero: false }),
+    respectRobotsTxt: (process.env.SCRAPER_RESPECT_ROBOTS || 'true').trim().toLowerCase() !== 'false',
+    robotsCacheTtlMs: readNumber('SCRAPER_ROBOTS_CACHE_TTL_MS', DEFAULT_ROBOTS_CACHE_TTL_MS),
+    minDelayMs: readNumber('SCRAPER_MIN_DELAY_MS', DEFAULT_MIN_DELAY_MS),
+    maxCrawlDelayMs: readNumber('SCRAPER_MAX_CRAWL_DELAY_MS', DEFAULT_MAX_CRAWL_DELAY_MS),
+    maxConcurrentPerHost: readNumber('SCRAPER_MAX_CONCURRENT_PER_HOST', DEFAULT_MAX_CONCURRENT_PER_HOST, {
+      allowZero: false,
+    }),
+    renderingBackend,
+    chromiumPath: process.env.SCRAPER_CHROMIUM_PATH?.trim() || DEFAULT_CHROMIUM_PATH,
+    chromiumArgs: (process.env.SCRAPER_CHROMIUM_ARGS || '').split(/\s+/).filter((arg) => arg.length > 0),
+    renderTimeoutMs: readNumber('SCRAPER_RENDER_TIMEOUT_MS', DEFAULT_RENDER_TIMEOUT_MS, { allowZero: false }),
+    minStaticTextLength: readNumber('SCRAPER_MIN_STATIC_TEXT_LENGTH', DEFAULT_MIN_STATIC_TEXT_LENGTH),
+    pdftotextPath: process.env.SCRAPER_PDFTOTEXT_PATH?.trim() || DEFAULT_PDFTOTEXT_PATH,
+    maxDocumentBytes: readNumber('SCRAPER_MAX_DOCUMENT_BYTES', DEFAULT_MAX_DOCUMENT_BYTES, { allowZero: false }),
+  }
+}
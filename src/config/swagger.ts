@@ -31,7 +31,292 @@ const options: swaggerJsdoc.Options = {
           description: 'API key for authentication',
         },
       },
+      parameters: {
+        MinScore: {
+          in: 'query',
+          name: 'min_score',
+          required: false,
+          schema: { type: 'number', minimum: 0, default: 0 },
+          description: 'Only return places with score >= min_score',
+        },
+        MaxResults: {
+          in: 'query',
+          name: 'max_results',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 1000, default: 200 },
+          description: 'Maximum number of matching places over all the pages',
+        },
+        Types: {
+          in: 'query',
+          name: 'types',
+          required: false,
+          schema: { type: 'string' },
+          description: 'Comma-separated list of place types to keep (e.g. "lake,waterfall")',
+        },
+        Page: {
+          in: 'query',
+          name: 'page',
+          required: false,
+          schema: { type: 'integer', minimum: 1, default: 1 },
+        },
+        PageSize: {
+          in: 'query',
+          name: 'page_size',
+          required: false,
+          schema: { type: 'integer', minimum: 1, maximum: 100, default: 50 },
+        },
+      },
       schemas: {
+        PlacePhoto: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            place_id: { type: 'string', format: 'uuid' },
+            source: { type: 'string', enum: ['wikimedia', 'google_places'] },
+            url: { type: 'string', format: 'uri' },
+            attribution: { type: 'string', nullable: true },
+            is_primary: { type: 'boolean', nullable: true },
+          },
+        },
+        PlaceSearchResult: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            name: { type: 'string' },
+            type: { type: 'string' },
+            description: { type: 'string', nullable: true },
+            score: { type: 'number' },
+            lat: { type: 'number' },
+            long: { type: 'number' },
+            region: { type: 'string', nullable: true },
+            country: { type: 'string', nullable: true },
+            source: { type: 'string', nullable: true },
+            website: { type: 'string', nullable: true },
+            wikipedia_query: { type: 'string', nullable: true },
+            metadata: { type: 'object', nullable: true },
+            distance_km: {
+              type: 'number',
+              description: 'Distance to the search point (only for /api/places/nearby)',
+            },
+            photos: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/PlacePhoto' },
+            },
+          },
+        },
+        Pagination: {
+          type: 'object',
+          properties: {
+            page: { type: 'integer' },
+            pageSize: { type: 'integer' },
+            total: { type: 'integer', description: 'Total number of places matching the filters' },
+            totalPages: { type: 'integer' },
+            hasMore: { type: 'boolean' },
+          },
+          required: ['page', 'pageSize', 'total', 'totalPages', 'hasMore'],
+        },
+        PlaceSearchResponse: {
+          type: 'object',
+          properties: {
+            places: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/PlaceSearchResult' },
+            },
+            pagination: { $ref: '#/components/schemas/Pagination' },
+          },
+          required: ['places', 'pagination'],
+        },
+        ScoreBreakdown: {
+          type: 'object',
+          properties: {
+            sourceScore: { type: 'number' },
+            websiteScore: { type: 'number' },
+            redditScore: { type: 'number' },
+            wikipediaScore: { type: 'number' },
+            googleRatingScore: { type: 'number' },
+            photosScore: { type: 'number' },
+            areaScore: { type: 'number' },
+            protectedAreaScore: { type: 'number' },
+            mentionsScore: { type: 'number', description: 'Points for being mentioned by other places' },
+            totalEnhancementScore: { type: 'number', description: 'Capped by the scoring config' },
+            totalScore: { type: 'number' },
+          },
+        },
+        ScoreHistoryEntry: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            place_id: { type: 'string', format: 'uuid' },
+            old_score: { type: 'number' },
+            new_score: { type: 'number' },
+            old_enhancement_score: { type: 'number', nullable: true },
+            new_enhancement_score: { type: 'number', nullable: true },
+            breakdown: { $ref: '#/components/schemas/ScoreBreakdown' },
+            trigger: {
+              type: 'string',
+              enum: [
+                'recalculate-scores',
+                'enhancement',
+                'website-analysis',
+                'wikipedia-analysis',
+                'verification',
+                'ratings',
+                'photos',
+                'deduplication',
+              ],
+            },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        EnhancementSummary: {
+          type: 'object',
+          properties: {
+            summary: { type: 'string', nullable: true },
+            locale: {
+              type: 'string',
+              enum: ['fr', 'en'],
+              nullable: true,
+              description:
+                'Language of the summary: the requested one when available, null for summaries generated before they were localized',
+            },
+            mentionedPlaces: { type: 'array', items: { type: 'string' } },
+            analyzedAt: { type: 'string', format: 'date-time', nullable: true },
+            contentChangedAt: {
+              type: 'string',
+              format: 'date-time',
+              nullable: true,
+              description: 'Website only: last time change detection found the website content materially changed',
+            },
+          },
+        },
+        VisitorFact: {
+          type: 'object',
+          nullable: true,
+          properties: {
+            value: { type: 'string' },
+            source: { type: 'string', enum: ['website', 'wikipedia'] },
+            sourceUrl: { type: 'string', format: 'uri', nullable: true },
+            evidence: {
+              type: 'string',
+              nullable: true,
+              description: 'Passage of the content the fact was extracted from',
+            },
+            confidence: { type: 'number', minimum: 0, maximum: 1 },
+            promptVersion: { type: 'string', example: 'visitor-facts@v1' },
+            extractedAt: { type: 'string', format: 'date-time' },
+          },
+        },
+        PlaceVisitorFacts: {
+          type: 'object',
+          description: 'Facts named after the saved_places fields, null when no source gives them',
+          properties: {
+            best_time_to_visit: { $ref: '#/components/schemas/VisitorFact' },
+            entrance_fee: { $ref: '#/components/schemas/VisitorFact' },
+            operating_hours: { $ref: '#/components/schemas/VisitorFact' },
+            parking_info: { $ref: '#/components/schemas/VisitorFact' },
+            estimated_activity_duration: { $ref: '#/components/schemas/VisitorFact' },
+            activity: { $ref: '#/components/schemas/VisitorFact' },
+          },
+        },
+        VisitorFactsExtractionResponse: {
+          type: 'object',
+          properties: {
+            placeId: { type: 'string', format: 'uuid' },
+            placeName: { type: 'string' },
+            sources: {
+              type: 'array',
+              description: 'Contents the facts were extracted from',
+              items: {
+                type: 'object',
+                properties: {
+                  source: { type: 'string', enum: ['website', 'wikipedia'] },
+                  sourceUrl: { type: 'string', format: 'uri', nullable: true },
+                  factsCount: { type: 'integer' },
+                },
+              },
+            },
+            facts: { $ref: '#/components/schemas/PlaceVisitorFacts' },
+          },
+          required: ['placeId', 'placeName', 'sources', 'facts'],
+        },
+        PlaceDetailResponse: {
+          type: 'object',
+          properties: {
+            place: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string', nullable: true },
+                shortName: { type: 'string', nullable: true },
+                type: { type: 'string', nullable: true },
+                description: { type: 'string', nullable: true },
+                region: { type: 'string', nullable: true },
+                country: { type: 'string', nullable: true },
+                source: { type: 'string', nullable: true },
+                osmId: { type: 'string', nullable: true },
+                website: { type: 'string', nullable: true },
+                wikipediaQuery: { type: 'string', nullable: true },
+                metadata: { type: 'object', nullable: true },
+                center: {
+                  type: 'object',
+                  nullable: true,
+                  properties: { lat: { type: 'number' }, lon: { type: 'number' } },
+                },
+                score: { type: 'number' },
+                createdAt: { type: 'string', format: 'date-time' },
+                updatedAt: { type: 'string', format: 'date-time', nullable: true },
+              },
+            },
+            photos: { type: 'array', items: { $ref: '#/components/schemas/PlacePhoto' } },
+            score: { $ref: '#/components/schemas/ScoreBreakdown' },
+            rating: {
+              type: 'object',
+              properties: {
+                googleRating: { type: 'number', nullable: true },
+                googleRatingCount: { type: 'number', nullable: true },
+                googleRatingFetchedAt: { type: 'string', format: 'date-time', nullable: true },
+                googlePlacesId: { type: 'string', nullable: true },
+              },
+            },
+            locale: { type: 'string', enum: ['fr', 'en'], description: 'Requested language' },
+            enhancements: {
+              type: 'object',
+              properties: {
+                website: { $ref: '#/components/schemas/EnhancementSummary' },
+                wikipedia: { $ref: '#/components/schemas/EnhancementSummary' },
+                reddit: {
+                  type: 'object',
+                  properties: { summary: { type: 'string', nullable: true } },
+                },
+                lastEnhancedAt: { type: 'string', format: 'date-time', nullable: true },
+              },
+            },
+            generatedPlaces: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  id: { type: 'string', format: 'uuid' },
+                  name: { type: 'string', nullable: true },
+                  description: { type: 'string', nullable: true },
+                  status: { type: 'string', nullable: true },
+                  source: {
+                    type: 'object',
+                    nullable: true,
+                    properties: {
+                      id: { type: 'string', format: 'uuid' },
+                      url: { type: 'string', format: 'uri' },
+                      name: { type: 'string', nullable: true },
+                    },
+                  },
+                  createdAt: { type: 'string', format: 'date-time' },
+                },
+              },
+            },
+            visitorFacts: { $ref: '#/components/schemas/PlaceVisitorFacts' },
+          },
+          required: ['place', 'photos', 'score', 'rating', 'enhancements', 'generatedPlaces', 'visitorFacts'],
+        },
         PlaceAnalysisResponse: {
           type: 'object',
           properties: {
@@ -65,6 +350,16 @@ const options: swaggerJsdoc.Options = {
               type: 'integer',
               description: 'Number of pages scraped from the website',
             },
+            blockedByRobots: {
+              type: 'boolean',
+              description:
+                "True when the website's robots.txt disallows crawling it (the analysis then fails with a 422)",
+            },
+            renderedPagesCount: {
+              type: 'integer',
+              description:
+                'Number of pages read from their headless-rendered DOM because their static HTML had too little text (0 when rendering is disabled)',
+            },
           },
           required: [
             'placeId',
@@ -73,6 +368,8 @@ const options: swaggerJsdoc.Options = {
             'description',
             'mentionedPlaces',
             'scrapedPagesCount',
+            'blockedByRobots',
+            'renderedPagesCount',
           ],
         },
         WikipediaAnalysisResponse: {
@@ -106,6 +403,381 @@ const options: swaggerJsdoc.Options = {
           },
           required: ['placeId', 'placeName', 'description', 'mentionedPlaces'],
         },
+        ReviewAlternative: {
+          type: 'object',
+          properties: {
+            osmId: { type: 'integer', description: 'OSM ID to pass to the accept endpoint' },
+            name: { type: 'string' },
+            type: { type: 'string' },
+            distanceKm: {
+              type: 'number',
+              nullable: true,
+              description: "Distance from the center of the source's search area (null when it is unknown)",
+            },
+            confidence: { type: 'number', description: 'Name match confidence (0-1)' },
+            tags: { type: 'object', additionalProperties: { type: 'string' } },
+          },
+        },
+        PendingReview: {
+          type: 'object',
+          properties: {
+            generatedPlace: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string', nullable: true },
+                description: { type: 'string', nullable: true },
+                status: { type: 'string', enum: ['MULTIPLE_MATCHES', 'NO_MATCH'] },
+                createdAt: { type: 'string', format: 'date-time' },
+              },
+            },
+            source: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                url: { type: 'string' },
+                name: { type: 'string', nullable: true },
+              },
+            },
+            searchArea: {
+              type: 'string',
+              nullable: true,
+              description: 'Area the OSM search was restricted to, e.g. "department: Isère (38)"',
+            },
+            alternatives: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/ReviewAlternative' },
+            },
+          },
+        },
+        ReviewDecisionResponse: {
+          type: 'object',
+          properties: {
+            generatedPlaceId: { type: 'string', format: 'uuid' },
+            status: { type: 'string', enum: ['ADDED', 'REJECTED'] },
+            placeId: { type: 'string', format: 'uuid', nullable: true },
+          },
+        },
+        SourceReputation: {
+          type: 'object',
+          properties: {
+            domain: { type: 'string', example: 'example.com' },
+            sourcesCount: { type: 'integer' },
+            verifiedCount: { type: 'integer', description: 'Generated places matched to a real place (ADDED)' },
+            rejectedCount: { type: 'integer', description: 'Generated places REJECTED or NO_NATURE_MATCH' },
+            unresolvedCount: {
+              type: 'integer',
+              description: 'Generated places NO_MATCH or MULTIPLE_MATCHES, not counted in the verified ratio',
+            },
+            pendingCount: { type: 'integer', description: 'Generated places not verified yet' },
+            verifiedRatio: {
+              type: 'number',
+              nullable: true,
+              description: 'verified / (verified + rejected), null before a place was verified or rejected',
+            },
+            trustOverride: { type: 'number', nullable: true, minimum: 0, maximum: 1 },
+            trust: {
+              type: 'number',
+              minimum: 0,
+              maximum: 1,
+              description: 'The override, or the verified ratio smoothed towards 0.5',
+            },
+            notes: { type: 'string', nullable: true },
+          },
+        },
+        PlaceSources: {
+          type: 'object',
+          properties: {
+            placeId: { type: 'string', format: 'uuid' },
+            independentSourcesCount: {
+              type: 'integer',
+              description: 'Distinct domains mentioning the place, pages of the same site count once',
+            },
+            sources: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  source: {
+                    type: 'object',
+                    properties: {
+                      id: { type: 'string', format: 'uuid' },
+                      url: { type: 'string' },
+                      name: { type: 'string', nullable: true },
+                    },
+                  },
+                  domain: { type: 'string', nullable: true },
+                  trust: { type: 'number', minimum: 0, maximum: 1 },
+                  generatedPlaces: {
+                    type: 'array',
+                    items: {
+                      type: 'object',
+                      properties: {
+                        id: { type: 'string', format: 'uuid' },
+                        name: { type: 'string', nullable: true },
+                        createdAt: { type: 'string', format: 'date-time' },
+                      },
+                    },
+                  },
+                },
+              },
+            },
+          },
+        },
+        RelatedPlace: {
+          type: 'object',
+          properties: {
+            place: {
+              type: 'object',
+              properties: {
+                id: { type: 'string', format: 'uuid' },
+                name: { type: 'string', nullable: true },
+                type: { type: 'string', nullable: true },
+                score: { type: 'number', nullable: true },
+              },
+            },
+            mentions: {
+              type: 'array',
+              description: 'Each mention between the two places',
+              items: {
+                type: 'object',
+                properties: {
+                  sourceType: { type: 'string', enum: ['website', 'wikipedia'] },
+                  sourceId: { type: 'string', format: 'uuid', nullable: true },
+                  mentionedName: {
+                    type: 'string',
+                    nullable: true,
+                    description: 'Name of the place as extracted from the content',
+                  },
+                },
+              },
+            },
+          },
+        },
+        RelatedPlaces: {
+          type: 'object',
+          properties: {
+            placeId: { type: 'string', format: 'uuid' },
+            mentions: {
+              type: 'array',
+              description: 'Places the website or Wikipedia article of this place mentions',
+              items: { $ref: '#/components/schemas/RelatedPlace' },
+            },
+            mentionedBy: {
+              type: 'array',
+              description: 'Places whose website or Wikipedia article mentions this place',
+              items: { $ref: '#/components/schemas/RelatedPlace' },
+            },
+          },
+        },
+        JobCreatedResponse: {
+          type: 'object',
+          properties: {
+            jobId: {
+              type: 'string',
+              format: 'uuid',
+              description: 'ID of the queued job, to poll with GET /api/jobs/{jobId}',
+            },
+            type: {
+              type: 'string',
+              enum: ['fetch-photos', 'fetch-ratings', 'verify-places', 'analyze-urls', 'ingest-site'],
+            },
+            status: {
+              type: 'string',
+              example: 'queued',
+            },
+          },
+          required: ['jobId', 'type', 'status'],
+        },
+        Job: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            type: {
+              type: 'string',
+              enum: ['fetch-photos', 'fetch-ratings', 'verify-places', 'analyze-urls', 'ingest-site'],
+            },
+            status: {
+              type: 'string',
+              enum: ['queued', 'running', 'completed', 'failed', 'cancelled'],
+            },
+            payload: {
+              type: 'object',
+              description: 'Request parameters the job was created with',
+            },
+            progress_current: {
+              type: 'integer',
+              description: 'Number of items processed so far',
+            },
+            progress_total: {
+              type: 'integer',
+              nullable: true,
+              description: 'Total number of items to process (known once the first item is processed)',
+            },
+            summary: {
+              type: 'object',
+              nullable: true,
+              description: 'Totals computed when the job finishes (e.g. totalProcessed, totalSuccess)',
+            },
+            error: { type: 'string', nullable: true },
+            cancel_requested: { type: 'boolean' },
+            started_at: { type: 'string', format: 'date-time', nullable: true },
+            finished_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+            updated_at: { type: 'string', format: 'date-time', nullable: true },
+          },
+        },
+        JobItem: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            job_id: { type: 'string', format: 'uuid' },
+            item_index: { type: 'integer' },
+            item_id: {
+              type: 'string',
+              nullable: true,
+              description: 'Place ID, generated place ID or URL depending on the job type',
+            },
+            status: {
+              type: 'string',
+              description: 'success/failed, or the verification status for verify-places jobs',
+            },
+            result: {
+              type: 'object',
+              nullable: true,
+              description: 'Per-item result, same shape as the former synchronous response items',
+            },
+            error: { type: 'string', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        JobResponse: {
+          type: 'object',
+          properties: {
+            job: { $ref: '#/components/schemas/Job' },
+            items: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/JobItem' },
+            },
+          },
+        },
+        ScheduledRun: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', format: 'uuid' },
+            task: {
+              type: 'string',
+              enum: [
+                'fetch-photos',
+                'fetch-ratings',
+                'enhance-places',
+                'check-content-changes',
+                'recalculate-scores',
+                'verify-places',
+              ],
+            },
+            status: {
+              type: 'string',
+              enum: ['running', 'completed', 'failed'],
+            },
+            stats: {
+              type: 'object',
+              nullable: true,
+              description: 'ProcessStats of the run',
+              properties: {
+                processedCount: { type: 'integer' },
+                insertedCount: { type: 'integer', description: 'Items successfully enriched' },
+                duplicateCount: { type: 'integer' },
+                errorCount: { type: 'integer' },
+                startTime: { type: 'string', format: 'date-time' },
+                durationMs: { type: 'integer' },
+              },
+            },
+            error: { type: 'string', nullable: true },
+            started_at: { type: 'string', format: 'date-time' },
+            finished_at: { type: 'string', format: 'date-time', nullable: true },
+            created_at: { type: 'string', format: 'date-time' },
+          },
+        },
+        LlmUsageReportEntry: {
+          type: 'object',
+          description: 'Usage of one group, only the grouped dimensions are set',
+          properties: {
+            day: { type: 'string', format: 'date' },
+            task: { type: 'string', enum: ['summarization', 'extraction', 'sitemap-filtering'] },
+            department: { type: 'string', nullable: true, description: 'Region of the place, e.g. "38"' },
+            model: { type: 'string', nullable: true },
+            calls: { type: 'integer' },
+            errors: { type: 'integer', description: 'Failed calls and invalid responses' },
+            promptTokens: { type: 'integer' },
+            responseTokens: { type: 'integer' },
+            averageLatencyMs: { type: 'integer' },
+            costUsd: { type: 'number' },
+          },
+        },
+        LlmUsageReport: {
+          type: 'object',
+          properties: {
+            from: { type: 'string', format: 'date' },
+            to: { type: 'string', format: 'date' },
+            groupBy: {
+              type: 'array',
+              items: { type: 'string', enum: ['day', 'task', 'department', 'model'] },
+            },
+            entries: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/LlmUsageReportEntry' },
+            },
+            total: {
+              type: 'object',
+              properties: {
+                calls: { type: 'integer' },
+                errors: { type: 'integer', description: 'Failed calls and invalid responses' },
+                promptTokens: { type: 'integer' },
+                responseTokens: { type: 'integer' },
+                averageLatencyMs: { type: 'integer' },
+                costUsd: { type: 'number' },
+              },
+            },
+            dailyBudgetUsd: { type: 'number', nullable: true, description: 'LLM_DAILY_BUDGET_USD, null without cap' },
+          },
+        },
+        HttpUpstreamMetrics: {
+          type: 'object',
+          properties: {
+            upstream: {
+              type: 'string',
+              enum: ['overpass', 'nominatim', 'wikipedia', 'wikimedia', 'reddit', 'google-places'],
+            },
+            requests: { type: 'integer', description: 'Requests made, whatever their number of attempts' },
+            attempts: { type: 'integer' },
+            retries: { type: 'integer' },
+            successes: { type: 'integer', description: 'Requests that ended with a response that is not retried' },
+            failures: {
+              type: 'integer',
+              description: 'Requests that ended with a network error, a timeout or a retryable status (429, 5xx)',
+            },
+            timeouts: { type: 'integer' },
+            rateLimited: { type: 'integer', description: '429 responses' },
+            failovers: { type: 'integer', description: 'Switches to the next server of the upstream' },
+            circuitRejections: { type: 'integer', description: 'Requests refused while the circuit was open' },
+            circuitOpenings: { type: 'integer' },
+            circuitState: { type: 'string', enum: ['closed', 'open', 'half-open'] },
+            currentBaseUrl: { type: 'string', nullable: true },
+            averageLatencyMs: { type: 'integer', nullable: true, description: 'Retries included' },
+          },
+        },
+        HttpMetricsReport: {
+          type: 'object',
+          properties: {
+            since: { type: 'string', format: 'date-time', description: 'Server start, when the counters began' },
+            upstreams: {
+              type: 'array',
+              items: { $ref: '#/components/schemas/HttpUpstreamMetrics' },
+            },
+          },
+        },
         Error: {
           type: 'object',
           properties: {
@@ -1,9 +1,14 @@
+import { ScoreChangeTrigger } from '../db/place-score-history'
 import { updatePlace } from '../db/places'
+import { GeneratedPlaceField, PromptId, withPromptVersions } from '../prompts/prompt-registry'
+import { isLlmBudgetExceeded, runWithLlmUsageContext } from '../services/llm-usage.service'
 import { redditService } from '../services/reddit.service'
+import { refreshPlaceScore } from '../services/score-recalculation.service'
 import { supabase } from '../services/supabase.service'
 import { websiteScraperService } from '../services/website-scraper.service'
 import { wikipediaService } from '../services/wikipedia.service'
 import { Tables } from '../types/database'
+import { LocalizedText } from '../utils/locale'
 
 type Place = Tables<'places'>
 
@@ -68,7 +73,14 @@ export class EnhancementController {
     return false
   }
 
+  /**
+   * Enhances a place with its website, Reddit and Wikipedia content, attributing the LLM calls to the place
+   */
   public async enhancePlace(place: Place, force: boolean = false): Promise<EnhancementResult> {
+    return runWithLlmUsageContext({ placeId: place.id }, () => this.runEnhancement(place, force))
+  }
+
+  private async runEnhancement(place: Place, force: boolean): Promise<EnhancementResult> {
     console.log(`\n🚀 Starting enhancement for place: ${place.name}`)
 
     const result: EnhancementResult = {
@@ -82,10 +94,11 @@ export class EnhancementController {
       errors: [],
     }
 
-    let enhancementScore = 0
     const updates: Partial<Place> = {
       last_enhanced_at: new Date().toISOString(),
     }
+    // Prompts of the generated fields, recorded in the place metadata
+    const promptFields: Partial<Record<GeneratedPlaceField, PromptId>> = {}
 
     // 1. Website Enhancement
     if (place.website && (!place.website_generated || force)) {
@@ -99,9 +112,10 @@ export class EnhancementController {
         if (websiteResult.summary || websiteResult.rawContent) {
           if (websiteResult.summary && !websiteResult.summary.includes('NO_RELEVANT_INFO')) {
             updates.website_generated = websiteResult.summary
-            enhancementScore += 2
+            updates.website_generated_localized = websiteResult.summaries
+            promptFields.website_generated = 'website-summary'
             result.websiteEnhanced = true
-            console.log(`✅ Website enhancement successful (+2 score points)`)
+            console.log(`✅ Website enhancement successful`)
           } else if (websiteResult.summary && websiteResult.summary.includes('NO_RELEVANT_INFO')) {
             updates.website_generated = websiteResult.summary
             console.log(`✅ Website enhancement completed - no relevant content found`)
@@ -114,6 +128,9 @@ export class EnhancementController {
           if (websiteResult.rawContent) {
             updates.website_raw = websiteResult.rawContent
           }
+        } else if (websiteResult.blockedByRobots) {
+          // Not marked as "not found": the site may allow crawling later
+          console.log(`🤖 Website enhancement skipped - robots.txt disallows crawling`)
         } else {
           updates.website_generated = 'not found'
           console.log(`❌ Website enhancement failed - no relevant content`)
@@ -125,9 +142,6 @@ export class EnhancementController {
       }
     } else {
       console.log(`🌐 Website enhancement skipped - already enhanced`)
-      if (place.website_generated && !place.website_generated.toLowerCase().includes('no_relevant_info')) {
-        enhancementScore += 2
-      }
     }
 
     // 2. Reddit Enhancement
@@ -144,9 +158,9 @@ export class EnhancementController {
 
         if (redditResult && redditResult.summary && !redditResult.summary.includes('NO_RELEVANT_INFO')) {
           updates.reddit_generated = redditResult.summary
-          enhancementScore += 2
+          promptFields.reddit_generated = 'reddit-summary'
           result.redditEnhanced = true
-          console.log(`✅ Reddit enhancement successful (+2 score points)`)
+          console.log(`✅ Reddit enhancement successful`)
         } else if (redditResult && redditResult.summary && redditResult.summary.includes('NO_RELEVANT_INFO')) {
           updates.reddit_generated = redditResult.summary
           console.log(`✅ Reddit enhancement completed - no relevant content found`)
@@ -166,9 +180,6 @@ export class EnhancementController {
       }
     } else {
       console.log(`🌐 Reddit enhancement skipped - already enhanced`)
-      if (place.reddit_generated && !place.reddit_generated.toLowerCase().includes('no_relevant_info')) {
-        enhancementScore += 2
-      }
     }
 
     // 3. Wikipedia Enhancement
@@ -178,6 +189,7 @@ export class EnhancementController {
 
         let wikipediaResult: {
           summary: string | null
+          summaries: LocalizedText
           rawContent: string | null
           mentionedPlaces: string[]
         } | null = null
@@ -199,9 +211,10 @@ export class EnhancementController {
         if (wikipediaResult && (wikipediaResult.summary || wikipediaResult.rawContent)) {
           if (wikipediaResult.summary && !wikipediaResult.summary.includes('NO_RELEVANT_INFO')) {
             updates.wikipedia_generated = wikipediaResult.summary
-            enhancementScore += 4
+            updates.wikipedia_generated_localized = wikipediaResult.summaries
+            promptFields.wikipedia_generated = 'wikipedia-summary'
             result.wikipediaEnhanced = true
-            console.log(`✅ Wikipedia enhancement successful (+4 score points)`)
+            console.log(`✅ Wikipedia enhancement successful`)
           } else if (wikipediaResult.summary && wikipediaResult.summary.includes('NO_RELEVANT_INFO')) {
             updates.wikipedia_generated = wikipediaResult.summary
             console.log(`✅ Wikipedia enhancement completed - no relevant content found`)
@@ -214,6 +227,7 @@ export class EnhancementController {
           // Save mentioned places if any were extracted
           if (wikipediaResult.mentionedPlaces && wikipediaResult.mentionedPlaces.length > 0) {
             updates.wikipedia_places_generated = wikipediaResult.mentionedPlaces
+            promptFields.wikipedia_places_generated = 'mentioned-places'
             console.log(`✅ Saved ${wikipediaResult.mentionedPlaces.length} mentioned places from Wikipedia`)
           }
 
@@ -231,21 +245,12 @@ export class EnhancementController {
       }
     } else {
       console.log(`🌐 Wikipedia enhancement skipped - already enhanced`)
-      if (place.wikipedia_generated && !place.wikipedia_generated.toLowerCase().includes('no_relevant_info')) {
-        enhancementScore += 4
-      }
     }
 
-    // 4. Update Score and Save to Database
-    updates.enhancement_score = enhancementScore
-    result.enhancementScore = enhancementScore
-    console.log(`📈 Total enhancement score: ${enhancementScore}`)
-
-    // Update score
-    const totalScore = (place.source_score || 0) + enhancementScore
-    updates.score = totalScore
-    result.score = totalScore
-    console.log(`📈 Total score: ${totalScore}`)
+    // 4. Save to Database and Update Score
+    if (Object.keys(promptFields).length > 0) {
+      updates.metadata = withPromptVersions(place.metadata, promptFields)
+    }
 
     try {
       const { error } = await updatePlace(place.id, updates)
@@ -256,6 +261,14 @@ export class EnhancementController {
         result.errors.push(errorMsg)
       } else {
         console.log(`✅ Place enhancement completed and saved to database`)
+
+        const scoreResult = await refreshPlaceScore(place.id, ScoreChangeTrigger.ENHANCEMENT)
+        if (scoreResult) {
+          result.enhancementScore = scoreResult.newEnhancementScore
+          result.score = scoreResult.newTotalScore
+          console.log(`📈 Total enhancement score: ${result.enhancementScore}`)
+          console.log(`📈 Total score: ${result.score}`)
+        }
       }
     } catch (error) {
       const errorMsg = `Database update error: ${error}`
@@ -299,6 +312,11 @@ export class EnhancementController {
     const results: EnhancementResult[] = []
 
     for (let i = 0; i < places.length; i++) {
+      if (await isLlmBudgetExceeded()) {
+        console.log(`🛑 Enhancement stopped after ${i} place(s)`)
+        break
+      }
+
       const place = places[i]
       console.log(`\n📍 Processing place ${i + 1}/${places.length}`)
 
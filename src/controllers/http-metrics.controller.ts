@@ -0,0 +1,18 @@
+import { Request, Response } from 'express'
+import { getHttpMetrics, HttpMetricsReport } from '../services/http-client.service'
+
+/**
+ * Reports the requests, retries, failures and circuit state of each upstream API since the server started
+ */
+export async function getUpstreamHttpMetrics(
+  _req: Request,
+  res: Response<HttpMetricsReport | { error: string }>,
+): Promise<void> {
+  try {
+    res.status(200).json(getHttpMetrics())
+  } catch (error) {
+    console.error('❌ Error in getUpstreamHttpMetrics:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
@@ -0,0 +1,132 @@
+import { Request, Response } from 'express'
+import { getJobById, getJobItems, Job, JobItem, JobStatus, JobType, requestJobCancellation } from '../db/jobs'
+import { jobQueueService } from '../services/job-queue.service'
+import { Json } from '../types/database'
+
+export interface JobCreatedResponse {
+  jobId: string
+  type: JobType
+  status: string
+}
+
+export interface JobResponse {
+  job: Job
+  items: JobItem[]
+}
+
+/**
+ * Queues a job and responds with 202 Accepted and the job ID to poll
+ * Shared by the endpoints that run as background jobs
+ */
+export async function respondWithQueuedJob(
+  res: Response<JobCreatedResponse | { error: string }>,
+  type: JobType,
+  payload: Json,
+): Promise<void> {
+  const { job, error } = await jobQueueService.enqueue(type, payload)
+
+  if (error || !job) {
+    res.status(500).json({ error: error || 'Failed to create job' })
+    return
+  }
+
+  res.status(202).json({
+    jobId: job.id,
+    type,
+    status: job.status,
+  })
+}
+
+/**
+ * Returns a job with its progress, summary and per-item results
+ */
+export async function getJob(req: Request, res: Response<JobResponse | { error: string }>): Promise<void> {
+  try {
+    const { jobId } = req.params
+
+    if (!jobId) {
+      res.status(400).json({ error: 'Job ID is required' })
+      return
+    }
+
+    const { data: job, error } = await getJobById(jobId)
+
+    if (error || !job) {
+      if (!error || error.code === 'PGRST116') {
+        res.status(404).json({ error: `Job not found: ${jobId}` })
+      } else {
+        console.error('❌ Error fetching job:', error)
+        res.status(500).json({ error: `Database error: ${error.message}` })
+      }
+      return
+    }
+
+    const { data: items, error: itemsError } = await getJobItems(job.id)
+
+    if (itemsError) {
+      console.error('❌ Error fetching job items:', itemsError)
+      res.status(500).json({ error: `Database error: ${itemsError.message}` })
+      return
+    }
+
+    res.status(200).json({ job, items: items || [] })
+  } catch (error) {
+    console.error('❌ Error in getJob:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Cancels a job
+ * Queued jobs are cancelled immediately, running jobs stop before their next item
+ */
+export async function cancelJob(req: Request, res: Response<{ job: Job } | { error: string }>): Promise<void> {
+  try {
+    const { jobId } = req.params
+
+    if (!jobId) {
+      res.status(400).json({ error: 'Job ID is required' })
+      return
+    }
+
+    const { data: job, error } = await getJobById(jobId)
+
+    if (error || !job) {
+      if (!error || error.code === 'PGRST116') {
+        res.status(404).json({ error: `Job not found: ${jobId}` })
+      } else {
+        console.error('❌ Error fetching job:', error)
+        res.status(500).json({ error: `Database error: ${error.message}` })
+      }
+      return
+    }
+
+    if (job.status !== JobStatus.QUEUED && job.status !== JobStatus.RUNNING) {
+      res.status(409).json({ error: `Job is already ${job.status}` })
+      return
+    }
+
+    const { data: updatedJobs, error: updateError } = await requestJobCancellation(job.id)
+
+    if (updateError) {
+      console.error('❌ Error cancelling job:', updateError)
+      res.status(500).json({ error: `Database error: ${updateError.message}` })
+      return
+    }
+
+    // The job finished between the two queries
+    const updatedJob = updatedJobs?.[0]
+    if (!updatedJob) {
+      res.status(409).json({ error: 'Job is no longer queued or running' })
+      return
+    }
+
+    console.log(`🛑 Cancellation requested for job ${job.id}`)
+    res.status(200).json({ job: updatedJob })
+  } catch (error) {
+    console.error('❌ Error in cancelJob:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
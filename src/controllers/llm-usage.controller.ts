@@ -0,0 +1,48 @@
+import { Request, Response } from 'express'
+import {
+  getLlmUsageReport,
+  isValidReportDate,
+  LLM_USAGE_GROUP_BY,
+  LlmUsageReport,
+  parseLlmUsageGroupBy,
+} from '../services/llm-usage.service'
+
+/**
+ * Reports the LLM calls, tokens and cost between two days, grouped by day, task, department and/or model
+ */
+export async function getLlmUsage(req: Request, res: Response<LlmUsageReport | { error: string }>): Promise<void> {
+  try {
+    const from = typeof req.query.from === 'string' ? req.query.from : undefined
+    const to = typeof req.query.to === 'string' ? req.query.to : undefined
+    const groupBy = typeof req.query.groupBy === 'string' ? parseLlmUsageGroupBy(req.query.groupBy) : undefined
+
+    if ((from && !isValidReportDate(from)) || (to && !isValidReportDate(to))) {
+      res.status(400).json({ error: 'from and to must be dates in the YYYY-MM-DD format' })
+      return
+    }
+
+    if (from && to && from > to) {
+      res.status(400).json({ error: 'from must be before to' })
+      return
+    }
+
+    if (groupBy === null) {
+      res.status(400).json({ error: `groupBy must be a comma-separated list of: ${LLM_USAGE_GROUP_BY.join(', ')}` })
+      return
+    }
+
+    const { report, error } = await getLlmUsageReport({ from, to, groupBy })
+
+    if (error || !report) {
+      console.error('❌ Error fetching LLM usage:', error)
+      res.status(500).json({ error: `Database error: ${error}` })
+      return
+    }
+
+    res.status(200).json(report)
+  } catch (error) {
+    console.error('❌ Error in getLlmUsage:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
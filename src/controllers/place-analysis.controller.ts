@@ -1,4 +1,5 @@
 import { Request, Response } from 'express'
+import { LLM_BUDGET_EXCEEDED_ERROR } from '../services/llm-usage.service'
 import { analyzePlaceWebsiteCore } from '../services/website-analysis.service'
 import { analyzePlaceWikipediaCore } from '../services/wikipedia-analysis.service'
 
@@ -9,6 +10,8 @@ export interface PlaceAnalysisResponse {
   description: string
   mentionedPlaces: string[]
   scrapedPagesCount: number
+  blockedByRobots: boolean
+  renderedPagesCount: number
   error?: string
 }
 
@@ -49,6 +52,10 @@ export async function analyzePlaceWebsite(
     if (error) {
       if (error.includes('not found')) {
         res.status(404).json({ error })
+      } else if (result.blockedByRobots) {
+        res.status(422).json({ error })
+      } else if (error === LLM_BUDGET_EXCEEDED_ERROR) {
+        res.status(429).json({ error })
       } else if (error.includes('no website')) {
         res.status(400).json({ error })
       } else {
@@ -68,6 +75,8 @@ export async function analyzePlaceWebsite(
       description: result.description,
       mentionedPlaces: result.mentionedPlaces,
       scrapedPagesCount: result.scrapedPagesCount,
+      blockedByRobots: result.blockedByRobots,
+      renderedPagesCount: result.renderedPagesCount,
     }
 
     res.status(200).json(response)
@@ -108,6 +117,8 @@ export async function analyzePlaceWikipedia(
         res.status(404).json({ error })
       } else if (error.includes('No Wikipedia article')) {
         res.status(404).json({ error })
+      } else if (error === LLM_BUDGET_EXCEEDED_ERROR) {
+        res.status(429).json({ error })
       } else {
         res.status(500).json({ error })
       }
@@ -0,0 +1,214 @@
+import { Request, Response } from 'express'
+import { GeneratedPlaceWithSource, getGeneratedPlacesByPlaceId } from '../db/generated-places'
+import { PlacePhoto } from '../db/place-photos'
+import { getPlaceScoringContexts } from '../db/place-scoring'
+import { getPlaceVisitorFacts } from '../db/place-visitor-facts'
+import { getPlaceByIdWithPhotos } from '../db/places'
+import { calculatePlaceScore, isValidEnhancement, PlaceScoreCalculation } from '../services/score.service'
+import { PlaceVisitorFacts, resolveVisitorFacts } from '../services/visitor-facts.service'
+import { Json } from '../types/database'
+import { calculateGeometryCenter } from '../utils/common'
+import { getRequestLocale, Locale, pickLocalizedText, toLocalizedText } from '../utils/locale'
+
+export interface PlaceDetailResponse {
+  place: {
+    id: string
+    name: string | null
+    shortName: string | null
+    type: string | null
+    description: string | null
+    region: string | null
+    country: string | null
+    source: string | null
+    osmId: string | null
+    website: string | null
+    wikipediaQuery: string | null
+    metadata: Json | null
+    center: { lat: number; lon: number } | null
+    score: number
+    createdAt: string
+    updatedAt: string | null
+  }
+  photos: PlacePhoto[]
+  score: PlaceScoreCalculation
+  rating: {
+    googleRating: number | null
+    googleRatingCount: number | null
+    googleRatingFetchedAt: string | null
+    googlePlacesId: string | null
+  }
+  /** Language requested with `lang` or Accept-Language */
+  locale: Locale
+  enhancements: {
+    /**
+     * locale is the language of the summary, null for summaries generated before they were localized
+     * contentChangedAt is the last time change detection found the website content materially changed
+     */
+    website: {
+      summary: string | null
+      locale: Locale | null
+      mentionedPlaces: string[]
+      analyzedAt: string | null
+      contentChangedAt: string | null
+    }
+    wikipedia: { summary: string | null; locale: Locale | null; mentionedPlaces: string[]; analyzedAt: string | null }
+    reddit: { summary: string | null }
+    lastEnhancedAt: string | null
+  }
+  generatedPlaces: Array<{
+    id: string
+    name: string | null
+    description: string | null
+    status: string | null
+    source: { id: string; url: string; name: string | null } | null
+    createdAt: string
+  }>
+  visitorFacts: PlaceVisitorFacts
+}
+
+/**
+ * Returns the generated text only if it's a valid enhancement (not "not found" or NO_RELEVANT_INFO)
+ */
+function validEnhancementOrNull(field: string | null): string | null {
+  return isValidEnhancement(field) ? field : null
+}
+
+/**
+ * Generated summary in the requested language when available, else the single-language summary
+ */
+function localizedEnhancementOrNull(
+  localized: Json | null,
+  field: string | null,
+  locale: Locale,
+): { summary: string | null; locale: Locale | null } {
+  const localizedSummary = pickLocalizedText(toLocalizedText(localized), locale)
+  if (localizedSummary) {
+    return { summary: localizedSummary.text, locale: localizedSummary.locale }
+  }
+  return { summary: validEnhancementOrNull(field), locale: null }
+}
+
+function formatGeneratedPlace(
+  generatedPlace: GeneratedPlaceWithSource,
+): PlaceDetailResponse['generatedPlaces'][number] {
+  return {
+    id: generatedPlace.id,
+    name: generatedPlace.name,
+    description: generatedPlace.description,
+    status: generatedPlace.status,
+    source: generatedPlace.sources,
+    createdAt: generatedPlace.created_at,
+  }
+}
+
+/**
+ * Returns a place with its photos, score breakdown, ratings, generated summaries, linked generated places
+ * and visitor facts
+ */
+export async function getPlaceDetail(
+  req: Request,
+  res: Response<PlaceDetailResponse | { error: string }>,
+): Promise<void> {
+  try {
+    const { placeId } = req.params
+    const { locale, error: localeError } = getRequestLocale(req)
+
+    if (!placeId) {
+      res.status(400).json({ error: 'Place ID is required' })
+      return
+    }
+
+    if (localeError) {
+      res.status(400).json({ error: localeError })
+      return
+    }
+
+    const { data: place, error } = await getPlaceByIdWithPhotos(placeId)
+
+    if (error || !place) {
+      if (!error || error.code === 'PGRST116') {
+        res.status(404).json({ error: `Place not found: ${placeId}` })
+      } else {
+        console.error('❌ Error fetching place:', error)
+        res.status(500).json({ error: `Database error: ${error.message}` })
+      }
+      return
+    }
+
+    const { data: generatedPlaces, error: generatedPlacesError } = await getGeneratedPlacesByPlaceId(place.id)
+    if (generatedPlacesError) {
+      console.error('❌ Error fetching generated places:', generatedPlacesError)
+      res.status(500).json({ error: `Database error: ${generatedPlacesError.message}` })
+      return
+    }
+    const { data: scoringContexts, error: scoringContextsError } = await getPlaceScoringContexts([place.id])
+    if (scoringContextsError) {
+      console.error('❌ Error fetching place scoring context:', scoringContextsError)
+      res.status(500).json({ error: `Database error: ${scoringContextsError.message}` })
+      return
+    }
+    const { data: visitorFacts, error: visitorFactsError } = await getPlaceVisitorFacts(place.id)
+    if (visitorFactsError) {
+      // The place is still returned, without its facts
+      console.error('❌ Error fetching visitor facts:', visitorFactsError)
+    }
+    const { place_photos: photos = [], ...placeData } = place
+
+    const response: PlaceDetailResponse = {
+      place: {
+        id: placeData.id,
+        name: placeData.name,
+        shortName: placeData.short_name,
+        type: placeData.type,
+        description: placeData.description,
+        region: placeData.region,
+        country: placeData.country,
+        source: placeData.source,
+        osmId: placeData.osm_id,
+        website: placeData.website,
+        wikipediaQuery: placeData.wikipedia_query,
+        metadata: placeData.metadata,
+        center: calculateGeometryCenter(placeData.geometry),
+        score: placeData.score,
+        createdAt: placeData.created_at,
+        updatedAt: placeData.updated_at,
+      },
+      photos: [...photos].sort((a, b) => Number(b.is_primary) - Number(a.is_primary)),
+      score: calculatePlaceScore(placeData, scoringContexts?.get(place.id) || { photoCount: photos.length }),
+      rating: {
+        googleRating: placeData.google_rating,
+        googleRatingCount: placeData.google_rating_count,
+        googleRatingFetchedAt: placeData.google_rating_fetched_at,
+        googlePlacesId: placeData.google_places_id,
+      },
+      locale,
+      enhancements: {
+        website: {
+          ...localizedEnhancementOrNull(placeData.website_generated_localized, placeData.website_generated, locale),
+          mentionedPlaces: placeData.website_places_generated || [],
+          analyzedAt: placeData.last_website_analyzed_at,
+          contentChangedAt: placeData.website_changed_at,
+        },
+        wikipedia: {
+          ...localizedEnhancementOrNull(placeData.wikipedia_generated_localized, placeData.wikipedia_generated, locale),
+          mentionedPlaces: placeData.wikipedia_places_generated || [],
+          analyzedAt: placeData.last_wikipedia_analyzed_at,
+        },
+        reddit: {
+          summary: validEnhancementOrNull(placeData.reddit_generated),
+        },
+        lastEnhancedAt: placeData.last_enhanced_at,
+      },
+      generatedPlaces: (generatedPlaces || []).map(formatGeneratedPlace),
+      visitorFacts: resolveVisitorFacts(visitorFacts || []),
+    }
+
+    res.setHeader('Content-Language', locale)
+    res.setHeader('Vary', 'Accept-Language')
+    res.status(200).json(response)
+  } catch (error) {
+    console.error('❌ Error in getPlaceDetail:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
@@ -0,0 +1,43 @@
+import { Request, Response } from 'express'
+import { getPlaceById } from '../db/places'
+import { getRelatedPlaces, RelatedPlaces } from '../services/place-mentions.service'
+
+/**
+ * Returns the places related to a place through the mentions graph: the places its website or Wikipedia article
+ * mentions, and the places whose website or Wikipedia article mentions it
+ */
+export async function listRelatedPlaces(req: Request, res: Response<RelatedPlaces | { error: string }>): Promise<void> {
+  try {
+    const { placeId } = req.params
+
+    if (!placeId) {
+      res.status(400).json({ error: 'Place ID is required' })
+      return
+    }
+
+    const { data: place, error: placeError } = await getPlaceById(placeId)
+
+    if (placeError || !place) {
+      if (!placeError || placeError.code === 'PGRST116') {
+        res.status(404).json({ error: `Place not found: ${placeId}` })
+      } else {
+        console.error('❌ Error fetching place:', placeError)
+        res.status(500).json({ error: `Database error: ${placeError.message}` })
+      }
+      return
+    }
+
+    const { result, error } = await getRelatedPlaces(place.id)
+
+    if (error || !result) {
+      res.status(500).json({ error: error || 'Failed to fetch the related places' })
+      return
+    }
+
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('❌ Error in listRelatedPlaces:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
@@ -0,0 +1,208 @@
+import { Request, Response } from 'express'
+import { GeneratedPlace, getGeneratedPlaceById } from '../db/generated-places'
+import { getPlaceById } from '../db/places'
+import {
+  acceptReviewCandidate,
+  linkReviewToPlace,
+  listPendingReviews,
+  PendingReview,
+  rejectReview,
+  REVIEWABLE_STATUSES,
+} from '../services/place-review.service'
+import { VerificationStatus } from '../services/place-verification.service'
+
+// Each listed place triggers an OSM search, keep pages small
+const DEFAULT_REVIEW_LIMIT = 5
+const MAX_REVIEW_LIMIT = 20
+const DEFAULT_SCORE_BUMP = 2
+
+type ReviewResponse = Response<{ generatedPlaceId: string; status: string; placeId: string | null } | { error: string }>
+
+/**
+ * Fetches the generated place of a review request, responding with 404/409 if it can't be reviewed
+ * @returns The generated place, or null if a response was already sent
+ */
+async function getReviewableGeneratedPlace(req: Request, res: ReviewResponse): Promise<GeneratedPlace | null> {
+  const { generatedPlaceId } = req.params
+
+  if (!generatedPlaceId) {
+    res.status(400).json({ error: 'Generated place ID is required' })
+    return null
+  }
+
+  const { data: generatedPlace, error } = await getGeneratedPlaceById(generatedPlaceId)
+
+  if (error || !generatedPlace) {
+    if (!error || error.code === 'PGRST116') {
+      res.status(404).json({ error: `Generated place not found: ${generatedPlaceId}` })
+    } else {
+      console.error('❌ Error fetching generated place:', error)
+      res.status(500).json({ error: `Database error: ${error.message}` })
+    }
+    return null
+  }
+
+  if (!generatedPlace.status || !REVIEWABLE_STATUSES.includes(generatedPlace.status)) {
+    res.status(409).json({
+      error: `Generated place is not waiting for a review (status: ${generatedPlace.status || 'not verified yet'})`,
+    })
+    return null
+  }
+
+  return generatedPlace
+}
+
+function parseScoreBump(scoreBump: unknown): number | null {
+  if (scoreBump === undefined) return DEFAULT_SCORE_BUMP
+  const parsed = Number(scoreBump)
+  return isNaN(parsed) || parsed < 0 ? null : parsed
+}
+
+/**
+ * Lists the generated places that the verification couldn't match automatically, with their OSM alternatives
+ */
+export async function listGeneratedPlaceReviews(
+  req: Request,
+  res: Response<{ reviews: PendingReview[] } | { error: string }>,
+): Promise<void> {
+  try {
+    const status = req.query.status ? String(req.query.status) : undefined
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_REVIEW_LIMIT
+
+    if (status !== undefined && !REVIEWABLE_STATUSES.includes(status)) {
+      res.status(400).json({ error: `status must be one of: ${REVIEWABLE_STATUSES.join(', ')}` })
+      return
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_REVIEW_LIMIT) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_REVIEW_LIMIT}` })
+      return
+    }
+
+    const { reviews, error } = await listPendingReviews(status, limit)
+
+    if (error) {
+      res.status(500).json({ error })
+      return
+    }
+
+    res.status(200).json({ reviews })
+  } catch (error) {
+    console.error('❌ Error in listGeneratedPlaceReviews:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Accepts one of the OSM alternatives of a generated place, creating or bumping the real place
+ */
+export async function acceptGeneratedPlaceReview(req: Request, res: ReviewResponse): Promise<void> {
+  try {
+    const { osmId, scoreBump } = req.body || {}
+    const parsedOsmId = Number(osmId)
+    const parsedScoreBump = parseScoreBump(scoreBump)
+
+    if (!Number.isInteger(parsedOsmId) || parsedOsmId <= 0) {
+      res.status(400).json({ error: 'osmId must be a positive integer' })
+      return
+    }
+
+    if (parsedScoreBump === null) {
+      res.status(400).json({ error: 'scoreBump must be a non-negative number' })
+      return
+    }
+
+    const generatedPlace = await getReviewableGeneratedPlace(req, res)
+    if (!generatedPlace) return
+
+    const { placeId, notFound, error } = await acceptReviewCandidate(generatedPlace, parsedOsmId, parsedScoreBump)
+
+    if (notFound) {
+      res.status(404).json({ error: error! })
+      return
+    }
+
+    if (error || !placeId) {
+      res.status(500).json({ error: error || 'Failed to accept review' })
+      return
+    }
+
+    res.status(200).json({ generatedPlaceId: generatedPlace.id, status: VerificationStatus.ADDED, placeId })
+  } catch (error) {
+    console.error('❌ Error in acceptGeneratedPlaceReview:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Links a generated place to an existing real place
+ */
+export async function linkGeneratedPlaceReview(req: Request, res: ReviewResponse): Promise<void> {
+  try {
+    const { placeId, scoreBump } = req.body || {}
+    const parsedScoreBump = parseScoreBump(scoreBump)
+
+    if (!placeId || typeof placeId !== 'string') {
+      res.status(400).json({ error: 'placeId is required' })
+      return
+    }
+
+    if (parsedScoreBump === null) {
+      res.status(400).json({ error: 'scoreBump must be a non-negative number' })
+      return
+    }
+
+    const generatedPlace = await getReviewableGeneratedPlace(req, res)
+    if (!generatedPlace) return
+
+    const { data: place, error: placeError } = await getPlaceById(placeId)
+
+    if (placeError || !place) {
+      if (!placeError || placeError.code === 'PGRST116') {
+        res.status(404).json({ error: `Place not found: ${placeId}` })
+      } else {
+        console.error('❌ Error fetching place:', placeError)
+        res.status(500).json({ error: `Database error: ${placeError.message}` })
+      }
+      return
+    }
+
+    const { error } = await linkReviewToPlace(generatedPlace, place, parsedScoreBump)
+
+    if (error) {
+      res.status(500).json({ error })
+      return
+    }
+
+    res.status(200).json({ generatedPlaceId: generatedPlace.id, status: VerificationStatus.ADDED, placeId: place.id })
+  } catch (error) {
+    console.error('❌ Error in linkGeneratedPlaceReview:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Rejects a generated place so that it is no longer reviewed
+ */
+export async function rejectGeneratedPlaceReview(req: Request, res: ReviewResponse): Promise<void> {
+  try {
+    const generatedPlace = await getReviewableGeneratedPlace(req, res)
+    if (!generatedPlace) return
+
+    const { error } = await rejectReview(generatedPlace)
+
+    if (error) {
+      res.status(500).json({ error })
+      return
+    }
+
+    res.status(200).json({ generatedPlaceId: generatedPlace.id, status: VerificationStatus.REJECTED, placeId: null })
+  } catch (error) {
+    console.error('❌ Error in rejectGeneratedPlaceReview:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
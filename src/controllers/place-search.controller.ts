@@ -0,0 +1,269 @@
+import { PostgrestError } from '@supabase/supabase-js'
+import { Request, Response } from 'express'
+import { PlacePhoto } from '../db/place-photos'
+import {
+  PlaceInViewResult,
+  PlaceNearbyResult,
+  PlaceSearchPage,
+  searchPlacesByLocation,
+  searchPlacesInView,
+} from '../db/place-search'
+import { attachPhotosToPlaces } from '../db/places-with-photos'
+
+const DEFAULT_MAX_RESULTS = 200
+const MAX_RESULTS_LIMIT = 1000
+const DEFAULT_PAGE_SIZE = 50
+const MAX_PAGE_SIZE = 100
+const DEFAULT_RADIUS_KM = 10
+const MAX_RADIUS_KM = 200
+
+export interface PaginationInfo {
+  page: number
+  pageSize: number
+  total: number
+  totalPages: number
+  hasMore: boolean
+}
+
+export interface PlaceSearchResponse<T> {
+  places: Array<T & { photos?: PlacePhoto[] }>
+  pagination: PaginationInfo
+}
+
+interface PaginationParams {
+  page: number
+  pageSize: number
+  maxResults: number
+  minScore: number
+  types: string[]
+}
+
+/**
+ * Parses an optional numeric query parameter
+ * Returns undefined when missing, NaN when present but invalid
+ */
+function parseNumberParam(value: unknown): number | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  if (typeof value !== 'string') {
+    return NaN
+  }
+  return Number(value)
+}
+
+/**
+ * Parses the `types` filter, accepting a comma-separated list or repeated query parameters
+ */
+function parseTypesParam(value: unknown): string[] {
+  const rawValues = Array.isArray(value) ? value : [value]
+  return rawValues
+    .filter((v): v is string => typeof v === 'string')
+    .flatMap((v) => v.split(','))
+    .map((v) => v.trim())
+    .filter((v) => v.length > 0)
+}
+
+/**
+ * Parses the pagination and filter parameters shared by the search endpoints
+ */
+function parsePaginationParams(query: Request['query']): { params?: PaginationParams; error?: string } {
+  const page = parseNumberParam(query.page) ?? 1
+  const pageSize = parseNumberParam(query.page_size) ?? DEFAULT_PAGE_SIZE
+  const maxResults = parseNumberParam(query.max_results) ?? DEFAULT_MAX_RESULTS
+  const minScore = parseNumberParam(query.min_score) ?? 0
+
+  if (!Number.isInteger(page) || page < 1) {
+    return { error: 'page must be a positive integer' }
+  }
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+    return { error: `page_size must be an integer between 1 and ${MAX_PAGE_SIZE}` }
+  }
+  if (!Number.isInteger(maxResults) || maxResults < 1 || maxResults > MAX_RESULTS_LIMIT) {
+    return { error: `max_results must be an integer between 1 and ${MAX_RESULTS_LIMIT}` }
+  }
+  if (isNaN(minScore) || minScore < 0) {
+    return { error: 'min_score must be a non-negative number' }
+  }
+
+  return {
+    params: {
+      page,
+      pageSize,
+      maxResults,
+      minScore,
+      types: parseTypesParam(query.types),
+    },
+  }
+}
+
+/**
+ * Runs the search of the requested page in the database (at most maxResults places in total, pageSize per page,
+ * filtered by type), then attaches photos to the returned page
+ */
+async function searchPageWithPhotos<T extends { id: string }>(
+  search: (offset: number, limit: number) => Promise<{ data: PlaceSearchPage<T> | null; error: PostgrestError | null }>,
+  params: PaginationParams,
+): Promise<{ data: PlaceSearchResponse<T> | null; error: PostgrestError | null }> {
+  const offset = (params.page - 1) * params.pageSize
+  const limit = Math.min(params.pageSize, params.maxResults - offset)
+  let page: PlaceSearchPage<T> = { places: [], totalCount: 0 }
+
+  if (limit > 0) {
+    const { data, error } = await search(offset, limit)
+    if (error || !data) {
+      return { data: null, error }
+    }
+    page = data
+  }
+
+  // A page past the last result has no row to read the total from
+  if (page.places.length === 0 && params.page > 1) {
+    const { data, error } = await search(0, 1)
+    if (error || !data) {
+      return { data: null, error }
+    }
+    page = { places: [], totalCount: data.totalCount }
+  }
+
+  const total = Math.min(page.totalCount, params.maxResults)
+  const totalPages = Math.ceil(total / params.pageSize)
+
+  return {
+    data: {
+      places: await attachPhotosToPlaces(page.places),
+      pagination: {
+        page: params.page,
+        pageSize: params.pageSize,
+        total,
+        totalPages,
+        hasMore: params.page < totalPages,
+      },
+    },
+    error: null,
+  }
+}
+
+/**
+ * Searches places within a bounding box (map view)
+ */
+export async function searchPlaces(
+  req: Request,
+  res: Response<PlaceSearchResponse<PlaceInViewResult> | { error: string }>,
+): Promise<void> {
+  try {
+    const minLat = parseNumberParam(req.query.min_lat)
+    const minLong = parseNumberParam(req.query.min_long)
+    const maxLat = parseNumberParam(req.query.max_lat)
+    const maxLong = parseNumberParam(req.query.max_long)
+
+    if (minLat === undefined || minLong === undefined || maxLat === undefined || maxLong === undefined) {
+      res.status(400).json({ error: 'min_lat, min_long, max_lat and max_long are required' })
+      return
+    }
+
+    if ([minLat, minLong, maxLat, maxLong].some((v) => isNaN(v))) {
+      res.status(400).json({ error: 'Bounding box coordinates must be numbers' })
+      return
+    }
+
+    if (minLat < -90 || maxLat > 90 || minLong < -180 || maxLong > 180 || minLat > maxLat || minLong > maxLong) {
+      res.status(400).json({ error: 'Invalid bounding box' })
+      return
+    }
+
+    const { params, error: paramsError } = parsePaginationParams(req.query)
+    if (!params) {
+      res.status(400).json({ error: paramsError || 'Invalid parameters' })
+      return
+    }
+
+    const { data, error } = await searchPageWithPhotos(
+      (offset, limit) =>
+        searchPlacesInView({
+          minLat,
+          minLong,
+          maxLat,
+          maxLong,
+          minScore: params.minScore,
+          types: params.types,
+          offset,
+          limit,
+        }),
+      params,
+    )
+
+    if (error || !data) {
+      console.error('❌ Error searching places in view:', error)
+      res.status(500).json({ error: `Database error: ${error?.message}` })
+      return
+    }
+
+    res.status(200).json(data)
+  } catch (error) {
+    console.error('❌ Error in searchPlaces:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Searches places around a point, sorted by the database function (distance_km is included)
+ */
+export async function searchNearbyPlaces(
+  req: Request,
+  res: Response<PlaceSearchResponse<PlaceNearbyResult> | { error: string }>,
+): Promise<void> {
+  try {
+    const lat = parseNumberParam(req.query.lat)
+    const lng = parseNumberParam(req.query.lng)
+    const radiusKm = parseNumberParam(req.query.radius_km) ?? DEFAULT_RADIUS_KM
+
+    if (lat === undefined || lng === undefined) {
+      res.status(400).json({ error: 'lat and lng are required' })
+      return
+    }
+
+    if (isNaN(lat) || isNaN(lng) || lat < -90 || lat > 90 || lng < -180 || lng > 180) {
+      res.status(400).json({ error: 'lat and lng must be valid coordinates' })
+      return
+    }
+
+    if (isNaN(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM) {
+      res.status(400).json({ error: `radius_km must be a number between 0 and ${MAX_RADIUS_KM}` })
+      return
+    }
+
+    const { params, error: paramsError } = parsePaginationParams(req.query)
+    if (!params) {
+      res.status(400).json({ error: paramsError || 'Invalid parameters' })
+      return
+    }
+
+    const { data, error } = await searchPageWithPhotos(
+      (offset, limit) =>
+        searchPlacesByLocation({
+          lat,
+          lng,
+          radiusKm,
+          minScore: params.minScore,
+          types: params.types,
+          offset,
+          limit,
+        }),
+      params,
+    )
+
+    if (error || !data) {
+      console.error('❌ Error searching places by location:', error)
+      res.status(500).json({ error: `Database error: ${error?.message}` })
+      return
+    }
+
+    res.status(200).json(data)
+  } catch (error) {
+    console.error('❌ Error in searchNearbyPlaces:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
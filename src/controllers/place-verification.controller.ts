@@ -1,58 +1,34 @@
 import { Request, Response } from 'express'
-import { verifyPlacesCore, VerificationResult, VerificationStatus } from '../services/place-verification.service'
-
-export interface PlaceVerificationResponse {
-  results: VerificationResult[]
-  error?: string
-}
+import { VerifyPlacesJobPayload } from '../services/job-workers.service'
+import { JobCreatedResponse, respondWithQueuedJob } from './job.controller'
 
 /**
- * Verifies generated places by searching OSM and creating/updating real places
+ * Queues a verification job that searches OSM for generated places and creates/updates real places
  */
-export async function verifyPlaces(
-  req: Request,
-  res: Response<PlaceVerificationResponse | { error: string }>,
-): Promise<void> {
+export async function verifyPlaces(req: Request, res: Response<JobCreatedResponse | { error: string }>): Promise<void> {
   try {
     const { generatedPlaceId, scoreBump, limit } = req.body
 
-    console.log(`\n🔍 Starting place verification`)
-    if (generatedPlaceId) {
-      console.log(`   Generated Place ID: ${generatedPlaceId}`)
-    } else {
-      console.log(`   Verifying all generated places without status (sorted by oldest created_at)`)
-    }
-    if (scoreBump) {
-      console.log(`   Score bump: ${scoreBump}`)
-    }
-    if (limit) {
-      console.log(`   Limit: ${limit}`)
+    if (generatedPlaceId !== undefined && typeof generatedPlaceId !== 'string') {
+      res.status(400).json({ error: 'generatedPlaceId must be a string' })
+      return
     }
 
-    const { results, error } = await verifyPlacesCore({
-      generatedPlaceId,
-      scoreBump: scoreBump || 2,
-      limit: limit ? parseInt(String(limit), 10) : undefined,
-    })
-
-    if (error) {
-      res.status(500).json({ error })
+    const parsedLimit = limit ? parseInt(String(limit), 10) : undefined
+    if (parsedLimit !== undefined && (isNaN(parsedLimit) || parsedLimit < 1)) {
+      res.status(400).json({ error: 'limit must be a positive number' })
       return
     }
 
-    const verifiedCount = results.filter((r) => r.status === VerificationStatus.ADDED).length
-    console.log(`\n✅ Verification complete!`)
-    console.log(`📊 Verified ${verifiedCount}/${results.length} places`)
-
-    const response: PlaceVerificationResponse = {
-      results,
+    const payload: VerifyPlacesJobPayload = {
+      generatedPlaceId,
+      scoreBump: scoreBump ? Number(scoreBump) : 2,
+      limit: parsedLimit,
     }
-
-    res.status(200).json(response)
+    await respondWithQueuedJob(res, 'verify-places', { ...payload })
   } catch (error) {
     console.error('❌ Error in verifyPlaces:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     res.status(500).json({ error: `Internal server error: ${errorMessage}` })
   }
 }
-
@@ -0,0 +1,45 @@
+import { Request, Response } from 'express'
+import { DEFAULT_SCHEDULES, ScheduledTaskName } from '../config/scheduler.config'
+import { getScheduledRuns, ScheduledRun } from '../db/scheduled-runs'
+
+const DEFAULT_RUNS_LIMIT = 50
+const MAX_RUNS_LIMIT = 500
+
+/**
+ * Lists the most recent scheduler runs with their ProcessStats
+ */
+export async function listScheduledRuns(
+  req: Request,
+  res: Response<{ runs: ScheduledRun[] } | { error: string }>,
+): Promise<void> {
+  try {
+    const task = typeof req.query.task === 'string' ? req.query.task : undefined
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_RUNS_LIMIT
+
+    if (task && !(task in DEFAULT_SCHEDULES)) {
+      res.status(400).json({
+        error: `task must be one of: ${(Object.keys(DEFAULT_SCHEDULES) as ScheduledTaskName[]).join(', ')}`,
+      })
+      return
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_RUNS_LIMIT) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_RUNS_LIMIT}` })
+      return
+    }
+
+    const { data: runs, error } = await getScheduledRuns(task, limit)
+
+    if (error) {
+      console.error('❌ Error fetching scheduled runs:', error)
+      res.status(500).json({ error: `Database error: ${error.message}` })
+      return
+    }
+
+    res.status(200).json({ runs: runs || [] })
+  } catch (error) {
+    console.error('❌ Error in listScheduledRuns:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
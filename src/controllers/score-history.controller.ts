@@ -0,0 +1,55 @@
+import { Request, Response } from 'express'
+import { getPlaceScoreHistory, PlaceScoreHistoryEntry } from '../db/place-score-history'
+import { getPlaceById } from '../db/places'
+
+const DEFAULT_HISTORY_LIMIT = 50
+const MAX_HISTORY_LIMIT = 500
+
+/**
+ * Lists the score changes of a place, newest first, with the breakdown and trigger of each change
+ */
+export async function listPlaceScoreHistory(
+  req: Request,
+  res: Response<{ placeId: string; history: PlaceScoreHistoryEntry[] } | { error: string }>,
+): Promise<void> {
+  try {
+    const { placeId } = req.params
+    const limit = req.query.limit ? Number(req.query.limit) : DEFAULT_HISTORY_LIMIT
+
+    if (!placeId) {
+      res.status(400).json({ error: 'Place ID is required' })
+      return
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_HISTORY_LIMIT) {
+      res.status(400).json({ error: `limit must be an integer between 1 and ${MAX_HISTORY_LIMIT}` })
+      return
+    }
+
+    const { data: place, error: placeError } = await getPlaceById(placeId)
+
+    if (placeError || !place) {
+      if (!placeError || placeError.code === 'PGRST116') {
+        res.status(404).json({ error: `Place not found: ${placeId}` })
+      } else {
+        console.error('❌ Error fetching place:', placeError)
+        res.status(500).json({ error: `Database error: ${placeError.message}` })
+      }
+      return
+    }
+
+    const { data: history, error } = await getPlaceScoreHistory(place.id, limit)
+
+    if (error) {
+      console.error('❌ Error fetching score history:', error)
+      res.status(500).json({ error: `Database error: ${error.message}` })
+      return
+    }
+
+    res.status(200).json({ placeId: place.id, history: history || [] })
+  } catch (error) {
+    console.error('❌ Error in listPlaceScoreHistory:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
@@ -0,0 +1,114 @@
+import { Request, Response } from 'express'
+import { getPlaceById } from '../db/places'
+import {
+  getPlaceSources,
+  listSourceReputations,
+  PlaceSources,
+  setDomainTrustOverride,
+  SourceReputation,
+} from '../services/source-reputation.service'
+
+/**
+ * Lists the sources mentioning a place (their generated places were verified as the place), with their trust
+ */
+export async function listPlaceSources(req: Request, res: Response<PlaceSources | { error: string }>): Promise<void> {
+  try {
+    const { placeId } = req.params
+
+    if (!placeId) {
+      res.status(400).json({ error: 'Place ID is required' })
+      return
+    }
+
+    const { data: place, error: placeError } = await getPlaceById(placeId)
+
+    if (placeError || !place) {
+      if (!placeError || placeError.code === 'PGRST116') {
+        res.status(404).json({ error: `Place not found: ${placeId}` })
+      } else {
+        console.error('❌ Error fetching place:', placeError)
+        res.status(500).json({ error: `Database error: ${placeError.message}` })
+      }
+      return
+    }
+
+    const { result, error } = await getPlaceSources(place.id)
+
+    if (error || !result) {
+      res.status(500).json({ error: error || 'Failed to fetch the sources of the place' })
+      return
+    }
+
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('❌ Error in listPlaceSources:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Lists the reputation of the source domains: verified/rejected generated places, trust and manual overrides
+ */
+export async function getSourceReputations(
+  _req: Request,
+  res: Response<{ reputations: SourceReputation[] } | { error: string }>,
+): Promise<void> {
+  try {
+    const { reputations, error } = await listSourceReputations()
+
+    if (error) {
+      res.status(500).json({ error })
+      return
+    }
+
+    res.status(200).json({ reputations })
+  } catch (error) {
+    console.error('❌ Error in getSourceReputations:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Sets the manual trust override of a source domain, or clears it with a null trust
+ */
+export async function updateSourceTrust(
+  req: Request,
+  res: Response<SourceReputation | { error: string }>,
+): Promise<void> {
+  try {
+    const domain = String(req.params.domain || '')
+      .toLowerCase()
+      .replace(/^www\./, '')
+    const { trust, notes } = req.body || {}
+
+    if (!domain) {
+      res.status(400).json({ error: 'Domain is required' })
+      return
+    }
+
+    if (trust === undefined || (trust !== null && (typeof trust !== 'number' || trust < 0 || trust > 1))) {
+      res.status(400).json({ error: 'trust must be a number between 0 and 1, or null to clear the override' })
+      return
+    }
+
+    if (notes !== undefined && notes !== null && typeof notes !== 'string') {
+      res.status(400).json({ error: 'notes must be a string' })
+      return
+    }
+
+    const { reputation, error } = await setDomainTrustOverride(domain, trust, notes ?? null)
+
+    if (error || !reputation) {
+      res.status(500).json({ error: error || 'Failed to save the trust override' })
+      return
+    }
+
+    res.status(200).json(reputation)
+  } catch (error) {
+    console.error('❌ Error in updateSourceTrust:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
@@ -1,25 +1,15 @@
 import { Request, Response } from 'express'
-import { analyzeUrlsCore } from '../services/url-analysis.service'
-
-export interface UrlAnalysisResponse {
-  results: Array<{
-    sourceId: string
-    url: string
-    places: Array<{
-      name: string
-      description: string | null
-    }>
-  }>
-  error?: string
-}
+import { AnalyzeUrlsJobPayload, IngestSiteJobPayload } from '../services/job-workers.service'
+import { compileUrlPatterns, SITE_DISCOVERY_MODES, SiteDiscoveryMode } from '../services/site-ingestion.service'
+import { JobCreatedResponse, respondWithQueuedJob } from './job.controller'
+
+const MAX_SITE_DEPTH = 5
+const MAX_SITE_PAGES = 1000
 
 /**
- * Analyzes URLs and extracts nature places from them
+ * Queues a job that analyzes URLs and extracts nature places from them
  */
-export async function analyzeUrls(
-  req: Request,
-  res: Response<UrlAnalysisResponse | { error: string }>,
-): Promise<void> {
+export async function analyzeUrls(req: Request, res: Response<JobCreatedResponse | { error: string }>): Promise<void> {
   try {
     const { urls } = req.body
 
@@ -46,36 +36,102 @@ export async function analyzeUrls(
       return
     }
 
-    console.log(`\n🔍 Starting URL analysis for ${validUrls.length} URL(s)`)
-
     const bypassCache = req.query.bypassCache === 'true' || req.query.bypassCache === '1'
-    if (bypassCache) {
-      console.log(`🔄 Bypassing cache - will fetch fresh content`)
+
+    const payload: AnalyzeUrlsJobPayload = { urls: validUrls, bypassCache }
+    await respondWithQueuedJob(res, 'analyze-urls', { ...payload })
+  } catch (error) {
+    console.error('❌ Error in analyzeUrls:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Parses an optional positive integer parameter
+ * @returns The number, undefined when absent, or null when invalid
+ */
+function parseOptionalPositiveInt(value: unknown, { allowZero = false } = {}): number | undefined | null {
+  if (value === undefined || value === null || value === '') {
+    return undefined
+  }
+  const parsed = parseInt(String(value), 10)
+  return isNaN(parsed) || parsed < (allowZero ? 0 : 1) ? null : parsed
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
+
+/**
+ * Queues a job that discovers the pages of a travel site, creates a source per page and extracts their nature places
+ */
+export async function ingestSite(req: Request, res: Response<JobCreatedResponse | { error: string }>): Promise<void> {
+  try {
+    const { rootUrl, discovery, maxDepth, maxPages, includePatterns, excludePatterns } = req.body
+
+    if (!rootUrl || typeof rootUrl !== 'string') {
+      res.status(400).json({ error: 'rootUrl is required' })
+      return
+    }
+
+    try {
+      const parsed = new URL(rootUrl)
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+        throw new Error('Unsupported protocol')
+      }
+    } catch {
+      res.status(400).json({ error: 'rootUrl must be a valid http(s) URL' })
+      return
+    }
+
+    if (discovery !== undefined && !SITE_DISCOVERY_MODES.includes(discovery)) {
+      res.status(400).json({ error: `discovery must be one of: ${SITE_DISCOVERY_MODES.join(', ')}` })
+      return
     }
 
-    const { results, error } = await analyzeUrlsCore(validUrls, { bypassCache })
+    const parsedMaxDepth = parseOptionalPositiveInt(maxDepth, { allowZero: true })
+    if (parsedMaxDepth === null || (parsedMaxDepth !== undefined && parsedMaxDepth > MAX_SITE_DEPTH)) {
+      res.status(400).json({ error: `maxDepth must be a number between 0 and ${MAX_SITE_DEPTH}` })
+      return
+    }
 
-    if (error) {
-      res.status(500).json({ error })
+    const parsedMaxPages = parseOptionalPositiveInt(maxPages)
+    if (parsedMaxPages === null || (parsedMaxPages !== undefined && parsedMaxPages > MAX_SITE_PAGES)) {
+      res.status(400).json({ error: `maxPages must be a number between 1 and ${MAX_SITE_PAGES}` })
       return
     }
 
-    console.log(`\n✅ URL analysis complete!`)
-    console.log(`📊 Processed ${results.length} source(s), extracted ${results.reduce((sum, r) => sum + r.places.length, 0)} total places`)
+    if (
+      (includePatterns !== undefined && !isStringArray(includePatterns)) ||
+      (excludePatterns !== undefined && !isStringArray(excludePatterns))
+    ) {
+      res.status(400).json({ error: 'includePatterns and excludePatterns must be arrays of strings' })
+      return
+    }
 
-    const response: UrlAnalysisResponse = {
-      results: results.map((r) => ({
-        sourceId: r.sourceId,
-        url: r.url,
-        places: r.places,
-      })),
+    try {
+      compileUrlPatterns(includePatterns, excludePatterns)
+    } catch (error) {
+      res.status(400).json({ error: error instanceof Error ? error.message : 'Invalid URL pattern' })
+      return
     }
 
-    res.status(200).json(response)
+    const bypassCache = req.query.bypassCache === 'true' || req.query.bypassCache === '1'
+
+    const payload: IngestSiteJobPayload = {
+      rootUrl,
+      discovery: discovery as SiteDiscoveryMode | undefined,
+      maxDepth: parsedMaxDepth,
+      maxPages: parsedMaxPages,
+      includePatterns,
+      excludePatterns,
+      bypassCache,
+    }
+    await respondWithQueuedJob(res, 'ingest-site', { ...payload })
   } catch (error) {
-    console.error('❌ Error in analyzeUrls:', error)
+    console.error('❌ Error in ingestSite:', error)
     const errorMessage = error instanceof Error ? error.message : 'Unknown error'
     res.status(500).json({ error: `Internal server error: ${errorMessage}` })
   }
 }
-
@@ -0,0 +1,102 @@
+import { Request, Response } from 'express'
+import { getPlaceVisitorFacts, VISITOR_FACT_SOURCES, VisitorFactSource } from '../db/place-visitor-facts'
+import { getPlaceById } from '../db/places'
+import { LLM_BUDGET_EXCEEDED_ERROR } from '../services/llm-usage.service'
+import {
+  extractPlaceVisitorFactsCore,
+  PlaceVisitorFacts,
+  resolveVisitorFacts,
+  VisitorFactsExtractionResult,
+} from '../services/visitor-facts.service'
+
+/**
+ * Returns the visitor facts of a place (best time to visit, fees, hours, parking, duration, activities),
+ * each with its source, the quoted passage and the extraction confidence
+ */
+export async function listPlaceVisitorFacts(
+  req: Request,
+  res: Response<{ placeId: string; facts: PlaceVisitorFacts } | { error: string }>,
+): Promise<void> {
+  try {
+    const { placeId } = req.params
+
+    if (!placeId) {
+      res.status(400).json({ error: 'Place ID is required' })
+      return
+    }
+
+    const { data: place, error: placeError } = await getPlaceById(placeId)
+
+    if (placeError || !place) {
+      if (!placeError || placeError.code === 'PGRST116') {
+        res.status(404).json({ error: `Place not found: ${placeId}` })
+      } else {
+        console.error('❌ Error fetching place:', placeError)
+        res.status(500).json({ error: `Database error: ${placeError.message}` })
+      }
+      return
+    }
+
+    const { data: rows, error } = await getPlaceVisitorFacts(place.id)
+
+    if (error) {
+      console.error('❌ Error fetching visitor facts:', error)
+      res.status(500).json({ error: `Database error: ${error.message}` })
+      return
+    }
+
+    res.status(200).json({ placeId: place.id, facts: resolveVisitorFacts(rows || []) })
+  } catch (error) {
+    console.error('❌ Error in listPlaceVisitorFacts:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
+
+/**
+ * Extracts the visitor facts of a place from its cached website and Wikipedia content using AI
+ */
+export async function extractPlaceVisitorFacts(
+  req: Request,
+  res: Response<VisitorFactsExtractionResult | { error: string }>,
+): Promise<void> {
+  try {
+    const { placeId } = req.params
+    const source = req.query.source as string | undefined
+
+    if (!placeId) {
+      res.status(400).json({ error: 'Place ID is required' })
+      return
+    }
+
+    if (source !== undefined && !VISITOR_FACT_SOURCES.includes(source as VisitorFactSource)) {
+      res.status(400).json({ error: `source must be one of: ${VISITOR_FACT_SOURCES.join(', ')}` })
+      return
+    }
+
+    console.log(`\n🔍 Starting visitor facts extraction for place ID: ${placeId}`)
+
+    const { result, error } = await extractPlaceVisitorFactsCore(placeId, {
+      sources: source ? [source as VisitorFactSource] : undefined,
+    })
+
+    if (error || !result) {
+      if (error?.includes('not found')) {
+        res.status(404).json({ error })
+      } else if (error?.includes('no cached')) {
+        res.status(400).json({ error })
+      } else if (error === LLM_BUDGET_EXCEEDED_ERROR) {
+        res.status(429).json({ error })
+      } else {
+        res.status(500).json({ error: error || 'Failed to extract visitor facts' })
+      }
+      return
+    }
+
+    res.status(200).json(result)
+  } catch (error) {
+    console.error('❌ Error in extractPlaceVisitorFacts:', error)
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    res.status(500).json({ error: `Internal server error: ${errorMessage}` })
+  }
+}
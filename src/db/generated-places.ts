@@ -1,7 +1,8 @@
-import { PostgrestSingleResponse } from '@supabase/supabase-js'
+import { PostgrestError, PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
 import { randomUUID } from 'crypto'
 import { supabase } from '../services/supabase.service'
 import { Tables } from '../types/database'
+import { Source } from './sources'
 
 export type GeneratedPlace = Tables<'generated_places'>
 
@@ -9,6 +10,9 @@ export interface GeneratedPlaceInput {
   name: string
   description: string | null
   source_id: string
+  place_type?: string | null
+  location_text?: string | null
+  confidence?: number | null
 }
 
 /**
@@ -35,6 +39,9 @@ export async function getOrCreateGeneratedPlace(
       .from('generated_places')
       .update({
         description: place.description,
+        place_type: place.place_type,
+        location_text: place.location_text,
+        confidence: place.confidence,
         updated_at: new Date().toISOString(),
       })
       .eq('source_id', place.source_id)
@@ -60,6 +67,9 @@ export async function getOrCreateGeneratedPlace(
       name: place.name,
       description: place.description,
       source_id: place.source_id,
+      place_type: place.place_type,
+      location_text: place.location_text,
+      confidence: place.confidence,
     })
     .select()
     .single()
@@ -95,15 +105,82 @@ export async function batchGetOrCreateGeneratedPlaces(places: GeneratedPlaceInpu
 /**
  * Get all generated places for a source
  */
-export async function getGeneratedPlacesBySourceId(sourceId: string): Promise<GeneratedPlace[]> {
-  const { data, error } = await supabase.from('generated_places').select('*').eq('source_id', sourceId)
+export async function getGeneratedPlacesBySourceId(sourceId: string): Promise<PostgrestResponse<GeneratedPlace>> {
+  return supabase.from('generated_places').select('*').eq('source_id', sourceId)
+}
+
+/**
+ * Get a generated place by ID
+ */
+export async function getGeneratedPlaceById(id: string): Promise<PostgrestSingleResponse<GeneratedPlace>> {
+  return supabase.from('generated_places').select('*').eq('id', id).single()
+}
+
+/**
+ * Get generated places with one of the given statuses and their source, oldest first
+ */
+export async function getGeneratedPlacesByStatus(
+  statuses: string[],
+  limit: number,
+): Promise<PostgrestResponse<GeneratedPlaceWithSource>> {
+  return supabase
+    .from('generated_places')
+    .select('*, sources(id, url, name)')
+    .in('status', statuses)
+    .order('created_at', { ascending: true })
+    .limit(limit)
+}
+
+/**
+ * Get the geometries of the real places linked to the generated places of a source (i.e. its verified places)
+ */
+export async function getLinkedPlaceGeometriesBySourceId(sourceId: string): Promise<unknown[]> {
+  const { data, error } = await supabase
+    .from('generated_places')
+    .select('places(geometry)')
+    .eq('source_id', sourceId)
+    .not('place_id', 'is', null)
 
   if (error) {
-    console.error(`❌ Error fetching generated places for source ${sourceId}:`, error)
+    console.error(`❌ Error fetching verified places for source ${sourceId}:`, error)
     return []
   }
 
-  return data || []
+  return (data || []).map((row) => row.places?.geometry).filter((geometry) => !!geometry)
+}
+
+const SOURCE_IDS_PAGE_SIZE = 1000
+
+/**
+ * Get the IDs of the sources that have generated places linked to a real place (i.e. verified places)
+ */
+export async function getVerifiedGeneratedPlaceSourceIds(): Promise<{
+  sourceIds: string[]
+  error: PostgrestError | null
+}> {
+  const sourceIds = new Set<string>()
+
+  for (let from = 0; ; from += SOURCE_IDS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('generated_places')
+      .select('source_id')
+      .not('place_id', 'is', null)
+      .not('source_id', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + SOURCE_IDS_PAGE_SIZE - 1)
+
+    if (error) {
+      return { sourceIds: [], error }
+    }
+
+    for (const row of data || []) {
+      sourceIds.add(row.source_id!)
+    }
+
+    if (!data || data.length < SOURCE_IDS_PAGE_SIZE) {
+      return { sourceIds: [...sourceIds], error: null }
+    }
+  }
 }
 
 /**
@@ -111,11 +188,7 @@ export async function getGeneratedPlacesBySourceId(sourceId: string): Promise<Ge
  * @param limit Optional limit on number of places to return
  */
 export async function getGeneratedPlacesWithoutStatus(limit?: number): Promise<GeneratedPlace[]> {
-  let query = supabase
-    .from('generated_places')
-    .select('*')
-    .is('status', null)
-    .order('created_at', { ascending: true })
+  let query = supabase.from('generated_places').select('*').is('status', null).order('created_at', { ascending: true })
 
   if (limit) {
     query = query.limit(limit)
@@ -145,3 +218,20 @@ export async function updateGeneratedPlace(
     .select()
     .single()
 }
+
+export interface GeneratedPlaceWithSource extends GeneratedPlace {
+  sources: Pick<Source, 'id' | 'url' | 'name'> | null
+}
+
+/**
+ * Get all generated places linked to a real place, with their source
+ */
+export async function getGeneratedPlacesByPlaceId(
+  placeId: string,
+): Promise<PostgrestResponse<GeneratedPlaceWithSource>> {
+  return supabase
+    .from('generated_places')
+    .select('*, sources(id, url, name)')
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: true })
+}
@@ -0,0 +1,163 @@
+import { PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Json, Tables } from '../types/database'
+
+export type Job = Tables<'jobs'>
+export type JobItem = Tables<'job_items'>
+
+export type JobType = 'fetch-photos' | 'fetch-ratings' | 'verify-places' | 'analyze-urls' | 'ingest-site'
+
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+  CANCELLED = 'cancelled',
+}
+
+export interface CreateJobItemInput {
+  job_id: string
+  item_index: number
+  item_id: string | null
+  status: string
+  result: Json | null
+  error?: string | null
+}
+
+/**
+ * Create a new queued job
+ */
+export async function createJob(type: JobType, payload: Json): Promise<PostgrestSingleResponse<Job>> {
+  return supabase.from('jobs').insert({ type, payload, status: JobStatus.QUEUED }).select().single()
+}
+
+/**
+ * Get a job by ID
+ */
+export async function getJobById(id: string): Promise<PostgrestSingleResponse<Job>> {
+  return supabase.from('jobs').select('*').eq('id', id).single()
+}
+
+/**
+ * Get the per-item results of a job, in processing order
+ */
+export async function getJobItems(jobId: string): Promise<PostgrestResponse<JobItem>> {
+  return supabase.from('job_items').select('*').eq('job_id', jobId).order('item_index', { ascending: true })
+}
+
+/**
+ * Update a job
+ */
+export async function updateJob(id: string, updates: Partial<Job>): Promise<PostgrestSingleResponse<Job>> {
+  return supabase
+    .from('jobs')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+}
+
+/**
+ * Claim the oldest queued job by moving it to running
+ * The status check in the update makes the claim safe if several workers poll the table
+ * @returns The claimed job, or null if no job is waiting
+ */
+export async function claimNextQueuedJob(): Promise<Job | null> {
+  const { data: queuedJobs, error } = await supabase
+    .from('jobs')
+    .select('id')
+    .eq('status', JobStatus.QUEUED)
+    .order('created_at', { ascending: true })
+    .limit(1)
+
+  if (error) {
+    console.error('❌ Error fetching queued jobs:', error)
+    return null
+  }
+
+  if (!queuedJobs || queuedJobs.length === 0) {
+    return null
+  }
+
+  const now = new Date().toISOString()
+  const { data: claimedJobs, error: claimError } = await supabase
+    .from('jobs')
+    .update({ status: JobStatus.RUNNING, started_at: now, heartbeat_at: now, updated_at: now })
+    .eq('id', queuedJobs[0].id)
+    .eq('status', JobStatus.QUEUED)
+    .select()
+
+  if (claimError) {
+    console.error('❌ Error claiming job:', claimError)
+    return null
+  }
+
+  return claimedJobs && claimedJobs.length > 0 ? claimedJobs[0] : null
+}
+
+/**
+ * Record that the server running a job is still alive
+ */
+export async function touchJobHeartbeat(id: string): Promise<PostgrestSingleResponse<null>> {
+  return supabase.from('jobs').update({ heartbeat_at: new Date().toISOString() }).eq('id', id)
+}
+
+/**
+ * Put running jobs whose heartbeat is older than staleTimeoutMs (their server stopped) back in the queue
+ * Jobs with a recent heartbeat are being processed by a live server and are left alone
+ * Their existing items are cleared since the job restarts from the beginning
+ */
+export async function requeueStaleJobs(staleTimeoutMs: number): Promise<number> {
+  const staleBefore = new Date(Date.now() - staleTimeoutMs).toISOString()
+  const { data: staleJobs, error } = await supabase
+    .from('jobs')
+    .update({ status: JobStatus.QUEUED, progress_current: 0, updated_at: new Date().toISOString() })
+    .eq('status', JobStatus.RUNNING)
+    .or(`heartbeat_at.is.null,heartbeat_at.lt.${staleBefore}`)
+    .select('id')
+
+  if (error) {
+    console.error('❌ Error requeuing stale jobs:', error)
+    return 0
+  }
+
+  const jobIds = (staleJobs || []).map((job) => job.id)
+  if (jobIds.length > 0) {
+    await supabase.from('job_items').delete().in('job_id', jobIds)
+  }
+
+  return jobIds.length
+}
+
+/**
+ * Cancel a queued job, or request the cancellation of a running job
+ * The status checks in the updates make it safe if a worker claims or finishes the job at the same time
+ * @returns The updated job, none if the job is no longer queued or running
+ */
+export async function requestJobCancellation(id: string): Promise<PostgrestResponse<Job>> {
+  const now = new Date().toISOString()
+  const cancelled = await supabase
+    .from('jobs')
+    .update({ status: JobStatus.CANCELLED, cancel_requested: true, finished_at: now, updated_at: now })
+    .eq('id', id)
+    .eq('status', JobStatus.QUEUED)
+    .select()
+
+  if (cancelled.error || (cancelled.data && cancelled.data.length > 0)) {
+    return cancelled
+  }
+
+  return supabase
+    .from('jobs')
+    .update({ cancel_requested: true, updated_at: now })
+    .eq('id', id)
+    .eq('status', JobStatus.RUNNING)
+    .select()
+}
+
+/**
+ * Record the result of a single processed item
+ */
+export async function createJobItem(item: CreateJobItemInput): Promise<PostgrestSingleResponse<JobItem>> {
+  return supabase.from('job_items').insert(item).select().single()
+}
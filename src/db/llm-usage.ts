@@ -0,0 +1,53 @@
+import { PostgrestError, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Database, Tables, TablesInsert } from '../types/database'
+
+export type LlmUsageEntry = Tables<'llm_usage'>
+export type LlmUsageReportRow = Database['public']['Functions']['get_llm_usage_report']['Returns'][number]
+
+/**
+ * Record an LLM call
+ */
+export async function createLlmUsageEntry(
+  entry: TablesInsert<'llm_usage'>,
+): Promise<PostgrestSingleResponse<LlmUsageEntry>> {
+  return supabase.from('llm_usage').insert(entry).select().single()
+}
+
+// PostgREST returns at most 1000 rows per request
+const REPORT_ROWS_PAGE_SIZE = 1000
+
+/**
+ * Get the usage aggregated by day, task, department and model between two dates (YYYY-MM-DD, inclusive)
+ * using the get_llm_usage_report database function, one page at a time
+ */
+export async function getLlmUsageReportRows(
+  fromDate: string,
+  toDate: string,
+): Promise<{ data: LlmUsageReportRow[] | null; error: PostgrestError | null }> {
+  const rows: LlmUsageReportRow[] = []
+
+  for (let from = 0; ; from += REPORT_ROWS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('get_llm_usage_report', { from_date: fromDate, to_date: toDate })
+      .range(from, from + REPORT_ROWS_PAGE_SIZE - 1)
+
+    if (error) {
+      return { data: null, error }
+    }
+
+    rows.push(...(data || []))
+
+    if (!data || data.length < REPORT_ROWS_PAGE_SIZE) {
+      return { data: rows, error: null }
+    }
+  }
+}
+
+/**
+ * Get the cost in USD of the LLM calls between two dates (YYYY-MM-DD, inclusive)
+ * using the get_llm_spend database function
+ */
+export async function getLlmSpend(fromDate: string, toDate: string): Promise<PostgrestSingleResponse<number>> {
+  return supabase.rpc('get_llm_spend', { from_date: fromDate, to_date: toDate })
+}
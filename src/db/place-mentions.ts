@@ -0,0 +1,46 @@
+import { PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Tables, TablesInsert } from '../types/database'
+
+export type PlaceMention = Tables<'place_mentions'>
+
+/**
+ * Create or update mention edges, one per generated place
+ */
+export async function upsertPlaceMentions(
+  mentions: TablesInsert<'place_mentions'>[],
+): Promise<PostgrestResponse<PlaceMention>> {
+  return supabase.from('place_mentions').upsert(mentions, { onConflict: 'generated_place_id' }).select()
+}
+
+/**
+ * Delete mention edges by ID
+ */
+export async function deletePlaceMentions(ids: string[]): Promise<PostgrestSingleResponse<null>> {
+  return supabase.from('place_mentions').delete().in('id', ids)
+}
+
+/**
+ * Get the mention edges recorded for the generated places of a source
+ */
+export async function getPlaceMentionsBySourceId(sourceId: string): Promise<PostgrestResponse<PlaceMention>> {
+  return supabase.from('place_mentions').select('*').eq('source_id', sourceId)
+}
+
+/**
+ * Get the mention edges of a place, in both directions: the places it mentions and the places mentioning it
+ */
+export async function getPlaceMentionsOfPlace(placeId: string): Promise<PostgrestResponse<PlaceMention>> {
+  return supabase
+    .from('place_mentions')
+    .select('*')
+    .or(`place_id.eq.${placeId},mentioned_place_id.eq.${placeId}`)
+    .order('created_at', { ascending: true })
+}
+
+/**
+ * Get the mention edges from any of the given places: the places they mention
+ */
+export async function getPlaceMentionsFromPlaces(placeIds: string[]): Promise<PostgrestResponse<PlaceMention>> {
+  return supabase.from('place_mentions').select('*').in('place_id', placeIds)
+}
@@ -0,0 +1,59 @@
+import { PostgrestError, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Database, Json, Tables, TablesInsert } from '../types/database'
+import { Place } from './places'
+
+export type PlaceMerge = Tables<'place_merges'>
+
+export type PlaceDedupCandidate = Database['public']['Functions']['get_place_dedup_candidates']['Returns'][number]
+
+// PostgREST returns at most 1000 rows per request
+const DEDUP_CANDIDATES_PAGE_SIZE = 1000
+
+/**
+ * Get the candidate duplicate pairs (places from different sources close to each other, with similar names)
+ * using the get_place_dedup_candidates database function, one page at a time
+ */
+export async function getPlaceDedupCandidates(
+  maxDistanceM: number,
+  minNameSimilarity: number,
+): Promise<{ data: PlaceDedupCandidate[] | null; error: PostgrestError | null }> {
+  const candidates: PlaceDedupCandidate[] = []
+
+  for (let from = 0; ; from += DEDUP_CANDIDATES_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('get_place_dedup_candidates', { max_distance_m: maxDistanceM, min_name_similarity: minNameSimilarity })
+      .order('place_id', { ascending: true })
+      .order('other_place_id', { ascending: true })
+      .range(from, from + DEDUP_CANDIDATES_PAGE_SIZE - 1)
+
+    if (error) {
+      return { data: null, error }
+    }
+
+    candidates.push(...(data || []))
+
+    if (!data || data.length < DEDUP_CANDIDATES_PAGE_SIZE) {
+      return { data: candidates, error: null }
+    }
+  }
+}
+
+/**
+ * Merge places into their canonical place in a single transaction using the merge_places database function:
+ * moves their generated places, mentions, visitor facts, score history and (when the canonical place has none)
+ * photos, records the merges, deletes the merged places and applies the updates to the canonical place
+ */
+export async function mergePlaces(
+  canonicalPlaceId: string,
+  mergedPlaceIds: string[],
+  merges: Omit<TablesInsert<'place_merges'>, 'canonical_place_id'>[],
+  canonicalUpdates: Partial<Place>,
+): Promise<PostgrestSingleResponse<undefined>> {
+  return supabase.rpc('merge_places', {
+    canonical_id: canonicalPlaceId,
+    duplicate_ids: mergedPlaceIds,
+    merges: merges as Json,
+    canonical_updates: canonicalUpdates as Json,
+  })
+}
@@ -0,0 +1,44 @@
+import { PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Tables, TablesInsert } from '../types/database'
+
+export type PlaceScoreHistoryEntry = Tables<'place_score_history'>
+
+/**
+ * What caused a place score change
+ */
+export enum ScoreChangeTrigger {
+  RECALCULATE_SCORES = 'recalculate-scores',
+  ENHANCEMENT = 'enhancement',
+  WEBSITE_ANALYSIS = 'website-analysis',
+  WIKIPEDIA_ANALYSIS = 'wikipedia-analysis',
+  VERIFICATION = 'verification',
+  RATINGS = 'ratings',
+  PHOTOS = 'photos',
+  DEDUPLICATION = 'deduplication',
+  MENTIONS = 'mentions',
+}
+
+/**
+ * Record a place score change
+ */
+export async function createScoreHistoryEntry(
+  entry: TablesInsert<'place_score_history'>,
+): Promise<PostgrestSingleResponse<PlaceScoreHistoryEntry>> {
+  return supabase.from('place_score_history').insert(entry).select().single()
+}
+
+/**
+ * Get the score changes of a place, newest first
+ */
+export async function getPlaceScoreHistory(
+  placeId: string,
+  limit: number = 50,
+): Promise<PostgrestResponse<PlaceScoreHistoryEntry>> {
+  return supabase
+    .from('place_score_history')
+    .select('*')
+    .eq('place_id', placeId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+}
@@ -0,0 +1,46 @@
+import { PostgrestError } from '@supabase/supabase-js'
+import { SCORING_CONFIG } from '../config/scoring.config'
+import { PlaceScoreContext } from '../services/score.service'
+import { supabase } from '../services/supabase.service'
+
+// PostgREST returns at most 1000 rows per request
+const SCORING_CONTEXT_PAGE_SIZE = 1000
+
+/**
+ * Get the scoring context (area, protected-area membership, photo count, mentions) of places
+ * using the get_place_scoring_context database function, one page at a time
+ * @param placeIds The places to get the context for, or undefined for all places
+ * @returns Map of place ID to scoring context (places missing from the map have no context)
+ */
+export async function getPlaceScoringContexts(
+  placeIds?: string[],
+): Promise<{ data: Map<string, PlaceScoreContext> | null; error: PostgrestError | null }> {
+  const contexts = new Map<string, PlaceScoreContext>()
+
+  for (let from = 0; ; from += SCORING_CONTEXT_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .rpc('get_place_scoring_context', {
+        place_ids: placeIds,
+        protected_area_types: SCORING_CONFIG.protectedArea.protectedAreaTypes,
+      })
+      .order('place_id', { ascending: true })
+      .range(from, from + SCORING_CONTEXT_PAGE_SIZE - 1)
+
+    if (error) {
+      return { data: null, error }
+    }
+
+    for (const row of data || []) {
+      contexts.set(row.place_id, {
+        areaM2: row.area_m2,
+        inProtectedArea: row.in_protected_area,
+        photoCount: row.photo_count,
+        mentionedByCount: row.mentioned_by_count,
+      })
+    }
+
+    if (!data || data.length < SCORING_CONTEXT_PAGE_SIZE) {
+      return { data: contexts, error: null }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { PostgrestError } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Database } from '../types/database'
+
+type DatabaseFunctions = Database['public']['Functions']
+
+export type PlaceInViewResult = Omit<DatabaseFunctions['search_places_in_view']['Returns'][number], 'total_count'>
+export type PlaceNearbyResult = Omit<DatabaseFunctions['search_places_by_location']['Returns'][number], 'total_count'>
+
+/**
+ * A page of search results, with the number of places matching the search (0 when the page is empty)
+ */
+export interface PlaceSearchPage<T> {
+  places: T[]
+  totalCount: number
+}
+
+interface PlaceSearchPageParams {
+  minScore: number
+  /** Only places of these types, all types when empty */
+  types: string[]
+  offset: number
+  limit: number
+}
+
+export interface SearchPlacesInViewParams extends PlaceSearchPageParams {
+  minLat: number
+  minLong: number
+  maxLat: number
+  maxLong: number
+}
+
+export interface SearchPlacesByLocationParams extends PlaceSearchPageParams {
+  lat: number
+  lng: number
+  radiusKm: number
+}
+
+function toSearchPage<T extends { total_count: number }>(rows: T[] | null): PlaceSearchPage<Omit<T, 'total_count'>> {
+  const places = (rows || []).map((row) => {
+    const place: Partial<T> = { ...row }
+    delete place.total_count
+    return place as Omit<T, 'total_count'>
+  })
+
+  return { places, totalCount: rows?.[0]?.total_count ?? 0 }
+}
+
+/**
+ * Search a page of the places inside a bounding box using the search_places_in_view database function
+ */
+export async function searchPlacesInView(
+  params: SearchPlacesInViewParams,
+): Promise<{ data: PlaceSearchPage<PlaceInViewResult> | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase.rpc('search_places_in_view', {
+    min_lat: params.minLat,
+    min_long: params.minLong,
+    max_lat: params.maxLat,
+    max_long: params.maxLong,
+    min_score: params.minScore,
+    place_types: params.types.length > 0 ? params.types : undefined,
+    result_offset: params.offset,
+    max_results: params.limit,
+  })
+
+  return error ? { data: null, error } : { data: toSearchPage(data), error: null }
+}
+
+/**
+ * Search a page of the places around a point using the search_places_by_location database function
+ * Results include the distance to the search point (distance_km)
+ */
+export async function searchPlacesByLocation(
+  params: SearchPlacesByLocationParams,
+): Promise<{ data: PlaceSearchPage<PlaceNearbyResult> | null; error: PostgrestError | null }> {
+  const { data, error } = await supabase.rpc('search_places_by_location', {
+    search_lat: params.lat,
+    search_lng: params.lng,
+    radius_km: params.radiusKm,
+    min_score: params.minScore,
+    place_types: params.types.length > 0 ? params.types : undefined,
+    result_offset: params.offset,
+    result_limit: params.limit,
+  })
+
+  return error ? { data: null, error } : { data: toSearchPage(data), error: null }
+}
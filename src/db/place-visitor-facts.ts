@@ -0,0 +1,79 @@
+import { PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Tables, TablesInsert } from '../types/database'
+
+export type PlaceVisitorFact = Tables<'place_visitor_facts'>
+
+/**
+ * Visitor facts extracted from the content of a place, named after the saved_places fields they fill
+ */
+export const VISITOR_FACT_KEYS = [
+  'best_time_to_visit',
+  'entrance_fee',
+  'operating_hours',
+  'parking_info',
+  'estimated_activity_duration',
+  'activity',
+] as const
+
+export type VisitorFactKey = (typeof VISITOR_FACT_KEYS)[number]
+
+/**
+ * Content the facts are extracted from: website_raw or wikipedia_raw
+ */
+export type VisitorFactSource = 'website' | 'wikipedia'
+
+export const VISITOR_FACT_SOURCES: VisitorFactSource[] = ['website', 'wikipedia']
+
+/**
+ * Get the visitor facts of a place, from all sources
+ */
+export async function getPlaceVisitorFacts(placeId: string): Promise<PostgrestResponse<PlaceVisitorFact>> {
+  return supabase
+    .from('place_visitor_facts')
+    .select('*')
+    .eq('place_id', placeId)
+    .order('fact', { ascending: true })
+    .order('confidence', { ascending: false })
+}
+
+/**
+ * Replace the visitor facts a source gave for a place, so facts no longer found in its content are removed
+ * The new facts are saved first and the stale ones deleted after, so a failed save keeps the previous facts
+ */
+export async function replacePlaceVisitorFacts(
+  placeId: string,
+  source: VisitorFactSource,
+  facts: Omit<TablesInsert<'place_visitor_facts'>, 'place_id' | 'source'>[],
+): Promise<PostgrestSingleResponse<PlaceVisitorFact[]>> {
+  let saved: PlaceVisitorFact[] = []
+
+  if (facts.length > 0) {
+    const extractedAt = new Date().toISOString()
+    const { data, error } = await supabase
+      .from('place_visitor_facts')
+      .upsert(
+        facts.map((fact) => ({ extracted_at: extractedAt, ...fact, place_id: placeId, source })),
+        { onConflict: 'place_id,fact,source' },
+      )
+      .select()
+
+    if (error) {
+      return { data: null, error } as PostgrestSingleResponse<PlaceVisitorFact[]>
+    }
+    saved = data || []
+  }
+
+  let staleQuery = supabase.from('place_visitor_facts').delete().eq('place_id', placeId).eq('source', source)
+  if (facts.length > 0) {
+    staleQuery = staleQuery.not('fact', 'in', `(${facts.map((fact) => fact.fact).join(',')})`)
+  }
+
+  const { error } = await staleQuery
+
+  if (error) {
+    return { data: null, error } as PostgrestSingleResponse<PlaceVisitorFact[]>
+  }
+
+  return { data: saved, error: null } as PostgrestSingleResponse<PlaceVisitorFact[]>
+}
@@ -1,7 +1,9 @@
-import { PostgrestSingleResponse } from '@supabase/supabase-js'
+import { PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
 import { supabase } from '../services/supabase.service'
 import { Tables } from '../types/database'
+import { calculateNameMatchScore } from '../utils/name-matcher'
 import { PlacePhoto } from './place-photos'
+import { Source } from './sources'
 
 export type Place = Tables<'places'>
 
@@ -13,6 +15,10 @@ export async function getPlaceById(id: string): Promise<PostgrestSingleResponse<
   return supabase.from('places').select('*').eq('id', id).single()
 }
 
+export async function getPlacesByIds(ids: string[]): Promise<PostgrestResponse<Place>> {
+  return supabase.from('places').select('*').in('id', ids)
+}
+
 /**
  * Get a place by ID with photos included (using nested select for efficiency)
  */
@@ -28,17 +34,129 @@ export async function updatePlace(id: string, updates: Partial<Place>): Promise<
     .single()
 }
 
-export async function getExistingPlaces(names: string[]): Promise<string[]> {
+/**
+ * Get a sample of places with cached raw content, most recently analyzed first
+ */
+export async function getPlacesWithRawContent(
+  field: 'website_raw' | 'wikipedia_raw',
+  limit: number,
+): Promise<PostgrestResponse<Place>> {
+  const analyzedAtField = field === 'website_raw' ? 'last_website_analyzed_at' : 'last_wikipedia_analyzed_at'
+
+  return supabase
+    .from('places')
+    .select('*')
+    .not(field, 'is', null)
+    .neq(field, '')
+    .order(analyzedAtField, { ascending: false, nullsFirst: false })
+    .limit(limit)
+}
+
+/**
+ * Get the places with a cached website content that was not checked for changes since a date, never checked first
+ */
+export async function getPlacesWithWebsiteToCheck(
+  checkedBefore: string,
+  limit: number,
+): Promise<PostgrestResponse<Place>> {
+  return supabase
+    .from('places')
+    .select('*')
+    .not('website', 'is', null)
+    .not('website_raw', 'is', null)
+    .neq('website_raw', '')
+    .or(`website_checked_at.is.null,website_checked_at.lt.${checkedBefore}`)
+    .order('website_checked_at', { ascending: true, nullsFirst: true })
+    .limit(limit)
+}
+
+/**
+ * Get the place a source was analyzed for: the place recorded by the analysis or, for the sources analyzed
+ * before it was recorded, the place whose website is the source URL, or whose Wikipedia reference ("lang:Title")
+ * points to the source Wikipedia article
+ */
+export async function getSourceOriginPlace(source: Pick<Source, 'url' | 'origin_place_id'>): Promise<Place | null> {
+  const { url } = source
+
+  if (source.origin_place_id) {
+    const { data: originPlace, error } = await getPlaceById(source.origin_place_id)
+    if (error) {
+      console.error(`❌ Error fetching origin place for ${url}:`, error.message)
+    }
+    return originPlace
+  }
+
+  const { data: websitePlaces, error } = await supabase.from('places').select('*').eq('website', url).limit(1)
+
+  if (error) {
+    console.error(`❌ Error fetching origin place for ${url}:`, error.message)
+    return null
+  }
+
+  if (websitePlaces && websitePlaces.length > 0) {
+    return websitePlaces[0]
+  }
+
+  const wikipediaMatch = url.match(/^https:\/\/([a-z]{2})\.wikipedia\.org\/wiki\/(.+)$/)
+  if (!wikipediaMatch) {
+    return null
+  }
+
+  const wikipediaReference = `${wikipediaMatch[1]}:${decodeURIComponent(wikipediaMatch[2])}`
+
+  for (const column of ['wikipedia_query', 'metadata->>wikipedia']) {
+    const { data: wikipediaPlaces } = await supabase.from('places').select('*').eq(column, wikipediaReference).limit(1)
+
+    if (wikipediaPlaces && wikipediaPlaces.length > 0) {
+      return wikipediaPlaces[0]
+    }
+  }
+
+  return null
+}
+
+// Minimum name match score for a name to be considered an existing place (see calculateNameMatchScore)
+const EXISTING_PLACE_MIN_MATCH_SCORE = 0.9
+
+/**
+ * Get the names that match an existing place, tolerating accents, articles, word order and type-word synonyms
+ * Candidates are the places (of the given type, if any) whose name contains the longest word of one of the names
+ * @returns The given names that match an existing place
+ */
+export async function getExistingPlaces(names: string[], type?: string): Promise<string[]> {
   if (names.length === 0) {
     return []
   }
 
-  const { data, error } = await supabase.from('places').select('name').in('name', names)
+  const keywords = [
+    ...new Set(
+      names.map((name) => (name.match(/[\p{L}\d]+/gu) || []).sort((a, b) => b.length - a.length)[0]).filter(Boolean),
+    ),
+  ]
+
+  if (keywords.length === 0) {
+    return []
+  }
+
+  let query = supabase
+    .from('places')
+    .select('name')
+    .or(keywords.map((keyword) => `name.ilike.%${keyword}%`).join(','))
+
+  if (type) {
+    query = query.eq('type', type)
+  }
+
+  const { data, error } = await query
 
   if (error) {
     console.error('❌ Error checking existing places:', error.message)
     return []
   }
 
-  return data ? data.map((place) => place.name).filter((name): name is string => name !== null) : []
+  const existingNames = (data || []).map((place) => place.name).filter((name): name is string => name !== null)
+
+  return names.filter((name) =>
+    existingNames.some((existingName) => calculateNameMatchScore(name, existingName) >= EXISTING_PLACE_MIN_MATCH_SCORE),
+  )
 }
@@ -0,0 +1,79 @@
+import { PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Json, Tables } from '../types/database'
+
+export type ScheduledRun = Tables<'scheduled_runs'>
+
+export enum ScheduledRunStatus {
+  RUNNING = 'running',
+  COMPLETED = 'completed',
+  FAILED = 'failed',
+}
+
+// Postgres unique_violation, raised when a task already has a running row
+const UNIQUE_VIOLATION_CODE = '23505'
+
+/**
+ * Acquire the run lock for a task by inserting its running row
+ * The partial unique index on (task) WHERE status = 'running' guarantees a single running row per task,
+ * across all server instances. Running rows older than the lock timeout are considered stale and released first.
+ * @returns The created run, or null if the task is already running
+ */
+export async function acquireScheduledRunLock(task: string, lockTimeoutMs: number): Promise<ScheduledRun | null> {
+  const staleBefore = new Date(Date.now() - lockTimeoutMs).toISOString()
+  await supabase
+    .from('scheduled_runs')
+    .update({
+      status: ScheduledRunStatus.FAILED,
+      error: 'Lock expired (run interrupted or exceeded the lock timeout)',
+      finished_at: new Date().toISOString(),
+    })
+    .eq('task', task)
+    .eq('status', ScheduledRunStatus.RUNNING)
+    .lt('started_at', staleBefore)
+
+  const { data, error } = await supabase
+    .from('scheduled_runs')
+    .insert({ task, status: ScheduledRunStatus.RUNNING })
+    .select()
+    .single()
+
+  if (error) {
+    if (error.code !== UNIQUE_VIOLATION_CODE) {
+      console.error(`❌ Error acquiring run lock for ${task}:`, error)
+    }
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Mark a run as finished, which releases the task lock
+ */
+export async function finishScheduledRun(
+  id: string,
+  status: ScheduledRunStatus.COMPLETED | ScheduledRunStatus.FAILED,
+  stats: Json | null,
+  error: string | null = null,
+): Promise<PostgrestSingleResponse<ScheduledRun>> {
+  return supabase
+    .from('scheduled_runs')
+    .update({ status, stats, error, finished_at: new Date().toISOString() })
+    .eq('id', id)
+    .select()
+    .single()
+}
+
+/**
+ * Get the most recent runs, optionally for a single task
+ */
+export async function getScheduledRuns(task?: string, limit: number = 50): Promise<PostgrestResponse<ScheduledRun>> {
+  let query = supabase.from('scheduled_runs').select('*').order('started_at', { ascending: false }).limit(limit)
+
+  if (task) {
+    query = query.eq('task', task)
+  }
+
+  return query
+}
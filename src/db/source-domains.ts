@@ -0,0 +1,32 @@
+import { PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
+import { supabase } from '../services/supabase.service'
+import { Database, Tables } from '../types/database'
+
+export type SourceDomain = Tables<'source_domains'>
+export type SourceDomainReputationRow =
+  Database['public']['Functions']['get_source_domain_reputation']['Returns'][number]
+
+/**
+ * Get the generated place statuses counted per source domain, with the manual trust overrides,
+ * using the get_source_domain_reputation database function
+ * @param domain Only return this domain (all domains when undefined)
+ */
+export async function getSourceDomainReputationRows(
+  domain?: string,
+): Promise<PostgrestResponse<SourceDomainReputationRow>> {
+  return supabase.rpc('get_source_domain_reputation', domain ? { domain_filter: domain } : {})
+}
+
+/**
+ * Create or update the manual trust override of a domain
+ */
+export async function upsertSourceDomain(
+  domain: string,
+  updates: Pick<SourceDomain, 'trust_override' | 'notes'>,
+): Promise<PostgrestSingleResponse<SourceDomain>> {
+  return supabase
+    .from('source_domains')
+    .upsert({ domain, ...updates, updated_at: new Date().toISOString() })
+    .select()
+    .single()
+}
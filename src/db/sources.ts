@@ -1,10 +1,25 @@
-import { PostgrestSingleResponse } from '@supabase/supabase-js'
+import { PostgrestError, PostgrestResponse, PostgrestSingleResponse } from '@supabase/supabase-js'
 import { randomUUID } from 'crypto'
 import { supabase } from '../services/supabase.service'
 import { Tables } from '../types/database'
 
 export type Source = Tables<'sources'>
 
+// PostgREST returns at most 1000 rows per request
+const SITE_SOURCE_URLS_PAGE_SIZE = 1000
+
+/**
+ * Domain of a source URL (host, lowercased, without "www."), the unit of the source reputation
+ * Keep in sync with the backfill of supabase_schema_source_reputation.sql
+ */
+export function getSourceDomain(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '') || null
+  } catch {
+    return null
+  }
+}
+
 /**
  * Get or create a source by URL (ensures uniqueness by URL)
  * @param url The source URL
@@ -27,6 +42,7 @@ export async function getOrCreateSource(url: string): Promise<PostgrestSingleRes
     .insert({
       id: randomUUID(),
       url,
+      domain: getSourceDomain(url),
     })
     .select()
     .single()
@@ -39,6 +55,13 @@ export async function getOrCreateSource(url: string): Promise<PostgrestSingleRes
   return { data, error: null } as PostgrestSingleResponse<Source>
 }
 
+/**
+ * Get a source by URL, null when there is none
+ */
+export async function getSourceByUrl(url: string): Promise<PostgrestSingleResponse<Source | null>> {
+  return supabase.from('sources').select('*').eq('url', url).maybeSingle()
+}
+
 /**
  * Get a source by ID
  */
@@ -57,3 +80,55 @@ export async function updateSource(id: string, updates: Partial<Source>): Promis
     .select()
     .single()
 }
+
+/**
+ * Record that the places of a source were extracted, site ingestions skip analyzed sources when they resume
+ */
+export async function markSourceAnalyzed(id: string): Promise<PostgrestSingleResponse<Source>> {
+  return updateSource(id, { analyzed_at: new Date().toISOString() })
+}
+
+/**
+ * Get the URLs of the pages of a site that were analyzed (see site-ingestion.service), one page at a time
+ */
+export async function getAnalyzedSiteSourceUrls(
+  siteUrl: string,
+): Promise<{ data: string[] | null; error: PostgrestError | null }> {
+  const urls: string[] = []
+
+  for (let from = 0; ; from += SITE_SOURCE_URLS_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('sources')
+      .select('url')
+      .eq('site_url', siteUrl)
+      .not('analyzed_at', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, from + SITE_SOURCE_URLS_PAGE_SIZE - 1)
+
+    if (error) {
+      return { data: null, error }
+    }
+
+    urls.push(...(data || []).map((source) => source.url))
+
+    if (!data || data.length < SITE_SOURCE_URLS_PAGE_SIZE) {
+      return { data: urls, error: null }
+    }
+  }
+}
+
+/**
+ * Get the sources with cached content that were not checked for changes since a date, never checked first
+ */
+export async function getSourcesToCheckForChanges(
+  checkedBefore: string,
+  limit: number,
+): Promise<PostgrestResponse<Source>> {
+  return supabase
+    .from('sources')
+    .select('*')
+    .not('raw_content', 'is', null)
+    .or(`content_checked_at.is.null,content_checked_at.lt.${checkedBefore}`)
+    .order('content_checked_at', { ascending: true, nullsFirst: true })
+    .limit(limit)
+}
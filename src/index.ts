@@ -3,13 +3,33 @@ import 'dotenv/config'
 import express from 'express'
 import rateLimit from 'express-rate-limit'
 import swaggerUi from 'swagger-ui-express'
+import { isSchedulerEnabled } from './config/scheduler.config'
 import { swaggerSpec } from './config/swagger'
+import { getUpstreamHttpMetrics } from './controllers/http-metrics.controller'
+import { cancelJob, getJob } from './controllers/job.controller'
+import { getLlmUsage } from './controllers/llm-usage.controller'
+import { fetchPhotos } from './controllers/photo.controller'
 import { analyzePlaceWebsite, analyzePlaceWikipedia } from './controllers/place-analysis.controller'
-import { analyzeUrls } from './controllers/url-analysis.controller'
+import { getPlaceDetail } from './controllers/place-detail.controller'
+import { listRelatedPlaces } from './controllers/place-mentions.controller'
+import {
+  acceptGeneratedPlaceReview,
+  linkGeneratedPlaceReview,
+  listGeneratedPlaceReviews,
+  rejectGeneratedPlaceReview,
+} from './controllers/place-review.controller'
+import { searchNearbyPlaces, searchPlaces } from './controllers/place-search.controller'
 import { verifyPlaces } from './controllers/place-verification.controller'
-import { fetchPhotos } from './controllers/photo.controller'
 import { fetchRatings } from './controllers/ratings.controller'
+import { listScheduledRuns } from './controllers/scheduler.controller'
+import { listPlaceScoreHistory } from './controllers/score-history.controller'
+import { getSourceReputations, listPlaceSources, updateSourceTrust } from './controllers/source-reputation.controller'
+import { analyzeUrls, ingestSite } from './controllers/url-analysis.controller'
+import { extractPlaceVisitorFacts, listPlaceVisitorFacts } from './controllers/visitor-facts.controller'
 import { authenticateApiKey } from './middleware/auth.middleware'
+import { jobQueueService } from './services/job-queue.service'
+import { registerJobWorkers } from './services/job-workers.service'
+import { schedulerService } from './services/scheduler.service'
 
 const app = express()
 const PORT = process.env.PORT || 8080
@@ -72,55 +92,52 @@ app.use('/api', limiter)
 
 /**
  * @swagger
- * /api/places/{placeId}/analyze:
- *   post:
- *     summary: Analyze a place's website and extract information
+ * /api/places/search:
+ *   get:
+ *     summary: Search places within a bounding box
  *     description: |
- *       Scrapes a place's website (using sitemap if available) and uses AI to extract:
- *       - A detailed description (max 2000 characters)
- *       - A list of mentioned nature places
+ *       Returns places inside the given map view, using the `search_places_in_view` database function.
+ *       Results are filtered by minimum score and optional place types, paginated, and include photos.
  *
- *       This is a resource-intensive operation with rate limiting (50 requests/hour).
+ *       This is a public read endpoint (no API key required).
  *     tags:
- *       - Places
- *     security:
- *       - ApiKeyAuth: []
+ *       - Search
+ *     security: []
  *     parameters:
- *       - in: path
- *         name: placeId
+ *       - in: query
+ *         name: min_lat
  *         required: true
  *         schema:
- *           type: string
- *           format: uuid
- *         description: The UUID of the place to analyze
+ *           type: number
  *       - in: query
- *         name: bypassCache
- *         required: false
+ *         name: min_long
+ *         required: true
  *         schema:
- *           type: boolean
- *           default: false
- *         description: If true, bypasses cached raw data and fetches fresh content (which will overwrite the cache)
+ *           type: number
+ *       - in: query
+ *         name: max_lat
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: max_long
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - $ref: '#/components/parameters/MinScore'
+ *       - $ref: '#/components/parameters/MaxResults'
+ *       - $ref: '#/components/parameters/Types'
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/PageSize'
  *     responses:
  *       200:
- *         description: Successful analysis
+ *         description: Paginated list of places
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/PlaceAnalysisResponse'
+ *               $ref: '#/components/schemas/PlaceSearchResponse'
  *       400:
- *         description: Bad request (invalid ID or place has no website)
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Unauthorized (missing or invalid API key)
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       404:
- *         description: Place not found
+ *         description: Bad request (missing or invalid parameters)
  *         content:
  *           application/json:
  *             schema:
@@ -132,66 +149,59 @@ app.use('/api', limiter)
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
- *         description: Server error (scraping failed, AI unavailable, etc.)
+ *         description: Server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-app.post('/api/places/:placeId/analyze', authenticateApiKey, strictLimiter, analyzePlaceWebsite)
+app.get('/api/places/search', searchPlaces)
 
 /**
  * @swagger
- * /api/places/{placeId}/analyze-wikipedia:
- *   post:
- *     summary: Analyze a place's Wikipedia page and extract information
+ * /api/places/nearby:
+ *   get:
+ *     summary: Search places around a location
  *     description: |
- *       Fetches a place's Wikipedia article (from metadata or by searching) and uses AI to extract:
- *       - A detailed description focused on nature/outdoor features
- *       - A list of mentioned nature places
+ *       Returns places within a radius of a point, using the `search_places_by_location` database function.
+ *       Each place includes its distance to the point (`distance_km`) and its photos.
  *
- *       This operation uses two separate LLM calls in parallel for summarization and place extraction.
- *       Results are automatically saved to the database.
+ *       This is a public read endpoint (no API key required).
  *     tags:
- *       - Places
- *     security:
- *       - ApiKeyAuth: []
+ *       - Search
+ *     security: []
  *     parameters:
- *       - in: path
- *         name: placeId
+ *       - in: query
+ *         name: lat
  *         required: true
  *         schema:
- *           type: string
- *           format: uuid
- *         description: The UUID of the place to analyze
+ *           type: number
  *       - in: query
- *         name: bypassCache
+ *         name: lng
+ *         required: true
+ *         schema:
+ *           type: number
+ *       - in: query
+ *         name: radius_km
  *         required: false
  *         schema:
- *           type: boolean
- *           default: false
- *         description: If true, bypasses cached raw data and fetches fresh content (which will overwrite the cache)
+ *           type: number
+ *           default: 10
+ *           maximum: 200
+ *       - $ref: '#/components/parameters/MinScore'
+ *       - $ref: '#/components/parameters/MaxResults'
+ *       - $ref: '#/components/parameters/Types'
+ *       - $ref: '#/components/parameters/Page'
+ *       - $ref: '#/components/parameters/PageSize'
  *     responses:
  *       200:
- *         description: Successful analysis
+ *         description: Paginated list of places
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/WikipediaAnalysisResponse'
+ *               $ref: '#/components/schemas/PlaceSearchResponse'
  *       400:
- *         description: Bad request (invalid ID)
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Unauthorized (missing or invalid API key)
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       404:
- *         description: Place not found or no Wikipedia article found
+ *         description: Bad request (missing or invalid parameters)
  *         content:
  *           application/json:
  *             schema:
@@ -203,94 +213,71 @@ app.post('/api/places/:placeId/analyze', authenticateApiKey, strictLimiter, anal
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
- *         description: Server error (AI unavailable, etc.)
+ *         description: Server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-app.post('/api/places/:placeId/analyze-wikipedia', authenticateApiKey, strictLimiter, analyzePlaceWikipedia)
+app.get('/api/places/nearby', searchNearbyPlaces)
 
 /**
  * @swagger
- * /api/urls/analyze:
- *   post:
- *     summary: Analyze URLs and extract nature places from them
+ * /api/places/{placeId}:
+ *   get:
+ *     summary: Get a place with all its enrichment data
  *     description: |
- *       Scrapes one or more URLs (like travel guides, blog posts, articles) and uses AI to extract:
- *       - All nature places mentioned in the content
- *       - Descriptions for each place (when available)
+ *       Returns a single place with everything consumers need to display it:
+ *       - Photos (primary first)
+ *       - Score breakdown (source, website, reddit and wikipedia points)
+ *       - Google rating fields
+ *       - Generated summaries (website, Wikipedia, Reddit) and mentioned places
+ *       - Generated places (from analyzed sources) linked to this place
+ *       - Visitor facts (best time to visit, fees, hours, parking, duration, activities) with their source
  *
- *       Results are automatically stored in the database:
- *       - Sources are stored in the `sources` table (unique by URL)
- *       - Generated places are stored in the `generated_places` table (unique by name, linked to source)
+ *       The generated summaries are returned in the language requested with `lang` or the Accept-Language header
+ *       (French by default), falling back on French then any available language.
  *
- *       This is a resource-intensive operation with rate limiting (50 requests/hour).
+ *       This is a public read endpoint (no API key required).
  *     tags:
- *       - URLs
- *     security:
- *       - ApiKeyAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             required:
- *               - urls
- *             properties:
- *               urls:
- *                 type: array
- *                 items:
- *                   type: string
- *                   format: uri
- *                 description: Array of URLs to analyze
- *                 example: ["https://example.com/travel-guide"]
+ *       - Search
+ *     security: []
  *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place
  *       - in: query
- *         name: bypassCache
+ *         name: lang
  *         required: false
  *         schema:
- *           type: boolean
- *           default: false
- *         description: If true, bypasses cached data and fetches fresh content
+ *           type: string
+ *           enum: [fr, en]
+ *         description: Language of the summaries, takes precedence over Accept-Language
+ *       - in: header
+ *         name: Accept-Language
+ *         required: false
+ *         schema:
+ *           type: string
+ *           example: en-GB,en;q=0.9,fr;q=0.8
  *     responses:
  *       200:
- *         description: Successful analysis
+ *         description: Place details
  *         content:
  *           application/json:
  *             schema:
- *               type: object
- *               properties:
- *                 results:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       sourceId:
- *                         type: string
- *                         format: uuid
- *                       url:
- *                         type: string
- *                         format: uri
- *                       places:
- *                         type: array
- *                         items:
- *                           type: object
- *                           properties:
- *                             name:
- *                               type: string
- *                             description:
- *                               type: string
- *                               nullable: true
+ *               $ref: '#/components/schemas/PlaceDetailResponse'
  *       400:
- *         description: Bad request (invalid URLs or empty array)
+ *         description: Bad request (unsupported lang)
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Unauthorized (missing or invalid API key)
+ *       404:
+ *         description: Place not found
  *         content:
  *           application/json:
  *             schema:
@@ -302,186 +289,121 @@ app.post('/api/places/:placeId/analyze-wikipedia', authenticateApiKey, strictLim
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
- *         description: Server error (scraping failed, AI unavailable, etc.)
+ *         description: Server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-app.post('/api/urls/analyze', authenticateApiKey, strictLimiter, analyzeUrls)
+app.get('/api/places/:placeId', getPlaceDetail)
 
 /**
  * @swagger
- * /api/places/verify:
- *   post:
- *     summary: Verify generated places and create/update real places in OSM
+ * /api/places/{placeId}/score-history:
+ *   get:
+ *     summary: Get the score timeline of a place
  *     description: |
- *       Searches for generated places in OSM (OpenStreetMap) and either:
- *       - Creates new places in the database if not found
- *       - Updates existing places by bumping their score
+ *       Returns every change of the place score, newest first. Each entry has the old and new scores,
+ *       the score breakdown after the change and what triggered it (recalculate-scores, enhancement,
+ *       website-analysis, wikipedia-analysis, verification, ratings, photos or deduplication).
  *
- *       By default, verifies all generated places without a status, sorted by oldest created_at first.
- *       Can optionally verify a single generated place by ID, or limit the number of places to verify.
- *       Places are matched by name similarity, and scores are increased based on the source.
+ *       This is a public read endpoint (no API key required).
  *     tags:
- *       - Places
- *     security:
- *       - ApiKeyAuth: []
- *     requestBody:
- *       required: true
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               generatedPlaceId:
- *                 type: string
- *                 format: uuid
- *                 description: Optional. Single generated place ID to verify. If not provided, verifies all places without status.
- *               scoreBump:
- *                 type: number
- *                 default: 2
- *                 description: Score increase for verified places (default 2)
- *               limit:
- *                 type: number
- *                 minimum: 1
- *                 description: Maximum number of places to verify (only applies when verifying all places, sorted by oldest created_at)
- *           example:
- *             scoreBump: 2
- *             limit: 10
+ *       - Search
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
  *     responses:
  *       200:
- *         description: Successful verification
+ *         description: Score history of the place
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 results:
+ *                 placeId:
+ *                   type: string
+ *                   format: uuid
+ *                 history:
  *                   type: array
  *                   items:
- *                     type: object
- *                     properties:
- *                       generatedPlaceId:
- *                         type: string
- *                         format: uuid
- *                       generatedPlaceName:
- *                         type: string
- *                       status:
- *                         type: string
- *                         enum: [ADDED, NO_MATCH, NO_NATURE_MATCH, MULTIPLE_MATCHES]
- *                         description: Verification status
- *                       placeId:
- *                         type: string
- *                         format: uuid
- *                         nullable: true
- *                       osmId:
- *                         type: number
- *                         nullable: true
- *                       error:
- *                         type: string
- *                         nullable: true
+ *                     $ref: '#/components/schemas/ScoreHistoryEntry'
  *       400:
- *         description: Bad request
+ *         description: Bad request (invalid limit)
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Unauthorized (missing or invalid API key)
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       429:
- *         description: Too many requests (rate limit exceeded)
+ *       404:
+ *         description: Place not found
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  *       500:
- *         description: Server error (OSM search failed, database error, etc.)
+ *         description: Server error
  *         content:
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-app.post('/api/places/verify', authenticateApiKey, strictLimiter, verifyPlaces)
+app.get('/api/places/:placeId/score-history', listPlaceScoreHistory)
 
 /**
  * @swagger
- * /api/places/fetch-photos:
- *   post:
- *     summary: Fetch photos for places that don't have any yet
+ * /api/places/{placeId}/visitor-facts:
+ *   get:
+ *     summary: Get the visitor facts of a place
  *     description: |
- *       Fetches photos for places that haven't had photos fetched yet (photos_fetched_at is null).
- *       Tries Wikimedia Commons first (free), then falls back to Google Places API.
- *       Processes places sequentially with a 1-second delay between requests.
- *       Can optionally filter by minimum score.
+ *       Returns the practical visitor information extracted from the place website and Wikipedia content,
+ *       named after the saved_places fields: best_time_to_visit, entrance_fee, operating_hours, parking_info,
+ *       estimated_activity_duration and activity.
+ *
+ *       Each fact has its source (website or wikipedia), source URL, the quoted passage it was extracted from,
+ *       the extraction confidence and prompt version. When both sources give a fact, the most confident value is
+ *       returned (the website on ties). Facts no source gives are null.
+ *
+ *       This is a public read endpoint (no API key required).
  *     tags:
- *       - Places
- *     security:
- *       - ApiKeyAuth: []
- *     requestBody:
- *       required: false
- *       content:
- *         application/json:
- *           schema:
- *             type: object
- *             properties:
- *               minScore:
- *                 type: number
- *                 minimum: 0
- *                 description: Optional. Only fetch photos for places with score >= minScore
- *               limit:
- *                 type: number
- *                 minimum: 1
- *                 description: Optional. Maximum number of places to process
- *           example:
- *             minScore: 5
- *             limit: 50
+ *       - Search
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place
  *     responses:
  *       200:
- *         description: Successful photo fetch
+ *         description: Visitor facts of the place
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 results:
- *                   type: array
- *                   items:
- *                     type: object
- *                     properties:
- *                       placeId:
- *                         type: string
- *                         format: uuid
- *                       placeName:
- *                         type: string
- *                       success:
- *                         type: boolean
- *                       photosFound:
- *                         type: number
- *                       source:
- *                         type: string
- *                         enum: [wikimedia, google_places, none]
- *                       error:
- *                         type: string
- *                         nullable: true
- *                 totalProcessed:
- *                   type: number
- *                 totalSuccess:
- *                   type: number
- *                 totalPhotosFound:
- *                   type: number
- *       400:
- *         description: Bad request (invalid minScore)
- *         content:
- *           application/json:
- *             schema:
- *               $ref: '#/components/schemas/Error'
- *       401:
- *         description: Unauthorized (missing or invalid API key)
+ *                 placeId:
+ *                   type: string
+ *                   format: uuid
+ *                 facts:
+ *                   $ref: '#/components/schemas/PlaceVisitorFacts'
+ *       404:
+ *         description: Place not found
  *         content:
  *           application/json:
  *             schema:
@@ -493,7 +415,1031 @@ app.post('/api/places/verify', authenticateApiKey, strictLimiter, verifyPlaces)
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-app.post('/api/places/fetch-photos', authenticateApiKey, fetchPhotos)
+app.get('/api/places/:placeId/visitor-facts', listPlaceVisitorFacts)
+
+/**
+ * @swagger
+ * /api/places/{placeId}/sources:
+ *   get:
+ *     summary: Get the sources that mention a place
+ *     description: |
+ *       Returns the sources (analyzed URLs, place websites and Wikipedia articles) whose generated places were
+ *       verified as this place, with the generated places and the trust of the source domain, most trusted first.
+ *
+ *       Pages of the same site count as one independent source: independentSourcesCount is the number of
+ *       distinct domains mentioning the place.
+ *
+ *       This is a public read endpoint (no API key required).
+ *     tags:
+ *       - Search
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place
+ *     responses:
+ *       200:
+ *         description: Sources mentioning the place
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlaceSources'
+ *       404:
+ *         description: Place not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.get('/api/places/:placeId/sources', listPlaceSources)
+
+/**
+ * @swagger
+ * /api/places/{placeId}/related:
+ *   get:
+ *     summary: Get the places related to a place through mentions
+ *     description: |
+ *       Returns the places mentioned by the website or Wikipedia article of this place (mentions), and the places
+ *       whose website or Wikipedia article mentions this place (mentionedBy).
+ *
+ *       Only mentions resolved to a place by the verification or a manual review are included. Places mentioned
+ *       in both the website and the Wikipedia article come first, then by score.
+ *
+ *       This is a public read endpoint (no API key required).
+ *     tags:
+ *       - Search
+ *     security: []
+ *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place
+ *     responses:
+ *       200:
+ *         description: Places related to the place
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/RelatedPlaces'
+ *       404:
+ *         description: Place not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.get('/api/places/:placeId/related', listRelatedPlaces)
+
+/**
+ * @swagger
+ * /api/places/{placeId}/analyze:
+ *   post:
+ *     summary: Analyze a place's website and extract information
+ *     description: |
+ *       Scrapes a place's website (using sitemap if available) and uses AI to extract:
+ *       - A detailed description (max 2000 characters)
+ *       - A list of mentioned nature places
+ *
+ *       Scraping follows the website's robots.txt (pages it disallows are skipped) and its crawl-delay.
+ *       With SCRAPER_RENDERING=chromium, pages whose static HTML has too little text (JavaScript sites) are rendered
+ *       by a headless Chromium, counted in `renderedPagesCount`.
+ *
+ *       This is a resource-intensive operation with rate limiting (50 requests/hour).
+ *     tags:
+ *       - Places
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place to analyze
+ *       - in: query
+ *         name: bypassCache
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: If true, bypasses cached raw data and fetches fresh content (which will overwrite the cache)
+ *     responses:
+ *       200:
+ *         description: Successful analysis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/PlaceAnalysisResponse'
+ *       400:
+ *         description: Bad request (invalid ID or place has no website)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Place not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         description: The website's robots.txt disallows crawling it
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests (rate limit exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error (scraping failed, AI unavailable, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/places/:placeId/analyze', authenticateApiKey, strictLimiter, analyzePlaceWebsite)
+
+/**
+ * @swagger
+ * /api/places/{placeId}/analyze-wikipedia:
+ *   post:
+ *     summary: Analyze a place's Wikipedia page and extract information
+ *     description: |
+ *       Fetches a place's Wikipedia article (from metadata or by searching) and uses AI to extract:
+ *       - A detailed description focused on nature/outdoor features
+ *       - A list of mentioned nature places
+ *
+ *       This operation uses two separate LLM calls in parallel for summarization and place extraction.
+ *       Results are automatically saved to the database.
+ *     tags:
+ *       - Places
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place to analyze
+ *       - in: query
+ *         name: bypassCache
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: If true, bypasses cached raw data and fetches fresh content (which will overwrite the cache)
+ *     responses:
+ *       200:
+ *         description: Successful analysis
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/WikipediaAnalysisResponse'
+ *       400:
+ *         description: Bad request (invalid ID)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Place not found or no Wikipedia article found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests (rate limit exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error (AI unavailable, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/places/:placeId/analyze-wikipedia', authenticateApiKey, strictLimiter, analyzePlaceWikipedia)
+
+/**
+ * @swagger
+ * /api/places/{placeId}/extract-visitor-facts:
+ *   post:
+ *     summary: Extract the visitor facts of a place
+ *     description: |
+ *       Uses AI to extract practical visitor information (best time to visit, entrance fee, opening hours,
+ *       parking, activity duration and activities) from the cached website and Wikipedia content of a place.
+ *       The facts of each source replace the ones it gave before.
+ *
+ *       The website and Wikipedia analyses already run this step, this endpoint re-runs it on the cached
+ *       content, e.g. after a new prompt version. The place must have been analyzed before.
+ *     tags:
+ *       - Places
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: placeId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *         description: The UUID of the place
+ *       - in: query
+ *         name: source
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [website, wikipedia]
+ *         description: Only extract from this content (both by default)
+ *     responses:
+ *       200:
+ *         description: Extracted facts
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/VisitorFactsExtractionResponse'
+ *       400:
+ *         description: Bad request (invalid source or no cached content)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Place not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests (rate limit exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error (AI unavailable, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/places/:placeId/extract-visitor-facts', authenticateApiKey, strictLimiter, extractPlaceVisitorFacts)
+
+/**
+ * @swagger
+ * /api/urls/analyze:
+ *   post:
+ *     summary: Analyze URLs and extract nature places from them
+ *     description: |
+ *       Scrapes one or more URLs (like travel guides, blog posts, articles) and uses AI to extract:
+ *       - All nature places mentioned in the content
+ *       - Descriptions for each place (when available)
+ *
+ *       Results are automatically stored in the database:
+ *       - Sources are stored in the `sources` table (unique by URL)
+ *       - Generated places are stored in the `generated_places` table (unique by name, linked to source)
+ *
+ *       This is a resource-intensive operation with rate limiting (50 requests/hour).
+ *
+ *       Runs as a background job: the endpoint responds immediately with a job ID to poll.
+ *     tags:
+ *       - URLs
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - urls
+ *             properties:
+ *               urls:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                   format: uri
+ *                 description: Array of URLs to analyze
+ *                 example: ["https://example.com/travel-guide"]
+ *     parameters:
+ *       - in: query
+ *         name: bypassCache
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: If true, bypasses cached data and fetches fresh content
+ *     responses:
+ *       202:
+ *         description: Job queued, poll GET /api/jobs/{jobId} for progress and results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JobCreatedResponse'
+ *       400:
+ *         description: Bad request (invalid URLs or empty array)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests (rate limit exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error (scraping failed, AI unavailable, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/urls/analyze', authenticateApiKey, strictLimiter, analyzeUrls)
+
+/**
+ * @swagger
+ * /api/urls/ingest-site:
+ *   post:
+ *     summary: Ingest a whole travel site and extract nature places from its pages
+ *     description: |
+ *       Discovers the pages of a site from a root URL, creates one source per page and analyzes each page
+ *       like POST /api/urls/analyze:
+ *       - `sitemap`: the pages listed in the site's sitemap (sitemap indexes are followed)
+ *       - `links`: the pages found by following the site's links from the root URL, down to `maxDepth`
+ *       - `auto` (default): the sitemap, or the links when the site has no sitemap
+ *
+ *       Only pages of the same site that robots.txt allows are ingested. `includePatterns` and `excludePatterns`
+ *       are regular expressions (case-insensitive) matched against the page URLs.
+ *
+ *       Sources are linked to the site (`sources.site_url`) and marked once analyzed (`sources.analyzed_at`):
+ *       pages analyzed by a previous ingestion are skipped, so an interrupted ingestion resumes where it stopped.
+ *
+ *       Runs as a background job: the endpoint responds immediately with a job ID to poll.
+ *     tags:
+ *       - URLs
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - rootUrl
+ *             properties:
+ *               rootUrl:
+ *                 type: string
+ *                 format: uri
+ *                 description: Root URL of the site, where link discovery starts
+ *               discovery:
+ *                 type: string
+ *                 enum: [auto, sitemap, links]
+ *                 default: auto
+ *               maxDepth:
+ *                 type: integer
+ *                 minimum: 0
+ *                 default: 2
+ *                 description: Links followed from the root URL (link discovery only)
+ *               maxPages:
+ *                 type: integer
+ *                 minimum: 1
+ *                 default: 100
+ *                 description: Maximum number of pages to ingest
+ *               includePatterns:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Pages must match one of these patterns
+ *               excludePatterns:
+ *                 type: array
+ *                 items:
+ *                   type: string
+ *                 description: Pages matching one of these patterns are neither ingested nor crawled
+ *           example:
+ *             rootUrl: "https://example.com/blog/"
+ *             discovery: links
+ *             maxDepth: 2
+ *             includePatterns: ["/blog/[a-z0-9-]+/?$"]
+ *             excludePatterns: ["/tag/", "/page/\\d+"]
+ *     parameters:
+ *       - in: query
+ *         name: bypassCache
+ *         required: false
+ *         schema:
+ *           type: boolean
+ *           default: false
+ *         description: If true, re-analyzes pages already analyzed, from freshly scraped content
+ *     responses:
+ *       202:
+ *         description: Job queued, poll GET /api/jobs/{jobId} for progress and per-page results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JobCreatedResponse'
+ *       400:
+ *         description: Bad request (invalid root URL, discovery mode, limits or URL patterns)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests (rate limit exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/urls/ingest-site', authenticateApiKey, strictLimiter, ingestSite)
+
+/**
+ * @swagger
+ * /api/places/verify:
+ *   post:
+ *     summary: Verify generated places and create/update real places in OSM
+ *     description: |
+ *       Searches for generated places in OSM (OpenStreetMap) and either:
+ *       - Creates new places in the database if not found
+ *       - Updates existing places by bumping their score
+ *
+ *       By default, verifies all generated places without a status, sorted by oldest created_at first.
+ *       Can optionally verify a single generated place by ID, or limit the number of places to verify.
+ *       Places are matched by name similarity, and scores are increased based on the source.
+ *
+ *       Runs as a background job: the endpoint responds immediately with a job ID to poll.
+ *     tags:
+ *       - Places
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               generatedPlaceId:
+ *                 type: string
+ *                 format: uuid
+ *                 description: Optional. Single generated place ID to verify. If not provided, verifies all places without status.
+ *               scoreBump:
+ *                 type: number
+ *                 default: 2
+ *                 description: Score increase for verified places (default 2)
+ *               limit:
+ *                 type: number
+ *                 minimum: 1
+ *                 description: Maximum number of places to verify (only applies when verifying all places, sorted by oldest created_at)
+ *           example:
+ *             scoreBump: 2
+ *             limit: 10
+ *     responses:
+ *       202:
+ *         description: Job queued, poll GET /api/jobs/{jobId} for progress and results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JobCreatedResponse'
+ *       400:
+ *         description: Bad request
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests (rate limit exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error (OSM search failed, database error, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/places/verify', authenticateApiKey, strictLimiter, verifyPlaces)
+
+/**
+ * @swagger
+ * /api/reviews/generated-places:
+ *   get:
+ *     summary: List generated places waiting for a manual review
+ *     description: |
+ *       Lists the generated places the verification couldn't match automatically (MULTIPLE_MATCHES or NO_MATCH),
+ *       oldest first, with their source and the OSM alternatives found in the source's search area.
+ *       Alternatives are searched live on OSM, so pages are small (max 20).
+ *
+ *       Each place is then accepted (one of the alternatives), linked to an existing place or rejected.
+ *     tags:
+ *       - Reviews
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [MULTIPLE_MATCHES, NO_MATCH]
+ *         description: Only list places with this status (default both)
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 20
+ *           default: 5
+ *     responses:
+ *       200:
+ *         description: Places to review with their alternatives
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reviews:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/PendingReview'
+ *       400:
+ *         description: Bad request (invalid status or limit)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       429:
+ *         description: Too many requests (rate limit exceeded)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error (OSM search failed, database error, etc.)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.get('/api/reviews/generated-places', authenticateApiKey, strictLimiter, listGeneratedPlaceReviews)
+
+/**
+ * @swagger
+ * /api/reviews/generated-places/{generatedPlaceId}/accept:
+ *   post:
+ *     summary: Accept an OSM alternative for a generated place
+ *     description: |
+ *       Creates the real place from the chosen OSM alternative (or bumps its score if it already exists),
+ *       exactly like an automatic verification match, and marks the generated place as ADDED.
+ *     tags:
+ *       - Reviews
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: generatedPlaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - osmId
+ *             properties:
+ *               osmId:
+ *                 type: integer
+ *                 description: OSM ID of one of the alternatives listed for the generated place
+ *               scoreBump:
+ *                 type: number
+ *                 default: 2
+ *                 description: Score increase for the place (default 2)
+ *           example:
+ *             osmId: 123456789
+ *     responses:
+ *       200:
+ *         description: Generated place added
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReviewDecisionResponse'
+ *       400:
+ *         description: Bad request (invalid osmId or scoreBump)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Generated place not found, or the OSM ID is not among its alternatives
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Generated place is not waiting for a review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/reviews/generated-places/:generatedPlaceId/accept', authenticateApiKey, acceptGeneratedPlaceReview)
+
+/**
+ * @swagger
+ * /api/reviews/generated-places/{generatedPlaceId}/link:
+ *   post:
+ *     summary: Link a generated place to an existing place
+ *     description: |
+ *       For places the OSM search can't find (e.g. a different name on OSM): bumps the score of an existing
+ *       place like a verification match does, and marks the generated place as ADDED.
+ *     tags:
+ *       - Reviews
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: generatedPlaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - placeId
+ *             properties:
+ *               placeId:
+ *                 type: string
+ *                 format: uuid
+ *               scoreBump:
+ *                 type: number
+ *                 default: 2
+ *                 description: Score increase for the place (default 2)
+ *     responses:
+ *       200:
+ *         description: Generated place linked
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReviewDecisionResponse'
+ *       400:
+ *         description: Bad request (missing placeId or invalid scoreBump)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Generated place or place not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Generated place is not waiting for a review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/reviews/generated-places/:generatedPlaceId/link', authenticateApiKey, linkGeneratedPlaceReview)
+
+/**
+ * @swagger
+ * /api/reviews/generated-places/{generatedPlaceId}/reject:
+ *   post:
+ *     summary: Reject a generated place
+ *     description: Marks the generated place as REJECTED (not a real place), so it is no longer listed for review.
+ *     tags:
+ *       - Reviews
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: generatedPlaceId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Generated place rejected
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ReviewDecisionResponse'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Generated place not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Generated place is not waiting for a review
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/reviews/generated-places/:generatedPlaceId/reject', authenticateApiKey, rejectGeneratedPlaceReview)
+
+/**
+ * @swagger
+ * /api/sources/reputation:
+ *   get:
+ *     summary: List the reputation of the source domains
+ *     description: |
+ *       Returns, per source domain, the generated places verified (ADDED), rejected (REJECTED, NO_NATURE_MATCH),
+ *       unresolved (NO_MATCH, MULTIPLE_MATCHES) and pending, the verified ratio, the manual trust override and
+ *       the resulting trust.
+ *
+ *       The trust (0-1) is the override when set, otherwise the verified ratio smoothed towards 0.5 for domains
+ *       with few resolved places. The source score bump a verified mention gives to a place is scaled by
+ *       trust / 0.5, and reduced to a quarter when another page of the same domain already mentions the place.
+ *     tags:
+ *       - Sources
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Reputation of the source domains
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 reputations:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/SourceReputation'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.get('/api/sources/reputation', authenticateApiKey, getSourceReputations)
+
+/**
+ * @swagger
+ * /api/sources/reputation/{domain}:
+ *   put:
+ *     summary: Set the manual trust of a source domain
+ *     description: |
+ *       Overrides the trust computed from the verified ratio of the domain, e.g. to trust an official park
+ *       website from its first mention or to ignore a content farm. A null trust clears the override.
+ *     tags:
+ *       - Sources
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: domain
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Host of the source URLs, without "www." (e.g. example.com)
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required:
+ *               - trust
+ *             properties:
+ *               trust:
+ *                 type: number
+ *                 minimum: 0
+ *                 maximum: 1
+ *                 nullable: true
+ *                 description: Trust of the domain, null to clear the override
+ *               notes:
+ *                 type: string
+ *                 nullable: true
+ *                 description: Why the domain is trusted or not
+ *           example:
+ *             trust: 0.9
+ *             notes: Official website of the national park
+ *     responses:
+ *       200:
+ *         description: Reputation of the domain with its new trust
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SourceReputation'
+ *       400:
+ *         description: Bad request (invalid trust or notes)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.put('/api/sources/reputation/:domain', authenticateApiKey, updateSourceTrust)
+
+/**
+ * @swagger
+ * /api/places/fetch-photos:
+ *   post:
+ *     summary: Fetch photos for places that don't have any yet
+ *     description: |
+ *       Fetches photos for places that haven't had photos fetched yet (photos_fetched_at is null).
+ *       Tries Wikimedia Commons first (free), then falls back to Google Places API.
+ *       Processes places sequentially with a 1-second delay between requests.
+ *       Can optionally filter by minimum score.
+ *
+ *       Runs as a background job: the endpoint responds immediately with a job ID to poll.
+ *     tags:
+ *       - Places
+ *     security:
+ *       - ApiKeyAuth: []
+ *     requestBody:
+ *       required: false
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               minScore:
+ *                 type: number
+ *                 minimum: 0
+ *                 description: Optional. Only fetch photos for places with score >= minScore
+ *               limit:
+ *                 type: number
+ *                 minimum: 1
+ *                 description: Optional. Maximum number of places to process
+ *           example:
+ *             minScore: 5
+ *             limit: 50
+ *     responses:
+ *       202:
+ *         description: Job queued, poll GET /api/jobs/{jobId} for progress and results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JobCreatedResponse'
+ *       400:
+ *         description: Bad request (invalid minScore)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/places/fetch-photos', authenticateApiKey, fetchPhotos)
 
 /**
  * @swagger
@@ -506,6 +1452,8 @@ app.post('/api/places/fetch-photos', authenticateApiKey, fetchPhotos)
  *       Processes places sequentially with a 1-second delay between requests.
  *       Can optionally filter by minimum score.
  *       Adds +2 score bump for places where ratings are collected.
+ *
+ *       Runs as a background job: the endpoint responds immediately with a job ID to poll.
  *     tags:
  *       - Places
  *     security:
@@ -529,43 +1477,178 @@ app.post('/api/places/fetch-photos', authenticateApiKey, fetchPhotos)
  *             minScore: 5
  *             limit: 50
  *     responses:
+ *       202:
+ *         description: Job queued, poll GET /api/jobs/{jobId} for progress and results
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JobCreatedResponse'
+ *       400:
+ *         description: Bad request (invalid minScore or limit)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/places/fetch-ratings', authenticateApiKey, fetchRatings)
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}:
+ *   get:
+ *     summary: Get a background job with its progress and per-item results
+ *     description: |
+ *       Returns the job status, progress (progress_current / progress_total), summary once finished,
+ *       and the result of each processed item in processing order.
+ *     tags:
+ *       - Jobs
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Job with its items
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/JobResponse'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.get('/api/jobs/:jobId', authenticateApiKey, getJob)
+
+/**
+ * @swagger
+ * /api/jobs/{jobId}/cancel:
+ *   post:
+ *     summary: Cancel a background job
+ *     description: |
+ *       Queued jobs are cancelled immediately. Running jobs stop before processing their next item,
+ *       and keep the results of the items already processed.
+ *     tags:
+ *       - Jobs
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: jobId
+ *         required: true
+ *         schema:
+ *           type: string
+ *           format: uuid
+ *     responses:
+ *       200:
+ *         description: Cancellation recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 job:
+ *                   $ref: '#/components/schemas/Job'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Job not found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Job already finished
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.post('/api/jobs/:jobId/cancel', authenticateApiKey, cancelJob)
+
+/**
+ * @swagger
+ * /api/scheduler/runs:
+ *   get:
+ *     summary: List scheduled pipeline runs
+ *     description: |
+ *       Returns the most recent runs of the in-process scheduler (fetch-photos, fetch-ratings, enhance-places,
+ *       check-content-changes, recalculate-scores, verify-places), newest first, with the ProcessStats recorded for each run.
+ *     tags:
+ *       - Scheduler
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: task
+ *         required: false
+ *         schema:
+ *           type: string
+ *           enum: [fetch-photos, fetch-ratings, enhance-places, check-content-changes, recalculate-scores, verify-places]
+ *         description: Only return runs of this task
+ *       - in: query
+ *         name: limit
+ *         required: false
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           maximum: 500
+ *           default: 50
+ *     responses:
  *       200:
- *         description: Successful ratings fetch
+ *         description: Scheduled runs
  *         content:
  *           application/json:
  *             schema:
  *               type: object
  *               properties:
- *                 results:
+ *                 runs:
  *                   type: array
  *                   items:
- *                     type: object
- *                     properties:
- *                       placeId:
- *                         type: string
- *                         format: uuid
- *                       placeName:
- *                         type: string
- *                       success:
- *                         type: boolean
- *                       rating:
- *                         type: number
- *                         nullable: true
- *                       ratingCount:
- *                         type: number
- *                         nullable: true
- *                       googlePlacesId:
- *                         type: string
- *                         nullable: true
- *                       error:
- *                         type: string
- *                         nullable: true
- *                 totalProcessed:
- *                   type: number
- *                 totalSuccess:
- *                   type: number
+ *                     $ref: '#/components/schemas/ScheduledRun'
  *       400:
- *         description: Bad request (invalid minScore or limit)
+ *         description: Bad request (unknown task or invalid limit)
  *         content:
  *           application/json:
  *             schema:
@@ -583,7 +1666,98 @@ app.post('/api/places/fetch-photos', authenticateApiKey, fetchPhotos)
  *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-app.post('/api/places/fetch-ratings', authenticateApiKey, fetchRatings)
+app.get('/api/scheduler/runs', authenticateApiKey, listScheduledRuns)
+
+/**
+ * @swagger
+ * /api/llm-usage:
+ *   get:
+ *     summary: Report the LLM usage and cost
+ *     description: |
+ *       Aggregates the recorded LLM calls (tokens, latency, outcome and cost) between two days (UTC, inclusive).
+ *       The department is the region of the place the calls were made for, null for calls without a place
+ *       (e.g. URL analysis, attributed to the source only).
+ *     tags:
+ *       - LLM Usage
+ *     security:
+ *       - ApiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: from
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: First day (default 30 days before `to`)
+ *       - in: query
+ *         name: to
+ *         required: false
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Last day (default today)
+ *       - in: query
+ *         name: groupBy
+ *         required: false
+ *         schema:
+ *           type: string
+ *           default: day,task,department
+ *         description: Comma-separated dimensions among day, task, department and model
+ *     responses:
+ *       200:
+ *         description: Usage report, most expensive groups first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LlmUsageReport'
+ *       400:
+ *         description: Bad request (invalid dates or unknown dimension)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       500:
+ *         description: Server error
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.get('/api/llm-usage', authenticateApiKey, getLlmUsage)
+
+/**
+ * @swagger
+ * /api/http-metrics:
+ *   get:
+ *     summary: Get the counters of the upstream APIs
+ *     description: |
+ *       Requests, retries, failures, timeouts, rate limits, failovers and circuit breaker state of each upstream API
+ *       (Overpass, Nominatim, Wikipedia, Wikimedia, Reddit, Google Places) since the server started.
+ *     tags:
+ *       - Monitoring
+ *     security:
+ *       - ApiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Counters by upstream
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/HttpMetricsReport'
+ *       401:
+ *         description: Unauthorized (missing or invalid API key)
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+app.get('/api/http-metrics', authenticateApiKey, getUpstreamHttpMetrics)
 
 /**
  * @swagger
@@ -614,4 +1788,11 @@ app.post('/test', authenticateApiKey, async (req, res) => {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`)
   console.log(`Swagger documentation available at http://localhost:${PORT}/api-docs`)
+
+  registerJobWorkers()
+  void jobQueueService.start()
+
+  if (isSchedulerEnabled()) {
+    schedulerService.start()
+  }
 })
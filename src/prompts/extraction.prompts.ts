@@ -0,0 +1,160 @@
+import { JsonSchema } from '../utils/json-schema'
+import { PlaceContentInput, PromptDefinition } from './prompt-registry'
+
+export const EXTRACTED_PLACE_TYPES = [
+  'mountain',
+  'waterfall',
+  'lake',
+  'river',
+  'gorge',
+  'valley',
+  'forest',
+  'cave',
+  'glacier',
+  'beach',
+  'coast',
+  'island',
+  'national_park',
+  'regional_park',
+  'nature_reserve',
+  'park',
+  'trail',
+  'viewpoint',
+  'other',
+] as const
+
+export type ExtractedPlaceType = (typeof EXTRACTED_PLACE_TYPES)[number]
+
+export interface ExtractedPlacesResponse {
+  places: Array<{
+    name: string
+    description: string | null
+    type: ExtractedPlaceType
+    locationText: string | null
+    confidence: number
+  }>
+}
+
+const EXTRACTED_PLACES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    places: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', description: 'Exact name of the place as written in the content' },
+          description: { type: 'string', nullable: true },
+          type: { type: 'string', enum: [...EXTRACTED_PLACE_TYPES] },
+          locationText: {
+            type: 'string',
+            nullable: true,
+            description: 'Approximate location as written in the content, e.g. "near Annecy, Haute-Savoie"',
+          },
+          confidence: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            description: 'Confidence that this is a real, specific, named nature place',
+          },
+        },
+      },
+    },
+  },
+}
+
+export interface MentionedPlacesResponse {
+  places: string[]
+}
+
+const MENTIONED_PLACES_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { places: { type: 'array', items: { type: 'string' }, description: 'Names of the mentioned places' } },
+}
+
+export const URL_PLACES_EXTRACTION_PROMPT: PromptDefinition<{ content: string }> = {
+  task: 'extraction',
+  schema: EXTRACTED_PLACES_SCHEMA,
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      description: 'Specific named nature places with type, location and confidence',
+      build: ({
+        content,
+      }) => `You are helping to analyze nature and outdoor places from a URL (like a travel guide, blog post, or article).
+
+URL content: ${content.substring(0, 30000)}
+
+Please analyze this content and extract SPECIFIC, NAMED nature places, parks, trails, natural landmarks, or outdoor destinations that are mentioned. For each place, extract:
+- The exact name of the place
+- A description (if available) - this could be information about the place, what makes it special, activities available, location details, etc.
+- Its type (use "other" if none fits)
+- Its approximate location as written in the content (town, department, region, massif...), or null if the content doesn't say
+- A confidence score between 0 and 1: how sure you are that it is a real, specific, named nature place (1 = certain, 0.5 = possibly a generic term or not a nature place)
+
+**CRITICAL FILTERING RULES - ONLY EXTRACT SPECIFIC PLACES:**
+- ✅ DO extract: Specific named places like "Parc National des Cévennes", "Mont Blanc", "Sentier des Gorges du Verdon", "Lac d'Annecy", "Forêt de Fontainebleau"
+- ❌ DO NOT extract: Generic terms like "forest", "mountain", "lake", "trail", "park" (without a specific name)
+- ❌ DO NOT extract: Administrative regions like "Auvergne", "Provence", "Bourgogne", "Normandie" (unless they refer to a specific natural area like "Parc Naturel Régional d'Auvergne")
+- ❌ DO NOT extract: Generic descriptors like "the mountains", "the coast", "the countryside", "nearby trails"
+- ❌ DO NOT extract: Types of places without names like "a beautiful forest", "several lakes", "many trails"
+- ✅ DO extract: Places that have a proper name that could be found on a map or in OSM (OpenStreetMap)
+- ✅ DO extract: Named trails, peaks, valleys, lakes, forests, parks, reserves, natural monuments
+- ❌ DO NOT extract: Vague references like "the region", "the area", "the surroundings"
+
+**Examples of what to EXTRACT:**
+- "Parc National de la Vanoise" ✅
+- "Mont Ventoux" ✅
+- "Gorges du Tarn" ✅
+- "Lac de Serre-Ponçon" ✅
+- "Sentier du GR20" ✅
+- "Forêt de Rambouillet" ✅
+
+**Examples of what to NOT EXTRACT:**
+- "forest" ❌
+- "Auvergne" (as a region) ❌
+- "the mountains" ❌
+- "several lakes" ❌
+- "nearby trails" ❌
+- "beautiful nature" ❌
+
+If a place has no description available, use null.
+
+IMPORTANT:
+- Only include SPECIFIC, NAMED nature/outdoor places that could be found on a map
+- Use the exact names as mentioned in the content
+- Remove duplicates (if same place mentioned multiple times, combine information)
+- Extract as much information as possible for descriptions (aim for 200-500 characters per description when available)
+- Be strict: if a place name is too generic or vague, exclude it
+- If no specific places are found, return an empty "places" array`,
+    },
+  },
+}
+
+export const MENTIONED_PLACES_PROMPT: PromptDefinition<PlaceContentInput> = {
+  task: 'extraction',
+  schema: MENTIONED_PLACES_SCHEMA,
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      description: 'Names of the other nature places mentioned in content about a place',
+      build: ({ placeName, content }) => `You are helping to analyze nature and outdoor places for a discovery app.
+
+Place name: ${placeName}
+Scraped website content: ${content.substring(0, 15000)}
+
+Please analyze this content and extract ONLY the names of other nature places, parks, trails, or natural landmarks that are mentioned. These should be:
+- Specifically named places (not generic references like "nearby parks")
+- Related to nature, outdoors, hiking, wildlife, or similar activities
+- Distinct places that could have their own database entry
+- NOT the place itself (${placeName})
+
+Return the place names in "places". If no relevant places are found, return an empty array.
+
+IMPORTANT:
+- Only include nature/outdoor places
+- Use the exact names as mentioned in the content
+- Remove duplicates`,
+    },
+  },
+}
@@ -0,0 +1,166 @@
+import { LlmTask } from '../config/llm.config'
+import { Json } from '../types/database'
+import { JsonSchema } from '../utils/json-schema'
+import { Locale } from '../utils/locale'
+import { MENTIONED_PLACES_PROMPT, URL_PLACES_EXTRACTION_PROMPT } from './extraction.prompts'
+import { SITEMAP_FILTERING_PROMPT } from './sitemap-filtering.prompts'
+import {
+  REDDIT_RELEVANCE_PROMPT,
+  REDDIT_SUMMARY_PROMPT,
+  SCRAPED_CONTENT_ANALYSIS_PROMPT,
+  SCRAPED_CONTENT_SUMMARY_PROMPT,
+  WEBSITE_SUMMARY_PROMPT,
+  WIKIPEDIA_SUMMARY_PROMPT,
+} from './summarization.prompts'
+import { VISITOR_FACTS_PROMPT } from './visitor-facts.prompts'
+
+/**
+ * Content about a place, e.g. its scraped website or Wikipedia article
+ */
+export interface PlaceContentInput {
+  placeName: string
+  content: string
+}
+
+/**
+ * Content to summarize in a given language, in the language of the content when none is given
+ */
+export interface LocalizedPlaceContentInput extends PlaceContentInput {
+  locale?: Locale
+}
+
+/**
+ * Input of each prompt, by prompt ID
+ */
+export interface PromptInputs {
+  'website-summary': LocalizedPlaceContentInput
+  'reddit-summary': PlaceContentInput
+  'wikipedia-summary': LocalizedPlaceContentInput
+  'reddit-relevance': { placeName: string; threadPreview: string }
+  'sitemap-filtering': { placeName: string; urls: string[]; maxUrls: number; country?: string | null }
+  'scraped-content-summary': LocalizedPlaceContentInput
+  'scraped-content-analysis': PlaceContentInput
+  'url-places-extraction': { content: string }
+  'mentioned-places': PlaceContentInput
+  'visitor-facts': PlaceContentInput
+}
+
+export type PromptId = keyof PromptInputs
+
+export interface PromptVersion<TInput> {
+  /** What the version changes, shown by the evaluation */
+  description: string
+  build: (input: TInput) => string
+}
+
+/**
+ * A prompt and its versions: all versions share the task and the response schema, so they can be swapped freely
+ */
+export interface PromptDefinition<TInput> {
+  task: LlmTask
+  schema: JsonSchema
+  /** Version used unless overridden by PROMPT_VERSION_<ID> */
+  defaultVersion: string
+  versions: Record<string, PromptVersion<TInput>>
+}
+
+const PROMPTS: { [K in PromptId]: PromptDefinition<PromptInputs[K]> } = {
+  'website-summary': WEBSITE_SUMMARY_PROMPT,
+  'reddit-summary': REDDIT_SUMMARY_PROMPT,
+  'wikipedia-summary': WIKIPEDIA_SUMMARY_PROMPT,
+  'reddit-relevance': REDDIT_RELEVANCE_PROMPT,
+  'sitemap-filtering': SITEMAP_FILTERING_PROMPT,
+  'scraped-content-summary': SCRAPED_CONTENT_SUMMARY_PROMPT,
+  'scraped-content-analysis': SCRAPED_CONTENT_ANALYSIS_PROMPT,
+  'url-places-extraction': URL_PLACES_EXTRACTION_PROMPT,
+  'mentioned-places': MENTIONED_PLACES_PROMPT,
+  'visitor-facts': VISITOR_FACTS_PROMPT,
+}
+
+export const PROMPT_IDS = Object.keys(PROMPTS) as PromptId[]
+
+export function isPromptId(value: string): value is PromptId {
+  return value in PROMPTS
+}
+
+export function getPromptDefinition<K extends PromptId>(id: K): PromptDefinition<PromptInputs[K]> {
+  return PROMPTS[id] as PromptDefinition<PromptInputs[K]>
+}
+
+/**
+ * Version used for a prompt: its PROMPT_VERSION_<ID> env variable (e.g. PROMPT_VERSION_SCRAPED_CONTENT_SUMMARY=v2),
+ * or its default version
+ * @throws Error if the env variable names an unknown version
+ */
+export function getActivePromptVersion(id: PromptId): string {
+  const override = process.env[`PROMPT_VERSION_${id.toUpperCase().replace(/-/g, '_')}`]?.trim()
+
+  if (!override) {
+    return PROMPTS[id].defaultVersion
+  }
+
+  if (!(override in PROMPTS[id].versions)) {
+    throw new Error(
+      `Unknown version "${override}" for prompt ${id} (available: ${Object.keys(PROMPTS[id].versions).join(', ')})`,
+    )
+  }
+
+  return override
+}
+
+/**
+ * Identifies the prompt version that produced a result, e.g. "scraped-content-summary@v1"
+ */
+export function getPromptVersionTag(id: PromptId, version: string = getActivePromptVersion(id)): string {
+  return `${id}@${version}`
+}
+
+/**
+ * Builds the LLM request of a prompt, with its active version unless a version is given
+ * @throws Error if the version doesn't exist
+ */
+export function buildPromptRequest<K extends PromptId>(
+  id: K,
+  input: PromptInputs[K],
+  version: string = getActivePromptVersion(id),
+): { task: LlmTask; prompt: string; schema: JsonSchema } {
+  const definition = getPromptDefinition(id)
+  const promptVersion = definition.versions[version]
+
+  if (!promptVersion) {
+    throw new Error(`Unknown version "${version}" for prompt ${id}`)
+  }
+
+  return { task: definition.task, prompt: promptVersion.build(input), schema: definition.schema }
+}
+
+/**
+ * Place fields generated by the LLM
+ */
+export type GeneratedPlaceField =
+  | 'website_generated'
+  | 'website_places_generated'
+  | 'wikipedia_generated'
+  | 'wikipedia_places_generated'
+  | 'reddit_generated'
+
+/**
+ * Records the prompt versions that produced generated fields in the place metadata (metadata.prompt_versions),
+ * keeping the versions of the other fields
+ * @returns The updated metadata
+ */
+export function withPromptVersions(
+  metadata: Json | null,
+  fields: Partial<Record<GeneratedPlaceField, PromptId>>,
+): Json {
+  const currentMetadata =
+    metadata && typeof metadata === 'object' && !Array.isArray(metadata) ? (metadata as Record<string, Json>) : {}
+  const currentVersions = (currentMetadata.prompt_versions as Record<string, Json> | undefined) || {}
+
+  const versions: Record<string, Json> = { ...currentVersions }
+  for (const [field, promptId] of Object.entries(fields)) {
+    versions[field] = getPromptVersionTag(promptId)
+  }
+
+  return { ...currentMetadata, prompt_versions: versions }
+}
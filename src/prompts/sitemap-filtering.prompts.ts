@@ -0,0 +1,65 @@
+import { JsonSchema } from '../utils/json-schema'
+import { PromptDefinition, PromptInputs } from './prompt-registry'
+
+export interface SitemapSelectionResponse {
+  urls: string[]
+}
+
+const SITEMAP_SELECTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { urls: { type: 'array', items: { type: 'string' }, description: 'Selected URLs, most relevant first' } },
+}
+
+export const SITEMAP_FILTERING_PROMPT: PromptDefinition<PromptInputs['sitemap-filtering']> = {
+  task: 'sitemap-filtering',
+  schema: SITEMAP_SELECTION_SCHEMA,
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      description: 'Nature, place description and visitor guide pages first, in the language of the country',
+      build: ({ placeName, urls, maxUrls, country }) => {
+        const urlsList = urls.map((url, index) => `${index + 1}. ${url}`).join('\n')
+
+        // Language preference based on country
+        const languageNote =
+          country === 'France'
+            ? '\n\nIMPORTANT: This place is located in France. STRONGLY prioritize French-language pages (URLs containing /fr/, /french/, or French language indicators). Exclude English or other language pages unless no French alternatives exist.'
+            : ''
+
+        return `You are helping to analyze a nature and outdoor place website for a discovery app.
+
+Place name: ${placeName}${country ? `\nCountry: ${country}` : ''}
+Sitemap URLs found: ${urls.length} URLs${languageNote}
+
+Here are the URLs from the sitemap:
+${urlsList}
+
+Please analyze these URLs and select the ${maxUrls} most relevant pages that would contain useful information about this nature/outdoor place. Prioritize pages in this order:
+
+1. **Nature-related pages** - Pages specifically about natural features, landscapes, wildlife, ecosystems
+2. **Informational pages describing the place** - Overview pages, about pages, place descriptions, what to see/do
+3. **Visitor guides and tips** - Pages with tips on how to visit, enjoy, and experience the place (trail guides, visiting tips, best practices, what to bring, when to visit)
+
+Focus on pages that likely contain:
+- Detailed descriptions of the place and its natural features
+- Information about activities available (hiking, wildlife viewing, photography, etc.)
+- Visitor information (hours, fees, access, parking, facilities)
+- Tips and guides for visiting (what to bring, best times to visit, trail recommendations)
+- Natural attractions and points of interest
+- Safety information and regulations
+
+Avoid pages like:
+- Legal/terms pages
+- Privacy policy
+- Generic blog posts not specifically about the place
+- Contact forms
+- Shopping/cart pages
+- News archives or press releases
+- Generic information pages
+- Pages about other places or unrelated topics
+
+Return the selected URLs (exactly ${maxUrls} URLs) in "urls", in order of relevance.`
+      },
+    },
+  },
+}
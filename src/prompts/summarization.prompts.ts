@@ -0,0 +1,281 @@
+import { JsonSchema } from '../utils/json-schema'
+import { Locale, LOCALE_NAMES } from '../utils/locale'
+import { LocalizedPlaceContentInput, PlaceContentInput, PromptDefinition } from './prompt-registry'
+
+export interface SummaryResponse {
+  relevant: boolean
+  summary: string | null
+}
+
+export const SUMMARY_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    relevant: {
+      type: 'boolean',
+      description: 'false when the content has no information relevant for visitors of the place',
+    },
+    summary: { type: 'string', nullable: true, description: 'The summary, null when the content is not relevant' },
+  },
+}
+
+const RELEVANCE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { relevant: { type: 'boolean' } },
+}
+
+export interface PlaceAnalysisResponse {
+  description: string | null
+  mentionedPlaces: string[]
+}
+
+const PLACE_ANALYSIS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    description: { type: 'string', nullable: true, description: 'null when the content is not relevant' },
+    mentionedPlaces: { type: 'array', items: { type: 'string' } },
+  },
+}
+
+/**
+ * Instruction appended to the summary prompts asked for a given language
+ */
+function languageInstruction(locale?: Locale): string {
+  return locale ? `\n\nWrite the summary in ${LOCALE_NAMES[locale]}, whatever the language of the content.` : ''
+}
+
+function createEnhancementPrompt(
+  placeName: string,
+  contentType: string,
+  content: string,
+  focusAreas: string[],
+  locale?: Locale,
+): string {
+  const focusAreasText = focusAreas.map((area) => `- ${area}`).join('\n')
+
+  return `You are helping to enhance place information for a nature and outdoor discovery app.
+
+Place name: ${placeName}
+${contentType}: ${content}
+
+Please analyze this ${contentType.toLowerCase()} and provide a summary that includes ONLY relevant information for someone visiting this nature/outdoor place. Focus on:
+${focusAreasText}
+
+IMPORTANT: Only include information if it's clearly relevant and useful for visitors. If the content is not relevant to travel, outdoor/nature activities or visitor planning, set "relevant" to false and "summary" to null. We prefer no information over irrelevant or poor quality information.${languageInstruction(locale)}`
+}
+
+const WEBSITE_FOCUS_AREAS = [
+  'Key activities available',
+  'Important visitor information (hours, fees, accessibility)',
+  'Notable features or attractions',
+  'Seasonal information if relevant',
+]
+
+export const WEBSITE_SUMMARY_PROMPT: PromptDefinition<LocalizedPlaceContentInput> = {
+  task: 'summarization',
+  schema: SUMMARY_SCHEMA,
+  defaultVersion: 'v2',
+  versions: {
+    v1: {
+      description: 'Visitor-focused summary of the place website',
+      build: ({ placeName, content }) =>
+        createEnhancementPrompt(placeName, 'Website content', content, WEBSITE_FOCUS_AREAS),
+    },
+    v2: {
+      description: 'v1 written in the requested language',
+      build: ({ placeName, content, locale }) =>
+        createEnhancementPrompt(placeName, 'Website content', content, WEBSITE_FOCUS_AREAS, locale),
+    },
+  },
+}
+
+export const REDDIT_SUMMARY_PROMPT: PromptDefinition<PlaceContentInput> = {
+  task: 'summarization',
+  schema: SUMMARY_SCHEMA,
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      description: 'Visitor tips from the relevant Reddit threads',
+      build: ({ placeName, content }) =>
+        createEnhancementPrompt(placeName, 'Reddit discussions', content, [
+          'Visitor tips and experiences',
+          'Best times to visit',
+          'Things to be aware of',
+          'Activity recommendations',
+        ]),
+    },
+  },
+}
+
+const WIKIPEDIA_FOCUS_AREAS = [
+  'Geographic and natural features',
+  'Historical or cultural significance',
+  'Activities available',
+  'Access information',
+]
+
+export const WIKIPEDIA_SUMMARY_PROMPT: PromptDefinition<LocalizedPlaceContentInput> = {
+  task: 'summarization',
+  schema: SUMMARY_SCHEMA,
+  defaultVersion: 'v2',
+  versions: {
+    v1: {
+      description: 'Visitor-focused summary of the Wikipedia article',
+      build: ({ placeName, content }) =>
+        createEnhancementPrompt(placeName, 'Wikipedia content', content, WIKIPEDIA_FOCUS_AREAS),
+    },
+    v2: {
+      description: 'v1 written in the requested language',
+      build: ({ placeName, content, locale }) =>
+        createEnhancementPrompt(placeName, 'Wikipedia content', content, WIKIPEDIA_FOCUS_AREAS, locale),
+    },
+  },
+}
+
+export const REDDIT_RELEVANCE_PROMPT: PromptDefinition<{ placeName: string; threadPreview: string }> = {
+  task: 'summarization',
+  schema: RELEVANCE_SCHEMA,
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      description: 'Whether a Reddit thread is about visiting the place',
+      build: ({
+        placeName,
+        threadPreview,
+      }) => `You are helping to filter Reddit discussions for a nature and outdoor discovery app.
+
+Place name: ${placeName}
+
+Reddit thread preview:
+${threadPreview}
+
+Is this Reddit thread SPECIFICALLY about visiting, discovering, or experiencing "${placeName}" as a nature/outdoor place?
+
+Set "relevant" to true only if:
+- The thread is clearly about this specific place
+- It contains visitor experiences, tips, or recommendations
+- It discusses nature/outdoor activities at this place
+
+Set "relevant" to false if:
+- It's about a different place with a similar name
+- It's only tangentially related
+- It's not about nature/outdoor activities
+- The place is only mentioned in passing`,
+    },
+  },
+}
+
+function buildScrapedContentSummaryPrompt(placeName: string, content: string, locale?: Locale): string {
+  return `You are helping to analyze nature and outdoor places for a discovery app.
+
+Place name: ${placeName}
+Scraped website content: ${content.substring(0, 30000)}
+
+Please analyze this content and provide a COMPREHENSIVE, DETAILED summary that includes ALL relevant information for nature/outdoor enthusiasts visiting this place. 
+
+**TARGET LENGTH: Aim for close to 2000 characters** - this is NOT a brief summary. You should extract and synthesize ALL relevant information from the content. The summary should be thorough, informative, and complete, covering:
+
+1. **Natural Features & Landscapes**: Describe the natural environment, geography, ecosystems, flora, fauna, geological features, biodiversity, unique natural characteristics
+2. **History & Significance**: Historical context, cultural importance, designation status (national park, nature reserve, etc.), any notable historical events or figures associated with the place
+3. **Activities & Experiences**: ALL available activities (hiking, wildlife viewing, photography, camping, birdwatching, etc.), specific trails, routes, viewpoints, guided tours, educational programs
+4. **Access & Practicality**: 
+   - How to get there (detailed directions, transportation options, GPS coordinates if mentioned)
+   - Opening hours and seasons (when accessible, best seasons)
+   - Fees and permits (entry fees, parking fees, required permits)
+   - Parking and facilities (parking locations, restrooms, visitor centers, picnic areas)
+   - Accessibility information (wheelchair access, difficulty levels)
+5. **Visitor Information**: 
+   - Best times to visit (seasons, times of day, weather considerations)
+   - What to bring (recommended equipment, clothing, supplies)
+   - Safety considerations (hazards, weather warnings, wildlife precautions)
+   - Regulations and rules (what's allowed/prohibited, protected areas)
+   - Contact information if relevant (visitor center, park office, emergency contacts)
+6. **Notable Attractions**: Specific points of interest, landmarks, viewpoints, trails, areas to explore, must-see features
+7. **What Makes It Special**: Unique features, why visitors should come here, what sets this place apart
+
+**CRITICAL INSTRUCTIONS:**
+- **LENGTH REQUIREMENT**: Generate a comprehensive summary aiming for 1500-2000 characters. This is NOT a brief 400-character summary. Extract ALL relevant information.
+- **COMPLETENESS**: Include as much relevant detail as possible. If you have 70,000 characters of content, extract the most important and relevant information to create a rich, informative summary.
+- **RELEVANCE**: Only exclude truly irrelevant information (legal disclaimers, generic website boilerplate, navigation menus, cookie notices). Include ALL information about the place itself, its features, activities, access, history, and visitor information.
+- **QUALITY**: Write in an engaging, informative style suitable for nature enthusiasts. Use complete sentences and proper structure.
+- **SCOPE**: Focus ONLY on information about "${placeName}" - do NOT include information about other places mentioned in the content.
+- **NO SHORT SUMMARIES**: Do NOT return a brief summary saying "no relevant information" if there is ANY content about the place. Extract and synthesize the information that exists.
+
+If the content contains relevant information about the place (which it should, since it was scraped from the place's website), provide a comprehensive summary (aim for 1500-2000 characters) in "summary". Only set "relevant" to false and "summary" to null if the content is completely unrelated to the place (e.g., completely different website, error pages, etc.).${languageInstruction(locale)}`
+}
+
+function buildConciseScrapedContentSummaryPrompt(placeName: string, content: string, locale?: Locale): string {
+  return `You are helping to describe nature and outdoor places for a discovery app.
+
+Place name: ${placeName}
+Content: ${content.substring(0, 30000)}
+
+Write a summary of this content for nature/outdoor enthusiasts planning a visit to "${placeName}", in 800 to 1200 characters.
+
+Cover, when the content mentions them, in this order:
+1. What the place is and what makes it special (natural features, landscapes, wildlife, protection status)
+2. Activities, trails and viewpoints
+3. Practical information: access, parking, opening hours and seasons, fees, regulations, safety
+
+RULES:
+- Only state facts found in the content: never add general knowledge or guesses
+- Ignore other places mentioned in the content, website boilerplate, navigation menus and legal notices
+- Write plain, complete sentences in short paragraphs, without lists or markdown
+- Write in ${locale ? LOCALE_NAMES[locale] : 'the language of the content'}
+
+If the content is not about the place (different website, error page, etc.), set "relevant" to false and "summary" to null.`
+}
+
+export const SCRAPED_CONTENT_SUMMARY_PROMPT: PromptDefinition<LocalizedPlaceContentInput> = {
+  task: 'summarization',
+  schema: SUMMARY_SCHEMA,
+  defaultVersion: 'v3',
+  versions: {
+    v1: {
+      description: 'Comprehensive summary of 1500-2000 characters',
+      build: ({ placeName, content }) => buildScrapedContentSummaryPrompt(placeName, content),
+    },
+    v2: {
+      description: 'Shorter summary (800-1200 characters) stating only facts found in the content',
+      build: ({ placeName, content }) => buildConciseScrapedContentSummaryPrompt(placeName, content),
+    },
+    v3: {
+      description: 'v1 written in the requested language',
+      build: ({ placeName, content, locale }) => buildScrapedContentSummaryPrompt(placeName, content, locale),
+    },
+    v4: {
+      description: 'v2 written in the requested language',
+      build: ({ placeName, content, locale }) => buildConciseScrapedContentSummaryPrompt(placeName, content, locale),
+    },
+  },
+}
+
+/**
+ * @deprecated Used by analyzeScrapedContent, see scraped-content-summary and mentioned-places instead
+ */
+export const SCRAPED_CONTENT_ANALYSIS_PROMPT: PromptDefinition<PlaceContentInput> = {
+  task: 'summarization',
+  schema: PLACE_ANALYSIS_SCHEMA,
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      description: 'Description and mentioned places in a single call',
+      build: ({ placeName, content }) => `You are helping to analyze nature and outdoor places for a discovery app.
+
+Place name: ${placeName}
+Scraped website content: ${content.substring(0, 15000)}
+
+Please analyze this content and provide:
+- "description": A detailed, engaging description of this place (maximum 2000 characters). Focus on what makes this place special, key activities, visitor information, natural features, and why someone would want to visit. Only include relevant information for nature/outdoor enthusiasts.
+- "mentionedPlaces": Other nature places, parks, trails, or natural landmarks mentioned in the content that would be worth having in our database. Only include places that are specifically named and relevant to nature/outdoor activities. Return an empty array if none found.
+
+IMPORTANT RULES:
+1. The description must be engaging, informative, and focused on nature/outdoor activities
+2. Maximum 2000 characters for description
+3. Only include mentioned places that are:
+   - Specifically named (not generic references like "nearby parks")
+   - Related to nature, outdoors, hiking, wildlife, or similar activities
+   - Distinct places that could have their own database entry
+4. If the content is not relevant or insufficient, set "description" to null and "mentionedPlaces" to an empty array`,
+    },
+  },
+}
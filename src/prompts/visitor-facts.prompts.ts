@@ -0,0 +1,74 @@
+import { VISITOR_FACT_KEYS, VisitorFactKey } from '../db/place-visitor-facts'
+import { JsonSchema } from '../utils/json-schema'
+import { PlaceContentInput, PromptDefinition } from './prompt-registry'
+
+export interface VisitorFactsResponse {
+  facts: Array<{
+    fact: VisitorFactKey
+    value: string
+    evidence: string | null
+    confidence: number
+  }>
+}
+
+const VISITOR_FACTS_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    facts: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          fact: { type: 'string', enum: [...VISITOR_FACT_KEYS] },
+          value: { type: 'string', description: 'The information, short and in the language of the content' },
+          evidence: {
+            type: 'string',
+            nullable: true,
+            description: 'The passage of the content stating the information, quoted as written',
+          },
+          confidence: {
+            type: 'number',
+            minimum: 0,
+            maximum: 1,
+            description: 'Confidence that the content states this information about the place',
+          },
+        },
+      },
+    },
+  },
+}
+
+export const VISITOR_FACTS_PROMPT: PromptDefinition<PlaceContentInput> = {
+  task: 'extraction',
+  schema: VISITOR_FACTS_SCHEMA,
+  defaultVersion: 'v1',
+  versions: {
+    v1: {
+      description: 'Practical visitor information stated in the content, with the quoted passage',
+      build: ({
+        placeName,
+        content,
+      }) => `You are helping to build practical visitor information for nature and outdoor places.
+
+Place name: ${placeName}
+Content: ${content.substring(0, 20000)}
+
+Please extract the practical information about visiting ${placeName} that the content states explicitly:
+- best_time_to_visit: the recommended season, months or time of day (e.g. "May to October, early morning to see wildlife")
+- entrance_fee: the price to enter or "Free" (e.g. "Adults 8 €, children under 12 free")
+- operating_hours: the opening hours or days (e.g. "Every day 9:00-18:00 from April to September")
+- parking_info: where to park and its cost (e.g. "Paid parking at the trailhead, 5 € per day")
+- estimated_activity_duration: how long a visit or the main hike takes (e.g. "2h30 loop")
+- activity: the main activities available (e.g. "Hiking, swimming, canyoning")
+
+For each information found, return the fact, its value, the passage of the content it comes from (quoted as written) and a confidence score between 0 and 1.
+
+IMPORTANT:
+- Only extract information stated in the content, never guess or use general knowledge
+- Only extract information about ${placeName} itself, not about other places mentioned
+- Return each fact at most once
+- Keep values short (under 200 characters)
+- If the content doesn't give any of this information, return an empty "facts" array`,
+    },
+  },
+}
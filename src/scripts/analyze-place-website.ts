@@ -61,6 +61,7 @@ async function main() {
 
     console.log('\n✨ Summary:')
     console.log(`   - Pages scraped: ${result.scrapedPagesCount}`)
+    console.log(`   - Pages rendered (JavaScript): ${result.renderedPagesCount}`)
     console.log(`   - Description length: ${result.description.length} chars`)
     console.log(`   - Mentioned places: ${result.mentionedPlaces.length}`)
 
@@ -45,6 +45,7 @@ async function main() {
     results.forEach((result, index) => {
       console.log(`\n📄 Source ${index + 1}: ${result.url}`)
       console.log(`   Source ID: ${result.sourceId}`)
+      console.log(`   Format: ${result.contentFormat || 'unknown (cached before formats were stored)'}`)
       console.log(`   Places found: ${result.places.length}`)
       console.log('-'.repeat(80))
 
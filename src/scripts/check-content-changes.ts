@@ -0,0 +1,105 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script to check analyzed URLs and place websites for content changes, and run the AI analysis again
+ * on the ones that materially changed
+ *
+ * Usage:
+ *   pnpm run check-content-changes [--limit N] [--target source|place-website]
+ *
+ * Example:
+ *   pnpm run check-content-changes --limit 20 --target place-website
+ */
+
+import 'dotenv/config'
+import { checkContentChangesCore, CONTENT_TARGETS, ContentTarget } from '../services/content-change.service'
+
+function printUsage() {
+  console.error('\nUsage:')
+  console.error('  pnpm run check-content-changes [--limit N] [--target source|place-website]')
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  let limit: number | undefined
+  let targets: ContentTarget[] | undefined
+
+  // Parse command line arguments
+  for (let i = 0; i < args.length; i++) {
+    const value = args[i + 1]
+
+    if (args[i] === '--limit') {
+      limit = parseInt(value || '', 10)
+      if (isNaN(limit) || limit < 1) {
+        console.error('❌ --limit must be a number >= 1')
+        process.exit(1)
+      }
+      i++
+    } else if (args[i] === '--target') {
+      if (!CONTENT_TARGETS.includes(value as ContentTarget)) {
+        console.error(`❌ --target must be one of: ${CONTENT_TARGETS.join(', ')}`)
+        process.exit(1)
+      }
+      targets = [value as ContentTarget]
+      i++
+    } else {
+      console.error(`❌ Unknown argument: ${args[i]}`)
+      printUsage()
+      process.exit(1)
+    }
+  }
+
+  console.log('🚀 Starting content change detection...\n')
+
+  try {
+    const { results, error } = await checkContentChangesCore({ limit, targets })
+
+    if (error) {
+      console.error(`❌ ${error}`)
+      process.exit(1)
+    }
+
+    console.log('\n' + '='.repeat(80))
+    console.log('✅ CONTENT CHANGE DETECTION COMPLETE')
+    console.log('='.repeat(80))
+
+    for (const result of results.filter((r) => r.status === 'changed' || r.status === 'failed')) {
+      if (result.status === 'failed') {
+        console.log(`❌ ${result.url}: ${result.error}`)
+        continue
+      }
+
+      console.log(`📝 ${result.url}: ${Math.round((result.diff?.changeRatio || 0) * 100)}% of the text changed`)
+      for (const added of result.diff?.added || []) {
+        console.log(`   + ${added}`)
+      }
+      for (const removed of result.diff?.removed || []) {
+        console.log(`   - ${removed}`)
+      }
+      if (result.error) {
+        console.log(`   ⚠️  ${result.error}`)
+      }
+    }
+
+    const countStatus = (status: string) => results.filter((r) => r.status === status).length
+
+    console.log(`\n✨ Summary:`)
+    console.log(`   - Contents checked: ${results.length}`)
+    console.log(`   - Not modified (304): ${countStatus('not-modified')}`)
+    console.log(`   - Unchanged: ${countStatus('unchanged')}`)
+    console.log(`   - Minor changes (ignored): ${countStatus('minor-change')}`)
+    console.log(`   - Changed: ${countStatus('changed')}`)
+    console.log(`   - Analyzed again: ${results.filter((r) => r.reanalyzed).length}`)
+    console.log(`   - Failed: ${countStatus('failed')}`)
+
+    console.log('\n✅ Script completed successfully!')
+  } catch (error) {
+    console.error('\n❌ Fatal error occurred:')
+    console.error(error)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
@@ -0,0 +1,77 @@
+import 'dotenv/config'
+import { DEDUP_CONFIG } from '../config/dedup.config'
+import { DedupCluster, dedupPlacesCore } from '../services/place-dedup.service'
+
+async function dedupPlaces() {
+  const apply = process.argv.includes('--apply')
+
+  console.log('🔗 Place Deduplication Script')
+  console.log('=============================\n')
+
+  if (!apply) {
+    console.log('🔍 Report only: duplicates are listed but not merged\n')
+  }
+
+  console.log(
+    `⚙️ Name similarity >= ${DEDUP_CONFIG.minNameSimilarity}, distance <= ${DEDUP_CONFIG.maxCenterDistanceKm} km or overlap >= ${DEDUP_CONFIG.minOverlapRatio}`,
+  )
+  console.log(`⚙️ Canonical source priority: ${DEDUP_CONFIG.sourcePriority.join(' > ')}\n`)
+
+  try {
+    const { clusters, results, error } = await dedupPlacesCore({ apply })
+
+    if (error) {
+      console.error(`❌ ${error}`)
+      process.exit(1)
+    }
+
+    if (clusters.length === 0) {
+      console.log('✅ No duplicates found!')
+      return
+    }
+
+    printClusters(clusters)
+
+    // Summary
+    console.log('\n📊 Deduplication Summary:')
+    console.log('========================')
+    console.log(`Clusters found: ${clusters.length}`)
+    console.log(`Duplicate places: ${clusters.reduce((sum, c) => sum + c.duplicates.length, 0)}`)
+
+    if (apply) {
+      console.log(`Clusters merged: ${results.filter((r) => r.merged).length}`)
+      console.log(`Errors: ${results.filter((r) => r.error).length}`)
+      console.log('\n🎉 Deduplication completed!')
+    } else {
+      console.log('\n🔍 Report completed, nothing was merged. Run with --apply to merge the clusters.')
+    }
+  } catch (error) {
+    console.error('❌ Script failed:', error)
+    process.exit(1)
+  }
+}
+
+function printClusters(clusters: DedupCluster[]) {
+  console.log('\n📋 Duplicate Clusters:')
+  console.log('=====================')
+
+  for (const cluster of clusters) {
+    const { canonical } = cluster
+    console.log(`\n⭐ ${canonical.name} [${canonical.source}] ${canonical.id} (score ${canonical.score})`)
+
+    for (const duplicate of cluster.duplicates) {
+      const pair = cluster.pairs.find((p) => p.placeId === duplicate.id || p.otherPlaceId === duplicate.id)
+      const match = pair
+        ? ` similarity ${pair.nameSimilarity}, ${pair.distanceKm} km${pair.overlapRatio !== null ? `, overlap ${pair.overlapRatio}` : ''}`
+        : ''
+      console.log(`  ↳ ${duplicate.name} [${duplicate.source}] ${duplicate.id} -${match}`)
+    }
+
+    if (cluster.mergedFields.length > 0) {
+      console.log(`  📝 Fields filled from duplicates: ${cluster.mergedFields.join(', ')}`)
+    }
+  }
+}
+
+// Run the script
+dedupPlaces().catch(console.error)
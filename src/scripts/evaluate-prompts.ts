@@ -0,0 +1,129 @@
+import 'dotenv/config'
+import { writeFileSync } from 'fs'
+import { getPromptDefinition, isPromptId, PROMPT_IDS } from '../prompts/prompt-registry'
+import { getAIError, isAIAvailable } from '../services/ai.service'
+import {
+  EVALUABLE_PROMPT_IDS,
+  evaluatePromptVersions,
+  formatEvaluationMarkdown,
+  RawContentField,
+} from '../services/prompt-evaluation.service'
+
+const DEFAULT_SAMPLE_SIZE = 10
+
+function printUsage() {
+  console.log('Usage:')
+  console.log(
+    '  pnpm evaluate-prompts <promptId> <versionA> <versionB> [--content website|wikipedia] [--sample N] [--output report.md]',
+  )
+  console.log('  pnpm evaluate-prompts list')
+  console.log('\nExamples:')
+  console.log('  pnpm evaluate-prompts scraped-content-summary v1 v2')
+  console.log('  pnpm evaluate-prompts mentioned-places v1 v2 --content wikipedia --sample 20 --output eval.md')
+}
+
+function listPrompts() {
+  console.log('📋 Prompts and versions:\n')
+
+  for (const promptId of PROMPT_IDS) {
+    const definition = getPromptDefinition(promptId)
+    const evaluable = EVALUABLE_PROMPT_IDS.includes(promptId) ? '' : ' (not evaluable on raw content)'
+    console.log(`${promptId} [${definition.task}]${evaluable}`)
+
+    for (const [version, promptVersion] of Object.entries(definition.versions)) {
+      const isDefault = version === definition.defaultVersion ? ' (default)' : ''
+      console.log(`  ${version}${isDefault}: ${promptVersion.description}`)
+    }
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  if (args[0] === 'list') {
+    listPrompts()
+    return
+  }
+
+  const [promptId, versionA, versionB] = args
+  let contentField: RawContentField = 'website_raw'
+  let sampleSize = DEFAULT_SAMPLE_SIZE
+  let outputPath: string | undefined
+
+  if (!promptId || !versionA || !versionB) {
+    printUsage()
+    process.exit(1)
+  }
+
+  if (!isPromptId(promptId)) {
+    console.error(`❌ Unknown prompt "${promptId}" (available: ${PROMPT_IDS.join(', ')})`)
+    process.exit(1)
+  }
+
+  // Parse command line arguments
+  for (let i = 3; i < args.length; i++) {
+    if (args[i] === '--content' && i + 1 < args.length) {
+      if (args[i + 1] !== 'website' && args[i + 1] !== 'wikipedia') {
+        console.error('❌ content must be website or wikipedia')
+        process.exit(1)
+      }
+      contentField = args[i + 1] === 'website' ? 'website_raw' : 'wikipedia_raw'
+      i++
+    } else if (args[i] === '--sample' && i + 1 < args.length) {
+      sampleSize = Number(args[i + 1])
+      if (!Number.isInteger(sampleSize) || sampleSize < 1) {
+        console.error('❌ sample must be a positive integer')
+        process.exit(1)
+      }
+      i++
+    } else if (args[i] === '--output' && i + 1 < args.length) {
+      outputPath = args[i + 1]
+      i++
+    }
+  }
+
+  if (!isAIAvailable()) {
+    console.error('❌ AI service is not available:', getAIError())
+    process.exit(1)
+  }
+
+  console.log('🧪 Prompt Evaluation')
+  console.log('====================\n')
+  console.log(`${promptId}: ${versionA} vs ${versionB} on the ${contentField} of ${sampleSize} places\n`)
+
+  try {
+    const { evaluation, error } = await evaluatePromptVersions({
+      promptId,
+      versionA,
+      versionB,
+      contentField,
+      sampleSize,
+    })
+
+    if (error || !evaluation) {
+      console.error(`❌ ${error}`)
+      process.exit(1)
+    }
+
+    if (evaluation.comparisons.length === 0) {
+      console.log(`✅ No places with cached ${contentField} to evaluate on`)
+      return
+    }
+
+    const report = formatEvaluationMarkdown(evaluation)
+
+    if (outputPath) {
+      writeFileSync(outputPath, report)
+      console.log(`\n📝 Comparison written to ${outputPath}`)
+    } else {
+      console.log(`\n${report}`)
+    }
+  } catch (error) {
+    console.error('❌ Fatal error:', error)
+    process.exit(1)
+  }
+}
+
+if (require.main === module) {
+  main()
+}
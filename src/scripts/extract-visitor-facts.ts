@@ -0,0 +1,92 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script to extract the visitor facts of a place (best time to visit, fees, hours, parking, duration, activities)
+ * from its cached website and Wikipedia content
+ *
+ * Usage:
+ *   pnpm run extract-visitor-facts <place-id> [--source website|wikipedia]
+ *   ts-node src/scripts/extract-visitor-facts.ts <place-id> [--source website|wikipedia]
+ *
+ * Example:
+ *   pnpm run extract-visitor-facts 123e4567-e89b-12d3-a456-426614174000
+ */
+
+import 'dotenv/config'
+import { VISITOR_FACT_KEYS, VISITOR_FACT_SOURCES, VisitorFactSource } from '../db/place-visitor-facts'
+import { extractPlaceVisitorFactsCore } from '../services/visitor-facts.service'
+
+async function main() {
+  const args = process.argv.slice(2)
+  const placeId = args[0]
+  let sources: VisitorFactSource[] | undefined
+
+  if (!placeId || placeId.startsWith('--')) {
+    console.error('❌ Error: Place ID is required')
+    console.error('\nUsage:')
+    console.error('  pnpm run extract-visitor-facts <place-id> [--source website|wikipedia]')
+    console.error('\nExample:')
+    console.error('  pnpm run extract-visitor-facts 123e4567-e89b-12d3-a456-426614174000')
+    process.exit(1)
+  }
+
+  // Parse command line arguments
+  for (let i = 1; i < args.length; i++) {
+    if (args[i] === '--source' && i + 1 < args.length) {
+      if (!VISITOR_FACT_SOURCES.includes(args[i + 1] as VisitorFactSource)) {
+        console.error(`❌ --source must be one of: ${VISITOR_FACT_SOURCES.join(', ')}`)
+        process.exit(1)
+      }
+      sources = [args[i + 1] as VisitorFactSource]
+      i++
+    }
+  }
+
+  console.log('🚀 Starting visitor facts extraction...\n')
+  console.log(`Place ID: ${placeId}\n`)
+
+  try {
+    const { result, error } = await extractPlaceVisitorFactsCore(placeId, { sources })
+
+    if (error || !result) {
+      console.error(`❌ ${error}`)
+      process.exit(1)
+    }
+
+    console.log('\n' + '='.repeat(80))
+    console.log(`✅ VISITOR FACTS OF ${result.placeName.toUpperCase()}`)
+    console.log('='.repeat(80))
+
+    for (const key of VISITOR_FACT_KEYS) {
+      const fact = result.facts[key]
+      console.log(`\n${key}:`)
+
+      if (!fact) {
+        console.log('   (not found)')
+        continue
+      }
+
+      console.log(`   ${fact.value}`)
+      console.log(
+        `   Source: ${fact.source}${fact.sourceUrl ? ` (${fact.sourceUrl})` : ''}, confidence ${fact.confidence}`,
+      )
+      if (fact.evidence) {
+        console.log(`   Evidence: "${fact.evidence}"`)
+      }
+    }
+
+    console.log('\n✨ Summary:')
+    for (const source of result.sources) {
+      console.log(`   - ${source.source}: ${source.factsCount} facts`)
+    }
+
+    console.log('\n✅ Script completed successfully!')
+  } catch (error) {
+    console.error('\n❌ Fatal error occurred:')
+    console.error(error)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
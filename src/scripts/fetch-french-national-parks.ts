@@ -325,7 +325,7 @@ class FrenchNationalParksFetcher {
 
       if (!this.force) {
         const parkNames = Array.from(parksByName.keys())
-        const existingParks = await getExistingPlaces(parkNames)
+        const existingParks = await getExistingPlaces(parkNames, 'national_park')
 
         for (const existingPark of existingParks) {
           parksByName.delete(existingPark)
@@ -0,0 +1,131 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script to ingest a whole travel site: discovers its pages (sitemap or links), creates a source per page
+ * and extracts the nature places of each page
+ *
+ * Usage:
+ *   pnpm run ingest-site <root-url> [--discovery auto|sitemap|links] [--max-depth N] [--max-pages N]
+ *                                   [--include pattern]... [--exclude pattern]... [--bypass-cache]
+ *
+ * Example:
+ *   pnpm run ingest-site "https://example.com/blog/" --discovery links --include "/blog/[a-z0-9-]+/?$" --exclude "/tag/"
+ */
+
+import 'dotenv/config'
+import { ingestSiteCore, SITE_DISCOVERY_MODES, SiteDiscoveryMode } from '../services/site-ingestion.service'
+
+function printUsage() {
+  console.error('\nUsage:')
+  console.error(
+    '  pnpm run ingest-site <root-url> [--discovery auto|sitemap|links] [--max-depth N] [--max-pages N] [--include pattern]... [--exclude pattern]... [--bypass-cache]',
+  )
+  console.error('\nExample:')
+  console.error(
+    '  pnpm run ingest-site "https://example.com/blog/" --discovery links --include "/blog/" --exclude "/tag/"',
+  )
+}
+
+function parseNumberArg(name: string, value: string | undefined, min: number): number {
+  const parsed = parseInt(value || '', 10)
+  if (isNaN(parsed) || parsed < min) {
+    console.error(`❌ ${name} must be a number >= ${min}`)
+    process.exit(1)
+  }
+  return parsed
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  const rootUrl = args[0]
+
+  if (!rootUrl || rootUrl.startsWith('--')) {
+    console.error('❌ Error: Root URL is required')
+    printUsage()
+    process.exit(1)
+  }
+
+  let discovery: SiteDiscoveryMode | undefined
+  let maxDepth: number | undefined
+  let maxPages: number | undefined
+  const includePatterns: string[] = []
+  const excludePatterns: string[] = []
+  let bypassCache = false
+
+  // Parse command line arguments
+  for (let i = 1; i < args.length; i++) {
+    const value = args[i + 1]
+
+    if (args[i] === '--discovery') {
+      if (!SITE_DISCOVERY_MODES.includes(value as SiteDiscoveryMode)) {
+        console.error(`❌ --discovery must be one of: ${SITE_DISCOVERY_MODES.join(', ')}`)
+        process.exit(1)
+      }
+      discovery = value as SiteDiscoveryMode
+      i++
+    } else if (args[i] === '--max-depth') {
+      maxDepth = parseNumberArg('--max-depth', value, 0)
+      i++
+    } else if (args[i] === '--max-pages') {
+      maxPages = parseNumberArg('--max-pages', value, 1)
+      i++
+    } else if (args[i] === '--include' && value) {
+      includePatterns.push(value)
+      i++
+    } else if (args[i] === '--exclude' && value) {
+      excludePatterns.push(value)
+      i++
+    } else if (args[i] === '--bypass-cache') {
+      bypassCache = true
+    } else {
+      console.error(`❌ Unknown argument: ${args[i]}`)
+      printUsage()
+      process.exit(1)
+    }
+  }
+
+  console.log('🚀 Starting site ingestion...\n')
+  console.log(`Root URL: ${rootUrl}\n`)
+
+  try {
+    const { result, error } = await ingestSiteCore(rootUrl, {
+      discovery,
+      maxDepth,
+      maxPages,
+      includePatterns,
+      excludePatterns,
+      bypassCache,
+    })
+
+    if (error || !result) {
+      console.error(`❌ ${error}`)
+      process.exit(1)
+    }
+
+    console.log('\n' + '='.repeat(80))
+    console.log('✅ SITE INGESTION COMPLETE')
+    console.log('='.repeat(80))
+
+    for (const page of result.pages) {
+      const icon = page.status === 'analyzed' ? '✅' : page.status === 'skipped' ? '⏭️ ' : '❌'
+      console.log(`${icon} ${page.url}${page.status === 'analyzed' ? ` (${page.placesCount} places)` : ''}`)
+    }
+
+    console.log(`\n✨ Summary:`)
+    console.log(`   - Discovery: ${result.discovery}`)
+    console.log(`   - Pages discovered: ${result.pagesDiscovered}`)
+    console.log(`   - Pages analyzed: ${result.pages.filter((p) => p.status === 'analyzed').length}`)
+    console.log(`   - Pages skipped (already analyzed): ${result.pages.filter((p) => p.status === 'skipped').length}`)
+    console.log(`   - Pages failed: ${result.pages.filter((p) => p.status === 'failed').length}`)
+    console.log(`   - Places extracted: ${result.pages.reduce((sum, p) => sum + p.placesCount, 0)}`)
+
+    console.log('\n✅ Script completed successfully!')
+  } catch (error) {
+    console.error('\n❌ Fatal error occurred:')
+    console.error(error)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
@@ -0,0 +1,103 @@
+import 'dotenv/config'
+import {
+  getLlmUsageReport,
+  isValidReportDate,
+  LLM_USAGE_GROUP_BY,
+  LlmUsageGroupBy,
+  LlmUsageReport,
+  parseLlmUsageGroupBy,
+} from '../services/llm-usage.service'
+
+function formatUsd(value: number): string {
+  return `$${value.toFixed(4)}`
+}
+
+function printReport(report: LlmUsageReport) {
+  console.log(`📅 ${report.from} → ${report.to}, grouped by ${report.groupBy.join(', ')}\n`)
+
+  if (report.entries.length === 0) {
+    console.log('✅ No LLM calls recorded in this period')
+    return
+  }
+
+  console.table(
+    report.entries.map((entry) => ({
+      ...Object.fromEntries(
+        report.groupBy.map((dimension) => [
+          dimension,
+          dimension === 'department' ? (entry.department ?? '(no place)') : entry[dimension],
+        ]),
+      ),
+      calls: entry.calls,
+      errors: entry.errors,
+      'prompt tokens': entry.promptTokens,
+      'response tokens': entry.responseTokens,
+      'avg latency (ms)': entry.averageLatencyMs,
+      cost: formatUsd(entry.costUsd),
+    })),
+  )
+
+  const { total } = report
+  console.log('\n📊 Total:')
+  console.log('=========')
+  console.log(`Calls: ${total.calls} (${total.errors} failed or invalid)`)
+  console.log(`Tokens: ${total.promptTokens} prompt, ${total.responseTokens} response`)
+  console.log(`Average latency: ${total.averageLatencyMs} ms`)
+  console.log(`Cost: ${formatUsd(total.costUsd)}`)
+
+  if (report.dailyBudgetUsd !== null) {
+    console.log(`Daily budget: ${formatUsd(report.dailyBudgetUsd)}`)
+  }
+}
+
+async function main() {
+  const args = process.argv.slice(2)
+  let from: string | undefined
+  let to: string | undefined
+  let groupBy: LlmUsageGroupBy[] | undefined
+
+  // Parse command line arguments
+  for (let i = 0; i < args.length; i++) {
+    if ((args[i] === '--from' || args[i] === '--to') && i + 1 < args.length) {
+      if (!isValidReportDate(args[i + 1])) {
+        console.error(`❌ ${args[i]} must be a date in the YYYY-MM-DD format`)
+        process.exit(1)
+      }
+      if (args[i] === '--from') {
+        from = args[i + 1]
+      } else {
+        to = args[i + 1]
+      }
+      i++
+    } else if (args[i] === '--group-by' && i + 1 < args.length) {
+      const dimensions = parseLlmUsageGroupBy(args[i + 1])
+      if (!dimensions) {
+        console.error(`❌ --group-by must be a comma-separated list of: ${LLM_USAGE_GROUP_BY.join(', ')}`)
+        process.exit(1)
+      }
+      groupBy = dimensions
+      i++
+    }
+  }
+
+  console.log('💸 LLM Usage Report')
+  console.log('===================\n')
+
+  try {
+    const { report, error } = await getLlmUsageReport({ from, to, groupBy })
+
+    if (error || !report) {
+      console.error(`❌ ${error}`)
+      process.exit(1)
+    }
+
+    printReport(report)
+  } catch (error) {
+    console.error('❌ Fatal error:', error)
+    process.exit(1)
+  }
+}
+
+if (require.main === module) {
+  main()
+}
@@ -1,109 +1,53 @@
 import 'dotenv/config'
-import { supabase } from '../services/supabase.service'
 import {
-  calculatePlaceScore,
-  hasWebsiteEnhancement,
-  hasRedditEnhancement,
-  hasWikipediaEnhancement,
-} from '../services/score.service'
-
-interface ScoreRecalculationResult {
-  placeId: string
-  placeName: string
-  previousEnhancementScore: number
-  newEnhancementScore: number
-  previousTotalScore: number
-  newTotalScore: number
-}
+  buildScoreDistributionReport,
+  recalculateScoresCore,
+  ScoreRecalculationResult,
+} from '../services/score-recalculation.service'
+import { hasRedditEnhancement, hasWebsiteEnhancement, hasWikipediaEnhancement } from '../services/score.service'
 
 async function recalculateScores() {
+  const dryRun = process.argv.includes('--dry-run')
+
   console.log('🧮 Score Recalculation Script')
   console.log('=============================\n')
 
+  if (dryRun) {
+    console.log('🔍 Dry run: scores are computed but not saved\n')
+  }
+
   try {
-    // Fetch all places
-    console.log('📋 Fetching all places...')
-    const { data: places, error } = await supabase.from('places').select('*')
+    const { results, places, error } = await recalculateScoresCore({ dryRun })
 
     if (error) {
-      console.error('❌ Error fetching places:', error)
+      console.error(`❌ ${error}`)
       process.exit(1)
     }
 
-    if (!places || places.length === 0) {
+    if (places.length === 0) {
       console.log('✅ No places found!')
       return
     }
 
-    console.log(`📊 Found ${places.length} places to process\n`)
-
-    const results: ScoreRecalculationResult[] = []
-    let updatedCount = 0
-
-    for (let i = 0; i < places.length; i++) {
-      const place = places[i]
-      console.log(`📍 Processing place ${i + 1}/${places.length}: ${place.name}`)
-
-      const previousEnhancementScore = place.enhancement_score || 0
-      const previousTotalScore = place.score || 0
-
-      // Calculate scores using the score service
-      const scoreCalculation = calculatePlaceScore(place)
-      const newEnhancementScore = scoreCalculation.totalEnhancementScore
-      const newTotalScore = scoreCalculation.totalScore
-
-      if (scoreCalculation.websiteScore > 0) {
-        console.log('  ✅ Website enhancement found (+2 points)')
-      }
-      if (scoreCalculation.redditScore > 0) {
-        console.log('  ✅ Reddit enhancement found (+2 points)')
-      }
-      if (scoreCalculation.wikipediaScore > 0) {
-        console.log('  ✅ Wikipedia enhancement found (+4 points)')
-      }
-
-      const result: ScoreRecalculationResult = {
-        placeId: place.id,
-        placeName: place.name || 'Unknown',
-        previousEnhancementScore,
-        newEnhancementScore,
-        previousTotalScore,
-        newTotalScore,
-      }
-
-      results.push(result)
-
-      // Update database if scores changed
-      if (previousEnhancementScore !== newEnhancementScore || previousTotalScore !== newTotalScore) {
-        const { error: updateError } = await supabase
-          .from('places')
-          .update({
-            enhancement_score: newEnhancementScore,
-            score: newTotalScore,
-          })
-          .eq('id', place.id)
-
-        if (updateError) {
-          console.error(`  ❌ Failed to update scores: ${updateError.message}`)
-        } else {
-          console.log(`  📈 Updated scores: ${previousEnhancementScore} → ${newEnhancementScore} (enhancement), ${previousTotalScore} → ${newTotalScore} (total)`)
-          updatedCount++
-        }
-      } else {
-        console.log(`  ✅ Scores already correct`)
-      }
-
-      console.log() // Empty line for readability
-    }
-
     // Summary
     console.log('📊 Recalculation Summary:')
     console.log('========================')
     console.log(`Total places processed: ${results.length}`)
-    console.log(`Places with score updates: ${updatedCount}`)
-    console.log(`Places with website enhancements: ${results.filter(r => hasWebsiteEnhancement(places.find(p => p.id === r.placeId)!)).length}`)
-    console.log(`Places with reddit enhancements: ${results.filter(r => hasRedditEnhancement(places.find(p => p.id === r.placeId)!)).length}`)
-    console.log(`Places with wikipedia enhancements: ${results.filter(r => hasWikipediaEnhancement(places.find(p => p.id === r.placeId)!)).length}`)
+    if (!dryRun) {
+      console.log(`Places with score updates: ${results.filter((r) => r.updated).length}`)
+    }
+    console.log(`Places with website enhancements: ${places.filter(hasWebsiteEnhancement).length}`)
+    console.log(`Places with reddit enhancements: ${places.filter(hasRedditEnhancement).length}`)
+    console.log(`Places with wikipedia enhancements: ${places.filter(hasWikipediaEnhancement).length}`)
+    console.log(
+      `Places with a Google rating bonus: ${results.filter((r) => r.calculation.googleRatingScore > 0).length}`,
+    )
+    console.log(`Places with a photos bonus: ${results.filter((r) => r.calculation.photosScore > 0).length}`)
+    console.log(`Places with an area bonus: ${results.filter((r) => r.calculation.areaScore > 0).length}`)
+    console.log(
+      `Places with a protected area bonus: ${results.filter((r) => r.calculation.protectedAreaScore > 0).length}`,
+    )
+    console.log(`Places with a mentions bonus: ${results.filter((r) => r.calculation.mentionsScore > 0).length}`)
 
     const totalEnhancementScore = results.reduce((sum, r) => sum + r.newEnhancementScore, 0)
     const totalScore = results.reduce((sum, r) => sum + r.newTotalScore, 0)
@@ -111,13 +55,45 @@ async function recalculateScores() {
     console.log(`Total enhancement score: ${totalEnhancementScore}`)
     console.log(`Total score: ${totalScore}`)
 
-    console.log('\n🎉 Score recalculation completed!')
+    if (dryRun) {
+      printDistributionReport(results)
+      console.log('\n🔍 Dry run completed, no scores were saved. Run without --dry-run to apply.')
+    } else {
+      console.log('\n🎉 Score recalculation completed!')
+    }
   } catch (error) {
     console.error('❌ Script failed:', error)
     process.exit(1)
   }
 }
 
+function printDistributionReport(results: ScoreRecalculationResult[]) {
+  const report = buildScoreDistributionReport(results)
+
+  console.log('\n📈 Score Distribution Shift:')
+  console.log('===========================')
+  console.log(`Increased: ${report.increasedCount}`)
+  console.log(`Decreased: ${report.decreasedCount}`)
+  console.log(`Unchanged: ${report.unchangedCount}`)
+  console.log(
+    `Mean: ${report.previous.mean} → ${report.next.mean} | Median: ${report.previous.median} → ${report.next.median} | Max: ${report.previous.max} → ${report.next.max}`,
+  )
+
+  console.log('\nScore range | Current | New')
+  for (const bucket of report.buckets) {
+    console.log(`${bucket.range.padEnd(11)} | ${String(bucket.previousCount).padEnd(7)} | ${bucket.newCount}`)
+  }
+
+  if (report.topChanges.length > 0) {
+    console.log('\nLargest changes:')
+    for (const change of report.topChanges) {
+      const delta = change.newTotalScore - change.previousTotalScore
+      console.log(
+        `  ${delta > 0 ? '+' : ''}${delta} ${change.placeName}: ${change.previousTotalScore} → ${change.newTotalScore}`,
+      )
+    }
+  }
+}
 
 // Run the script
-recalculateScores().catch(console.error)
\ No newline at end of file
+recalculateScores().catch(console.error)
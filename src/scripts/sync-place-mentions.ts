@@ -0,0 +1,63 @@
+#!/usr/bin/env ts-node
+
+/**
+ * Script to rebuild the place mentions graph from the verified generated places of place websites and Wikipedia
+ * articles, e.g. for the places verified before the mentions graph existed
+ *
+ * Usage:
+ *   pnpm run sync-place-mentions
+ */
+
+import 'dotenv/config'
+import { syncAllPlaceMentionsCore } from '../services/place-mentions.service'
+
+async function main() {
+  const args = process.argv.slice(2)
+
+  if (args.length > 0) {
+    console.error(`❌ Unknown argument: ${args[0]}`)
+    console.error('\nUsage:')
+    console.error('  pnpm run sync-place-mentions')
+    process.exit(1)
+  }
+
+  console.log('🚀 Starting place mentions sync...\n')
+
+  try {
+    const { results, error } = await syncAllPlaceMentionsCore()
+
+    if (error) {
+      console.error(`❌ ${error}`)
+      process.exit(1)
+    }
+
+    console.log('\n' + '='.repeat(80))
+    console.log('✅ PLACE MENTIONS SYNC COMPLETE')
+    console.log('='.repeat(80))
+
+    for (const result of results.filter((r) => r.error)) {
+      console.log(`❌ Source ${result.sourceId}: ${result.error}`)
+    }
+
+    const placeResults = results.filter((r) => r.placeId)
+
+    console.log(`\n✨ Summary:`)
+    console.log(`   - Sources checked: ${results.length}`)
+    console.log(`   - Place websites and Wikipedia articles: ${placeResults.length}`)
+    console.log(`   - Mentions: ${placeResults.reduce((sum, r) => sum + r.mentionsCount, 0)}`)
+    console.log(`   - New mentioned places: ${placeResults.reduce((sum, r) => sum + r.newMentionedPlaceIds.length, 0)}`)
+    console.log(
+      `   - No longer mentioned places: ${placeResults.reduce((sum, r) => sum + r.removedMentionedPlaceIds.length, 0)}`,
+    )
+    console.log(`   - Failed: ${results.filter((r) => r.error).length}`)
+
+    console.log('\n✅ Script completed successfully!')
+  } catch (error) {
+    console.error('\n❌ Fatal error occurred:')
+    console.error(error)
+    process.exit(1)
+  }
+}
+
+// Run the script
+main()
@@ -84,6 +84,9 @@ async function main() {
     results.forEach((result, index) => {
       console.log(`\n${index + 1}. ${result.generatedPlaceName}`)
       console.log('-'.repeat(80))
+      if (result.searchArea) {
+        console.log(`   Search area: ${result.searchArea}`)
+      }
       if (result.status === VerificationStatus.ADDED) {
         console.log(`   ✅ Verified (${result.status})`)
         console.log(`   Place ID: ${result.placeId}`)
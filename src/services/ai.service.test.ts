@@ -0,0 +1,358 @@
+import assert from 'node:assert/strict'
+import { randomUUID } from 'node:crypto'
+import { join } from 'node:path'
+import { after, before, describe, it } from 'node:test'
+
+/**
+ * The website, Wikipedia and URL analyses, with their AI steps replayed from the responses recorded in fixtures/llm
+ * The database is an in-memory stand-in of the Supabase REST API and the web pages are served locally: no network
+ * To record the responses again with a real provider: LLM_FIXTURES=record GEMINI_API_KEY=... pnpm test
+ * A prompt change changes its hash: the calls using it fail until their responses are recorded again
+ */
+
+const FIXTURES_DIR = join(__dirname, '../../fixtures/llm')
+const RECORDING = process.env.LLM_FIXTURES === 'record'
+
+const WEBSITE_CONTENT = `Lac d'Annecy - Office de tourisme
+Le lac d'Annecy est l'un des lacs les plus purs d'Europe. Baignade surveillée de juin à septembre sur les plages
+d'Albigny et de Doussard. Le tour du lac à vélo (42 km) suit la voie verte. Depuis le Semnoz, la vue embrasse le lac
+et le Mont Blanc. Randonnée vers le Col de la Forclaz, point de départ des parapentes.
+Parking payant au bord du lac, 2 € de l'heure.`
+
+const WIKIPEDIA_CONTENT = `Les gorges du Verdon sont un canyon de France situé dans les Alpes-de-Haute-Provence et le Var.
+Longues de 21 km et profondes de 700 m, elles débouchent sur le lac de Sainte-Croix. Le sentier Blanc-Martel suit le
+fond des gorges depuis le Chalet de la Maline. Elles font partie du parc naturel régional du Verdon.`
+
+const PAGE_URL = 'https://www.jura-tourisme.test/cascades'
+const URL_PAGE = `<!DOCTYPE html>
+<html lang="fr">
+<head><title>Cascades du Jura</title><style>h1 { color: blue; }</style></head>
+<body>
+<nav>Accueil | Randonnées | Contact</nav>
+<main>
+<h1>Les plus belles cascades du Jura</h1>
+<p>1. La Cascade du Hérisson, à Ménétrux-en-Joux : une série de 31 chutes sur 3,7 km.</p>
+<p>2. Les Cascades du Flumen, près de Saint-Claude.</p>
+<p>Pour se baigner après la randonnée, le Lac de Vouglans est tout proche.</p>
+</main>
+<footer>© Jura Tourisme</footer>
+</body>
+</html>`
+
+const UNRECORDED_URL = 'https://www.jura-tourisme.test/mentions-legales'
+const UNRECORDED_PAGE = '<html><body><p>Content without any recorded response</p></body></html>'
+
+const WEB_PAGES: Record<string, string> = { [PAGE_URL]: URL_PAGE, [UNRECORDED_URL]: UNRECORDED_PAGE }
+
+type Row = Record<string, unknown>
+
+const RESERVED_PARAMS = new Set(['select', 'order', 'limit', 'offset', 'on_conflict', 'columns', 'or', 'and'])
+
+/**
+ * In-memory stand-in of the Supabase REST API (PostgREST): rows filtered with eq, neq, is and in, inserts, upserts,
+ * updates and deletes. Other filters match every row and the RPCs answer an empty list
+ */
+class FakeSupabase {
+  readonly tables = new Map<string, Row[]>()
+
+  rows(table: string): Row[] {
+    if (!this.tables.has(table)) {
+      this.tables.set(table, [])
+    }
+    return this.tables.get(table)!
+  }
+
+  async handle(url: URL, init: RequestInit = {}): Promise<Response> {
+    const method = init.method || 'GET'
+    const headers = new Headers(init.headers)
+    const path = url.pathname.replace(/^\/rest\/v1\//, '')
+
+    if (path.startsWith('rpc/')) {
+      return Response.json([])
+    }
+
+    const table = this.rows(path)
+    const matching = table.filter((row) => this.matches(row, url.searchParams))
+    const body = typeof init.body === 'string' ? JSON.parse(init.body) : null
+    let result: Row[] = matching
+
+    switch (method) {
+      case 'GET':
+      case 'HEAD':
+        break
+      case 'POST': {
+        const conflictColumns = url.searchParams.get('on_conflict')?.split(',') ?? ['id']
+        result = (Array.isArray(body) ? body : [body]).map((values: Row) => {
+          const existing = table.find((row) => conflictColumns.every((column) => row[column] === values[column]))
+          if (existing && headers.get('Prefer')?.includes('resolution=merge-duplicates')) {
+            return Object.assign(existing, values)
+          }
+          const row = { id: randomUUID(), created_at: new Date().toISOString(), ...values }
+          table.push(row)
+          return row
+        })
+        break
+      }
+      case 'PATCH':
+        matching.forEach((row) => Object.assign(row, body))
+        break
+      case 'DELETE':
+        this.tables.set(
+          path,
+          table.filter((row) => !matching.includes(row)),
+        )
+        break
+    }
+
+    if (method !== 'GET' && !headers.get('Prefer')?.includes('return=representation')) {
+      return new Response(null, { status: 204 })
+    }
+
+    if (headers.get('Accept') === 'application/vnd.pgrst.object+json') {
+      if (result.length !== 1) {
+        return Response.json(
+          {
+            code: 'PGRST116',
+            details: `The result contains ${result.length} rows`,
+            hint: null,
+            message: 'JSON object requested, multiple (or no) rows returned',
+          },
+          { status: 406 },
+        )
+      }
+      return Response.json(result[0])
+    }
+
+    return Response.json(result)
+  }
+
+  private matches(row: Row, params: URLSearchParams): boolean {
+    return [...params].every(([column, filter]) => {
+      if (RESERVED_PARAMS.has(column)) {
+        return true
+      }
+
+      const negated = filter.startsWith('not.')
+      const [operator, ...rest] = (negated ? filter.slice(4) : filter).split('.')
+      const argument = rest.join('.')
+      const value = row[column]
+      let matched: boolean
+
+      switch (operator) {
+        case 'eq':
+          matched = String(value) === argument
+          break
+        case 'neq':
+          matched = String(value) !== argument
+          break
+        case 'is':
+          matched = argument === 'null' ? value == null : String(value) === argument
+          break
+        case 'in':
+          matched = argument
+            .replace(/^\(|\)$/g, '')
+            .split(',')
+            .map((item) => item.replace(/^"|"$/g, ''))
+            .includes(String(value))
+          break
+        default:
+          return true
+      }
+
+      return negated ? !matched : matched
+    })
+  }
+}
+
+const database = new FakeSupabase()
+const originalFetch = globalThis.fetch
+
+let websiteAnalysis: typeof import('./website-analysis.service')
+let wikipediaAnalysis: typeof import('./wikipedia-analysis.service')
+let urlAnalysis: typeof import('./url-analysis.service')
+
+before(async () => {
+  // The services load the Supabase client on import, its requests are answered by the in-memory database
+  process.env.SUPABASE_URL ||= 'http://127.0.0.1:54321'
+  process.env.SUPABASE_ANON_KEY ||= 'test'
+  process.env.SCRAPER_MIN_DELAY_MS = '0'
+  const supabaseUrl = new URL(process.env.SUPABASE_URL)
+
+  globalThis.fetch = async (input: string | URL | Request, init?: RequestInit) => {
+    const url = new URL(input instanceof Request ? input.url : input)
+
+    if (url.origin === supabaseUrl.origin && url.pathname.startsWith('/rest/v1/')) {
+      return database.handle(url, init)
+    }
+
+    // No robots.txt: every page may be crawled
+    const page = WEB_PAGES[url.href]
+    return page
+      ? new Response(page, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+      : new Response('Not found', { status: 404 })
+  }
+
+  const { loadLlmConfig } = await import('../config/llm.config')
+  const { createLlmProvider, setLlmProvider } = await import('./llm-provider.service')
+  const config = loadLlmConfig()
+
+  setLlmProvider(
+    createLlmProvider({
+      ...config,
+      fixturesMode: RECORDING ? 'record' : 'replay',
+      fixturesDir: FIXTURES_DIR,
+      usageTracking: false,
+    }),
+  )
+
+  websiteAnalysis = await import('./website-analysis.service')
+  wikipediaAnalysis = await import('./wikipedia-analysis.service')
+  urlAnalysis = await import('./url-analysis.service')
+})
+
+after(() => {
+  globalThis.fetch = originalFetch
+})
+
+describe('website analysis', () => {
+  const placeId = randomUUID()
+
+  before(() => {
+    database.rows('places').push({
+      id: placeId,
+      name: "Lac d'Annecy",
+      country: 'France',
+      website: 'https://www.lac-annecy.test/',
+      website_raw: WEBSITE_CONTENT,
+      metadata: {},
+    })
+  })
+
+  it('summarizes the cached website content in each language and saves the mentioned places', async () => {
+    const { result, error } = await websiteAnalysis.analyzePlaceWebsiteCore(placeId)
+    const place = database.rows('places').find((row) => row.id === placeId)!
+
+    assert.equal(error, undefined)
+    assert.match(result.description, /lac/i)
+    assert.deepEqual(result.mentionedPlaces, ['Semnoz', 'Col de la Forclaz', 'Mont Blanc'])
+    assert.deepEqual(Object.keys(place.website_generated_localized as Row).sort(), ['en', 'fr'])
+    assert.match((place.website_generated_localized as Row).en as string, /lake/i)
+    assert.deepEqual(place.website_places_generated, ['Semnoz', 'Col de la Forclaz', 'Mont Blanc'])
+    assert.ok(place.last_website_analyzed_at)
+  })
+
+  it('links the mentioned places to the website source', async () => {
+    const source = database.rows('sources').find((row) => row.url === 'https://www.lac-annecy.test/')!
+    const mentioned = database.rows('generated_places').filter((row) => row.source_id === source.id)
+
+    assert.equal(source.origin_place_id, placeId)
+    assert.deepEqual(
+      mentioned.map((row) => row.name),
+      ['Semnoz', 'Col de la Forclaz', 'Mont Blanc'],
+    )
+  })
+
+  it('saves the visitor facts stated with their evidence', () => {
+    const facts = database.rows('place_visitor_facts').filter((row) => row.place_id === placeId)
+
+    assert.deepEqual(
+      facts.map((fact) => [fact.fact, fact.source, fact.evidence]),
+      [
+        [
+          'best_time_to_visit',
+          'website',
+          "Baignade surveillée de juin à septembre sur les plages\nd'Albigny et de Doussard.",
+        ],
+        ['parking_info', 'website', "Parking payant au bord du lac, 2 € de l'heure."],
+      ],
+    )
+  })
+})
+
+describe('Wikipedia analysis', () => {
+  const placeId = randomUUID()
+
+  before(() => {
+    database.rows('places').push({
+      id: placeId,
+      name: 'Gorges du Verdon',
+      country: 'France',
+      wikipedia_raw: WIKIPEDIA_CONTENT,
+      metadata: { wikipedia: 'fr:Gorges du Verdon' },
+    })
+    database.rows('place_visitor_facts').push({
+      id: randomUUID(),
+      place_id: placeId,
+      source: 'wikipedia',
+      fact: 'entrance_fee',
+      value: 'Gratuit',
+      evidence: null,
+      confidence: 0.5,
+    })
+  })
+
+  it('summarizes the cached article in each language and saves the mentioned places', async () => {
+    const { result, error } = await wikipediaAnalysis.analyzePlaceWikipediaCore(placeId)
+    const place = database.rows('places').find((row) => row.id === placeId)!
+
+    assert.equal(error, undefined)
+    assert.equal(result.wikipediaReference, 'fr:Gorges du Verdon')
+    assert.deepEqual(result.mentionedPlaces, [
+      'Lac de Sainte-Croix',
+      'Sentier Blanc-Martel',
+      'Parc naturel régional du Verdon',
+    ])
+    assert.deepEqual(Object.keys(place.wikipedia_generated_localized as Row).sort(), ['en', 'fr'])
+    assert.deepEqual(place.wikipedia_places_generated, result.mentionedPlaces)
+  })
+
+  it('links the mentioned places to the article source', () => {
+    const source = database
+      .rows('sources')
+      .find((row) => row.url === 'https://fr.wikipedia.org/wiki/Gorges%20du%20Verdon')!
+    const mentioned = database.rows('generated_places').filter((row) => row.source_id === source.id)
+
+    assert.equal(source.origin_place_id, placeId)
+    assert.equal(mentioned.length, 3)
+  })
+
+  it('removes the previous visitor facts when the article states none', () => {
+    assert.deepEqual(
+      database.rows('place_visitor_facts').filter((row) => row.place_id === placeId),
+      [],
+    )
+  })
+})
+
+describe('URL analysis', () => {
+  it('extracts the places of the page with their type, location and confidence', async () => {
+    const { results, error } = await urlAnalysis.analyzeUrlsCore([PAGE_URL])
+    const source = database.rows('sources').find((row) => row.url === PAGE_URL)!
+
+    assert.equal(error, null)
+    assert.deepEqual(
+      results[0].places.map((place) => [place.name, place.type, place.locationText]),
+      [
+        ['Cascade du Hérisson', 'waterfall', 'Ménétrux-en-Joux'],
+        ['Cascades du Flumen', 'waterfall', 'Saint-Claude'],
+        ['Lac de Vouglans', 'lake', null],
+      ],
+    )
+    assert.equal(results[0].contentFormat, 'html')
+    assert.doesNotMatch(source.raw_content as string, /Accueil|Jura Tourisme/)
+    assert.deepEqual(
+      database
+        .rows('generated_places')
+        .filter((row) => row.source_id === source.id)
+        .map((row) => row.place_type),
+      ['waterfall', 'waterfall', 'lake'],
+    )
+    assert.ok(source.analyzed_at)
+  })
+
+  it('finds no place when the prompt was not recorded', { skip: RECORDING }, async () => {
+    const { results } = await urlAnalysis.analyzeUrlsCore([UNRECORDED_URL])
+
+    assert.deepEqual(results[0].places, [])
+  })
+})
@@ -1,162 +1,81 @@
-import { GoogleGenAI, type GenerateContentResponse } from '@google/genai'
-
-// Module-level initialization - most performant for server actions
-let genAI: GoogleGenAI | null = null
-let initialized = false
-let initError: string | null = null
-
-// Use working model names that exist in the API
-enum MODEL {
-  GEMMA = 'gemma-3-27b-it',
-}
-
-// Helper function to extract text from AI response with simplified fallbacks
-function extractResponseText(result: GenerateContentResponse): string {
-  // Type guard for expected response structure
-  const isValidCandidate = (candidate: unknown): candidate is { content: { parts: { text: string }[] } } => {
-    return (
-      typeof candidate === 'object' &&
-      candidate !== null &&
-      'content' in candidate &&
-      typeof candidate.content === 'object' &&
-      candidate.content !== null &&
-      'parts' in candidate.content &&
-      Array.isArray(candidate.content.parts) &&
-      candidate.content.parts.length > 0 &&
-      typeof candidate.content.parts[0] === 'object' &&
-      candidate.content.parts[0] !== null &&
-      'text' in candidate.content.parts[0] &&
-      typeof candidate.content.parts[0].text === 'string'
-    )
-  }
-
-  // Check standard response structure
-  if (
-    typeof result === 'object' &&
-    result !== null &&
-    'candidates' in result &&
-    Array.isArray(result.candidates) &&
-    result.candidates.length > 0
-  ) {
-    const candidate = result.candidates[0]
-    if (isValidCandidate(candidate)) {
-      return candidate.content.parts[0].text
-    }
-  }
-
-  // Check for alternative text property
-  if (typeof result === 'object' && result !== null && 'text' in result && typeof result.text === 'string') {
-    return result.text
-  }
-
-  throw new Error('No valid text content found in AI response')
-}
-
-function initializeGenAI(): void {
-  if (initialized) return
-
-  const GEMINI_API_KEY = process.env.GEMINI_API_KEY
-
-  if (!GEMINI_API_KEY) {
-    initError = 'AI service is not configured. Missing GEMINI_API_KEY environment variable.'
-    initialized = true
-    return
-  }
-
-  try {
-    genAI = new GoogleGenAI({ apiKey: GEMINI_API_KEY })
-    initialized = true
-  } catch (error) {
-    console.error('Failed to initialize Google GenAI:', error)
-    initError = 'Failed to initialize AI service.'
-    initialized = true
+import { VisitorFactKey } from '../db/place-visitor-facts'
+import { ExtractedPlacesResponse, ExtractedPlaceType, MentionedPlacesResponse } from '../prompts/extraction.prompts'
+import { buildPromptRequest } from '../prompts/prompt-registry'
+import { SitemapSelectionResponse } from '../prompts/sitemap-filtering.prompts'
+import { PlaceAnalysisResponse, SummaryResponse } from '../prompts/summarization.prompts'
+import { VisitorFactsResponse } from '../prompts/visitor-facts.prompts'
+import { Locale, LocalizedText, SUPPORTED_LOCALES } from '../utils/locale'
+import { getLlmProvider, getLlmProviderError, LlmProvider } from './llm-provider.service'
+
+// Every AI call uses a versioned prompt of the registry and requests JSON matching its schema (see src/prompts)
+
+function getProvider(): LlmProvider {
+  const provider = getLlmProvider()
+  if (!provider) {
+    throw new Error('AI service is not available')
   }
-}
-
-// Initialize on module load
-initializeGenAI()
-
-export function getGenAI(): GoogleGenAI | null {
-  if (!initialized) initializeGenAI()
-  return genAI
+  return provider
 }
 
 export function isAIAvailable(): boolean {
-  if (!initialized) initializeGenAI()
-  return genAI !== null
+  return getLlmProvider() !== null
 }
 
 export function getAIError(): string | null {
-  if (!initialized) initializeGenAI()
-  return initError
+  return getLlmProviderError()
 }
 
-function createEnhancementPrompt(
-  placeName: string,
-  contentType: string,
-  content: string,
-  focusAreas: string[],
-): string {
-  const focusAreasText = focusAreas.map((area) => `- ${area}`).join('\n')
-
-  return `You are helping to enhance place information for a nature and outdoor discovery app.
-
-Place name: ${placeName}
-${contentType}: ${content}
-
-Please analyze this ${contentType.toLowerCase()} and provide a summary that includes ONLY relevant information for someone visiting this nature/outdoor place. Focus on:
-${focusAreasText}
-
-IMPORTANT: Only include information if it's clearly relevant and useful for visitors. If the content is not relevant to travel, outdoor/nature activities or visitor planning, respond with "NO_RELEVANT_INFO". We prefer no information over irrelevant or poor quality information.`
+/**
+ * Summary of a structured response, or null when the model found nothing relevant
+ */
+function getRelevantSummary(response: SummaryResponse): string | null {
+  const summary = response.summary?.trim()
+  return response.relevant && summary ? summary : null
 }
 
-export async function summarizeWebsiteContent(placeName: string, websiteContent: string): Promise<string | null> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
-
-  const prompt = createEnhancementPrompt(placeName, 'Website content', websiteContent, [
-    'Key activities available',
-    'Important visitor information (hours, fees, accessibility)',
-    'Notable features or attractions',
-    'Seasonal information if relevant',
-  ])
+/**
+ * Runs a summarization in each supported language, in parallel
+ * @returns The summaries by language, without the languages that failed or found nothing relevant
+ */
+export async function summarizeInLocales(
+  summarize: (locale: Locale) => Promise<string | null>,
+): Promise<LocalizedText> {
+  const summaries = await Promise.all(SUPPORTED_LOCALES.map((locale) => summarize(locale)))
+
+  const texts: LocalizedText = {}
+  SUPPORTED_LOCALES.forEach((locale, index) => {
+    const summary = summaries[index]
+    if (summary) {
+      texts[locale] = summary
+    }
+  })
+  return texts
+}
 
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
+/**
+ * @param locale Language of the summary, the language of the content by default
+ */
+export async function summarizeWebsiteContent(
+  placeName: string,
+  websiteContent: string,
+  locale?: Locale,
+): Promise<string | null> {
+  const provider = getProvider()
 
   try {
-    // First attempt with grounding tools
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    let responseText: string
-    try {
-      responseText = extractResponseText(result).trim()
-    } catch (extractError) {
-      // Retry without grounding tools if text extraction fails
-      console.warn('First attempt failed, retrying without grounding tools...', extractError)
-
-      const fallbackResult = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-        // No tools for fallback
-      })
-
-      console.log('🤖 Fallback Gemma response:', JSON.stringify(fallbackResult, null, 2))
-      responseText = extractResponseText(fallbackResult).trim()
-      console.log('📝 Fallback extracted response text:', responseText)
-    }
+    const summary = getRelevantSummary(
+      await provider.generateJson<SummaryResponse>(
+        buildPromptRequest('website-summary', { placeName, content: websiteContent, locale }),
+      ),
+    )
 
-    if (!responseText || responseText === 'NO_RELEVANT_INFO') {
+    if (!summary) {
       console.log('❌ AI returned no relevant info or empty response')
       return null
     }
 
     console.log('✅ AI processing successful')
-    return responseText
+    return summary
   } catch (error) {
     console.error('Error summarizing website content:', error)
     return null
@@ -167,10 +86,7 @@ export async function checkRedditRelevance(
   placeName: string,
   threads: Array<{ title: string; comments: string[] }>,
 ): Promise<Array<{ title: string; comments: string[]; isRelevant: boolean }>> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
+  const provider = getProvider()
 
   const results: Array<{ title: string; comments: string[]; isRelevant: boolean }> = []
 
@@ -178,37 +94,10 @@ export async function checkRedditRelevance(
     const previewComments = thread.comments.slice(0, 3)
     const previewText = `Title: ${thread.title}\nSample comments: ${previewComments.join(' | ')}`
 
-    const prompt = `You are helping to filter Reddit discussions for a nature and outdoor discovery app.
-
-Place name: ${placeName}
-
-Reddit thread preview:
-${previewText}
-
-Is this Reddit thread SPECIFICALLY about visiting, discovering, or experiencing "${placeName}" as a nature/outdoor place?
-Answer ONLY with "YES" or "NO".
-
-Answer "YES" only if:
-- The thread is clearly about this specific place
-- It contains visitor experiences, tips, or recommendations
-- It discusses nature/outdoor activities at this place
-
-Answer "NO" if:
-- It's about a different place with a similar name
-- It's only tangentially related
-- It's not about nature/outdoor activities
-- The place is only mentioned in passing`
-
-    const contents = [{ role: 'user', parts: [{ text: prompt }] }]
-
     try {
-      const result = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-      })
-
-      const responseText = extractResponseText(result).trim().toUpperCase()
-      const isRelevant = responseText.includes('YES')
+      const { relevant: isRelevant } = await provider.generateJson<{ relevant: boolean }>(
+        buildPromptRequest('reddit-relevance', { placeName, threadPreview: previewText }),
+      )
 
       results.push({
         title: thread.title,
@@ -236,10 +125,7 @@ export async function summarizeRedditContent(
   placeName: string,
   redditData: { threads: Array<{ title: string; comments: string[] }> },
 ): Promise<string | null> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
+  const provider = getProvider()
 
   console.log(`🔍 Stage 1: Checking relevance of ${redditData.threads.length} threads...`)
   const checkedThreads = await checkRedditRelevance(placeName, redditData.threads)
@@ -257,77 +143,34 @@ export async function summarizeRedditContent(
     .map((thread, i) => `Thread ${i + 1}: ${thread.title}\nComments: ${thread.comments.join(' | ')}`)
     .join('\n\n')
 
-  const prompt = createEnhancementPrompt(placeName, 'Reddit discussions', threadsText, [
-    'Visitor tips and experiences',
-    'Best times to visit',
-    'Things to be aware of',
-    'Activity recommendations',
-  ])
-
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
-
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    const responseText = extractResponseText(result).trim()
-
-    if (!responseText || responseText === 'NO_RELEVANT_INFO') {
-      return null
-    }
-
-    return responseText
+    return getRelevantSummary(
+      await provider.generateJson<SummaryResponse>(
+        buildPromptRequest('reddit-summary', { placeName, content: threadsText }),
+      ),
+    )
   } catch (error) {
     console.error('Error summarizing Reddit content:', error)
     return null
   }
 }
 
-export async function summarizeWikipediaContent(placeName: string, wikipediaContent: string): Promise<string | null> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
-
-  const prompt = createEnhancementPrompt(placeName, 'Wikipedia content', wikipediaContent, [
-    'Geographic and natural features',
-    'Historical or cultural significance',
-    'Activities available',
-    'Access information',
-  ])
-
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
+/**
+ * @param locale Language of the summary, the language of the content by default
+ */
+export async function summarizeWikipediaContent(
+  placeName: string,
+  wikipediaContent: string,
+  locale?: Locale,
+): Promise<string | null> {
+  const provider = getProvider()
 
   try {
-    // First attempt with grounding tools
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    let responseText: string
-    try {
-      responseText = extractResponseText(result).trim()
-    } catch (extractError) {
-      // Retry without grounding tools if text extraction fails
-      console.warn('Wikipedia AI processing failed, retrying without grounding tools...')
-
-      const fallbackResult = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-        // No tools for fallback
-      })
-
-      responseText = extractResponseText(fallbackResult).trim()
-    }
-
-    if (!responseText || responseText === 'NO_RELEVANT_INFO') {
-      return null
-    }
-
-    return responseText
+    return getRelevantSummary(
+      await provider.generateJson<SummaryResponse>(
+        buildPromptRequest('wikipedia-summary', { placeName, content: wikipediaContent, locale }),
+      ),
+    )
   } catch (error) {
     console.error('Error summarizing Wikipedia content:', error)
     return null
@@ -353,10 +196,7 @@ export async function filterRelevantSitemapUrls(
   maxUrls: number = 10,
   country?: string | null,
 ): Promise<string[]> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
+  const provider = getProvider()
 
   // If we have fewer URLs than max, return all
   if (sitemapUrls.length <= maxUrls) {
@@ -365,92 +205,18 @@ export async function filterRelevantSitemapUrls(
 
   console.log(`🤖 Using LLM to filter ${sitemapUrls.length} sitemap URLs down to ${maxUrls} most relevant...`)
 
-  const urlsList = sitemapUrls.map((url, index) => `${index + 1}. ${url}`).join('\n')
-
-  // Language preference based on country
-  const languageNote =
-    country === 'France'
-      ? '\n\nIMPORTANT: This place is located in France. STRONGLY prioritize French-language pages (URLs containing /fr/, /french/, or French language indicators). Exclude English or other language pages unless no French alternatives exist.'
-      : ''
-
-  const prompt = `You are helping to analyze a nature and outdoor place website for a discovery app.
-
-Place name: ${placeName}${country ? `\nCountry: ${country}` : ''}
-Sitemap URLs found: ${sitemapUrls.length} URLs${languageNote}
-
-Here are the URLs from the sitemap:
-${urlsList}
-
-Please analyze these URLs and select the ${maxUrls} most relevant pages that would contain useful information about this nature/outdoor place. Prioritize pages in this order:
-
-1. **Nature-related pages** - Pages specifically about natural features, landscapes, wildlife, ecosystems
-2. **Informational pages describing the place** - Overview pages, about pages, place descriptions, what to see/do
-3. **Visitor guides and tips** - Pages with tips on how to visit, enjoy, and experience the place (trail guides, visiting tips, best practices, what to bring, when to visit)
-
-Focus on pages that likely contain:
-- Detailed descriptions of the place and its natural features
-- Information about activities available (hiking, wildlife viewing, photography, etc.)
-- Visitor information (hours, fees, access, parking, facilities)
-- Tips and guides for visiting (what to bring, best times to visit, trail recommendations)
-- Natural attractions and points of interest
-- Safety information and regulations
-
-Avoid pages like:
-- Legal/terms pages
-- Privacy policy
-- Generic blog posts not specifically about the place
-- Contact forms
-- Shopping/cart pages
-- News archives or press releases
-- Generic information pages
-- Pages about other places or unrelated topics
-
-Return ONLY a JSON array of the selected URLs (exactly ${maxUrls} URLs), in order of relevance. Format:
-["url1", "url2", "url3", ...]
-
-Response:`
-
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
-
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    let responseText: string
-    try {
-      responseText = extractResponseText(result).trim()
-    } catch (extractError) {
-      console.warn('First attempt failed, retrying without grounding tools...', extractError)
-      const fallbackResult = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-      })
-      responseText = extractResponseText(fallbackResult).trim()
-    }
-
-    if (!responseText) {
-      console.warn('❌ LLM returned empty response, using first N URLs')
-      return sitemapUrls.slice(0, maxUrls)
-    }
-
-    // Try to extract JSON array from response
-    let jsonText = responseText
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      jsonText = jsonMatch[0]
-    }
-
-    const parsed = JSON.parse(jsonText) as string[]
+    const { urls } = await provider.generateJson<SitemapSelectionResponse>(
+      buildPromptRequest('sitemap-filtering', { placeName, urls: sitemapUrls, maxUrls, country }),
+    )
 
-    if (!Array.isArray(parsed) || parsed.length === 0) {
-      console.warn('❌ LLM returned invalid format, using first N URLs')
+    if (urls.length === 0) {
+      console.warn('❌ LLM returned no URLs, using first N URLs')
       return sitemapUrls.slice(0, maxUrls)
     }
 
     // Validate URLs exist in original list
-    const validUrls = parsed.filter((url) => sitemapUrls.includes(url))
+    const validUrls = urls.filter((url) => sitemapUrls.includes(url))
     if (validUrls.length === 0) {
       console.warn('❌ LLM returned URLs not in original list, using first N URLs')
       return sitemapUrls.slice(0, maxUrls)
@@ -469,210 +235,68 @@ Response:`
  * Summarizes scraped website content, keeping only relevant information about the place
  * @param placeName The name of the place being analyzed
  * @param scrapedContent The combined text content from scraped website pages
+ * @param locale Language of the summary, the language of the content by default
  * @returns Summary string focused on nature features and relevant information, or null if analysis fails
  */
-export async function summarizeScrapedContent(placeName: string, scrapedContent: string): Promise<string | null> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
-
-  const prompt = `You are helping to analyze nature and outdoor places for a discovery app.
-
-Place name: ${placeName}
-Scraped website content: ${scrapedContent.substring(0, 30000)}
-
-Please analyze this content and provide a COMPREHENSIVE, DETAILED summary that includes ALL relevant information for nature/outdoor enthusiasts visiting this place. 
-
-**TARGET LENGTH: Aim for close to 2000 characters** - this is NOT a brief summary. You should extract and synthesize ALL relevant information from the content. The summary should be thorough, informative, and complete, covering:
-
-1. **Natural Features & Landscapes**: Describe the natural environment, geography, ecosystems, flora, fauna, geological features, biodiversity, unique natural characteristics
-2. **History & Significance**: Historical context, cultural importance, designation status (national park, nature reserve, etc.), any notable historical events or figures associated with the place
-3. **Activities & Experiences**: ALL available activities (hiking, wildlife viewing, photography, camping, birdwatching, etc.), specific trails, routes, viewpoints, guided tours, educational programs
-4. **Access & Practicality**: 
-   - How to get there (detailed directions, transportation options, GPS coordinates if mentioned)
-   - Opening hours and seasons (when accessible, best seasons)
-   - Fees and permits (entry fees, parking fees, required permits)
-   - Parking and facilities (parking locations, restrooms, visitor centers, picnic areas)
-   - Accessibility information (wheelchair access, difficulty levels)
-5. **Visitor Information**: 
-   - Best times to visit (seasons, times of day, weather considerations)
-   - What to bring (recommended equipment, clothing, supplies)
-   - Safety considerations (hazards, weather warnings, wildlife precautions)
-   - Regulations and rules (what's allowed/prohibited, protected areas)
-   - Contact information if relevant (visitor center, park office, emergency contacts)
-6. **Notable Attractions**: Specific points of interest, landmarks, viewpoints, trails, areas to explore, must-see features
-7. **What Makes It Special**: Unique features, why visitors should come here, what sets this place apart
-
-**CRITICAL INSTRUCTIONS:**
-- **LENGTH REQUIREMENT**: Generate a comprehensive summary aiming for 1500-2000 characters. This is NOT a brief 400-character summary. Extract ALL relevant information.
-- **COMPLETENESS**: Include as much relevant detail as possible. If you have 70,000 characters of content, extract the most important and relevant information to create a rich, informative summary.
-- **RELEVANCE**: Only exclude truly irrelevant information (legal disclaimers, generic website boilerplate, navigation menus, cookie notices). Include ALL information about the place itself, its features, activities, access, history, and visitor information.
-- **QUALITY**: Write in an engaging, informative style suitable for nature enthusiasts. Use complete sentences and proper structure.
-- **SCOPE**: Focus ONLY on information about "${placeName}" - do NOT include information about other places mentioned in the content.
-- **NO SHORT SUMMARIES**: Do NOT return a brief summary saying "no relevant information" if there is ANY content about the place. Extract and synthesize the information that exists.
-
-If the content contains relevant information about the place (which it should, since it was scraped from the place's website), provide a comprehensive summary. Only return "NO_RELEVANT_INFO" if the content is completely unrelated to the place (e.g., completely different website, error pages, etc.).
-
-Response (comprehensive summary only, no JSON, aim for 1500-2000 characters):`
-
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
+export async function summarizeScrapedContent(
+  placeName: string,
+  scrapedContent: string,
+  locale?: Locale,
+): Promise<string | null> {
+  const provider = getProvider()
 
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    let responseText: string
-    try {
-      responseText = extractResponseText(result).trim()
-    } catch (extractError) {
-      console.warn('First attempt failed, retrying without grounding tools...', extractError)
-      const fallbackResult = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-      })
-      responseText = extractResponseText(fallbackResult).trim()
-    }
+    const summary = getRelevantSummary(
+      await provider.generateJson<SummaryResponse>(
+        buildPromptRequest('scraped-content-summary', { placeName, content: scrapedContent, locale }),
+      ),
+    )
 
-    if (!responseText || responseText === 'NO_RELEVANT_INFO') {
+    if (!summary) {
       console.log('❌ AI returned no relevant info or empty response')
       return null
     }
 
-    console.log(`✅ Summarization successful: ${responseText.length} characters`)
-    return responseText
+    console.log(`✅ Summarization successful: ${summary.length} characters`)
+    return summary
   } catch (error) {
     console.error('Error summarizing scraped content:', error)
     return null
   }
 }
 
-/**
- * Extracts nature places with descriptions from URL content (for source analysis)
- * @param urlContent The scraped content from a URL
- * @returns Array of objects with name and description for each place found
- */
 export interface ExtractedPlace {
   name: string
   description: string | null
+  type: ExtractedPlaceType
+  /** Approximate location as written in the content (town, department, massif...) */
+  locationText: string | null
+  /** Confidence (0-1) that this is a real, specific, named nature place */
+  confidence: number
 }
 
+/**
+ * Extracts nature places with descriptions from URL content (for source analysis)
+ * @param urlContent The scraped content from a URL
+ * @returns The places found, with their type, approximate location and extraction confidence
+ */
 export async function extractPlacesFromUrlContent(urlContent: string): Promise<ExtractedPlace[]> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
-
-  const prompt = `You are helping to analyze nature and outdoor places from a URL (like a travel guide, blog post, or article).
-
-URL content: ${urlContent.substring(0, 30000)}
-
-Please analyze this content and extract SPECIFIC, NAMED nature places, parks, trails, natural landmarks, or outdoor destinations that are mentioned. For each place, extract:
-- The exact name of the place
-- A description (if available) - this could be information about the place, what makes it special, activities available, location details, etc.
-
-**CRITICAL FILTERING RULES - ONLY EXTRACT SPECIFIC PLACES:**
-- ✅ DO extract: Specific named places like "Parc National des Cévennes", "Mont Blanc", "Sentier des Gorges du Verdon", "Lac d'Annecy", "Forêt de Fontainebleau"
-- ❌ DO NOT extract: Generic terms like "forest", "mountain", "lake", "trail", "park" (without a specific name)
-- ❌ DO NOT extract: Administrative regions like "Auvergne", "Provence", "Bourgogne", "Normandie" (unless they refer to a specific natural area like "Parc Naturel Régional d'Auvergne")
-- ❌ DO NOT extract: Generic descriptors like "the mountains", "the coast", "the countryside", "nearby trails"
-- ❌ DO NOT extract: Types of places without names like "a beautiful forest", "several lakes", "many trails"
-- ✅ DO extract: Places that have a proper name that could be found on a map or in OSM (OpenStreetMap)
-- ✅ DO extract: Named trails, peaks, valleys, lakes, forests, parks, reserves, natural monuments
-- ❌ DO NOT extract: Vague references like "the region", "the area", "the surroundings"
-
-**Examples of what to EXTRACT:**
-- "Parc National de la Vanoise" ✅
-- "Mont Ventoux" ✅
-- "Gorges du Tarn" ✅
-- "Lac de Serre-Ponçon" ✅
-- "Sentier du GR20" ✅
-- "Forêt de Rambouillet" ✅
-
-**Examples of what to NOT EXTRACT:**
-- "forest" ❌
-- "Auvergne" (as a region) ❌
-- "the mountains" ❌
-- "several lakes" ❌
-- "nearby trails" ❌
-- "beautiful nature" ❌
-
-Return ONLY a JSON array of objects. Format:
-[
-  {
-    "name": "Place Name 1",
-    "description": "Description of Place 1 with details about features, activities, location, etc."
-  },
-  {
-    "name": "Place Name 2",
-    "description": "Description of Place 2..."
-  }
-]
-
-If a place has no description available, use null:
-{
-  "name": "Place Name",
-  "description": null
-}
-
-IMPORTANT:
-- Only include SPECIFIC, NAMED nature/outdoor places that could be found on a map
-- Use the exact names as mentioned in the content
-- Remove duplicates (if same place mentioned multiple times, combine information)
-- Extract as much information as possible for descriptions (aim for 200-500 characters per description when available)
-- Be strict: if a place name is too generic or vague, exclude it
-- Return ONLY valid JSON array, no additional text
-- If no specific places are found, return an empty array: []
-
-Response:`
-
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
+  const provider = getProvider()
 
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    let responseText: string
-    try {
-      responseText = extractResponseText(result).trim()
-    } catch (extractError) {
-      console.warn('First attempt failed, retrying without grounding tools...', extractError)
-      const fallbackResult = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-      })
-      responseText = extractResponseText(fallbackResult).trim()
-    }
-
-    if (!responseText) {
-      console.log('❌ AI returned empty response')
-      return []
-    }
-
-    // Try to extract JSON array from response
-    let jsonText = responseText
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      jsonText = jsonMatch[0]
-    }
-
-    const parsed = JSON.parse(jsonText) as ExtractedPlace[]
-
-    if (!Array.isArray(parsed)) {
-      console.warn('❌ AI returned invalid format, returning empty array')
-      return []
-    }
+    const { places: parsed } = await provider.generateJson<ExtractedPlacesResponse>(
+      buildPromptRequest('url-places-extraction', { content: urlContent }),
+    )
 
     // Filter and normalize
     const places = parsed
-      .filter((place) => place && typeof place.name === 'string' && place.name.trim().length > 0)
+      .filter((place) => place.name.trim().length > 0)
       .map((place) => ({
         name: place.name.trim(),
-        description: place.description && typeof place.description === 'string' ? place.description.trim() : null,
+        description: place.description?.trim() || null,
+        type: place.type,
+        locationText: place.locationText?.trim() || null,
+        confidence: place.confidence,
       }))
 
     console.log(`✅ Extracted ${places.length} places from URL content`)
@@ -690,77 +314,16 @@ Response:`
  * @returns Array of nature place names mentioned in the content, or empty array if none found
  */
 export async function extractMentionedPlaces(placeName: string, scrapedContent: string): Promise<string[]> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
-
-  const prompt = `You are helping to analyze nature and outdoor places for a discovery app.
-
-Place name: ${placeName}
-Scraped website content: ${scrapedContent.substring(0, 15000)}
-
-Please analyze this content and extract ONLY the names of other nature places, parks, trails, or natural landmarks that are mentioned. These should be:
-- Specifically named places (not generic references like "nearby parks")
-- Related to nature, outdoors, hiking, wildlife, or similar activities
-- Distinct places that could have their own database entry
-- NOT the place itself (${placeName})
-
-Return ONLY a JSON array of place names. Format:
-["Place Name 1", "Place Name 2", "Place Name 3"]
-
-If no relevant places are found, return an empty array: []
-
-IMPORTANT:
-- Only include nature/outdoor places
-- Use the exact names as mentioned in the content
-- Remove duplicates
-- Return ONLY valid JSON array, no additional text
-
-Response:`
-
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
+  const provider = getProvider()
 
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    let responseText: string
-    try {
-      responseText = extractResponseText(result).trim()
-    } catch (extractError) {
-      console.warn('First attempt failed, retrying without grounding tools...', extractError)
-      const fallbackResult = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-      })
-      responseText = extractResponseText(fallbackResult).trim()
-    }
-
-    if (!responseText) {
-      console.log('❌ AI returned empty response')
-      return []
-    }
-
-    // Try to extract JSON array from response
-    let jsonText = responseText
-    const jsonMatch = responseText.match(/\[[\s\S]*\]/)
-    if (jsonMatch) {
-      jsonText = jsonMatch[0]
-    }
-
-    const parsed = JSON.parse(jsonText) as string[]
-
-    if (!Array.isArray(parsed)) {
-      console.warn('❌ AI returned invalid format, returning empty array')
-      return []
-    }
+    const { places: parsed } = await provider.generateJson<MentionedPlacesResponse>(
+      buildPromptRequest('mentioned-places', { placeName, content: scrapedContent }),
+    )
 
     // Filter out empty strings and normalize
     const places = parsed
-      .filter((place) => typeof place === 'string' && place.trim().length > 0)
+      .filter((place) => place.trim().length > 0)
       .map((place) => place.trim())
       .filter((place) => place.toLowerCase() !== placeName.toLowerCase()) // Remove the place itself
 
@@ -772,6 +335,53 @@ Response:`
   }
 }
 
+export interface ExtractedVisitorFact {
+  fact: VisitorFactKey
+  value: string
+  /** Passage of the content the fact was extracted from */
+  evidence: string | null
+  /** Confidence (0-1) that the content states this fact about the place */
+  confidence: number
+}
+
+/**
+ * Extracts practical visitor facts (best time to visit, fees, hours, parking, duration, activities) from content
+ * @param placeName The name of the place being analyzed
+ * @param content The cached website or Wikipedia content of the place
+ * @returns The facts stated in the content, at most one per fact, or null if the extraction fails
+ */
+export async function extractVisitorFacts(placeName: string, content: string): Promise<ExtractedVisitorFact[] | null> {
+  const provider = getProvider()
+
+  try {
+    const { facts: parsed } = await provider.generateJson<VisitorFactsResponse>(
+      buildPromptRequest('visitor-facts', { placeName, content }),
+    )
+
+    // Keep the most confident value of each fact
+    const facts = new Map<VisitorFactKey, ExtractedVisitorFact>()
+    for (const fact of parsed) {
+      const value = fact.value.trim()
+      const current = facts.get(fact.fact)
+
+      if (value.length > 0 && (!current || fact.confidence > current.confidence)) {
+        facts.set(fact.fact, {
+          fact: fact.fact,
+          value,
+          evidence: fact.evidence?.trim() || null,
+          confidence: fact.confidence,
+        })
+      }
+    }
+
+    console.log(`✅ Extracted ${facts.size} visitor facts`)
+    return [...facts.values()]
+  } catch (error) {
+    console.error('Error extracting visitor facts:', error)
+    return null
+  }
+}
+
 /**
  * Analyzes scraped website content to extract a detailed description and mentioned nature places
  * @deprecated Use summarizeScrapedContent and extractMentionedPlaces separately instead
@@ -783,85 +393,23 @@ export async function analyzeScrapedContent(
   placeName: string,
   scrapedContent: string,
 ): Promise<PlaceAnalysisResult | null> {
-  const genAI = getGenAI()
-  if (!genAI) {
-    throw new Error('AI service is not available')
-  }
-
-  const prompt = `You are helping to analyze nature and outdoor places for a discovery app.
-
-Place name: ${placeName}
-Scraped website content: ${scrapedContent.substring(0, 15000)}
-
-Please analyze this content and provide a JSON response with the following structure:
-{
-  "description": "A detailed, engaging description of this place (maximum 2000 characters). Focus on what makes this place special, key activities, visitor information, natural features, and why someone would want to visit. Only include relevant information for nature/outdoor enthusiasts.",
-  "mentionedPlaces": ["Array of other nature places, parks, trails, or natural landmarks mentioned in the content that would be worth having in our database. Only include places that are specifically named and relevant to nature/outdoor activities. Return empty array if none found."]
-}
-
-IMPORTANT RULES:
-1. The description must be engaging, informative, and focused on nature/outdoor activities
-2. Maximum 2000 characters for description
-3. Only include mentioned places that are:
-   - Specifically named (not generic references like "nearby parks")
-   - Related to nature, outdoors, hiking, wildlife, or similar activities
-   - Distinct places that could have their own database entry
-4. If the content is not relevant or insufficient, return: {"description": "NO_RELEVANT_INFO", "mentionedPlaces": []}
-5. Return ONLY valid JSON, no additional text
-
-Response:`
-
-  const contents = [{ role: 'user', parts: [{ text: prompt }] }]
+  const provider = getProvider()
 
   try {
-    const result = await genAI.models.generateContent({
-      model: MODEL.GEMMA,
-      contents: contents,
-    })
-
-    let responseText: string
-    try {
-      responseText = extractResponseText(result).trim()
-    } catch (extractError) {
-      console.warn('First attempt failed, retrying without grounding tools...')
-
-      const fallbackResult = await genAI.models.generateContent({
-        model: MODEL.GEMMA,
-        contents: contents,
-      })
-
-      responseText = extractResponseText(fallbackResult).trim()
-    }
-
-    if (!responseText) {
-      console.log('❌ AI returned empty response')
-      return null
-    }
-
-    // Try to extract JSON from response (handle cases where AI adds extra text)
-    let jsonText = responseText
-    const jsonMatch = responseText.match(/\{[\s\S]*\}/)
-    if (jsonMatch) {
-      jsonText = jsonMatch[0]
-    }
-
-    // Parse JSON response
-    const parsed = JSON.parse(jsonText) as PlaceAnalysisResult
+    const response = await provider.generateJson<PlaceAnalysisResponse>(
+      buildPromptRequest('scraped-content-analysis', { placeName, content: scrapedContent }),
+    )
 
-    // Validate response
-    if (!parsed.description || parsed.description === 'NO_RELEVANT_INFO') {
+    if (!response.description) {
       console.log('❌ AI returned no relevant info')
       return null
     }
 
-    // Ensure description is within limit
-    if (parsed.description.length > 2000) {
-      parsed.description = parsed.description.substring(0, 1997) + '...'
-    }
-
-    // Ensure mentionedPlaces is an array
-    if (!Array.isArray(parsed.mentionedPlaces)) {
-      parsed.mentionedPlaces = []
+    const parsed: PlaceAnalysisResult = {
+      // Ensure description is within limit
+      description:
+        response.description.length > 2000 ? response.description.substring(0, 1997) + '...' : response.description,
+      mentionedPlaces: response.mentionedPlaces,
     }
 
     console.log(
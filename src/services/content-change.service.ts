@@ -0,0 +1,308 @@
+import { ChangeDetectionConfig, loadChangeDetectionConfig } from '../config/change-detection.config'
+import { getPlacesWithWebsiteToCheck, Place, updatePlace } from '../db/places'
+import { getSourcesToCheckForChanges, Source, updateSource } from '../db/sources'
+import { BatchHooks } from '../types'
+import {
+  ContentDiffSummary,
+  ContentValidators,
+  diffContent,
+  hashContent,
+  toContentValidators,
+} from '../utils/content-fingerprint'
+import { cleanText } from '../utils/text-cleaner'
+import { deepWebsiteScraperService } from './deep-website-scraper.service'
+import { isLlmBudgetExceeded } from './llm-usage.service'
+import { politeFetchService } from './polite-fetch.service'
+import { analyzeSingleUrl, scrapeSingleUrl } from './url-analysis.service'
+import { analyzePlaceWebsiteCore } from './website-analysis.service'
+
+/**
+ * Cached contents checked for changes
+ * - source: sources.raw_content, the page of an analyzed URL
+ * - place-website: places.website_raw, the pages scraped from the website of a place
+ */
+export type ContentTarget = 'source' | 'place-website'
+
+export const CONTENT_TARGETS: ContentTarget[] = ['source', 'place-website']
+
+/**
+ * - not-modified: the server answered 304 for every page (ETag / Last-Modified), nothing was downloaded
+ * - unchanged: the pages were downloaded, their text has the same fingerprint
+ * - minor-change: the text changed below the re-analysis threshold
+ * - changed: the text materially changed, the new content was stored and analyzed again
+ * - failed: the pages could not be fetched
+ */
+export type ContentChangeStatus = 'not-modified' | 'unchanged' | 'minor-change' | 'changed' | 'failed'
+
+export interface ContentChangeResult {
+  target: ContentTarget
+  /** Source ID or place ID */
+  id: string
+  url: string
+  status: ContentChangeStatus
+  /** Whether the AI analysis was run again on the new content */
+  reanalyzed: boolean
+  diff: ContentDiffSummary | null
+  error?: string
+}
+
+export interface ContentChangeOptions extends BatchHooks<ContentChangeResult> {
+  targets?: ContentTarget[]
+  /** Maximum number of contents checked, the ones checked the longest time ago first */
+  limit?: number
+}
+
+const DEFAULT_LIMIT = 100
+
+// Page headers of the deep scrape: "=== Page 1: https://... (rendered) ==="
+const PAGE_HEADER_PATTERN = /=== Page \d+: (\S+)(?: \([a-z]+\))? ===/g
+
+let config: ChangeDetectionConfig | null = null
+
+function getConfig(): ChangeDetectionConfig {
+  if (!config) {
+    config = loadChangeDetectionConfig()
+  }
+  return config
+}
+
+/**
+ * Sends conditional requests for the pages of a content
+ * @returns true when every page answered 304 Not Modified, false when a page changed or has no validator
+ */
+async function isNotModified(validators: ContentValidators): Promise<boolean> {
+  const pages = Object.entries(validators)
+  if (pages.length === 0 || pages.some(([, validator]) => !validator.etag && !validator.lastModified)) {
+    return false
+  }
+
+  for (const [url, validator] of pages) {
+    const headers: Record<string, string> = {}
+    if (validator.etag) {
+      headers['If-None-Match'] = validator.etag
+    }
+    if (validator.lastModified) {
+      headers['If-Modified-Since'] = validator.lastModified
+    }
+
+    try {
+      const { response } = await politeFetchService.fetch(url, { headers })
+      if (!response || response.status !== 304) {
+        // Free the connection, the full content is downloaded again by the scraper
+        response?.body?.cancel().catch(() => {})
+        return false
+      }
+    } catch {
+      return false
+    }
+  }
+
+  return true
+}
+
+/**
+ * Compares a freshly scraped content with the analyzed one
+ */
+function compareContent(
+  previousContent: string,
+  previousHash: string | null,
+  content: string,
+): { status: 'unchanged' | 'minor-change' | 'changed'; hash: string; diff: ContentDiffSummary | null } {
+  const hash = hashContent(content)
+  if (hash === (previousHash ?? hashContent(previousContent))) {
+    return { status: 'unchanged', hash, diff: null }
+  }
+
+  const diff = diffContent(previousContent, content)
+  return { status: diff.changeRatio >= getConfig().minChangeRatio ? 'changed' : 'minor-change', hash, diff }
+}
+
+/**
+ * Checks the page of an analyzed URL, and extracts its places again when its content materially changed
+ */
+export async function checkSourceContent(source: Source): Promise<ContentChangeResult> {
+  const result: ContentChangeResult = {
+    target: 'source',
+    id: source.id,
+    url: source.url,
+    status: 'failed',
+    reanalyzed: false,
+    diff: null,
+  }
+  const checkedAt = new Date().toISOString()
+
+  if (await isNotModified(toContentValidators(source.content_validators))) {
+    await updateSource(source.id, { content_checked_at: checkedAt })
+    return { ...result, status: 'not-modified' }
+  }
+
+  const scraped = await scrapeSingleUrl(source.url)
+  if (!scraped || scraped.text.trim().length === 0) {
+    await updateSource(source.id, { content_checked_at: checkedAt })
+    return { ...result, error: 'Content could not be fetched' }
+  }
+
+  const content = cleanText(scraped.text)
+  const { status, hash, diff } = compareContent(source.raw_content || '', source.content_hash, content)
+  const checkUpdates = { content_checked_at: checkedAt, content_validators: { [source.url]: scraped.validator } }
+
+  if (status !== 'changed') {
+    // The hash stays the one of the analyzed content, so small changes add up until they are worth a re-analysis
+    await updateSource(source.id, status === 'unchanged' ? { ...checkUpdates, content_hash: hash } : checkUpdates)
+    return { ...result, status, diff }
+  }
+
+  console.log(`📝 Content of ${source.url} changed (${Math.round((diff?.changeRatio || 0) * 100)}% of the text)`)
+  const updateResult = await updateSource(source.id, {
+    ...checkUpdates,
+    raw_content: content,
+    raw_content_format: scraped.format,
+    content_hash: hash,
+    content_changed_at: checkedAt,
+    content_diff: diff,
+  })
+  if (updateResult.error) {
+    return { ...result, status, diff, error: `Failed to save the new content: ${updateResult.error.message}` }
+  }
+
+  // The new content is now the cached one, the analysis reads it instead of scraping the page again
+  const analysis = await analyzeSingleUrl(source.url, false)
+  return {
+    ...result,
+    status,
+    diff,
+    reanalyzed: analysis !== null,
+    error: analysis ? undefined : 'Places could not be extracted from the new content',
+  }
+}
+
+/**
+ * Checks the pages scraped from the website of a place, and analyzes the website again when they materially changed
+ */
+export async function checkPlaceWebsiteContent(place: Place): Promise<ContentChangeResult> {
+  const website = place.website || ''
+  const result: ContentChangeResult = {
+    target: 'place-website',
+    id: place.id,
+    url: website,
+    status: 'failed',
+    reanalyzed: false,
+    diff: null,
+  }
+  const checkedAt = new Date().toISOString()
+
+  if (await isNotModified(toContentValidators(place.website_content_validators))) {
+    await updatePlace(place.id, { website_checked_at: checkedAt })
+    return { ...result, status: 'not-modified' }
+  }
+
+  // Scrape the same pages again, choosing them from the sitemap may take an LLM call
+  const previousContent = place.website_raw || ''
+  const pageUrls = [...previousContent.matchAll(PAGE_HEADER_PATTERN)].map((match) => match[1])
+  const scrapeResult = await deepWebsiteScraperService.scrapePages(website, pageUrls.length > 0 ? pageUrls : [website])
+
+  if (!scrapeResult.content) {
+    await updatePlace(place.id, { website_checked_at: checkedAt })
+    return {
+      ...result,
+      error: scrapeResult.blockedByRobots
+        ? `Website ${website} disallows crawling by robots.txt`
+        : 'Website could not be scraped',
+    }
+  }
+
+  const content = cleanText(scrapeResult.content)
+  const { status, hash, diff } = compareContent(previousContent, place.website_content_hash, content)
+  const checkUpdates = { website_checked_at: checkedAt, website_content_validators: scrapeResult.validators }
+
+  if (status !== 'changed') {
+    await updatePlace(place.id, status === 'unchanged' ? { ...checkUpdates, website_content_hash: hash } : checkUpdates)
+    return { ...result, status, diff }
+  }
+
+  console.log(`📝 Website of ${place.name} changed (${Math.round((diff?.changeRatio || 0) * 100)}% of the text)`)
+  const updateResult = await updatePlace(place.id, {
+    ...checkUpdates,
+    website_raw: content,
+    website_content_hash: hash,
+    website_changed_at: checkedAt,
+    website_content_diff: diff,
+  })
+  if (updateResult.error) {
+    return { ...result, status, diff, error: `Failed to save the new content: ${updateResult.error.message}` }
+  }
+
+  const { error } = await analyzePlaceWebsiteCore(place.id)
+  return { ...result, status, diff, reanalyzed: !error, error }
+}
+
+interface ContentToCheck {
+  checkedAt: string | null
+  check: () => Promise<ContentChangeResult>
+}
+
+/**
+ * Core change detection logic - shared between scheduler and scripts
+ * Checks the cached contents not checked for CHANGE_DETECTION_RECHECK_INTERVAL_HOURS, the oldest checks first,
+ * and re-runs the AI analysis of the ones that materially changed
+ */
+export async function checkContentChangesCore(
+  options: ContentChangeOptions = {},
+): Promise<{ results: ContentChangeResult[]; error: string | null }> {
+  const { targets = CONTENT_TARGETS, limit = DEFAULT_LIMIT, onItemProcessed, shouldStop } = options
+
+  const checkedBefore = new Date(Date.now() - getConfig().recheckIntervalHours * 60 * 60 * 1000).toISOString()
+  const contents: ContentToCheck[] = []
+
+  if (targets.includes('source')) {
+    const { data: sources, error } = await getSourcesToCheckForChanges(checkedBefore, limit)
+    if (error) {
+      console.error('❌ Error fetching sources to check:', error)
+      return { results: [], error: `Database error: ${error.message}` }
+    }
+    for (const source of sources || []) {
+      contents.push({ checkedAt: source.content_checked_at, check: () => checkSourceContent(source) })
+    }
+  }
+
+  if (targets.includes('place-website')) {
+    const { data: places, error } = await getPlacesWithWebsiteToCheck(checkedBefore, limit)
+    if (error) {
+      console.error('❌ Error fetching place websites to check:', error)
+      return { results: [], error: `Database error: ${error.message}` }
+    }
+    for (const place of places || []) {
+      contents.push({ checkedAt: place.website_checked_at, check: () => checkPlaceWebsiteContent(place) })
+    }
+  }
+
+  // Never checked first, then the oldest checks
+  const contentsToCheck = contents.sort((a, b) => (a.checkedAt || '').localeCompare(b.checkedAt || '')).slice(0, limit)
+
+  console.log(`📋 Found ${contentsToCheck.length} contents to check for changes`)
+
+  const results: ContentChangeResult[] = []
+  for (let i = 0; i < contentsToCheck.length; i++) {
+    if ((shouldStop && (await shouldStop())) || (await isLlmBudgetExceeded())) {
+      console.log(`🛑 Change detection stopped after ${i} content(s)`)
+      break
+    }
+
+    let result: ContentChangeResult
+    try {
+      result = await contentsToCheck[i].check()
+    } catch (error) {
+      console.error(`❌ Error checking content ${i + 1}/${contentsToCheck.length}:`, error)
+      continue
+    }
+
+    console.log(`🔎 ${result.url}: ${result.status}${result.reanalyzed ? ', analyzed again' : ''}`)
+    results.push(result)
+
+    if (onItemProcessed) {
+      await onItemProcessed(result, i, contentsToCheck.length)
+    }
+  }
+
+  return { results, error: null }
+}
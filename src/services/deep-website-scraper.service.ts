@@ -1,15 +1,66 @@
 import * as cheerio from 'cheerio'
+import { ContentValidators, getPageValidator, PageValidator } from '../utils/content-fingerprint'
 import { filterRelevantSitemapUrls } from './ai.service'
+import { DocumentFormat, FetchedDocument, readDocument } from './document-reader.service'
+import { pageRendererService } from './page-renderer.service'
+import { politeFetchService } from './polite-fetch.service'
 
 interface ScrapedPage {
   url: string
   text: string
+  format: DocumentFormat
+  /** Whether the text comes from the page rendered by the headless browser */
+  rendered: boolean
+  validator: PageValidator
+}
+
+export interface DeepScrapeResult {
+  /** Combined text of the scraped pages, null when nothing could be extracted */
+  content: string | null
+  /** True when robots.txt disallows every page that would have been scraped */
+  blockedByRobots: boolean
+  /** Pages whose text was read from their rendered DOM, their header in the content ends with "(rendered)" */
+  renderedPagesCount: number
+  /** ETag and Last-Modified of the scraped pages, to check them for changes later (see content-change.service) */
+  validators: ContentValidators
 }
 
 export class DeepWebsiteScraperService {
   private readonly MAX_PAGES = 10 // Limit to avoid overwhelming the target site and keep content focused
-  private readonly TIMEOUT_MS = 10000
-  private readonly USER_AGENT = 'Mozilla/5.0 (compatible; EmpreinteBot/1.0; Nature Places Data Enhancement)'
+  private readonly MAX_CHILD_SITEMAPS = 20 // Sitemap indexes of large sites list hundreds of sitemaps
+
+  /**
+   * Fetches the page URLs listed in the sitemap of a website, keeping the ones robots.txt allows
+   * Sitemap indexes are followed one level down
+   * @returns The URLs, or null when no sitemap was found
+   */
+  public async fetchSitemapUrls(baseUrl: string): Promise<string[] | null> {
+    // Common sitemap locations
+    const sitemapUrls = [`${baseUrl}/sitemap.xml`, `${baseUrl}/sitemap_index.xml`, `${baseUrl}/sitemap`]
+
+    for (const sitemapUrl of sitemapUrls) {
+      try {
+        const xml = await this.fetchSitemapXml(sitemapUrl)
+        if (!xml) continue
+
+        let urls = await this.parseSitemapXml(xml)
+        if (/<sitemapindex[\s>]/i.test(xml)) {
+          urls = await this.fetchChildSitemapUrls(urls)
+        }
+
+        const allowedUrls = await this.filterAllowedUrls(urls)
+        if (allowedUrls.length > 0) {
+          console.log(`✅ Found sitemap with ${allowedUrls.length} URLs at ${sitemapUrl}`)
+          return allowedUrls
+        }
+      } catch (error) {
+        // Try next sitemap location
+        continue
+      }
+    }
+
+    return null
+  }
 
   /**
    * Fetches and parses a sitemap from a website
@@ -20,102 +71,116 @@ export class DeepWebsiteScraperService {
     try {
       console.log(`🗺️  Attempting to fetch sitemap from: ${baseUrl}`)
 
-      // Common sitemap locations
-      const sitemapUrls = [`${baseUrl}/sitemap.xml`, `${baseUrl}/sitemap_index.xml`, `${baseUrl}/sitemap`]
-
-      for (const sitemapUrl of sitemapUrls) {
-        try {
-          const response = await fetch(sitemapUrl, {
-            headers: { 'User-Agent': this.USER_AGENT },
-            signal: AbortSignal.timeout(this.TIMEOUT_MS),
-          })
-
-          if (!response.ok) continue
-
-          const xml = await response.text()
-          const urls = await this.parseSitemapXml(xml)
-
-          if (urls.length > 0) {
-            console.log(`✅ Found sitemap with ${urls.length} URLs at ${sitemapUrl}`)
-
-            // Step 1: Pre-filter by language if country is France - STRICTLY French pages only
-            // This ensures we filter by language FIRST, before LLM relevance filtering
-            let filteredUrls = urls
-            if (country === 'France') {
-              const frenchUrls = urls.filter((url) => {
-                const lowerUrl = url.toLowerCase()
-
-                // Check for explicit French language indicators
-                const isFrench =
-                  lowerUrl.includes('/fr/') ||
-                  lowerUrl.includes('/french/') ||
-                  lowerUrl.includes('/francais/') ||
-                  lowerUrl.includes('/fr-') ||
-                  lowerUrl.includes('?lang=fr') ||
-                  lowerUrl.includes('&lang=fr') ||
-                  lowerUrl.includes('?locale=fr') ||
-                  lowerUrl.includes('&locale=fr')
-
-                // Check for explicit English language indicators
-                const isEnglish =
-                  lowerUrl.includes('/en/') ||
-                  lowerUrl.includes('/english/') ||
-                  lowerUrl.includes('/en-') ||
-                  lowerUrl.includes('?lang=en') ||
-                  lowerUrl.includes('&lang=en') ||
-                  lowerUrl.includes('?locale=en') ||
-                  lowerUrl.includes('&locale=en')
-
-                // Check for other language codes (2-letter codes like /de/, /es/, /it/, etc.)
-                // but exclude /fr/ and locale codes like /fr-fr/
-                const languageCodeMatch = lowerUrl.match(/\/([a-z]{2})(\/|$)/)
-                const isOtherLanguage =
-                  languageCodeMatch && languageCodeMatch[1] !== 'fr' && !lowerUrl.match(/\/[a-z]{2}-[a-z]{2}\//) // Exclude locale codes
-
-                // For France, exclude English and other languages
-                if (isEnglish || (isOtherLanguage && !isFrench)) {
-                  return false
-                }
-
-                // Include if explicitly French or if no language indicator (assume French for French sites)
-                return isFrench || (!isEnglish && !isOtherLanguage)
-              })
-
-              if (frenchUrls.length > 0) {
-                console.log(`🇫🇷 Language filter: ${frenchUrls.length} French pages (from ${urls.length} total)`)
-                filteredUrls = frenchUrls
-              } else {
-                console.log(`⚠️  No French pages found in sitemap, will use LLM filtering with French preference`)
-              }
-            }
-
-            // Step 2: If still more than MAX_PAGES URLs, use LLM to filter the most relevant ones
-            // This runs on the already language-filtered list (if France) or original list (otherwise)
-            if (filteredUrls.length > this.MAX_PAGES && placeName) {
-              console.log(
-                `🤖 ${filteredUrls.length} URLs remaining, using LLM to filter to ${this.MAX_PAGES} most relevant...`,
-              )
-              const llmFilteredUrls = await filterRelevantSitemapUrls(placeName, filteredUrls, this.MAX_PAGES, country)
-              return llmFilteredUrls
-            }
-
-            // Step 3: If we have <= MAX_PAGES URLs, return them (already language-filtered if France)
-            return filteredUrls.slice(0, this.MAX_PAGES)
+      const urls = await this.fetchSitemapUrls(baseUrl)
+      if (!urls) {
+        console.log(`⚠️  No sitemap found, will only scrape the homepage`)
+        return null
+      }
+
+      // Step 1: Pre-filter by language if country is France - STRICTLY French pages only
+      // This ensures we filter by language FIRST, before LLM relevance filtering
+      let filteredUrls = urls
+      if (country === 'France') {
+        const frenchUrls = urls.filter((url) => {
+          const lowerUrl = url.toLowerCase()
+
+          // Check for explicit French language indicators
+          const isFrench =
+            lowerUrl.includes('/fr/') ||
+            lowerUrl.includes('/french/') ||
+            lowerUrl.includes('/francais/') ||
+            lowerUrl.includes('/fr-') ||
+            lowerUrl.includes('?lang=fr') ||
+            lowerUrl.includes('&lang=fr') ||
+            lowerUrl.includes('?locale=fr') ||
+            lowerUrl.includes('&locale=fr')
+
+          // Check for explicit English language indicators
+          const isEnglish =
+            lowerUrl.includes('/en/') ||
+            lowerUrl.includes('/english/') ||
+            lowerUrl.includes('/en-') ||
+            lowerUrl.includes('?lang=en') ||
+            lowerUrl.includes('&lang=en') ||
+            lowerUrl.includes('?locale=en') ||
+            lowerUrl.includes('&locale=en')
+
+          // Check for other language codes (2-letter codes like /de/, /es/, /it/, etc.)
+          // but exclude /fr/ and locale codes like /fr-fr/
+          const languageCodeMatch = lowerUrl.match(/\/([a-z]{2})(\/|$)/)
+          const isOtherLanguage =
+            languageCodeMatch && languageCodeMatch[1] !== 'fr' && !lowerUrl.match(/\/[a-z]{2}-[a-z]{2}\//) // Exclude locale codes
+
+          // For France, exclude English and other languages
+          if (isEnglish || (isOtherLanguage && !isFrench)) {
+            return false
           }
-        } catch (error) {
-          // Try next sitemap location
-          continue
+
+          // Include if explicitly French or if no language indicator (assume French for French sites)
+          return isFrench || (!isEnglish && !isOtherLanguage)
+        })
+
+        if (frenchUrls.length > 0) {
+          console.log(`🇫🇷 Language filter: ${frenchUrls.length} French pages (from ${urls.length} total)`)
+          filteredUrls = frenchUrls
+        } else {
+          console.log(`⚠️  No French pages found in sitemap, will use LLM filtering with French preference`)
         }
       }
 
-      console.log(`⚠️  No sitemap found, will only scrape the homepage`)
-      return null
+      // Step 2: If still more than MAX_PAGES URLs, use LLM to filter the most relevant ones
+      // This runs on the already language-filtered list (if France) or original list (otherwise)
+      if (filteredUrls.length > this.MAX_PAGES && placeName) {
+        console.log(
+          `🤖 ${filteredUrls.length} URLs remaining, using LLM to filter to ${this.MAX_PAGES} most relevant...`,
+        )
+        const llmFilteredUrls = await filterRelevantSitemapUrls(placeName, filteredUrls, this.MAX_PAGES, country)
+        return llmFilteredUrls
+      }
+
+      // Step 3: If we have <= MAX_PAGES URLs, return them (already language-filtered if France)
+      return filteredUrls.slice(0, this.MAX_PAGES)
     } catch (error) {
       console.warn(`❌ Error fetching sitemap:`, error)
       return null
     }
   }
 
+  private async fetchSitemapXml(sitemapUrl: string): Promise<string | null> {
+    const { response } = await politeFetchService.fetch(sitemapUrl)
+
+    if (!response || !response.ok) {
+      return null
+    }
+    return response.text()
+  }
+
+  /**
+   * Collects the page URLs of the sitemaps listed in a sitemap index
+   */
+  private async fetchChildSitemapUrls(childSitemapUrls: string[]): Promise<string[]> {
+    const urls: string[] = []
+
+    if (childSitemapUrls.length > this.MAX_CHILD_SITEMAPS) {
+      console.log(
+        `⚠️  Sitemap index lists ${childSitemapUrls.length} sitemaps, reading the first ${this.MAX_CHILD_SITEMAPS}`,
+      )
+    }
+
+    for (const childSitemapUrl of childSitemapUrls.slice(0, this.MAX_CHILD_SITEMAPS)) {
+      try {
+        const xml = await this.fetchSitemapXml(childSitemapUrl)
+        if (xml) {
+          urls.push(...(await this.parseSitemapXml(xml)))
+        }
+      } catch (error) {
+        console.warn(`❌ Error fetching sitemap ${childSitemapUrl}:`, error)
+      }
+    }
+
+    return urls
+  }
+
   /**
    * Parses sitemap XML and extracts URLs
    */
@@ -127,7 +192,7 @@ export class DeepWebsiteScraperService {
       const urlMatches = xml.matchAll(/<loc>\s*([^<]+)\s*<\/loc>/g)
 
       for (const match of urlMatches) {
-        const url = match[1].trim()
+        const url = match[1].trim().replace(/&amp;/g, '&')
         if (url) {
           urls.push(url)
         }
@@ -141,27 +206,51 @@ export class DeepWebsiteScraperService {
   }
 
   /**
-   * Fetches HTML content from a URL
+   * Keeps the sitemap URLs robots.txt allows, so disallowed pages don't take the place of allowed ones
+   */
+  private async filterAllowedUrls(urls: string[]): Promise<string[]> {
+    const allowed: string[] = []
+
+    for (const url of urls) {
+      try {
+        if (await politeFetchService.isAllowed(url)) {
+          allowed.push(url)
+        }
+      } catch {
+        // Invalid URL in the sitemap
+      }
+    }
+
+    if (allowed.length < urls.length) {
+      console.log(`🤖 robots.txt filter: ${allowed.length} allowed pages (from ${urls.length} total)`)
+    }
+
+    return allowed
+  }
+
+  /**
+   * Fetches a page, or a PDF, plain text or Markdown document, from a URL
    */
-  private async fetchPage(url: string): Promise<string | null> {
+  private async fetchPage(
+    url: string,
+  ): Promise<{ document: FetchedDocument | null; validator: PageValidator | null; blockedByRobots: boolean }> {
     try {
-      const response = await fetch(url, {
-        headers: { 'User-Agent': this.USER_AGENT },
-        signal: AbortSignal.timeout(this.TIMEOUT_MS),
-      })
+      const { response, blockedByRobots } = await politeFetchService.fetch(url)
+
+      if (blockedByRobots) {
+        return { document: null, validator: null, blockedByRobots: true }
+      }
 
       if (!response.ok) {
         console.warn(`❌ Failed to fetch ${url}: ${response.status}`)
-        return null
+        return { document: null, validator: null, blockedByRobots: false }
       }
 
-      const contentType = response.headers.get('content-type')
-      if (!contentType || !contentType.includes('text/html')) {
-        console.warn(`⚠️  Skipping non-HTML content: ${url}`)
-        return null
+      return {
+        document: await readDocument(response, url),
+        validator: getPageValidator(response),
+        blockedByRobots: false,
       }
-
-      return await response.text()
     } catch (error) {
       if (error instanceof Error && error.name === 'TimeoutError') {
         console.warn(`⏰ Timeout fetching ${url}`)
@@ -170,7 +259,7 @@ export class DeepWebsiteScraperService {
       } else {
         console.warn(`❌ Error fetching ${url}:`, error)
       }
-      return null
+      return { document: null, validator: null, blockedByRobots: false }
     }
   }
 
@@ -219,6 +308,29 @@ export class DeepWebsiteScraperService {
       .trim()
   }
 
+  /**
+   * Extracts the text of a page from its static HTML, or from its rendered DOM when the static HTML has too little
+   * text (JavaScript pages) and a rendering backend is configured
+   * Documents (PDF, plain text, Markdown) already are text, they are never rendered
+   */
+  private async extractPageText(url: string, document: FetchedDocument): Promise<{ text: string; rendered: boolean }> {
+    if (document.format !== 'html') {
+      return { text: document.body.replace(/\s+/g, ' ').trim(), rendered: false }
+    }
+
+    const text = this.extractTextContent(document.body)
+
+    if (!pageRendererService.isEnabled() || text.length >= pageRendererService.getMinStaticTextLength()) {
+      return { text, rendered: false }
+    }
+
+    console.log(`📉 Little static text on ${url} (${text.length} chars), rendering the page...`)
+    const renderedHtml = await pageRendererService.renderPage(url)
+    const renderedText = renderedHtml ? this.extractTextContent(renderedHtml) : ''
+
+    return renderedText.length > text.length ? { text: renderedText, rendered: true } : { text, rendered: false }
+  }
+
   /**
    * Validates URL format
    */
@@ -245,7 +357,7 @@ export class DeepWebsiteScraperService {
 
   /**
    * Main method: Scrapes multiple pages from a website using sitemap
-   * Returns combined text content from all pages
+   * Returns combined text content from all pages, or whether robots.txt disallowed them
    * @param websiteUrl The website URL to scrape
    * @param placeName Optional place name for LLM filtering when sitemap has >20 pages
    * @param country Optional country to filter language-specific pages (e.g., "France" for French-only)
@@ -254,17 +366,16 @@ export class DeepWebsiteScraperService {
     websiteUrl: string,
     placeName?: string,
     country?: string | null,
-  ): Promise<string | null> {
+  ): Promise<DeepScrapeResult> {
     try {
       console.log(`🔍 Starting deep scrape for: ${websiteUrl}`)
 
       if (!this.isValidUrl(websiteUrl)) {
         console.warn(`❌ Invalid URL: ${websiteUrl}`)
-        return null
+        return { content: null, blockedByRobots: false, renderedPagesCount: 0, validators: {} }
       }
 
       const baseUrl = this.getBaseUrl(websiteUrl)
-      const pages: ScrapedPage[] = []
 
       // Try to get sitemap URLs
       const sitemapUrls = await this.fetchSitemap(baseUrl, placeName, country)
@@ -302,44 +413,72 @@ export class DeepWebsiteScraperService {
         }
       }
 
-      console.log(`📄 Will scrape ${urlsToScrape.length} pages`)
+      return await this.scrapePages(websiteUrl, urlsToScrape)
+    } catch (error) {
+      console.error(`❌ Error during deep scrape:`, error)
+      return { content: null, blockedByRobots: false, renderedPagesCount: 0, validators: {} }
+    }
+  }
+
+  /**
+   * Scrapes the given pages of a website and combines their texts, each under a "=== Page N: url ===" header
+   * Used by the deep scrape once it has chosen its pages, and to re-scrape the same pages when checking for changes
+   */
+  public async scrapePages(websiteUrl: string, urls: string[]): Promise<DeepScrapeResult> {
+    try {
+      console.log(`📄 Will scrape ${urls.length} pages`)
+      const pages: ScrapedPage[] = []
 
-      // Scrape each page with a small delay to be respectful
-      for (const url of urlsToScrape) {
-        const html = await this.fetchPage(url)
+      // Scrape each page, the polite fetch layer spaces out the requests to the site
+      let blockedPagesCount = 0
+      for (const url of urls) {
+        const { document, validator, blockedByRobots } = await this.fetchPage(url)
 
-        if (html) {
-          const text = this.extractTextContent(html)
+        if (blockedByRobots) {
+          blockedPagesCount++
+        } else if (document && validator) {
+          const { text, rendered } = await this.extractPageText(url, document)
           if (text && text.length > 100) {
-            pages.push({ url, text })
-            console.log(`✅ Scraped: ${url} (${text.length} chars)`)
+            pages.push({ url, text, format: document.format, rendered, validator })
+            const details = rendered ? ', rendered' : document.format !== 'html' ? `, ${document.format}` : ''
+            console.log(`✅ Scraped: ${url} (${text.length} chars${details})`)
           }
         }
-
-        // Small delay between requests to be respectful
-        await new Promise((resolve) => setTimeout(resolve, 500))
       }
 
       if (pages.length === 0) {
+        if (blockedPagesCount === urls.length) {
+          console.warn(`🤖 robots.txt disallows crawling ${websiteUrl}`)
+          return { content: null, blockedByRobots: true, renderedPagesCount: 0, validators: {} }
+        }
         console.warn(`❌ No content extracted from ${websiteUrl}`)
-        return null
+        return { content: null, blockedByRobots: false, renderedPagesCount: 0, validators: {} }
       }
 
       // Combine all page texts
       const combinedText = pages
         .map((page, index) => {
-          // Add page separator for context
-          const pageHeader = `\n\n=== Page ${index + 1}: ${page.url} ===\n\n`
+          // Add page separator for context, with how the text was read when it isn't the static HTML
+          const tag = page.rendered ? ' (rendered)' : page.format !== 'html' ? ` (${page.format})` : ''
+          const pageHeader = `\n\n=== Page ${index + 1}: ${page.url}${tag} ===\n\n`
           return pageHeader + page.text
         })
         .join('\n')
 
-      console.log(`✅ Deep scrape complete: ${pages.length} pages, ${combinedText.length} total characters`)
+      const renderedPagesCount = pages.filter((page) => page.rendered).length
+      console.log(
+        `✅ Deep scrape complete: ${pages.length} pages (${renderedPagesCount} rendered), ${combinedText.length} total characters`,
+      )
 
-      return combinedText
+      const validators: ContentValidators = {}
+      for (const page of pages) {
+        validators[page.url] = page.validator
+      }
+
+      return { content: combinedText, blockedByRobots: false, renderedPagesCount, validators }
     } catch (error) {
       console.error(`❌ Error during deep scrape:`, error)
-      return null
+      return { content: null, blockedByRobots: false, renderedPagesCount: 0, validators: {} }
     }
   }
 }
@@ -0,0 +1,157 @@
+import fs from 'fs/promises'
+import os from 'os'
+import path from 'path'
+import { loadScraperConfig, ScraperConfig } from '../config/scraper.config'
+import { runCommand } from '../utils/command'
+
+/**
+ * Formats the scrapers can read, stored with the raw content of a source (sources.raw_content_format)
+ */
+export const DOCUMENT_FORMATS = ['html', 'pdf', 'text', 'markdown'] as const
+
+export type DocumentFormat = (typeof DOCUMENT_FORMATS)[number]
+
+export interface FetchedDocument {
+  format: DocumentFormat
+  /** The HTML of a page, to extract with cheerio, or the text of the other formats */
+  body: string
+}
+
+const MARKDOWN_EXTENSIONS = ['.md', '.markdown']
+
+let config: ScraperConfig | null = null
+
+function getConfig(): ScraperConfig {
+  if (!config) {
+    config = loadScraperConfig()
+  }
+  return config
+}
+
+/**
+ * Detects the format of a document from its Content-Type, then from its first bytes and URL extension
+ * (servers often send PDFs and Markdown files as application/octet-stream or text/plain)
+ * @returns The format, or null for formats the scrapers can't read (images, archives...)
+ */
+export function detectDocumentFormat(contentType: string | null, url: string, head: Buffer): DocumentFormat | null {
+  const mimeType = (contentType || '').split(';')[0].trim().toLowerCase()
+  const extension = path.extname(safePathname(url)).toLowerCase()
+
+  if (head.subarray(0, 5).toString('latin1') === '%PDF-' || mimeType === 'application/pdf') {
+    return 'pdf'
+  }
+  if (mimeType === 'text/html' || mimeType === 'application/xhtml+xml') {
+    return 'html'
+  }
+  if (mimeType === 'text/markdown' || mimeType === 'text/x-markdown' || MARKDOWN_EXTENSIONS.includes(extension)) {
+    return 'markdown'
+  }
+  if (mimeType === 'text/plain' || extension === '.txt') {
+    return 'text'
+  }
+  // Servers without a Content-Type usually serve HTML pages
+  if (!mimeType && /^\s*</.test(head.subarray(0, 512).toString('utf-8'))) {
+    return 'html'
+  }
+
+  return null
+}
+
+/**
+ * Reads a fetched document: the HTML of a page, or the text of a PDF, plain text or Markdown file
+ * @returns The document, or null when its format isn't supported, it's too large or its text can't be extracted
+ */
+export async function readDocument(response: Response, url: string): Promise<FetchedDocument | null> {
+  const { maxDocumentBytes } = getConfig()
+
+  const contentLength = Number(response.headers.get('content-length'))
+  if (contentLength > maxDocumentBytes) {
+    console.warn(`⚠️  Skipping ${url}: document too large (${contentLength} bytes)`)
+    await response.body?.cancel()
+    return null
+  }
+
+  const buffer = Buffer.from(await response.arrayBuffer())
+  if (buffer.length > maxDocumentBytes) {
+    console.warn(`⚠️  Skipping ${url}: document too large (${buffer.length} bytes)`)
+    return null
+  }
+
+  const contentType = response.headers.get('content-type')
+  const format = detectDocumentFormat(contentType, url, buffer)
+
+  if (!format) {
+    console.warn(`⚠️  Skipping unsupported content type for ${url}: ${contentType}`)
+    return null
+  }
+
+  try {
+    switch (format) {
+      case 'html':
+      case 'text':
+        return { format, body: buffer.toString('utf-8') }
+      case 'markdown':
+        return { format, body: markdownToText(buffer.toString('utf-8')) }
+      case 'pdf': {
+        console.log(`📄 Extracting text from PDF: ${url} (${buffer.length} bytes)`)
+        const text = await extractPdfText(buffer)
+        if (text.trim().length === 0) {
+          // Scanned brochures are images of text, pdftotext finds nothing in them
+          console.warn(`⚠️  No text layer in PDF: ${url}`)
+          return null
+        }
+        return { format, body: text }
+      }
+    }
+  } catch (error) {
+    console.warn(`❌ Failed to extract text from ${format.toUpperCase()} ${url}:`, error)
+    return null
+  }
+}
+
+/**
+ * Keeps the text of a Markdown document: link and image texts without their URL, no heading, emphasis or
+ * code markers (the text cleaner would otherwise drop [link texts] as citations)
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    .replace(/^---\n[\s\S]*?\n---\n/, '') // Front matter
+    .replace(/```[^\n]*\n([\s\S]*?)```/g, '$1') // Code fences
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images
+    .replace(/\[([^\]]*)\]\([^)]*\)/g, '$1') // Links
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '') // Headings
+    .replace(/^\s{0,3}>\s?/gm, '') // Blockquotes
+    .replace(/^\s*[-*+]\s+/gm, '- ') // List markers
+    .replace(/(\*\*|\*|`)(\S(?:.*?\S)?)\1/g, '$2') // Emphasis and inline code (not _, common in names)
+    .replace(/<[^>]+>/g, '') // Inline HTML
+}
+
+/**
+ * Extracts the text of a PDF with poppler's pdftotext (SCRAPER_PDFTOTEXT_PATH), which must be installed on the server
+ */
+async function extractPdfText(pdf: Buffer): Promise<string> {
+  const { pdftotextPath, timeoutMs } = getConfig()
+  const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'empreinte-pdf-'))
+  const pdfPath = path.join(tempDir, 'document.pdf')
+
+  try {
+    await fs.writeFile(pdfPath, pdf)
+
+    // "-" writes the text to stdout, -nopgbrk drops the form feeds between pages
+    // Large PDFs take longer than a page fetch
+    return await runCommand(pdftotextPath, ['-enc', 'UTF-8', '-nopgbrk', pdfPath, '-'], {
+      name: 'pdftotext',
+      timeoutMs: timeoutMs * 3,
+    })
+  } finally {
+    await fs.rm(tempDir, { recursive: true, force: true })
+  }
+}
+
+function safePathname(url: string): string {
+  try {
+    return new URL(url).pathname
+  } catch {
+    return url
+  }
+}
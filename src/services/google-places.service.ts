@@ -1,3 +1,5 @@
+import { getHttpClient } from './http-client.service'
+
 export interface GooglePlacesPhoto {
   url: string
   attribution: string
@@ -46,7 +48,7 @@ export class GooglePlacesPhotosService {
         }
       }
 
-      const response = await fetch(baseUrl, {
+      const response = await getHttpClient('google-places').request(baseUrl, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -54,7 +56,6 @@ export class GooglePlacesPhotosService {
           'X-Goog-FieldMask': 'places.id,places.displayName',
         },
         body: JSON.stringify(body),
-        signal: AbortSignal.timeout(10000),
       })
 
       if (!response.ok) {
@@ -92,14 +93,13 @@ export class GooglePlacesPhotosService {
 
       const baseUrl = `https://places.googleapis.com/v1/places/${placeId}`
 
-      const response = await fetch(baseUrl, {
+      const response = await getHttpClient('google-places').request(baseUrl, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
           'X-Goog-Api-Key': this.apiKey,
           'X-Goog-FieldMask': 'photos',
         },
-        signal: AbortSignal.timeout(10000),
       })
 
       if (!response.ok) {
@@ -193,14 +193,13 @@ export class GooglePlacesPhotosService {
 
       const baseUrl = `https://places.googleapis.com/v1/places/${placeId}`
 
-      const response = await fetch(baseUrl, {
+      const response = await getHttpClient('google-places').request(baseUrl, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
           'X-Goog-Api-Key': this.apiKey,
           'X-Goog-FieldMask': 'rating,userRatingCount',
         },
-        signal: AbortSignal.timeout(10000),
       })
 
       if (!response.ok) {
@@ -0,0 +1,312 @@
+import { HTTP_UPSTREAMS, HttpPolicy, HttpUpstream, loadHttpPolicy } from '../config/http.config'
+import { delay } from '../utils/common'
+
+export interface HttpRequestOptions {
+  method?: 'GET' | 'POST'
+  headers?: Record<string, string>
+  body?: string
+  /** Overrides the timeout of the policy */
+  timeoutMs?: number
+  /** Overrides the retries of the policy */
+  maxRetries?: number
+}
+
+export type HttpCircuitState = 'closed' | 'open' | 'half-open'
+
+export interface HttpUpstreamMetrics {
+  upstream: HttpUpstream
+  /** Calls to request(), whatever their number of attempts */
+  requests: number
+  attempts: number
+  retries: number
+  /** Requests that ended with a response that isn't retried (2xx, 3xx, most 4xx) */
+  successes: number
+  /** Requests that ended with a network error, a timeout or a retryable status once the retries were spent */
+  failures: number
+  timeouts: number
+  rateLimited: number
+  failovers: number
+  /** Requests refused without calling the upstream because its circuit was open */
+  circuitRejections: number
+  circuitOpenings: number
+  circuitState: HttpCircuitState
+  currentBaseUrl: string | null
+  /** Average duration of the requests that reached the upstream, retries included */
+  averageLatencyMs: number | null
+}
+
+export interface HttpMetricsReport {
+  /** Start of the counters (they live in memory and restart with the server) */
+  since: string
+  upstreams: HttpUpstreamMetrics[]
+}
+
+/**
+ * The upstream failed too many times in a row, requests fail fast until its circuit resets
+ */
+export class HttpCircuitOpenError extends Error {
+  constructor(
+    readonly upstream: HttpUpstream,
+    retryInMs: number,
+  ) {
+    super(`${upstream} is unavailable after repeated failures, retrying in ${Math.ceil(retryInMs / 1000)}s`)
+    this.name = 'HttpCircuitOpenError'
+  }
+}
+
+const startedAt = new Date().toISOString()
+
+/**
+ * HTTP client of an upstream API: timeouts, retries with exponential backoff (honoring Retry-After),
+ * failover between its base URLs and a circuit breaker, as set by its policy (see http.config)
+ */
+export class HttpClient {
+  private currentUrlIndex = 0
+  private consecutiveFailures = 0
+  private circuitOpenedAt: number | null = null
+  private halfOpenTrialRunning = false
+  private totalLatencyMs = 0
+  private readonly counters = {
+    requests: 0,
+    attempts: 0,
+    retries: 0,
+    successes: 0,
+    failures: 0,
+    timeouts: 0,
+    rateLimited: 0,
+    failovers: 0,
+    circuitRejections: 0,
+    circuitOpenings: 0,
+  }
+
+  constructor(
+    readonly upstream: HttpUpstream,
+    private readonly policy: HttpPolicy,
+  ) {}
+
+  get currentBaseUrl(): string | null {
+    return this.policy.baseUrls[this.currentUrlIndex] ?? null
+  }
+
+  /**
+   * Sends a request and returns the last response, ok or not: statuses that aren't retried and retryable ones
+   * once the retries are spent are for the caller to handle
+   * @param url Absolute URL, or path appended to the current base URL of the policy ('' for the base URL itself)
+   * @throws HttpCircuitOpenError when the circuit is open, the last network error or timeout otherwise
+   */
+  public async request(url: string, options: HttpRequestOptions = {}): Promise<Response> {
+    const isTrial = this.checkCircuit()
+    this.counters.requests++
+
+    const requestStartedAt = Date.now()
+    try {
+      return await this.requestWithRetries(url, options)
+    } finally {
+      this.totalLatencyMs += Date.now() - requestStartedAt
+      // A trial ending without a response or a recorded failure (e.g. an unresolvable URL) lets the next request try
+      if (isTrial) {
+        this.halfOpenTrialRunning = false
+      }
+    }
+  }
+
+  public getMetrics(): HttpUpstreamMetrics {
+    const completed = this.counters.successes + this.counters.failures
+
+    return {
+      upstream: this.upstream,
+      ...this.counters,
+      circuitState: this.getCircuitState(),
+      currentBaseUrl: this.currentBaseUrl,
+      averageLatencyMs: completed > 0 ? Math.round(this.totalLatencyMs / completed) : null,
+    }
+  }
+
+  private async requestWithRetries(url: string, options: HttpRequestOptions): Promise<Response> {
+    const maxRetries = options.maxRetries ?? this.policy.maxRetries
+
+    for (let attempt = 0; ; attempt++) {
+      const target = this.resolveUrl(url)
+      let retryDelayMs: number
+      this.counters.attempts++
+
+      try {
+        const response = await fetch(target, {
+          method: options.method || 'GET',
+          headers: options.headers,
+          body: options.body,
+          signal: AbortSignal.timeout(options.timeoutMs ?? this.policy.timeoutMs),
+        })
+
+        if (response.status === 429) {
+          this.counters.rateLimited++
+        }
+
+        if (!this.policy.retryOnStatuses.includes(response.status)) {
+          this.recordSuccess()
+          return response
+        }
+
+        if (attempt >= maxRetries) {
+          console.warn(`❌ ${this.upstream} responded ${response.status} after ${attempt + 1} attempts`)
+          this.recordFailure()
+          return response
+        }
+
+        if (this.policy.failoverOnStatuses.includes(response.status)) {
+          this.failover()
+        }
+
+        retryDelayMs = this.getRetryDelayMs(attempt, response.headers.get('retry-after'))
+        console.warn(
+          `⚠️  ${this.upstream} responded ${response.status}, retrying in ${retryDelayMs}ms (attempt ${attempt + 1}/${maxRetries + 1})`,
+        )
+        // Free the connection, the body of a failed attempt is never read
+        response.body?.cancel().catch(() => {})
+      } catch (error) {
+        const isTimeout = error instanceof Error && error.name === 'TimeoutError'
+        if (isTimeout) {
+          this.counters.timeouts++
+        }
+
+        if (attempt >= maxRetries) {
+          this.recordFailure()
+          throw error
+        }
+
+        // A server that times out is likely overloaded, the next one may answer
+        if (isTimeout) {
+          this.failover()
+        }
+
+        retryDelayMs = this.getRetryDelayMs(attempt, null)
+        console.warn(
+          `⚠️  ${this.upstream} request ${isTimeout ? 'timed out' : `failed (${error})`}, retrying in ${retryDelayMs}ms (attempt ${attempt + 1}/${maxRetries + 1})`,
+        )
+      }
+
+      this.counters.retries++
+      await delay(retryDelayMs)
+    }
+  }
+
+  private resolveUrl(url: string): string {
+    if (/^https?:\/\//.test(url)) {
+      return url
+    }
+
+    const baseUrl = this.currentBaseUrl
+    if (!baseUrl) {
+      throw new Error(`${this.upstream} has no base URL to resolve "${url}"`)
+    }
+    return `${baseUrl}${url}`
+  }
+
+  /**
+   * Delay before the next attempt: the server's Retry-After (seconds or HTTP date), or exponential backoff,
+   * capped by the policy
+   */
+  private getRetryDelayMs(attempt: number, retryAfter: string | null): number {
+    if (retryAfter) {
+      const seconds = Number(retryAfter)
+      const retryAfterMs = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now()
+      if (Number.isFinite(retryAfterMs) && retryAfterMs >= 0) {
+        return Math.min(retryAfterMs, this.policy.maxDelayMs)
+      }
+    }
+
+    return Math.min(this.policy.baseDelayMs * Math.pow(2, attempt), this.policy.maxDelayMs)
+  }
+
+  private failover(): void {
+    if (this.policy.baseUrls.length < 2) {
+      return
+    }
+
+    this.currentUrlIndex = (this.currentUrlIndex + 1) % this.policy.baseUrls.length
+    this.counters.failovers++
+    console.log(`🔀 Switching ${this.upstream} server: ${this.currentBaseUrl}`)
+  }
+
+  /**
+   * Lets a request through when the circuit is closed, or as the single trial request once an open circuit
+   * has waited circuitResetMs
+   * @returns Whether the request is the trial request
+   */
+  private checkCircuit(): boolean {
+    if (this.circuitOpenedAt === null) {
+      return false
+    }
+
+    const elapsedMs = Date.now() - this.circuitOpenedAt
+    if (elapsedMs < this.policy.circuitResetMs || this.halfOpenTrialRunning) {
+      this.counters.circuitRejections++
+      throw new HttpCircuitOpenError(this.upstream, Math.max(this.policy.circuitResetMs - elapsedMs, 0))
+    }
+
+    this.halfOpenTrialRunning = true
+    return true
+  }
+
+  private getCircuitState(): HttpCircuitState {
+    if (this.circuitOpenedAt === null) {
+      return 'closed'
+    }
+    return this.halfOpenTrialRunning || Date.now() - this.circuitOpenedAt >= this.policy.circuitResetMs
+      ? 'half-open'
+      : 'open'
+  }
+
+  private recordSuccess(): void {
+    this.counters.successes++
+    this.consecutiveFailures = 0
+
+    if (this.circuitOpenedAt !== null) {
+      console.log(`✅ ${this.upstream} circuit closed`)
+    }
+    this.circuitOpenedAt = null
+    this.halfOpenTrialRunning = false
+  }
+
+  private recordFailure(): void {
+    this.counters.failures++
+    this.consecutiveFailures++
+
+    // A failed trial reopens the circuit for another circuitResetMs
+    if (
+      this.halfOpenTrialRunning ||
+      (this.circuitOpenedAt === null && this.consecutiveFailures >= this.policy.circuitFailureThreshold)
+    ) {
+      this.circuitOpenedAt = Date.now()
+      this.halfOpenTrialRunning = false
+      this.counters.circuitOpenings++
+      console.warn(
+        `🚫 ${this.upstream} circuit opened after ${this.consecutiveFailures} failed requests, pausing for ${this.policy.circuitResetMs}ms`,
+      )
+    }
+  }
+}
+
+const clients = new Map<HttpUpstream, HttpClient>()
+
+/**
+ * Shared client of an upstream, so its retries, circuit and counters cover all its callers
+ */
+export function getHttpClient(upstream: HttpUpstream): HttpClient {
+  let client = clients.get(upstream)
+  if (!client) {
+    client = new HttpClient(upstream, loadHttpPolicy(upstream))
+    clients.set(upstream, client)
+  }
+  return client
+}
+
+/**
+ * Counters of every upstream since the server started
+ */
+export function getHttpMetrics(): HttpMetricsReport {
+  return {
+    since: startedAt,
+    upstreams: HTTP_UPSTREAMS.map((upstream) => getHttpClient(upstream).getMetrics()),
+  }
+}
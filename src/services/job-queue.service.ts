@@ -0,0 +1,190 @@
+import {
+  claimNextQueuedJob,
+  createJob,
+  createJobItem,
+  getJobById,
+  Job,
+  JobStatus,
+  JobType,
+  requeueStaleJobs,
+  touchJobHeartbeat,
+  updateJob,
+} from '../db/jobs'
+import { Json } from '../types/database'
+import { runWithLlmUsageContext } from './llm-usage.service'
+
+export interface JobItemRecord {
+  itemId: string | null
+  status: string
+  result: Json | null
+  error?: string | null
+}
+
+export interface JobContext {
+  job: Job
+  /** Stores the result of a processed item and updates the job progress */
+  recordItem: (item: JobItemRecord, index: number, total: number) => Promise<void>
+  /** Returns true once a cancellation has been requested for the job */
+  isCancelled: () => Promise<boolean>
+}
+
+/**
+ * A worker processes a job payload and returns the job summary
+ */
+export type JobWorker = (payload: Json, context: JobContext) => Promise<Json>
+
+const DEFAULT_POLL_INTERVAL_MS = 5000
+const DEFAULT_STALE_JOB_TIMEOUT_MS = 5 * 60 * 1000
+// Well under the stale timeout, so that a live job is never taken for an interrupted one
+const HEARTBEAT_INTERVAL_MS = 30 * 1000
+
+export class JobQueueService {
+  private workers = new Map<JobType, JobWorker>()
+  private pollIntervalMs: number
+  private staleJobTimeoutMs: number
+  private timer: NodeJS.Timeout | null = null
+  private isProcessing = false
+
+  constructor() {
+    this.pollIntervalMs = Number(process.env.JOB_POLL_INTERVAL_MS) || DEFAULT_POLL_INTERVAL_MS
+    this.staleJobTimeoutMs = Number(process.env.JOB_STALE_TIMEOUT_MS) || DEFAULT_STALE_JOB_TIMEOUT_MS
+  }
+
+  /**
+   * Register the worker that processes jobs of the given type
+   */
+  registerWorker(type: JobType, worker: JobWorker): void {
+    this.workers.set(type, worker)
+  }
+
+  /**
+   * Add a job to the queue
+   * @returns The created job, or an error message
+   */
+  async enqueue(type: JobType, payload: Json): Promise<{ job: Job | null; error: string | null }> {
+    const { data: job, error } = await createJob(type, payload)
+
+    if (error || !job) {
+      console.error(`❌ Error creating ${type} job:`, error)
+      return { job: null, error: `Failed to create job: ${error?.message || 'Unknown error'}` }
+    }
+
+    console.log(`📥 Queued ${type} job ${job.id}`)
+    return { job, error: null }
+  }
+
+  /**
+   * Start polling the jobs table
+   */
+  async start(): Promise<void> {
+    if (this.timer) {
+      return
+    }
+
+    this.timer = setInterval(() => {
+      void this.processNextJob()
+    }, this.pollIntervalMs)
+
+    console.log(`⚙️  Job queue started (polling every ${this.pollIntervalMs}ms)`)
+    void this.processNextJob()
+  }
+
+  /**
+   * Stop polling for new jobs (a job already running finishes normally)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Claim and run the next queued job, one job at a time
+   * Running jobs whose server stopped (no heartbeat for staleJobTimeoutMs) are put back in the queue first
+   */
+  private async processNextJob(): Promise<void> {
+    if (this.isProcessing) {
+      return
+    }
+
+    this.isProcessing = true
+    try {
+      const requeuedCount = await requeueStaleJobs(this.staleJobTimeoutMs)
+      if (requeuedCount > 0) {
+        console.log(`🔄 Requeued ${requeuedCount} interrupted job(s)`)
+      }
+
+      const job = await claimNextQueuedJob()
+      if (job) {
+        await this.runJob(job)
+      }
+    } catch (error) {
+      console.error('❌ Error processing job queue:', error)
+    } finally {
+      this.isProcessing = false
+    }
+  }
+
+  private async runJob(job: Job): Promise<void> {
+    const worker = this.workers.get(job.type as JobType)
+
+    if (!worker) {
+      await updateJob(job.id, {
+        status: JobStatus.FAILED,
+        error: `No worker registered for job type: ${job.type}`,
+        finished_at: new Date().toISOString(),
+      })
+      return
+    }
+
+    console.log(`\n🚀 Running ${job.type} job ${job.id}`)
+
+    let cancelled = false
+    const context: JobContext = {
+      job,
+      recordItem: async (item, index, total) => {
+        await createJobItem({
+          job_id: job.id,
+          item_index: index,
+          item_id: item.itemId,
+          status: item.status,
+          result: item.result,
+          error: item.error || null,
+        })
+        await updateJob(job.id, { progress_current: index + 1, progress_total: total })
+      },
+      isCancelled: async () => {
+        const { data } = await getJobById(job.id)
+        cancelled = data?.cancel_requested === true
+        return cancelled
+      },
+    }
+
+    const heartbeat = setInterval(() => {
+      void touchJobHeartbeat(job.id)
+    }, HEARTBEAT_INTERVAL_MS)
+
+    try {
+      const summary = await runWithLlmUsageContext({ jobId: job.id }, () => worker(job.payload, context))
+      await updateJob(job.id, {
+        status: cancelled ? JobStatus.CANCELLED : JobStatus.COMPLETED,
+        summary,
+        finished_at: new Date().toISOString(),
+      })
+      console.log(`${cancelled ? '🛑' : '✅'} Job ${job.id} ${cancelled ? 'cancelled' : 'completed'}`)
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+      console.error(`❌ Job ${job.id} failed:`, error)
+      await updateJob(job.id, {
+        status: JobStatus.FAILED,
+        error: errorMessage,
+        finished_at: new Date().toISOString(),
+      })
+    } finally {
+      clearInterval(heartbeat)
+    }
+  }
+}
+
+export const jobQueueService = new JobQueueService()
@@ -0,0 +1,216 @@
+import { Json } from '../types/database'
+import { JobContext, jobQueueService } from './job-queue.service'
+import { fetchPhotosCore } from './photo-fetcher.service'
+import { VerificationStatus, verifyPlacesCore } from './place-verification.service'
+import { fetchRatingsCore } from './ratings-fetcher.service'
+import { ingestSiteCore, SiteDiscoveryMode } from './site-ingestion.service'
+import { analyzeUrlsCore } from './url-analysis.service'
+
+export interface FetchPhotosJobPayload {
+  minScore?: number
+  limit?: number
+}
+
+export interface FetchRatingsJobPayload {
+  minScore?: number
+  limit?: number
+}
+
+export interface VerifyPlacesJobPayload {
+  generatedPlaceId?: string
+  scoreBump?: number
+  limit?: number
+}
+
+export interface AnalyzeUrlsJobPayload {
+  urls: string[]
+  bypassCache?: boolean
+}
+
+export interface IngestSiteJobPayload {
+  rootUrl: string
+  discovery?: SiteDiscoveryMode
+  maxDepth?: number
+  maxPages?: number
+  includePatterns?: string[]
+  excludePatterns?: string[]
+  bypassCache?: boolean
+}
+
+/**
+ * Converts a typed result to the JSON type expected by the jobs table
+ */
+function toJson(value: unknown): Json {
+  return value as Json
+}
+
+async function runFetchPhotosJob(payload: Json, context: JobContext): Promise<Json> {
+  const { minScore, limit } = payload as FetchPhotosJobPayload
+
+  const { results, error } = await fetchPhotosCore({
+    minScore,
+    limit,
+    shouldStop: context.isCancelled,
+    onItemProcessed: (result, index, total) =>
+      context.recordItem(
+        {
+          itemId: result.placeId,
+          status: result.success ? 'success' : 'failed',
+          result: toJson(result),
+          error: result.error,
+        },
+        index,
+        total,
+      ),
+  })
+
+  if (error) {
+    throw new Error(error)
+  }
+
+  return {
+    totalProcessed: results.length,
+    totalSuccess: results.filter((r) => r.success).length,
+    totalPhotosFound: results.reduce((sum, r) => sum + r.photosFound, 0),
+  }
+}
+
+async function runFetchRatingsJob(payload: Json, context: JobContext): Promise<Json> {
+  const { minScore, limit } = payload as FetchRatingsJobPayload
+
+  const { results, error } = await fetchRatingsCore({
+    minScore,
+    limit,
+    shouldStop: context.isCancelled,
+    onItemProcessed: (result, index, total) =>
+      context.recordItem(
+        {
+          itemId: result.placeId,
+          status: result.success ? 'success' : 'failed',
+          result: toJson(result),
+          error: result.error,
+        },
+        index,
+        total,
+      ),
+  })
+
+  if (error) {
+    throw new Error(error)
+  }
+
+  return {
+    totalProcessed: results.length,
+    totalSuccess: results.filter((r) => r.success).length,
+  }
+}
+
+async function runVerifyPlacesJob(payload: Json, context: JobContext): Promise<Json> {
+  const { generatedPlaceId, scoreBump, limit } = payload as VerifyPlacesJobPayload
+
+  const { results, error } = await verifyPlacesCore({
+    generatedPlaceId,
+    scoreBump,
+    limit,
+    shouldStop: context.isCancelled,
+    onItemProcessed: (result, index, total) =>
+      context.recordItem(
+        {
+          itemId: result.generatedPlaceId,
+          status: result.status,
+          result: toJson(result),
+          error: result.error,
+        },
+        index,
+        total,
+      ),
+  })
+
+  if (error) {
+    throw new Error(error)
+  }
+
+  const statusCounts: Record<string, number> = {}
+  for (const status of Object.values(VerificationStatus)) {
+    statusCounts[status] = results.filter((r) => r.status === status).length
+  }
+
+  return {
+    totalProcessed: results.length,
+    statusCounts,
+  }
+}
+
+async function runAnalyzeUrlsJob(payload: Json, context: JobContext): Promise<Json> {
+  const { urls, bypassCache } = payload as unknown as AnalyzeUrlsJobPayload
+
+  const { results, error } = await analyzeUrlsCore(urls, {
+    bypassCache,
+    shouldStop: context.isCancelled,
+    onItemProcessed: (result, index, total) =>
+      context.recordItem(
+        {
+          itemId: urls[index],
+          status: result ? 'success' : 'failed',
+          result: result ? toJson(result) : null,
+          error: result ? null : 'URL could not be analyzed',
+        },
+        index,
+        total,
+      ),
+  })
+
+  if (error) {
+    throw new Error(error)
+  }
+
+  return {
+    totalProcessed: results.length,
+    totalPlaces: results.reduce((sum, r) => sum + r.places.length, 0),
+  }
+}
+
+async function runIngestSiteJob(payload: Json, context: JobContext): Promise<Json> {
+  const { rootUrl, ...options } = payload as unknown as IngestSiteJobPayload
+
+  const { result, error } = await ingestSiteCore(rootUrl, {
+    ...options,
+    shouldStop: context.isCancelled,
+    onItemProcessed: (page, index, total) =>
+      context.recordItem(
+        {
+          itemId: page.url,
+          status: page.status,
+          result: toJson(page),
+          error: page.status === 'failed' ? 'Page could not be analyzed' : null,
+        },
+        index,
+        total,
+      ),
+  })
+
+  if (error || !result) {
+    throw new Error(error || 'Site ingestion failed')
+  }
+
+  return {
+    siteUrl: result.siteUrl,
+    discovery: result.discovery,
+    pagesDiscovered: result.pagesDiscovered,
+    totalAnalyzed: result.pages.filter((p) => p.status === 'analyzed').length,
+    totalSkipped: result.pages.filter((p) => p.status === 'skipped').length,
+    totalFailed: result.pages.filter((p) => p.status === 'failed').length,
+    totalPlaces: result.pages.reduce((sum, p) => sum + p.placesCount, 0),
+  }
+}
+
+/**
+ * Register the workers for all job types handled by the queue
+ */
+export function registerJobWorkers(): void {
+  jobQueueService.registerWorker('fetch-photos', runFetchPhotosJob)
+  jobQueueService.registerWorker('fetch-ratings', runFetchRatingsJob)
+  jobQueueService.registerWorker('verify-places', runVerifyPlacesJob)
+  jobQueueService.registerWorker('analyze-urls', runAnalyzeUrlsJob)
+  jobQueueService.registerWorker('ingest-site', runIngestSiteJob)
+}
@@ -0,0 +1,652 @@
+import { GoogleGenAI, type GenerateContentConfig, type GenerateContentResponse } from '@google/genai'
+import { createHash } from 'crypto'
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import { join } from 'path'
+import { getTaskModel, LlmConfig, LlmProviderName, LlmTask, loadLlmConfig } from '../config/llm.config'
+import { createEmptyJsonValue, JsonSchema, toStandardJsonSchema, validateJsonSchema } from '../utils/json-schema'
+import { LlmCallOutcome, recordLlmUsage } from './llm-usage.service'
+
+export interface LlmRequest {
+  /** The task selects the model (see LLM_MODEL_<TASK> overrides) */
+  task: LlmTask
+  prompt: string
+}
+
+export interface LlmJsonRequest extends LlmRequest {
+  /** Structure of the expected response, given to the model and validated on its response */
+  schema: JsonSchema
+}
+
+/**
+ * Response of a single model call, with its token counts when the provider reports them
+ */
+export interface LlmCompletion {
+  text: string
+  promptTokens: number | null
+  responseTokens: number | null
+}
+
+/**
+ * A language model backend: the AI service only talks to this interface
+ * The generate and complete methods record the usage of their calls, the request methods don't
+ */
+export interface LlmProvider {
+  readonly name: LlmProviderName
+  /** Single untracked call to the model */
+  requestText(request: LlmRequest): Promise<LlmCompletion>
+  /** Single untracked call to the model, using the structured output mode of the provider when it has one */
+  requestJson(request: LlmJsonRequest): Promise<LlmCompletion>
+  generateText(request: LlmRequest): Promise<string>
+  /** Raw response to a JSON request, using the structured output mode of the provider when it has one */
+  completeJson(request: LlmJsonRequest): Promise<string>
+  /** Generates a response matching the schema, asking the model to repair invalid responses */
+  generateJson<T>(request: LlmJsonRequest): Promise<T>
+}
+
+/**
+ * The model responded, but not with what was asked
+ */
+export class LlmOutputError extends Error {
+  constructor(
+    message: string,
+    readonly responseText: string,
+  ) {
+    super(message)
+    this.name = 'LlmOutputError'
+  }
+}
+
+export class LlmJsonParseError extends LlmOutputError {
+  constructor(message: string, responseText: string) {
+    super(message, responseText)
+    this.name = 'LlmJsonParseError'
+  }
+}
+
+export class LlmSchemaValidationError extends LlmOutputError {
+  constructor(
+    readonly validationErrors: string[],
+    responseText: string,
+  ) {
+    super(`Response doesn't match the schema: ${validationErrors.slice(0, 5).join('; ')}`, responseText)
+    this.name = 'LlmSchemaValidationError'
+  }
+}
+
+// Invalid responses are sent back to the model once with the errors, then the request fails
+const MAX_JSON_REPAIR_ATTEMPTS = 1
+
+/**
+ * Parses the JSON of a model response, ignoring the text or code fences some models add around it
+ * @throws LlmJsonParseError if the response contains no valid JSON
+ */
+export function parseJsonResponse<T>(responseText: string): T {
+  const text = responseText
+    .trim()
+    .replace(/^```(?:json)?\s*/i, '')
+    .replace(/\s*```$/, '')
+
+  try {
+    return JSON.parse(text) as T
+  } catch {
+    // Keep the outermost array or object, whichever starts first
+    const arrayStart = text.indexOf('[')
+    const objectStart = text.indexOf('{')
+    const isArray = arrayStart !== -1 && (objectStart === -1 || arrayStart < objectStart)
+    const jsonMatch = isArray ? text.match(/\[[\s\S]*\]/) : text.match(/\{[\s\S]*\}/)
+
+    if (!jsonMatch) {
+      throw new LlmJsonParseError('No JSON found in the response', responseText)
+    }
+
+    try {
+      return JSON.parse(jsonMatch[0]) as T
+    } catch (error) {
+      throw new LlmJsonParseError(`Invalid JSON: ${error instanceof Error ? error.message : error}`, responseText)
+    }
+  }
+}
+
+/**
+ * Parses a model response and validates it against the schema
+ * @throws LlmJsonParseError or LlmSchemaValidationError
+ */
+export function parseJsonResponseWithSchema<T>(responseText: string, schema: JsonSchema): T {
+  const value = parseJsonResponse<unknown>(responseText)
+  const validationErrors = validateJsonSchema(value, schema)
+
+  if (validationErrors.length > 0) {
+    throw new LlmSchemaValidationError(validationErrors, responseText)
+  }
+
+  return value as T
+}
+
+function buildJsonPrompt(prompt: string, schema: JsonSchema): string {
+  return `${prompt}
+
+Respond ONLY with JSON matching this JSON Schema, without any other text:
+${JSON.stringify(toStandardJsonSchema(schema))}`
+}
+
+function buildRepairPrompt(jsonPrompt: string, responseText: string, error: LlmOutputError): string {
+  return `${jsonPrompt}
+
+Your previous response was invalid (${error.message}):
+${responseText.slice(0, 4000)}
+
+Respond again with ONLY the corrected JSON.`
+}
+
+abstract class BaseLlmProvider implements LlmProvider {
+  abstract readonly name: LlmProviderName
+
+  constructor(protected readonly config: LlmConfig) {}
+
+  abstract requestText(request: LlmRequest): Promise<LlmCompletion>
+
+  /**
+   * Providers without a structured output mode rely on the schema given in the prompt
+   */
+  async requestJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    return this.requestText(request)
+  }
+
+  async generateText(request: LlmRequest): Promise<string> {
+    return this.track(
+      request,
+      () => this.requestText(request),
+      (text) => text,
+    )
+  }
+
+  async completeJson(request: LlmJsonRequest): Promise<string> {
+    return this.track(
+      request,
+      () => this.requestJson(request),
+      (text) => text,
+    )
+  }
+
+  async generateJson<T>(request: LlmJsonRequest): Promise<T> {
+    const jsonPrompt = buildJsonPrompt(request.prompt, request.schema)
+    let prompt = jsonPrompt
+
+    for (let attempt = 0; ; attempt++) {
+      const jsonRequest = { ...request, prompt }
+
+      try {
+        return await this.track(
+          jsonRequest,
+          () => this.requestJson(jsonRequest),
+          (text) => parseJsonResponseWithSchema<T>(text, request.schema),
+        )
+      } catch (error) {
+        if (!(error instanceof LlmOutputError) || attempt >= MAX_JSON_REPAIR_ATTEMPTS) {
+          throw error
+        }
+
+        console.warn(`🔧 Invalid ${request.task} response (${error.message}), asking the model to repair it...`)
+        prompt = buildRepairPrompt(jsonPrompt, error.responseText, error)
+      }
+    }
+  }
+
+  /**
+   * Makes a call, turns its response into a value and records the usage of the call
+   * The outcome is invalid_output when the response can't be turned into a value (LlmOutputError)
+   */
+  protected async track<T>(
+    request: LlmRequest,
+    call: () => Promise<LlmCompletion>,
+    handleResponse: (text: string) => T,
+  ): Promise<T> {
+    const startedAt = Date.now()
+    let completion: LlmCompletion | null = null
+
+    try {
+      completion = await call()
+      const value = handleResponse(completion.text)
+      await this.recordUsage(request, startedAt, completion, 'success', null)
+      return value
+    } catch (error) {
+      const outcome = completion && error instanceof LlmOutputError ? 'invalid_output' : 'error'
+      await this.recordUsage(request, startedAt, completion, outcome, error)
+      throw error
+    }
+  }
+
+  private async recordUsage(
+    request: LlmRequest,
+    startedAt: number,
+    completion: LlmCompletion | null,
+    outcome: LlmCallOutcome,
+    error: unknown,
+  ): Promise<void> {
+    if (!this.config.usageTracking) return
+
+    await recordLlmUsage(this.config, {
+      task: request.task,
+      provider: this.name,
+      model: getTaskModel(this.config, request.task),
+      promptTokens: completion?.promptTokens ?? null,
+      responseTokens: completion?.responseTokens ?? null,
+      latencyMs: Date.now() - startedAt,
+      outcome,
+      error: error ? (error instanceof Error ? error.message : String(error)) : null,
+    })
+  }
+
+  protected getModel(task: LlmTask): string {
+    const model = getTaskModel(this.config, task)
+    if (!model) {
+      throw new Error(`No model configured for the ${task} task (set LLM_MODEL or an LLM_MODEL_<TASK> override)`)
+    }
+    return model
+  }
+}
+
+// Helper function to extract text from AI response with simplified fallbacks
+function extractGeminiResponseText(result: GenerateContentResponse): string {
+  // Type guard for expected response structure
+  const isValidCandidate = (candidate: unknown): candidate is { content: { parts: { text: string }[] } } => {
+    return (
+      typeof candidate === 'object' &&
+      candidate !== null &&
+      'content' in candidate &&
+      typeof candidate.content === 'object' &&
+      candidate.content !== null &&
+      'parts' in candidate.content &&
+      Array.isArray(candidate.content.parts) &&
+      candidate.content.parts.length > 0 &&
+      typeof candidate.content.parts[0] === 'object' &&
+      candidate.content.parts[0] !== null &&
+      'text' in candidate.content.parts[0] &&
+      typeof candidate.content.parts[0].text === 'string'
+    )
+  }
+
+  // Check standard response structure
+  if (
+    typeof result === 'object' &&
+    result !== null &&
+    'candidates' in result &&
+    Array.isArray(result.candidates) &&
+    result.candidates.length > 0
+  ) {
+    const candidate = result.candidates[0]
+    if (isValidCandidate(candidate)) {
+      return candidate.content.parts[0].text
+    }
+  }
+
+  // Check for alternative text property
+  if (typeof result === 'object' && result !== null && 'text' in result && typeof result.text === 'string') {
+    return result.text
+  }
+
+  throw new Error('No valid text content found in AI response')
+}
+
+function getGeminiTokenCounts(result: GenerateContentResponse): Omit<LlmCompletion, 'text'> {
+  return {
+    promptTokens: result.usageMetadata?.promptTokenCount ?? null,
+    responseTokens: result.usageMetadata?.candidatesTokenCount ?? null,
+  }
+}
+
+function sumTokenCounts(a: number | null, b: number | null): number | null {
+  return a === null && b === null ? null : (a ?? 0) + (b ?? 0)
+}
+
+/**
+ * Google Gemini API (Gemini and Gemma models)
+ */
+export class GeminiLlmProvider extends BaseLlmProvider {
+  readonly name = 'gemini'
+  private readonly genAI: GoogleGenAI
+
+  constructor(config: LlmConfig) {
+    super(config)
+    if (!config.geminiApiKey) {
+      throw new Error('AI service is not configured. Missing GEMINI_API_KEY environment variable.')
+    }
+    this.genAI = new GoogleGenAI({ apiKey: config.geminiApiKey })
+  }
+
+  async requestText(request: LlmRequest): Promise<LlmCompletion> {
+    return this.generate(request)
+  }
+
+  async requestJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    // Gemma models don't support the JSON mode, the schema in the prompt is enough for them
+    if (this.getModel(request.task).startsWith('gemma')) {
+      return this.generate(request)
+    }
+
+    return this.generate(request, {
+      responseMimeType: 'application/json',
+      responseJsonSchema: toStandardJsonSchema(request.schema),
+    })
+  }
+
+  private async generate(request: LlmRequest, config?: GenerateContentConfig): Promise<LlmCompletion> {
+    const model = this.getModel(request.task)
+    const contents = [{ role: 'user', parts: [{ text: request.prompt }] }]
+
+    const result = await this.genAI.models.generateContent({ model, contents, config })
+
+    try {
+      return { text: extractGeminiResponseText(result).trim(), ...getGeminiTokenCounts(result) }
+    } catch (extractError) {
+      // Responses without text content are usually transient, retry once
+      console.warn('First attempt failed, retrying...', extractError)
+      const fallbackResult = await this.genAI.models.generateContent({ model, contents, config })
+      const text = extractGeminiResponseText(fallbackResult).trim()
+
+      // Both attempts are billed
+      const first = getGeminiTokenCounts(result)
+      const second = getGeminiTokenCounts(fallbackResult)
+      return {
+        text,
+        promptTokens: sumTokenCounts(first.promptTokens, second.promptTokens),
+        responseTokens: sumTokenCounts(first.responseTokens, second.responseTokens),
+      }
+    }
+  }
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API, e.g. a local Ollama or llama.cpp server
+ */
+export class OpenAICompatibleLlmProvider extends BaseLlmProvider {
+  readonly name = 'openai-compatible'
+
+  async requestText(request: LlmRequest): Promise<LlmCompletion> {
+    return this.complete(request)
+  }
+
+  async requestJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    return this.complete(request, {
+      type: 'json_schema',
+      json_schema: {
+        name: request.task.replace(/-/g, '_'),
+        schema: toStandardJsonSchema(request.schema),
+        strict: true,
+      },
+    })
+  }
+
+  private async complete(request: LlmRequest, responseFormat?: Record<string, unknown>): Promise<LlmCompletion> {
+    const model = this.getModel(request.task)
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+
+    if (this.config.openAiCompatibleApiKey) {
+      headers.Authorization = `Bearer ${this.config.openAiCompatibleApiKey}`
+    }
+
+    const response = await fetch(`${this.config.openAiCompatibleBaseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: request.prompt }],
+        stream: false,
+        response_format: responseFormat,
+      }),
+      signal: AbortSignal.timeout(this.config.timeoutMs),
+    })
+
+    if (!response.ok) {
+      const errorText = await response.text()
+      throw new Error(`LLM API error ${response.status} ${response.statusText}: ${errorText.slice(0, 500)}`)
+    }
+
+    const data = (await response.json()) as {
+      choices?: Array<{ message?: { content?: string | null } }>
+      usage?: { prompt_tokens?: number; completion_tokens?: number }
+    }
+    const content = data.choices?.[0]?.message?.content
+
+    if (typeof content !== 'string') {
+      throw new Error('No valid text content found in AI response')
+    }
+
+    return {
+      text: content.trim(),
+      promptTokens: data.usage?.prompt_tokens ?? null,
+      responseTokens: data.usage?.completion_tokens ?? null,
+    }
+  }
+}
+
+export interface FakeLlmRule {
+  /** Only applies to this task (all tasks when undefined) */
+  task?: LlmTask
+  /** Only applies to prompts containing this text (all prompts when undefined) */
+  match?: string
+  /** Response text, or a JSON value returned serialized */
+  response: unknown
+}
+
+/**
+ * Scripted provider for offline runs: answers with the first rule matching the request, without any network call
+ * Rules come from the constructor or the JSON file at LLM_FAKE_SCRIPT_PATH, e.g.
+ * [{ "task": "extraction", "match": "Annecy", "response": { "places": [{ "name": "Lac d'Annecy", ... }] } }]
+ * Unscripted JSON requests get the empty value of their schema (no summary, no places...), so they have no side effects
+ */
+export class FakeLlmProvider extends BaseLlmProvider {
+  readonly name = 'fake'
+  /** Requests received, in order */
+  readonly calls: LlmRequest[] = []
+  private readonly rules: FakeLlmRule[]
+
+  constructor(config: LlmConfig, rules?: FakeLlmRule[]) {
+    super(config)
+    this.rules = rules ?? (config.fakeScriptPath ? FakeLlmProvider.loadScript(config.fakeScriptPath) : [])
+  }
+
+  private static loadScript(scriptPath: string): FakeLlmRule[] {
+    try {
+      const rules = JSON.parse(readFileSync(scriptPath, 'utf-8'))
+      if (!Array.isArray(rules)) {
+        throw new Error('the script must be a JSON array of rules')
+      }
+      return rules
+    } catch (error) {
+      throw new Error(`Failed to read fake LLM script ${scriptPath}: ${error}`)
+    }
+  }
+
+  private findRule(request: LlmRequest): FakeLlmRule | undefined {
+    this.calls.push(request)
+
+    return this.rules.find(
+      (candidate) =>
+        (!candidate.task || candidate.task === request.task) &&
+        (!candidate.match || request.prompt.includes(candidate.match)),
+    )
+  }
+
+  private formatResponse(rule: FakeLlmRule): string {
+    return typeof rule.response === 'string' ? rule.response : JSON.stringify(rule.response)
+  }
+
+  /**
+   * Token counts are estimated (about 4 characters per token) so that usage tracking can be exercised offline
+   */
+  private toCompletion(request: LlmRequest, text: string): LlmCompletion {
+    return { text, promptTokens: Math.ceil(request.prompt.length / 4), responseTokens: Math.ceil(text.length / 4) }
+  }
+
+  async requestText(request: LlmRequest): Promise<LlmCompletion> {
+    const rule = this.findRule(request)
+    return this.toCompletion(request, rule ? this.formatResponse(rule) : '')
+  }
+
+  async requestJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    const rule = this.findRule(request)
+    return this.toCompletion(
+      request,
+      rule ? this.formatResponse(rule) : JSON.stringify(createEmptyJsonValue(request.schema)),
+    )
+  }
+}
+
+interface LlmFixture {
+  hash: string
+  task: LlmTask
+  provider: LlmProviderName
+  model: string | null
+  /** Beginning of the prompt, to find fixtures by eye */
+  promptPreview: string
+  response: string
+  /** Token counts of the recorded call (missing in older fixtures) */
+  promptTokens?: number | null
+  responseTokens?: number | null
+  recordedAt: string
+}
+
+/**
+ * Hash identifying a prompt in the fixtures: the same task and prompt always give the same response on replay
+ */
+export function hashLlmRequest(request: LlmRequest | LlmJsonRequest): string {
+  const hash = createHash('sha256').update(`${request.task}\n${request.prompt}`)
+  if ('schema' in request) {
+    hash.update(`\n${JSON.stringify(request.schema)}`)
+  }
+  return hash.digest('hex')
+}
+
+/**
+ * Records the responses of a provider on disk (one JSON file per prompt hash), or replays them without a provider
+ */
+export class FixtureLlmProvider extends BaseLlmProvider {
+  readonly name: LlmProviderName
+
+  constructor(
+    config: LlmConfig,
+    private readonly mode: 'record' | 'replay',
+    private readonly inner: LlmProvider | null,
+  ) {
+    super(config)
+    if (mode === 'record' && !inner) {
+      throw new Error('A provider is required to record LLM fixtures')
+    }
+    this.name = inner?.name ?? config.provider
+  }
+
+  private getFixturePath(hash: string): string {
+    return join(this.config.fixturesDir, `${hash}.json`)
+  }
+
+  async requestText(request: LlmRequest): Promise<LlmCompletion> {
+    return this.replayOrRecord(request, () => this.inner!.requestText(request))
+  }
+
+  async requestJson(request: LlmJsonRequest): Promise<LlmCompletion> {
+    return this.replayOrRecord(request, () => this.inner!.requestJson(request))
+  }
+
+  private async replayOrRecord(request: LlmRequest, generate: () => Promise<LlmCompletion>): Promise<LlmCompletion> {
+    const hash = hashLlmRequest(request)
+    const fixturePath = this.getFixturePath(hash)
+
+    if (this.mode === 'replay') {
+      if (!existsSync(fixturePath)) {
+        throw new Error(`No recorded LLM response for ${request.task} prompt ${hash} (expected ${fixturePath})`)
+      }
+      const fixture = JSON.parse(readFileSync(fixturePath, 'utf-8')) as LlmFixture
+      return {
+        text: fixture.response,
+        promptTokens: fixture.promptTokens ?? null,
+        responseTokens: fixture.responseTokens ?? null,
+      }
+    }
+
+    const completion = await generate()
+    const fixture: LlmFixture = {
+      hash,
+      task: request.task,
+      provider: this.inner!.name,
+      model: getTaskModel(this.config, request.task),
+      promptPreview: request.prompt.slice(0, 300),
+      response: completion.text,
+      promptTokens: completion.promptTokens,
+      responseTokens: completion.responseTokens,
+      recordedAt: new Date().toISOString(),
+    }
+
+    mkdirSync(this.config.fixturesDir, { recursive: true })
+    writeFileSync(fixturePath, JSON.stringify(fixture, null, 2) + '\n')
+    console.log(`📼 Recorded LLM response: ${fixturePath}`)
+
+    return completion
+  }
+}
+
+/**
+ * Creates the provider selected by the configuration, wrapped in the fixtures layer when enabled
+ * Replaying doesn't create the underlying provider, so it needs no API key nor network
+ */
+export function createLlmProvider(config: LlmConfig): LlmProvider {
+  if (config.fixturesMode === 'replay') {
+    return new FixtureLlmProvider(config, 'replay', null)
+  }
+
+  let provider: LlmProvider
+  switch (config.provider) {
+    case 'gemini':
+      provider = new GeminiLlmProvider(config)
+      break
+    case 'openai-compatible':
+      provider = new OpenAICompatibleLlmProvider(config)
+      break
+    case 'fake':
+      provider = new FakeLlmProvider(config)
+      break
+  }
+
+  return config.fixturesMode === 'record' ? new FixtureLlmProvider(config, 'record', provider) : provider
+}
+
+// Module-level initialization, the provider is shared by all AI tasks
+let provider: LlmProvider | null = null
+let initialized = false
+let initError: string | null = null
+
+function initializeLlmProvider(): void {
+  if (initialized) return
+
+  try {
+    const config = loadLlmConfig()
+    provider = createLlmProvider(config)
+    console.log(
+      `🤖 LLM provider: ${provider.name}${config.fixturesMode !== 'off' ? ` (fixtures: ${config.fixturesMode})` : ''}`,
+    )
+  } catch (error) {
+    console.error('Failed to initialize LLM provider:', error)
+    initError = error instanceof Error ? error.message : 'Failed to initialize AI service.'
+  }
+
+  initialized = true
+}
+
+export function getLlmProvider(): LlmProvider | null {
+  if (!initialized) initializeLlmProvider()
+  return provider
+}
+
+export function getLlmProviderError(): string | null {
+  if (!initialized) initializeLlmProvider()
+  return initError
+}
+
+/**
+ * Replaces the provider used by the AI service, e.g. with a FakeLlmProvider in tests
+ */
+export function setLlmProvider(newProvider: LlmProvider): void {
+  provider = newProvider
+  initError = null
+  initialized = true
+}
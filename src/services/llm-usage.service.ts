@@ -0,0 +1,284 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { getModelPricing, LlmConfig, LlmTask, loadLlmConfig } from '../config/llm.config'
+import { createLlmUsageEntry, getLlmSpend, getLlmUsageReportRows, LlmUsageReportRow } from '../db/llm-usage'
+
+/**
+ * - error: the call failed (network, API error, timeout...)
+ * - invalid_output: the model responded, but not with what was asked (see LlmOutputError)
+ */
+export type LlmCallOutcome = 'success' | 'error' | 'invalid_output'
+
+export interface LlmUsage {
+  task: LlmTask
+  provider: string
+  model: string | null
+  /** Null when the provider doesn't report token counts */
+  promptTokens: number | null
+  responseTokens: number | null
+  latencyMs: number
+  outcome: LlmCallOutcome
+  error: string | null
+}
+
+/**
+ * What the LLM calls are made for, attached to their usage records
+ */
+export interface LlmUsageContext {
+  placeId?: string
+  sourceId?: string
+  jobId?: string
+}
+
+const usageContext = new AsyncLocalStorage<LlmUsageContext>()
+
+/**
+ * Runs a function attributing its LLM calls to a place, source and/or job
+ * Nested contexts add to the outer one, e.g. a place analyzed by a job is attributed to both
+ */
+export function runWithLlmUsageContext<T>(context: LlmUsageContext, fn: () => Promise<T>): Promise<T> {
+  return usageContext.run({ ...usageContext.getStore(), ...context }, fn)
+}
+
+// Models already reported as having no price, warned about once
+const unpricedModels = new Set<string>()
+
+/**
+ * Cost of a call in USD, 0 for models without a price or calls without token counts
+ */
+export function computeLlmCost(
+  config: LlmConfig,
+  model: string | null,
+  promptTokens: number | null,
+  responseTokens: number | null,
+): number {
+  const pricing = getModelPricing(config, model)
+  if (!pricing) {
+    if (model && !unpricedModels.has(model)) {
+      unpricedModels.add(model)
+      console.warn(
+        `⚠️  No price for the LLM model ${model}: its calls cost nothing and don't count toward LLM_DAILY_BUDGET_USD, price it with LLM_PRICING`,
+      )
+    }
+    return 0
+  }
+
+  return ((promptTokens ?? 0) * pricing.input + (responseTokens ?? 0) * pricing.output) / 1_000_000
+}
+
+// Spend of the current day, refreshed from the database at most once a minute and updated by the recorded calls
+const BUDGET_CHECK_INTERVAL_MS = 60_000
+let todaySpend: { day: string; spentUsd: number; checkedAt: number } | null = null
+let budgetExceededLogged = false
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Records an LLM call with the current usage context
+ * Failures are only logged: accounting must never break an analysis
+ */
+export async function recordLlmUsage(config: LlmConfig, usage: LlmUsage): Promise<void> {
+  const context = usageContext.getStore() ?? {}
+  const costUsd = computeLlmCost(config, usage.model, usage.promptTokens, usage.responseTokens)
+
+  try {
+    const { error } = await createLlmUsageEntry({
+      task: usage.task,
+      provider: usage.provider,
+      model: usage.model,
+      prompt_tokens: usage.promptTokens,
+      response_tokens: usage.responseTokens,
+      latency_ms: usage.latencyMs,
+      outcome: usage.outcome,
+      error: usage.error?.slice(0, 1000) ?? null,
+      cost_usd: costUsd,
+      place_id: context.placeId ?? null,
+      source_id: context.sourceId ?? null,
+      job_id: context.jobId ?? null,
+    })
+
+    if (error) {
+      console.error('❌ Failed to record LLM usage:', error.message)
+    }
+  } catch (error) {
+    console.error('❌ Failed to record LLM usage:', error)
+  }
+
+  if (todaySpend && todaySpend.day === toDateString(new Date())) {
+    todaySpend.spentUsd += costUsd
+  }
+}
+
+/**
+ * Cost of the LLM calls of the current day (UTC)
+ */
+export async function getTodayLlmSpend(): Promise<number> {
+  const today = toDateString(new Date())
+
+  if (todaySpend && todaySpend.day === today && Date.now() - todaySpend.checkedAt < BUDGET_CHECK_INTERVAL_MS) {
+    return todaySpend.spentUsd
+  }
+
+  const { data, error } = await getLlmSpend(today, today)
+  if (error) {
+    throw new Error(`Failed to fetch today's LLM usage: ${error.message}`)
+  }
+
+  const spentUsd = Number(data ?? 0)
+  todaySpend = { day: today, spentUsd, checkedAt: Date.now() }
+
+  return spentUsd
+}
+
+export const LLM_BUDGET_EXCEEDED_ERROR = 'Daily LLM budget reached (LLM_DAILY_BUDGET_USD)'
+
+/**
+ * Whether the LLM_DAILY_BUDGET_USD cap is reached: batches check it before each item and stop once it is
+ */
+export async function isLlmBudgetExceeded(): Promise<boolean> {
+  let config: LlmConfig
+  try {
+    config = loadLlmConfig()
+  } catch {
+    // The invalid configuration is reported by the LLM provider
+    return false
+  }
+
+  if (config.dailyBudgetUsd === null) {
+    return false
+  }
+
+  try {
+    const spentUsd = await getTodayLlmSpend()
+    const exceeded = spentUsd >= config.dailyBudgetUsd
+
+    if (exceeded && !budgetExceededLogged) {
+      console.warn(`💸 Daily LLM budget reached: $${spentUsd.toFixed(4)} spent of $${config.dailyBudgetUsd}`)
+    }
+    budgetExceededLogged = exceeded
+
+    return exceeded
+  } catch (error) {
+    // Don't halt the batches when the spend can't be checked
+    console.error('❌ Failed to check the LLM budget:', error)
+    return false
+  }
+}
+
+export type LlmUsageGroupBy = 'day' | 'task' | 'department' | 'model'
+
+export const LLM_USAGE_GROUP_BY: LlmUsageGroupBy[] = ['day', 'task', 'department', 'model']
+
+export interface LlmUsageTotals {
+  calls: number
+  errors: number
+  promptTokens: number
+  responseTokens: number
+  averageLatencyMs: number
+  costUsd: number
+}
+
+/**
+ * Usage of one group, with only the grouped dimensions set (department is null for calls without a place)
+ */
+export interface LlmUsageReportEntry extends LlmUsageTotals {
+  day?: string
+  task?: string
+  department?: string | null
+  model?: string | null
+}
+
+export interface LlmUsageReport {
+  from: string
+  to: string
+  groupBy: LlmUsageGroupBy[]
+  entries: LlmUsageReportEntry[]
+  total: LlmUsageTotals
+  dailyBudgetUsd: number | null
+}
+
+export interface LlmUsageReportOptions {
+  /** First day (YYYY-MM-DD), 30 days before `to` by default */
+  from?: string
+  /** Last day (YYYY-MM-DD), today by default */
+  to?: string
+  groupBy?: LlmUsageGroupBy[]
+}
+
+function sumRows(rows: LlmUsageReportRow[]): LlmUsageTotals {
+  const calls = rows.reduce((sum, row) => sum + Number(row.call_count), 0)
+  const totalLatencyMs = rows.reduce((sum, row) => sum + Number(row.total_latency_ms), 0)
+
+  return {
+    calls,
+    errors: rows.reduce((sum, row) => sum + Number(row.error_count), 0),
+    promptTokens: rows.reduce((sum, row) => sum + Number(row.prompt_tokens), 0),
+    responseTokens: rows.reduce((sum, row) => sum + Number(row.response_tokens), 0),
+    averageLatencyMs: calls > 0 ? Math.round(totalLatencyMs / calls) : 0,
+    costUsd: Math.round(rows.reduce((sum, row) => sum + Number(row.cost_usd), 0) * 1_000_000) / 1_000_000,
+  }
+}
+
+/**
+ * Aggregates the LLM usage between two days by the requested dimensions, most expensive groups first
+ */
+export async function getLlmUsageReport(
+  options: LlmUsageReportOptions = {},
+): Promise<{ report: LlmUsageReport | null; error: string | null }> {
+  const to = options.to || toDateString(new Date())
+  const from = options.from || toDateString(new Date(new Date(`${to}T00:00:00Z`).getTime() - 30 * 24 * 3600 * 1000))
+  const groupBy: LlmUsageGroupBy[] =
+    options.groupBy && options.groupBy.length > 0 ? options.groupBy : ['day', 'task', 'department']
+
+  const { data, error } = await getLlmUsageReportRows(from, to)
+  if (error) {
+    return { report: null, error: error.message }
+  }
+
+  const groups = new Map<string, LlmUsageReportRow[]>()
+  for (const row of data || []) {
+    const key = JSON.stringify(groupBy.map((dimension) => row[dimension]))
+    groups.set(key, [...(groups.get(key) || []), row])
+  }
+
+  const entries: LlmUsageReportEntry[] = [...groups.values()].map((rows) => ({
+    ...Object.fromEntries(groupBy.map((dimension) => [dimension, rows[0][dimension]])),
+    ...sumRows(rows),
+  }))
+  entries.sort((a, b) => b.costUsd - a.costUsd || b.calls - a.calls)
+
+  let dailyBudgetUsd: number | null = null
+  try {
+    dailyBudgetUsd = loadLlmConfig().dailyBudgetUsd
+  } catch {
+    // Reported by the LLM provider
+  }
+
+  return {
+    report: { from, to, groupBy, entries, total: sumRows(data || []), dailyBudgetUsd },
+    error: null,
+  }
+}
+
+/**
+ * Parses a comma-separated list of report dimensions (e.g. "day,task")
+ * @returns The dimensions, or null if one of them is unknown
+ */
+export function parseLlmUsageGroupBy(value: string): LlmUsageGroupBy[] | null {
+  const dimensions = value
+    .split(',')
+    .map((dimension) => dimension.trim())
+    .filter(Boolean)
+
+  return dimensions.every((dimension) => LLM_USAGE_GROUP_BY.includes(dimension as LlmUsageGroupBy))
+    ? (dimensions as LlmUsageGroupBy[])
+    : null
+}
+
+/**
+ * Whether a report date is a valid YYYY-MM-DD day
+ */
+export function isValidReportDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(new Date(`${value}T00:00:00Z`).getTime())
+}
@@ -1,4 +1,5 @@
 import { OSM_SUPPORTED_TAGS } from '../data/osm.data'
+import { getHttpClient } from './http-client.service'
 
 interface BoundingBox {
   south: number
@@ -54,11 +55,10 @@ export class NominatimService {
     const url = `${baseUrl}?${params.toString()}`
 
     try {
-      const response = await fetch(url, {
+      const response = await getHttpClient('nominatim').request(url, {
         headers: {
           'User-Agent': 'empreinte-backend/1.0.0',
         },
-        signal: AbortSignal.timeout(10000), // 10 second timeout for Nominatim
       })
 
       if (!response.ok) {
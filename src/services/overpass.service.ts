@@ -8,6 +8,7 @@ import {
   simplifyCoordinates,
   type Point,
 } from '../utils/geometry'
+import { getHttpClient } from './http-client.service'
 import { nominatimService } from './nominatim.service'
 
 export interface OverpassElement {
@@ -38,11 +39,7 @@ interface BoundingBox {
 }
 
 export class OverpassService {
-  private readonly baseUrls = [
-    'https://overpass-api.de/api/interpreter',
-    'https://lambert.openstreetmap.de/api/interpreter',
-  ]
-  private currentUrlIndex = 0
+  private readonly httpClient = getHttpClient('overpass')
   private requestCount = 0
   private lastRequestTime = 0
   private readonly minDelayMs = 1500 // 1.5 seconds between requests
@@ -233,11 +230,6 @@ out center geom;`
     return query
   }
 
-  private switchToNextUrl(): void {
-    this.currentUrlIndex = (this.currentUrlIndex + 1) % this.baseUrls.length
-    console.log(`Switching to Overpass server: ${this.baseUrls[this.currentUrlIndex]}`)
-  }
-
   private async loadFromCache(cacheKey?: string): Promise<OverpassElement[] | null> {
     if (!cacheKey) return null
     return await this.cacheManager.load<OverpassElement[]>(`overpass_${cacheKey}`)
@@ -249,83 +241,12 @@ out center geom;`
   }
 
   public async queryNaturePlaces(bbox: BoundingBox, departmentCode: string, retries = 3): Promise<OverpassElement[]> {
-    // Check cache first
-    const cacheKey = `dept_${departmentCode}`
-    const cachedData = await this.loadFromCache(cacheKey)
-    if (cachedData) {
-      return cachedData
-    }
-
-    await this.waitForRateLimit()
-
-    const query = this.buildQuery(bbox)
-    const currentUrl = this.baseUrls[this.currentUrlIndex]
-
-    for (let attempt = 1; attempt <= retries; attempt++) {
-      try {
-        console.log(`Querying Overpass API (attempt ${attempt}/${retries})...`)
-        console.log(`URL: ${currentUrl}`)
-        console.log(`Request count: ${++this.requestCount}`)
-
-        const response = await fetch(currentUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'User-Agent': 'empreinte-backend/1.0.0',
-          },
-          body: `data=${encodeURIComponent(query)}`,
-          signal: AbortSignal.timeout(90000), // 90 second timeout
-        })
-
-        if (response.status === 429) {
-          const delayMs = Math.min(5000 * Math.pow(2, attempt - 1), 60000) // Exponential backoff, max 60s
-          console.warn(`Rate limited (429). Waiting ${delayMs}ms before retry...`)
-          await delay(delayMs)
-          continue
-        }
-
-        if (response.status === 504 || response.status === 502) {
-          console.warn(`Gateway timeout/error (${response.status}). Switching server...`)
-          this.switchToNextUrl()
-          const delayMs = 5000 * attempt
-          await delay(delayMs)
-          continue
-        }
-
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
-
-        const data = (await response.json()) as OverpassResponse
-        console.log(`🌍 Successfully fetched ${data.elements.length} elements`)
-
-        // Save to cache for future use
-        await this.saveToCache(data.elements, cacheKey)
-
-        return data.elements
-      } catch (error) {
-        // Handle timeout errors specifically
-        if (error instanceof Error && error.name === 'TimeoutError') {
-          console.error(`⏰ Request timeout after 90 seconds (attempt ${attempt}/${retries})`)
-        } else {
-          console.error(`Attempt ${attempt} failed:`, error)
-        }
-
-        if (attempt === retries) {
-          throw new Error(`All ${retries} attempts failed. Last error: ${error}`)
-        }
-
-        const delayMs = 5000 * attempt
-        console.log(`Waiting ${delayMs}ms before next attempt...`)
-        await delay(delayMs)
-      }
-    }
-
-    return []
+    return this.executeQuery(this.buildQuery(bbox), `dept_${departmentCode}`, retries)
   }
 
   /**
-   * Generic query executor with retry logic and caching
+   * Generic query executor with caching (retries and server failover are handled by the overpass HTTP client)
+   * @param retries Number of attempts
    */
   private async executeQuery(query: string, cacheKey?: string, retries = 3): Promise<OverpassElement[]> {
     if (cacheKey) {
@@ -337,71 +258,36 @@ out center geom;`
 
     await this.waitForRateLimit()
 
-    const currentUrl = this.baseUrls[this.currentUrlIndex]
-
-    for (let attempt = 1; attempt <= retries; attempt++) {
-      try {
-        console.log(`Querying Overpass API (attempt ${attempt}/${retries})...`)
-        console.log(`URL: ${currentUrl}`)
-        console.log(`Request count: ${++this.requestCount}`)
-
-        // Add timeout: Overpass queries have timeout:60 in the query, so allow 90s for HTTP request
-        const response = await fetch(currentUrl, {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/x-www-form-urlencoded',
-            'User-Agent': 'empreinte-backend/1.0.0',
-          },
-          body: `data=${encodeURIComponent(query)}`,
-          signal: AbortSignal.timeout(90000), // 90 second timeout
-        })
-
-        if (response.status === 429) {
-          const delayMs = Math.min(5000 * Math.pow(2, attempt - 1), 60000)
-          console.warn(`Rate limited (429). Waiting ${delayMs}ms before retry...`)
-          await delay(delayMs)
-          continue
-        }
+    console.log(`Querying Overpass API...`)
+    console.log(`URL: ${this.httpClient.currentBaseUrl}`)
+    console.log(`Request count: ${++this.requestCount}`)
 
-        if (response.status === 504 || response.status === 502) {
-          console.warn(`Gateway timeout/error (${response.status}). Switching server...`)
-          this.switchToNextUrl()
-          const delayMs = 5000 * attempt
-          await delay(delayMs)
-          continue
-        }
+    const response = await this.postQuery(query, retries - 1)
 
-        if (!response.ok) {
-          throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-        }
-
-        const data = (await response.json()) as OverpassResponse
-        console.log(`✅ Successfully fetched ${data.elements.length} elements`)
-
-        if (cacheKey) {
-          await this.saveToCache(data.elements, cacheKey)
-        }
-
-        return data.elements
-      } catch (error) {
-        // Handle timeout errors specifically
-        if (error instanceof Error && error.name === 'TimeoutError') {
-          console.error(`⏰ Request timeout after 90 seconds (attempt ${attempt}/${retries})`)
-        } else {
-          console.error(`Attempt ${attempt} failed:`, error)
-        }
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+    }
 
-        if (attempt === retries) {
-          throw new Error(`All ${retries} attempts failed. Last error: ${error}`)
-        }
+    const data = (await response.json()) as OverpassResponse
+    console.log(`✅ Successfully fetched ${data.elements.length} elements`)
 
-        const delayMs = 5000 * attempt
-        console.log(`Waiting ${delayMs}ms before next attempt...`)
-        await delay(delayMs)
-      }
+    if (cacheKey) {
+      await this.saveToCache(data.elements, cacheKey)
     }
 
-    return []
+    return data.elements
+  }
+
+  private postQuery(query: string, maxRetries?: number): Promise<Response> {
+    return this.httpClient.request('', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': 'empreinte-backend/1.0.0',
+      },
+      body: `data=${encodeURIComponent(query)}`,
+      maxRetries,
+    })
   }
 
   public convertToGeoJSON(element: OverpassElement): any {
@@ -763,21 +649,13 @@ out center geom;`
 
     // Build query for specific IDs
     const query = this.buildIdQuery(ids)
-    const currentUrl = this.baseUrls[this.currentUrlIndex]
 
     console.log(`🌐 Querying Overpass API...`)
-    console.log(`📍 URL: ${currentUrl}`)
+    console.log(`📍 URL: ${this.httpClient.currentBaseUrl}`)
     console.log(`🔢 Request count: ${++this.requestCount}`)
 
-    const response = await fetch(currentUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/x-www-form-urlencoded',
-        'User-Agent': 'empreinte-backend/1.0.0',
-      },
-      body: `data=${encodeURIComponent(query)}`,
-      signal: AbortSignal.timeout(90000), // 90 second timeout
-    })
+    // Failed batches are logged and skipped by the caller, don't retry them
+    const response = await this.postQuery(query, 0)
 
     if (!response.ok) {
       throw new Error(`HTTP ${response.status}: ${response.statusText}`)
@@ -0,0 +1,88 @@
+import { loadScraperConfig, ScraperConfig } from '../config/scraper.config'
+import { runCommand } from '../utils/command'
+import { politeFetchService } from './polite-fetch.service'
+
+// Rendered DOMs above this are truncated, the text of a page is a small part of it anyway
+const MAX_RENDERED_HTML_LENGTH = 5 * 1024 * 1024
+
+/**
+ * Renders JavaScript pages (SPAs) with a local headless Chromium and returns their DOM once scripts have run
+ * Chromium runs one page at a time, each render is a separate browser process
+ */
+export class PageRendererService {
+  private config: ScraperConfig | null = null
+  private queue: Promise<unknown> = Promise.resolve()
+
+  private getConfig(): ScraperConfig {
+    if (!this.config) {
+      this.config = loadScraperConfig()
+    }
+    return this.config
+  }
+
+  public isEnabled(): boolean {
+    return this.getConfig().renderingBackend !== 'none'
+  }
+
+  /**
+   * Pages whose static HTML yields less text than this are worth rendering
+   */
+  public getMinStaticTextLength(): number {
+    return this.getConfig().minStaticTextLength
+  }
+
+  /**
+   * Renders a page through the polite fetch layer (robots.txt, crawl-delay)
+   * @returns The rendered HTML, or null when rendering is disabled, disallowed or failed
+   */
+  public async renderPage(url: string): Promise<string | null> {
+    if (!this.isEnabled()) {
+      return null
+    }
+
+    try {
+      // Chain the renders so only one browser runs at a time
+      const render = this.queue.then(() => politeFetchService.schedule(url, () => this.renderWithChromium(url)))
+      this.queue = render.catch(() => {})
+
+      const { result } = await render
+      return result
+    } catch (error) {
+      console.warn(`❌ Failed to render ${url}:`, error instanceof Error ? error.message : error)
+      return null
+    }
+  }
+
+  private async renderWithChromium(url: string): Promise<string> {
+    const config = this.getConfig()
+    const args = [
+      '--headless=new',
+      '--disable-gpu',
+      '--no-first-run',
+      '--mute-audio',
+      `--user-agent=${config.userAgent}`,
+      // Lets the page's scripts and network requests settle before the DOM is dumped
+      `--virtual-time-budget=${Math.round(config.renderTimeoutMs / 2)}`,
+      ...config.chromiumArgs,
+      '--dump-dom',
+      url,
+    ]
+
+    console.log(`🖥️  Rendering with headless Chromium: ${url}`)
+
+    const html = await runCommand(config.chromiumPath, args, {
+      name: 'Chromium',
+      timeoutMs: config.renderTimeoutMs,
+      maxOutputLength: MAX_RENDERED_HTML_LENGTH,
+    })
+
+    if (html.trim().length === 0) {
+      throw new Error('Chromium rendered no HTML')
+    }
+
+    console.log(`✅ Rendered ${url} (${html.length} chars of HTML)`)
+    return html
+  }
+}
+
+export const pageRendererService = new PageRendererService()
@@ -1,7 +1,11 @@
-import { createPlacePhotos, hasPlacePhotos, setPrimaryPhoto } from '../db/place-photos'
+import { createPlacePhotos, setPrimaryPhoto } from '../db/place-photos'
+import { ScoreChangeTrigger } from '../db/place-score-history'
 import { Place, updatePlace } from '../db/places'
+import { BatchHooks } from '../types'
 import { calculateGeometryCenter } from '../utils/common'
 import { GooglePlacesPhoto, googlePlacesPhotosService } from './google-places.service'
+import { refreshPlaceScore } from './score-recalculation.service'
+import { supabase } from './supabase.service'
 import { WikimediaPhoto, wikimediaPhotosService } from './wikimedia-photos.service'
 
 export interface PhotoFetchResult {
@@ -13,6 +17,11 @@ export interface PhotoFetchResult {
   error?: string
 }
 
+export interface PhotoFetchOptions extends BatchHooks<PhotoFetchResult> {
+  minScore?: number
+  limit?: number
+}
+
 export class PhotoFetcherService {
   /**
    * Fetch photos for a place, trying Wikimedia first, then Google Places
@@ -42,9 +51,6 @@ export class PhotoFetcherService {
         console.log(`📍 Location: ${latitude}, ${longitude}`)
       }
 
-      // Check if this is the first time fetching photos (before we save any)
-      const hadPhotosBefore = await hasPlacePhotos(place.id)
-
       // Try Wikimedia first (free)
       console.log(`1️⃣ Trying Wikimedia Commons...`)
       const wikimediaPhotos = await wikimediaPhotosService.searchPlacePhotos(
@@ -60,7 +66,7 @@ export class PhotoFetcherService {
         result.success = true
         result.photosFound = wikimediaPhotos.length
         result.source = 'wikimedia'
-        await this.markPhotosFetched(place.id, true, hadPhotosBefore)
+        await this.markPhotosFetched(place.id, true)
         return result
       }
 
@@ -70,7 +76,7 @@ export class PhotoFetcherService {
         console.log(`⚠️ No coordinates available, skipping Google Places search`)
         result.error = 'No coordinates available for Google Places search'
         // Mark as fetched to avoid repeated attempts (no coordinates available)
-        await this.markPhotosFetched(place.id, false, hadPhotosBefore)
+        await this.markPhotosFetched(place.id, false)
         return result
       }
 
@@ -100,7 +106,7 @@ export class PhotoFetcherService {
           })
         }
 
-        await this.markPhotosFetched(place.id, true, hadPhotosBefore)
+        await this.markPhotosFetched(place.id, true)
         return result
       }
 
@@ -115,15 +121,13 @@ export class PhotoFetcherService {
       console.log(`❌ No photos found from any source`)
       result.error = 'No photos found'
       // Mark as fetched to avoid repeated attempts (even though no photos found)
-      await this.markPhotosFetched(place.id, false, hadPhotosBefore)
+      await this.markPhotosFetched(place.id, false)
       return result
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error'
       console.error(`❌ Error fetching photos:`, errorMessage)
       result.error = errorMessage
-      // Check if photos existed before in case of error
-      const hadPhotosBefore = await hasPlacePhotos(place.id)
-      await this.markPhotosFetched(place.id, false, hadPhotosBefore)
+      await this.markPhotosFetched(place.id, false)
       return result
     }
   }
@@ -171,42 +175,15 @@ export class PhotoFetcherService {
 
   /**
    * Mark that photos have been fetched for this place
-   * If photos were successfully fetched for the first time, bump scores by +2
+   * If photos were found, the place score is recalculated to include the photos bonus
    */
-  private async markPhotosFetched(placeId: string, photosFound: boolean, hadPhotosBefore: boolean): Promise<void> {
+  private async markPhotosFetched(placeId: string, photosFound: boolean): Promise<void> {
     try {
-      // Check if this is the first time photos are being fetched
-      const isFirstTime = !hadPhotosBefore && photosFound
-
-      let updates: Partial<Place> = {
-        photos_fetched_at: new Date().toISOString(),
-      }
+      await updatePlace(placeId, { photos_fetched_at: new Date().toISOString() })
 
-      // If this is the first time photos are fetched, bump scores
-      if (isFirstTime) {
-        const { supabase } = await import('../services/supabase.service')
-        const { data: place, error: fetchError } = await supabase
-          .from('places')
-          .select('score, enhancement_score')
-          .eq('id', placeId)
-          .single()
-
-        if (!fetchError && place) {
-          const currentScore = place.score || 0
-          const currentEnhancementScore = place.enhancement_score || 0
-          const newEnhancementScore = currentEnhancementScore + 2
-          const newScore = currentScore + 2
-
-          updates.score = newScore
-          updates.enhancement_score = newEnhancementScore
-
-          console.log(
-            `📈 Bumped scores: ${currentScore} → ${newScore} (+2 total), ${currentEnhancementScore} → ${newEnhancementScore} (+2 enhancement)`,
-          )
-        }
+      if (photosFound) {
+        await refreshPlaceScore(placeId, ScoreChangeTrigger.PHOTOS)
       }
-
-      await updatePlace(placeId, updates)
     } catch (error) {
       console.error(`❌ Error marking photos as fetched:`, error)
       // Don't throw - this is not critical
@@ -222,3 +199,67 @@ export class PhotoFetcherService {
 }
 
 export const photoFetcherService = new PhotoFetcherService()
+
+/**
+ * Core photo fetching logic - shared between API, jobs and scripts
+ * Fetches photos for places that haven't had photos fetched yet, highest scores first
+ */
+export async function fetchPhotosCore(
+  options: PhotoFetchOptions = {},
+): Promise<{ results: PhotoFetchResult[]; error: string | null }> {
+  const { minScore, limit, onItemProcessed, shouldStop } = options
+
+  // Get places without photos
+  let query = supabase.from('places').select('*').is('photos_fetched_at', null) // Places that haven't had photos fetched yet
+
+  if (minScore !== undefined) {
+    query = query.gte('score', minScore)
+  }
+
+  // Order by score descending to prioritize higher-scored places
+  query = query.order('score', { ascending: false })
+
+  if (limit !== undefined) {
+    query = query.limit(limit)
+  }
+
+  const { data: placesToProcess, error: queryError } = await query
+
+  if (queryError) {
+    console.error('❌ Error fetching places:', queryError)
+    return { results: [], error: `Database error: ${queryError.message}` }
+  }
+
+  if (!placesToProcess || placesToProcess.length === 0) {
+    return { results: [], error: null }
+  }
+
+  console.log(`📋 Found ${placesToProcess.length} places to process`)
+
+  const results: PhotoFetchResult[] = []
+
+  // Process places one by one with delay
+  for (let i = 0; i < placesToProcess.length; i++) {
+    if (shouldStop && (await shouldStop())) {
+      console.log(`🛑 Photo fetch stopped after ${i} places`)
+      break
+    }
+
+    const place = placesToProcess[i] as Place
+    console.log(`\n📍 Processing place ${i + 1}/${placesToProcess.length}: ${place.name}`)
+
+    const result = await photoFetcherService.fetchPhotosForPlace(place)
+    results.push(result)
+
+    if (onItemProcessed) {
+      await onItemProcessed(result, i, placesToProcess.length)
+    }
+
+    // Add delay between requests (except for the last one)
+    if (i < placesToProcess.length - 1) {
+      await photoFetcherService.delay()
+    }
+  }
+
+  return { results, error: null }
+}
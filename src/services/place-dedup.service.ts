@@ -0,0 +1,415 @@
+import { DEDUP_CONFIG, DedupConfig } from '../config/dedup.config'
+import { getPlaceMentionsFromPlaces } from '../db/place-mentions'
+import { getPlaceDedupCandidates, mergePlaces } from '../db/place-merges'
+import { ScoreChangeTrigger } from '../db/place-score-history'
+import { getPlacesByIds, Place } from '../db/places'
+import { BatchHooks } from '../types'
+import { calculateDistance } from '../utils/geometry'
+import { calculateNameMatchScore } from '../utils/name-matcher'
+import { refreshPlaceScore } from './score-recalculation.service'
+
+export interface DuplicatePair {
+  placeId: string
+  placeSource: string
+  otherPlaceId: string
+  otherPlaceSource: string
+  nameSimilarity: number
+  distanceKm: number
+  overlapRatio: number | null
+}
+
+export interface DedupPlaceSummary {
+  id: string
+  name: string | null
+  source: string | null
+  sourceId: string | null
+  osmId: string | null
+  score: number
+}
+
+export interface DedupCluster {
+  canonical: DedupPlaceSummary
+  duplicates: DedupPlaceSummary[]
+  pairs: DuplicatePair[]
+  /** Fields of the canonical place filled from the duplicates */
+  mergedFields: string[]
+}
+
+export interface DedupMergeResult {
+  canonicalPlaceId: string
+  canonicalName: string
+  mergedPlaceIds: string[]
+  merged: boolean
+  error?: string
+}
+
+export interface DedupOptions extends BatchHooks<DedupMergeResult> {
+  /** Merge the clusters; when false, only report them */
+  apply?: boolean
+  config?: DedupConfig
+}
+
+interface ClusterPlan {
+  cluster: DedupCluster
+  canonical: Place
+  duplicates: Place[]
+  updates: Partial<Place>
+}
+
+const PLACES_FETCH_BATCH_SIZE = 100
+const POLYGON_TYPES = ['Polygon', 'MultiPolygon']
+
+function isPolygon(geometry: unknown): boolean {
+  return !!geometry && POLYGON_TYPES.includes((geometry as { type?: string }).type || '')
+}
+
+function toSummary(place: Place): DedupPlaceSummary {
+  return {
+    id: place.id,
+    name: place.name,
+    source: place.source,
+    sourceId: place.source_id,
+    osmId: place.osm_id,
+    score: place.score,
+  }
+}
+
+/**
+ * Finds the candidate pairs that are the same place: similar names and either close centers or overlapping polygons
+ */
+async function findDuplicatePairs(config: DedupConfig): Promise<{ pairs: DuplicatePair[]; error: string | null }> {
+  const { data: candidates, error } = await getPlaceDedupCandidates(
+    config.maxCandidateDistanceM,
+    config.minCandidateNameSimilarity,
+  )
+
+  if (error) {
+    console.error('❌ Error fetching dedup candidates:', error)
+    return { pairs: [], error: `Database error: ${error.message}` }
+  }
+
+  const pairs: DuplicatePair[] = []
+
+  for (const candidate of candidates || []) {
+    const nameSimilarity = calculateNameMatchScore(candidate.place_name, candidate.other_place_name)
+    if (nameSimilarity < config.minNameSimilarity) continue
+
+    const distanceKm = calculateDistance(
+      { lat: candidate.place_lat, lon: candidate.place_lon },
+      { lat: candidate.other_place_lat, lon: candidate.other_place_lon },
+    )
+    const overlapRatio = candidate.overlap_ratio
+
+    if (distanceKm <= config.maxCenterDistanceKm || (overlapRatio !== null && overlapRatio >= config.minOverlapRatio)) {
+      pairs.push({
+        placeId: candidate.place_id,
+        placeSource: candidate.place_source,
+        otherPlaceId: candidate.other_place_id,
+        otherPlaceSource: candidate.other_place_source,
+        nameSimilarity: Math.round(nameSimilarity * 100) / 100,
+        distanceKm: Math.round(distanceKm * 100) / 100,
+        overlapRatio: overlapRatio === null ? null : Math.round(overlapRatio * 100) / 100,
+      })
+    }
+  }
+
+  return { pairs, error: null }
+}
+
+/**
+ * Groups duplicate pairs into clusters of place IDs (connected components), at most one place per source:
+ * two places of the same source are distinct places even when both match a place of another source,
+ * so the pairs are joined from the most similar and a pair joining two places of the same source is left out
+ */
+function clusterPairs(pairs: DuplicatePair[]): string[][] {
+  const parent = new Map<string, string>()
+  const sources = new Map<string, Set<string>>()
+
+  const find = (id: string): string => {
+    let root = id
+    while (parent.get(root) !== root) {
+      root = parent.get(root)!
+    }
+    parent.set(id, root)
+    return root
+  }
+
+  const rankedPairs = [...pairs].sort((a, b) => b.nameSimilarity - a.nameSimilarity || a.distanceKm - b.distanceKm)
+
+  for (const pair of rankedPairs) {
+    for (const [id, source] of [
+      [pair.placeId, pair.placeSource],
+      [pair.otherPlaceId, pair.otherPlaceSource],
+    ]) {
+      if (!parent.has(id)) {
+        parent.set(id, id)
+        sources.set(id, new Set([source]))
+      }
+    }
+
+    const root = find(pair.placeId)
+    const otherRoot = find(pair.otherPlaceId)
+    if (root === otherRoot) continue
+
+    const rootSources = sources.get(root)!
+    const otherRootSources = sources.get(otherRoot)!
+    if ([...otherRootSources].some((source) => rootSources.has(source))) {
+      console.log(
+        `⚠️  Not merging ${pair.placeId} and ${pair.otherPlaceId}: their clusters have places of the same source`,
+      )
+      continue
+    }
+
+    parent.set(root, otherRoot)
+    rootSources.forEach((source) => otherRootSources.add(source))
+  }
+
+  const clusters = new Map<string, string[]>()
+  for (const id of parent.keys()) {
+    const root = find(id)
+    clusters.set(root, [...(clusters.get(root) || []), id])
+  }
+
+  return [...clusters.values()].filter((ids) => ids.length > 1)
+}
+
+/**
+ * Orders the places of a cluster from the best canonical candidate: source priority, then score, then oldest
+ */
+function rankPlaces(places: Place[], config: DedupConfig): Place[] {
+  const sourceRank = (place: Place) => {
+    const index = config.sourcePriority.indexOf(place.source || '')
+    return index === -1 ? config.sourcePriority.length : index
+  }
+
+  return [...places].sort(
+    (a, b) =>
+      sourceRank(a) - sourceRank(b) ||
+      b.score - a.score ||
+      new Date(a.created_at).getTime() - new Date(b.created_at).getTime(),
+  )
+}
+
+/**
+ * Builds the updates of the canonical place: missing fields, ratings and polygon geometry come from the duplicates
+ * (in ranking order), metadata keys are merged and the merged IDs are recorded in metadata.merged_place_ids
+ */
+function buildCanonicalUpdates(canonical: Place, duplicates: Place[], config: DedupConfig): Partial<Place> {
+  const updates: Partial<Place> = {}
+
+  for (const field of config.mergedFields) {
+    if (canonical[field]) continue
+    const donor = duplicates.find((place) => place[field])
+    if (donor) {
+      Object.assign(updates, { [field]: donor[field] })
+    }
+  }
+
+  if (canonical.google_rating === null) {
+    const donor = duplicates.find((place) => place.google_rating !== null)
+    if (donor) {
+      updates.google_rating = donor.google_rating
+      updates.google_rating_count = donor.google_rating_count
+      updates.google_rating_fetched_at = donor.google_rating_fetched_at
+    }
+  }
+
+  if (!isPolygon(canonical.geometry)) {
+    const donor = duplicates.find((place) => isPolygon(place.geometry))
+    if (donor) {
+      updates.geometry = donor.geometry
+    }
+  }
+
+  const sourceScore = Math.max(...[canonical, ...duplicates].map((place) => place.source_score || 0))
+  if (sourceScore > (canonical.source_score || 0)) {
+    updates.source_score = sourceScore
+  }
+
+  const canonicalMetadata = (canonical.metadata as Record<string, unknown>) || {}
+  const metadata: Record<string, unknown> = {}
+  for (const place of [...duplicates].reverse()) {
+    Object.assign(metadata, (place.metadata as Record<string, unknown>) || {})
+  }
+  Object.assign(metadata, canonicalMetadata)
+  metadata.merged_place_ids = [
+    ...((canonicalMetadata.merged_place_ids as string[]) || []),
+    ...duplicates.map((place) => place.id),
+  ]
+  updates.metadata = metadata as Place['metadata']
+
+  return updates
+}
+
+async function fetchPlaces(ids: string[]): Promise<{ places: Map<string, Place>; error: string | null }> {
+  const places = new Map<string, Place>()
+
+  for (let i = 0; i < ids.length; i += PLACES_FETCH_BATCH_SIZE) {
+    const { data, error } = await getPlacesByIds(ids.slice(i, i + PLACES_FETCH_BATCH_SIZE))
+
+    if (error) {
+      console.error('❌ Error fetching places:', error)
+      return { places, error: `Database error: ${error.message}` }
+    }
+
+    for (const place of data || []) {
+      places.set(place.id, place)
+    }
+  }
+
+  return { places, error: null }
+}
+
+/**
+ * Merges the duplicates of a cluster into its canonical place in a single transaction (see mergePlaces),
+ * then recalculates its score, as well as the scores of the places the cluster mentions
+ */
+async function mergeCluster(plan: ClusterPlan): Promise<DedupMergeResult> {
+  const { canonical, duplicates, updates, cluster } = plan
+  const mergedPlaceIds = duplicates.map((place) => place.id)
+
+  const result: DedupMergeResult = {
+    canonicalPlaceId: canonical.id,
+    canonicalName: canonical.name || 'Unknown',
+    mergedPlaceIds,
+    merged: false,
+  }
+
+  // The places mentioned by several places of the cluster are mentioned by one place less once they are merged
+  const clusterIds = [canonical.id, ...mergedPlaceIds]
+  const { data: clusterMentions, error: mentionsError } = await getPlaceMentionsFromPlaces(clusterIds)
+
+  if (mentionsError) {
+    result.error = `Failed to fetch mentions: ${mentionsError.message}`
+    return result
+  }
+
+  const { error: mergeError } = await mergePlaces(
+    canonical.id,
+    mergedPlaceIds,
+    duplicates.map((place) => {
+      const pair = cluster.pairs.find((p) => p.placeId === place.id || p.otherPlaceId === place.id)
+      return {
+        merged_place_id: place.id,
+        merged_name: place.name,
+        merged_source: place.source,
+        merged_source_id: place.source_id,
+        merged_osm_id: place.osm_id,
+        name_similarity: pair ? pair.nameSimilarity : 0,
+        distance_km: pair ? pair.distanceKm : null,
+        overlap_ratio: pair ? pair.overlapRatio : null,
+      }
+    }),
+    updates,
+  )
+
+  if (mergeError) {
+    result.error = `Failed to merge places: ${mergeError.message}`
+    return result
+  }
+
+  await refreshPlaceScore(canonical.id, ScoreChangeTrigger.DEDUPLICATION)
+
+  const mentionedPlaceIds = new Set((clusterMentions || []).map((mention) => mention.mentioned_place_id))
+  for (const placeId of mentionedPlaceIds) {
+    if (!clusterIds.includes(placeId)) {
+      await refreshPlaceScore(placeId, ScoreChangeTrigger.DEDUPLICATION)
+    }
+  }
+
+  result.merged = true
+  return result
+}
+
+/**
+ * Core deduplication logic - shared between scripts and jobs
+ * Clusters places from different sources by name similarity, distance and geometry overlap,
+ * chooses a canonical place per cluster and, when apply is set, merges the others into it
+ */
+export async function dedupPlacesCore(
+  options: DedupOptions = {},
+): Promise<{ clusters: DedupCluster[]; results: DedupMergeResult[]; error: string | null }> {
+  const { apply = false, config = DEDUP_CONFIG, onItemProcessed, shouldStop } = options
+
+  console.log('🔍 Finding duplicate candidates...')
+  const { pairs, error: pairsError } = await findDuplicatePairs(config)
+
+  if (pairsError) {
+    return { clusters: [], results: [], error: pairsError }
+  }
+
+  const clusterIds = clusterPairs(pairs)
+  console.log(`📊 Found ${pairs.length} duplicate pairs in ${clusterIds.length} clusters\n`)
+
+  if (clusterIds.length === 0) {
+    return { clusters: [], results: [], error: null }
+  }
+
+  const { places, error: placesError } = await fetchPlaces(clusterIds.flat())
+
+  if (placesError) {
+    return { clusters: [], results: [], error: placesError }
+  }
+
+  const plans: ClusterPlan[] = []
+
+  for (const ids of clusterIds) {
+    const clusterPlaces = ids.map((id) => places.get(id)).filter((place): place is Place => !!place)
+    if (clusterPlaces.length < 2) continue
+
+    const [canonical, ...duplicates] = rankPlaces(clusterPlaces, config)
+    const updates = buildCanonicalUpdates(canonical, duplicates, config)
+
+    plans.push({
+      canonical,
+      duplicates,
+      updates,
+      cluster: {
+        canonical: toSummary(canonical),
+        duplicates: duplicates.map(toSummary),
+        pairs: pairs.filter((pair) => ids.includes(pair.placeId) && ids.includes(pair.otherPlaceId)),
+        mergedFields: Object.keys(updates).filter((field) => field !== 'metadata'),
+      },
+    })
+  }
+
+  const clusters = plans.map((plan) => plan.cluster)
+  const results: DedupMergeResult[] = []
+
+  for (let i = 0; i < plans.length; i++) {
+    if (shouldStop && (await shouldStop())) {
+      console.log(`🛑 Deduplication stopped after ${i} clusters`)
+      break
+    }
+
+    const { canonical, duplicates } = plans[i]
+    console.log(
+      `🔗 Cluster ${i + 1}/${plans.length}: ${canonical.name} (${canonical.source}) ← ${duplicates.map((place) => `${place.name} (${place.source})`).join(', ')}`,
+    )
+
+    let result: DedupMergeResult
+    if (apply) {
+      result = await mergeCluster(plans[i])
+      if (result.error) {
+        console.error(`  ❌ ${result.error}`)
+      } else {
+        console.log(`  ✅ Merged ${duplicates.length} places`)
+      }
+    } else {
+      result = {
+        canonicalPlaceId: canonical.id,
+        canonicalName: canonical.name || 'Unknown',
+        mergedPlaceIds: duplicates.map((place) => place.id),
+        merged: false,
+      }
+    }
+
+    results.push(result)
+
+    if (onItemProcessed) {
+      await onItemProcessed(result, i, plans.length)
+    }
+  }
+
+  return { clusters, results, error: null }
+}
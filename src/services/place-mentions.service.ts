@@ -0,0 +1,283 @@
+import { getGeneratedPlacesBySourceId, getVerifiedGeneratedPlaceSourceIds } from '../db/generated-places'
+import {
+  deletePlaceMentions,
+  getPlaceMentionsBySourceId,
+  getPlaceMentionsOfPlace,
+  PlaceMention,
+  upsertPlaceMentions,
+} from '../db/place-mentions'
+import { ScoreChangeTrigger } from '../db/place-score-history'
+import { getPlacesByIds, getSourceOriginPlace } from '../db/places'
+import { getSourceById, Source, updateSource } from '../db/sources'
+import { BatchHooks } from '../types'
+import { refreshPlaceScore } from './score-recalculation.service'
+
+/**
+ * Content of the mentioning place the mention was extracted from
+ */
+export type MentionSourceType = 'website' | 'wikipedia'
+
+export interface SourceMentionsSyncResult {
+  sourceId: string
+  /** Place the source was analyzed for, null when the source is not a place website or Wikipedia article */
+  placeId: string | null
+  mentionsCount: number
+  /** Places mentioned by the source for the first time, their score was recalculated */
+  newMentionedPlaceIds: string[]
+  /** Places the source no longer mentions, their score was recalculated */
+  removedMentionedPlaceIds: string[]
+  error?: string
+}
+
+export interface RelatedPlace {
+  place: { id: string; name: string | null; type: string | null; score: number | null }
+  /** Each mention between the two places: the content it comes from and the name used in it */
+  mentions: Array<{ sourceType: MentionSourceType; sourceId: string | null; mentionedName: string | null }>
+}
+
+export interface RelatedPlaces {
+  placeId: string
+  /** Places the website or Wikipedia article of this place mentions */
+  mentions: RelatedPlace[]
+  /** Places whose website or Wikipedia article mentions this place */
+  mentionedBy: RelatedPlace[]
+}
+
+/**
+ * Records the mention edges of a source analyzed for a place (its website or Wikipedia article):
+ * one edge per generated place of the source resolved to a real place by the verification or a review
+ * The edges of generated places no longer verified or no longer mentioned by the latest analysis are removed
+ * Called after the analysis stores the mentioned places and after they are verified, whichever comes last
+ * @param originPlaceId The place the source was analyzed for, recorded on the source for the later syncs
+ */
+export async function syncSourcePlaceMentions(
+  source: Pick<Source, 'id' | 'url' | 'origin_place_id'>,
+  originPlaceId?: string,
+): Promise<SourceMentionsSyncResult> {
+  const result: SourceMentionsSyncResult = {
+    sourceId: source.id,
+    placeId: null,
+    mentionsCount: 0,
+    newMentionedPlaceIds: [],
+    removedMentionedPlaceIds: [],
+  }
+
+  if (originPlaceId && originPlaceId !== source.origin_place_id) {
+    const { error } = await updateSource(source.id, { origin_place_id: originPlaceId })
+    if (error) {
+      console.error(`❌ Error recording the origin place of source ${source.id}:`, error)
+    }
+  }
+
+  const originPlace = await getSourceOriginPlace({
+    url: source.url,
+    origin_place_id: originPlaceId || source.origin_place_id,
+  })
+  if (!originPlace) {
+    return result
+  }
+  result.placeId = originPlace.id
+
+  const { data: generatedPlaces, error: generatedError } = await getGeneratedPlacesBySourceId(source.id)
+  if (generatedError) {
+    console.error(`❌ Error fetching generated places of source ${source.id}:`, generatedError)
+    return { ...result, error: `Database error: ${generatedError.message}` }
+  }
+
+  const { data: existingMentions, error: existingError } = await getPlaceMentionsBySourceId(source.id)
+  if (existingError) {
+    console.error(`❌ Error fetching mentions of source ${source.id}:`, existingError)
+    return { ...result, error: `Database error: ${existingError.message}` }
+  }
+
+  // Generated places are kept across analyses: only the places mentioned by the latest analysis are current
+  const sourceType: MentionSourceType = originPlace.website === source.url ? 'website' : 'wikipedia'
+  const currentNames =
+    sourceType === 'website' ? originPlace.website_places_generated : originPlace.wikipedia_places_generated
+  const verifiedPlaces = (generatedPlaces || []).filter(
+    (generatedPlace) =>
+      generatedPlace.place_id &&
+      generatedPlace.place_id !== originPlace.id &&
+      (!currentNames || (generatedPlace.name !== null && currentNames.includes(generatedPlace.name))),
+  )
+  const verifiedIds = new Set(verifiedPlaces.map((generatedPlace) => generatedPlace.id))
+  const staleMentions = (existingMentions || []).filter((mention) => !verifiedIds.has(mention.generated_place_id))
+
+  if (staleMentions.length > 0) {
+    const { error } = await deletePlaceMentions(staleMentions.map((mention) => mention.id))
+    if (error) {
+      console.error(`❌ Error removing stale mentions of source ${source.id}:`, error)
+      return { ...result, error: `Database error: ${error.message}` }
+    }
+  }
+
+  let mentions: PlaceMention[] = []
+
+  if (verifiedPlaces.length > 0) {
+    const { data, error } = await upsertPlaceMentions(
+      verifiedPlaces.map((generatedPlace) => ({
+        place_id: originPlace.id,
+        mentioned_place_id: generatedPlace.place_id!,
+        source_id: source.id,
+        source_type: sourceType,
+        generated_place_id: generatedPlace.id,
+        mentioned_name: generatedPlace.name,
+      })),
+    )
+
+    if (error) {
+      console.error(`❌ Error saving mentions of source ${source.id}:`, error)
+      return { ...result, error: `Database error: ${error.message}` }
+    }
+    mentions = data || []
+  }
+
+  const previouslyMentioned = new Set((existingMentions || []).map((mention) => mention.mentioned_place_id))
+  const mentioned = new Set(mentions.map((mention) => mention.mentioned_place_id))
+  result.mentionsCount = mentions.length
+  result.newMentionedPlaceIds = [...mentioned].filter((placeId) => !previouslyMentioned.has(placeId))
+  result.removedMentionedPlaceIds = [...previouslyMentioned].filter((placeId) => !mentioned.has(placeId))
+
+  // Being mentioned by one more or one less place changes the mentions score
+  for (const placeId of [...result.newMentionedPlaceIds, ...result.removedMentionedPlaceIds]) {
+    await refreshPlaceScore(placeId, ScoreChangeTrigger.MENTIONS)
+  }
+
+  if (result.newMentionedPlaceIds.length > 0 || result.removedMentionedPlaceIds.length > 0) {
+    console.log(
+      `🕸️  ${originPlace.name} (${sourceType}) mentions ${result.newMentionedPlaceIds.length} more and ${result.removedMentionedPlaceIds.length} fewer place(s), ${result.mentionsCount} in total`,
+    )
+  }
+
+  return result
+}
+
+/**
+ * Records the mention edges of the sources of verified generated places
+ * @param sourceIds Sources to sync, deduplicated (e.g. the sources of a verification run)
+ */
+export async function syncPlaceMentionsOfSources(sourceIds: string[]): Promise<SourceMentionsSyncResult[]> {
+  const results: SourceMentionsSyncResult[] = []
+
+  for (const sourceId of new Set(sourceIds)) {
+    const { data: source } = await getSourceById(sourceId)
+    if (source) {
+      results.push(await syncSourcePlaceMentions(source))
+    }
+  }
+
+  return results
+}
+
+/**
+ * Core mentions graph rebuild logic - shared with scripts
+ * Records the mention edges of every source with verified generated places, e.g. for the places verified before
+ * the mentions graph existed
+ */
+export async function syncAllPlaceMentionsCore(
+  options: BatchHooks<SourceMentionsSyncResult> = {},
+): Promise<{ results: SourceMentionsSyncResult[]; error: string | null }> {
+  const { onItemProcessed, shouldStop } = options
+  const { sourceIds, error } = await getVerifiedGeneratedPlaceSourceIds()
+
+  if (error) {
+    console.error('❌ Error fetching sources of verified generated places:', error)
+    return { results: [], error: `Database error: ${error.message}` }
+  }
+
+  console.log(`📋 Found ${sourceIds.length} sources with verified generated places`)
+
+  const results: SourceMentionsSyncResult[] = []
+  for (let i = 0; i < sourceIds.length; i++) {
+    if (shouldStop && (await shouldStop())) {
+      console.log(`🛑 Mentions sync stopped after ${i} source(s)`)
+      break
+    }
+
+    const [result] = await syncPlaceMentionsOfSources([sourceIds[i]])
+    if (!result) {
+      continue
+    }
+    results.push(result)
+
+    if (onItemProcessed) {
+      await onItemProcessed(result, i, sourceIds.length)
+    }
+  }
+
+  return { results, error: null }
+}
+
+/**
+ * Groups the mention edges of a place by the other place, in the given direction
+ */
+function groupRelatedPlaces(
+  edges: PlaceMention[],
+  otherPlaceId: (edge: PlaceMention) => string,
+  places: Map<string, RelatedPlace['place']>,
+): RelatedPlace[] {
+  const related = new Map<string, RelatedPlace>()
+
+  for (const edge of edges) {
+    const place = places.get(otherPlaceId(edge))
+    if (!place) {
+      continue
+    }
+
+    const relatedPlace = related.get(place.id) || { place, mentions: [] }
+    relatedPlace.mentions.push({
+      sourceType: edge.source_type as MentionSourceType,
+      sourceId: edge.source_id,
+      mentionedName: edge.mentioned_name,
+    })
+    related.set(place.id, relatedPlace)
+  }
+
+  // Places mentioned by both contents first, then by score
+  return [...related.values()].sort(
+    (a, b) => b.mentions.length - a.mentions.length || (b.place.score || 0) - (a.place.score || 0),
+  )
+}
+
+/**
+ * Gets the places related to a place through the mentions graph, in both directions
+ */
+export async function getRelatedPlaces(
+  placeId: string,
+): Promise<{ result: RelatedPlaces | null; error: string | null }> {
+  const { data: edges, error } = await getPlaceMentionsOfPlace(placeId)
+
+  if (error) {
+    console.error(`❌ Error fetching mentions of place ${placeId}:`, error)
+    return { result: null, error: `Database error: ${error.message}` }
+  }
+
+  const outgoing = (edges || []).filter((edge) => edge.place_id === placeId)
+  const incoming = (edges || []).filter((edge) => edge.mentioned_place_id === placeId)
+  const relatedPlaceIds = [
+    ...new Set([...outgoing.map((edge) => edge.mentioned_place_id), ...incoming.map((edge) => edge.place_id)]),
+  ]
+
+  const places = new Map<string, RelatedPlace['place']>()
+  if (relatedPlaceIds.length > 0) {
+    const { data: relatedPlaces, error: placesError } = await getPlacesByIds(relatedPlaceIds)
+
+    if (placesError) {
+      console.error(`❌ Error fetching related places of ${placeId}:`, placesError)
+      return { result: null, error: `Database error: ${placesError.message}` }
+    }
+
+    for (const place of relatedPlaces || []) {
+      places.set(place.id, { id: place.id, name: place.name, type: place.type, score: place.score })
+    }
+  }
+
+  return {
+    result: {
+      placeId,
+      mentions: groupRelatedPlaces(outgoing, (edge) => edge.mentioned_place_id, places),
+      mentionedBy: groupRelatedPlaces(incoming, (edge) => edge.place_id, places),
+    },
+    error: null,
+  }
+}
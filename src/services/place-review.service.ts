@@ -0,0 +1,217 @@
+import { GeneratedPlace, getGeneratedPlacesByStatus, updateGeneratedPlace } from '../db/generated-places'
+import { Place } from '../db/places'
+import { getSourceById, Source } from '../db/sources'
+import { calculateDistance } from '../utils/geometry'
+import { calculateNameMatchScore } from '../utils/name-matcher'
+import { syncPlaceMentionsOfSources } from './place-mentions.service'
+import {
+  bumpVerifiedPlace,
+  createOrUpdatePlaceFromOsm,
+  searchOsmCandidates,
+  VerificationStatus,
+} from './place-verification.service'
+import { inferSourceSearchArea, SourceSearchArea } from './source-geography.service'
+
+export const REVIEWABLE_STATUSES: string[] = [VerificationStatus.MULTIPLE_MATCHES, VerificationStatus.NO_MATCH]
+
+export interface ReviewAlternative {
+  osmId: number
+  name: string
+  type: string
+  /** Distance from the center of the source's search area, when it is known */
+  distanceKm: number | null
+  /** Name match confidence (0-1) */
+  confidence: number
+  tags: Record<string, string>
+}
+
+export interface PendingReview {
+  generatedPlace: {
+    id: string
+    name: string | null
+    description: string | null
+    status: string | null
+    createdAt: string
+  }
+  source: { id: string; url: string; name: string | null } | null
+  searchArea: string | null
+  alternatives: ReviewAlternative[]
+}
+
+function searchAreaCenter(searchArea: SourceSearchArea): { lat: number; lon: number } {
+  return {
+    lat: (searchArea.bbox.south + searchArea.bbox.north) / 2,
+    lon: (searchArea.bbox.west + searchArea.bbox.east) / 2,
+  }
+}
+
+/**
+ * Searches OSM again for a generated place and returns the candidates, best name match first
+ */
+async function getReviewAlternatives(
+  generatedPlace: GeneratedPlace,
+  source: Source | null,
+): Promise<{ alternatives: ReviewAlternative[]; searchArea: SourceSearchArea | null }> {
+  if (!generatedPlace.name) {
+    return { alternatives: [], searchArea: null }
+  }
+
+  const searchArea = source ? await inferSourceSearchArea(source) : null
+  const { candidates } = await searchOsmCandidates(generatedPlace.name, searchArea)
+  const center = searchArea ? searchAreaCenter(searchArea) : null
+
+  const alternatives = candidates
+    .map((candidate) => ({
+      osmId: candidate.osm_id,
+      name: candidate.name,
+      type: candidate.type,
+      distanceKm:
+        center && candidate.latitude !== null && candidate.longitude !== null
+          ? Math.round(calculateDistance(center, { lat: candidate.latitude, lon: candidate.longitude }) * 10) / 10
+          : null,
+      confidence: Math.round(calculateNameMatchScore(generatedPlace.name!, candidate.name) * 100) / 100,
+      tags: candidate.tags,
+    }))
+    .sort((a, b) => b.confidence - a.confidence)
+
+  return { alternatives, searchArea }
+}
+
+/**
+ * Lists the generated places waiting for a manual review (MULTIPLE_MATCHES or NO_MATCH), oldest first,
+ * with their current OSM alternatives
+ */
+export async function listPendingReviews(
+  status: string | undefined,
+  limit: number,
+): Promise<{ reviews: PendingReview[]; error: string | null }> {
+  const { data: generatedPlaces, error } = await getGeneratedPlacesByStatus(
+    status ? [status] : REVIEWABLE_STATUSES,
+    limit,
+  )
+
+  if (error) {
+    console.error('❌ Error fetching generated places to review:', error)
+    return { reviews: [], error: `Database error: ${error.message}` }
+  }
+
+  const reviews: PendingReview[] = []
+
+  for (const generatedPlace of generatedPlaces || []) {
+    console.log(`🔍 Fetching OSM alternatives for: ${generatedPlace.name}`)
+    const { data: source } = generatedPlace.source_id ? await getSourceById(generatedPlace.source_id) : { data: null }
+    const { alternatives, searchArea } = await getReviewAlternatives(generatedPlace, source)
+
+    reviews.push({
+      generatedPlace: {
+        id: generatedPlace.id,
+        name: generatedPlace.name,
+        description: generatedPlace.description,
+        status: generatedPlace.status,
+        createdAt: generatedPlace.created_at,
+      },
+      source: generatedPlace.sources,
+      searchArea: searchArea ? `${searchArea.origin}: ${searchArea.label}` : null,
+      alternatives,
+    })
+  }
+
+  return { reviews, error: null }
+}
+
+/**
+ * Accepts one of the OSM alternatives of a generated place: creates the real place (or bumps the existing one)
+ * like the automatic verification does, and marks the generated place as ADDED
+ * @returns The place ID, or notFound if the OSM ID is not among the current alternatives
+ */
+export async function acceptReviewCandidate(
+  generatedPlace: GeneratedPlace,
+  osmId: number,
+  scoreBump: number,
+): Promise<{ placeId?: string; notFound?: boolean; error: string | null }> {
+  if (!generatedPlace.name || !generatedPlace.source_id) {
+    return { error: 'Generated place missing required fields (name or source_id)' }
+  }
+
+  const { data: source } = await getSourceById(generatedPlace.source_id)
+  const searchArea = source ? await inferSourceSearchArea(source) : null
+  const { candidates } = await searchOsmCandidates(generatedPlace.name, searchArea)
+  const match = candidates.find((candidate) => candidate.osm_id === osmId)
+
+  if (!match) {
+    return { notFound: true, error: `OSM ID ${osmId} is not among the alternatives of "${generatedPlace.name}"` }
+  }
+
+  const outcome = await createOrUpdatePlaceFromOsm(
+    match,
+    generatedPlace.description,
+    generatedPlace.source_id,
+    source?.url || 'unknown',
+    scoreBump,
+  )
+
+  if (outcome.status !== VerificationStatus.ADDED || !outcome.placeId) {
+    return { error: outcome.error || 'Failed to create place' }
+  }
+
+  const { error } = await updateGeneratedPlace(generatedPlace.id, {
+    status: VerificationStatus.ADDED,
+    place_id: outcome.placeId,
+  })
+
+  if (error) {
+    return { error: `Database error: ${error.message}` }
+  }
+
+  await syncPlaceMentionsOfSources([generatedPlace.source_id])
+  console.log(`✅ Review accepted: ${generatedPlace.name} → OSM ${osmId}`)
+  return { placeId: outcome.placeId, error: null }
+}
+
+/**
+ * Links a generated place to an existing real place, with the same score bump as a verified match
+ */
+export async function linkReviewToPlace(
+  generatedPlace: GeneratedPlace,
+  place: Place,
+  scoreBump: number,
+): Promise<{ error: string | null }> {
+  await bumpVerifiedPlace(
+    place,
+    generatedPlace.description,
+    generatedPlace.source_id || place.source_id || '',
+    scoreBump,
+  )
+
+  const { error } = await updateGeneratedPlace(generatedPlace.id, {
+    status: VerificationStatus.ADDED,
+    place_id: place.id,
+  })
+
+  if (error) {
+    return { error: `Database error: ${error.message}` }
+  }
+
+  if (generatedPlace.source_id) {
+    await syncPlaceMentionsOfSources([generatedPlace.source_id])
+  }
+  console.log(`🔗 Review linked: ${generatedPlace.name} → ${place.name}`)
+  return { error: null }
+}
+
+/**
+ * Rejects a generated place: it is not a real place (or not one we want), and won't be reviewed again
+ */
+export async function rejectReview(generatedPlace: GeneratedPlace): Promise<{ error: string | null }> {
+  const { error } = await updateGeneratedPlace(generatedPlace.id, {
+    status: VerificationStatus.REJECTED,
+    place_id: null,
+  })
+
+  if (error) {
+    return { error: `Database error: ${error.message}` }
+  }
+
+  console.log(`🚫 Review rejected: ${generatedPlace.name}`)
+  return { error: null }
+}
@@ -1,15 +1,23 @@
 import { getGeneratedPlacesWithoutStatus, updateGeneratedPlace } from '../db/generated-places'
-import { updatePlace } from '../db/places'
+import { ScoreChangeTrigger } from '../db/place-score-history'
+import { Place, updatePlace } from '../db/places'
 import { getSourceById } from '../db/sources'
 import { supabase } from '../services/supabase.service'
+import { BatchHooks } from '../types'
 import { formatPlaceObject } from '../utils/common'
+import { rankNameMatches } from '../utils/name-matcher'
 import { overpassService } from './overpass.service'
+import { syncPlaceMentionsOfSources } from './place-mentions.service'
+import { refreshPlaceScore } from './score-recalculation.service'
+import { inferSourceSearchArea, SourceSearchArea } from './source-geography.service'
+import { weightScoreBump } from './source-reputation.service'
 
 export enum VerificationStatus {
   ADDED = 'ADDED',
   NO_MATCH = 'NO_MATCH',
   NO_NATURE_MATCH = 'NO_NATURE_MATCH',
   MULTIPLE_MATCHES = 'MULTIPLE_MATCHES',
+  REJECTED = 'REJECTED',
 }
 
 export interface VerificationResult {
@@ -18,15 +26,149 @@ export interface VerificationResult {
   status: VerificationStatus
   placeId?: string
   osmId?: number
+  /** Area the OSM search was restricted to, inferred from the source */
+  searchArea?: string
+  /** Source score bump applied to the place, weighted by the source reputation */
+  scoreBump?: number
   error?: string
 }
 
-export interface VerificationOptions {
+// Minimum name match score for an OSM result to be accepted (see calculateNameMatchScore)
+const MIN_MATCH_CONFIDENCE = 0.8
+// The best OSM result must beat the second one by this much, otherwise the match is ambiguous
+const MIN_CONFIDENCE_MARGIN = 0.1
+
+export interface VerificationOptions extends BatchHooks<VerificationResult> {
   generatedPlaceId?: string
   scoreBump?: number
   limit?: number
 }
 
+export type OsmCandidate = ReturnType<typeof overpassService.processElements>[number]
+
+interface PlaceVerificationOutcome {
+  status: VerificationStatus
+  placeId?: string
+  osmId?: number
+  scoreBump?: number
+  error?: string
+}
+
+/**
+ * Search OSM for the nature places matching a name, around the source's area first when it is known
+ * @returns The candidate places, and whether OSM only found places that aren't nature places
+ */
+export async function searchOsmCandidates(
+  placeName: string,
+  searchArea: SourceSearchArea | null = null,
+): Promise<{ candidates: OsmCandidate[]; noNatureMatch: boolean }> {
+  let searchResult = await overpassService.searchPlaceByName(placeName, searchArea?.bbox)
+
+  if (searchArea && (searchResult.noNatureMatch || searchResult.elements.length === 0)) {
+    console.log(`🌍 No nature place found around ${searchArea.label}, searching all of France`)
+    searchResult = await overpassService.searchPlaceByName(placeName)
+  }
+
+  const candidates =
+    searchResult.elements && searchResult.elements.length > 0
+      ? overpassService.processElements(searchResult.elements)
+      : []
+
+  return { candidates, noNatureMatch: searchResult.noNatureMatch }
+}
+
+/**
+ * Bump the source score of a real place confirmed by a source, and link it to that source
+ * The bump is weighted by the reputation of the source's domain and whether the domain already mentions the place
+ * @returns The bump applied
+ */
+export async function bumpVerifiedPlace(
+  existingPlace: Place,
+  description: string | null,
+  sourceId: string,
+  scoreBump: number,
+): Promise<number> {
+  const weighted = await weightScoreBump(existingPlace.id, sourceId, scoreBump)
+  const currentScore = existingPlace.source_score || 0
+  const newSourceScore = currentScore + weighted.bump
+
+  await updatePlace(existingPlace.id, {
+    source_score: newSourceScore,
+    description: description || existingPlace.description,
+    source_id: sourceId,
+  })
+  await refreshPlaceScore(existingPlace.id, ScoreChangeTrigger.VERIFICATION)
+
+  console.log(`🔄 Updated existing place: ${existingPlace.name} (score: ${currentScore} → ${newSourceScore})`)
+  console.log(
+    `⚖️  Bump from ${weighted.domain || 'unknown domain'}: trust ${weighted.trust}` +
+      `${weighted.repeatedDomain ? ', domain already mentions the place' : ''}, ` +
+      `${weighted.independentSourcesCount} independent source(s)`,
+  )
+  return weighted.bump
+}
+
+/**
+ * Create a real place from an OSM match, or bump the existing place with the same OSM ID
+ */
+export async function createOrUpdatePlaceFromOsm(
+  match: OsmCandidate,
+  description: string | null,
+  sourceId: string,
+  sourceUrl: string,
+  scoreBump: number = 2,
+): Promise<PlaceVerificationOutcome> {
+  // Verify uniqueness by OSM ID before adding/updating
+  const { data: existingPlace, error: findError } = await supabase
+    .from('places')
+    .select('*')
+    .eq('osm_id', String(match.osm_id))
+    .maybeSingle()
+
+  if (findError && findError.code !== 'PGRST116') {
+    // PGRST116 is "not found" which is expected, other errors are real issues
+    console.error(`❌ Error checking for existing place:`, findError)
+    return { status: VerificationStatus.NO_MATCH, error: `Database error: ${findError.message}` }
+  }
+
+  if (existingPlace) {
+    // Place already exists with this OSM ID - update it instead of creating duplicate
+    const bump = await bumpVerifiedPlace(existingPlace, description, sourceId, scoreBump)
+    return { status: VerificationStatus.ADDED, placeId: existingPlace.id, osmId: match.osm_id, scoreBump: bump }
+  }
+
+  const { bump, domain, trust } = await weightScoreBump(null, sourceId, scoreBump)
+
+  // Create new place
+  const placeData = formatPlaceObject({
+    source: sourceUrl,
+    sourceId: sourceId,
+    osm_id: String(match.osm_id),
+    name: match.name,
+    type: match.type,
+    location: match.latitude && match.longitude ? `POINT(${match.longitude} ${match.latitude})` : null,
+    geometry: match.geometry,
+    description: description,
+    source_score: bump,
+    score: bump,
+    country: 'France', // Default, could be improved
+  })
+
+  // Insert the place
+  const { data: newPlace, error: insertError } = await supabase.from('places').insert(placeData).select().single()
+
+  if (insertError) {
+    console.error(`❌ Error creating place:`, insertError)
+    return { status: VerificationStatus.NO_MATCH, error: `Failed to create place: ${insertError.message}` }
+  }
+
+  // Apply the scoring context bonuses (area, protected area) on top of the source score
+  await refreshPlaceScore(newPlace.id, ScoreChangeTrigger.VERIFICATION)
+
+  console.log(`✅ Created new place: ${newPlace.name} (score: ${bump}, ${domain || 'unknown domain'} trust ${trust})`)
+  return { status: VerificationStatus.ADDED, placeId: newPlace.id, osmId: match.osm_id, scoreBump: bump }
+}
+
 /**
  * Search for a place in OSM by name and create/update a real place
  * Returns status and place information
@@ -37,144 +179,55 @@ async function searchAndCreatePlace(
   sourceId: string,
   sourceUrl: string,
   scoreBump: number = 2,
-): Promise<{
-  status: VerificationStatus
-  placeId?: string
-  osmId?: number
-  error?: string
-}> {
+  searchArea: SourceSearchArea | null = null,
+): Promise<PlaceVerificationOutcome> {
   try {
-    // Search OSM for the place
-    const searchResult = await overpassService.searchPlaceByName(placeName)
+    const { candidates, noNatureMatch } = await searchOsmCandidates(placeName, searchArea)
 
     // Check if Nominatim found results but none were nature places
-    if (searchResult.noNatureMatch) {
+    if (noNatureMatch) {
       return {
         status: VerificationStatus.NO_NATURE_MATCH,
         error: 'Place found in OSM but is not a nature place',
       }
     }
 
-    const osmElements = searchResult.elements
-    if (!osmElements || osmElements.length === 0) {
+    if (candidates.length === 0) {
       return { status: VerificationStatus.NO_MATCH, error: 'Place not found in OSM' }
     }
 
-    // Process elements and find best match
-    const processedPlaces = overpassService.processElements(osmElements)
-
-    if (processedPlaces.length === 0) {
-      return { status: VerificationStatus.NO_MATCH, error: 'No valid places found in OSM results' }
-    }
+    // Rank the OSM results by name match confidence: several results are only ambiguous
+    // when more than one of them matches the name well
+    const [best, runnerUp] = rankNameMatches(placeName, candidates, (place) => place.name)
 
-    // If multiple matches found, mark as MULTIPLE_MATCHES
-    if (processedPlaces.length > 1) {
+    if (best.score < MIN_MATCH_CONFIDENCE) {
+      const confidence = Math.round(best.score * 100)
       console.log(
-        `⚠️  Multiple matches found for "${placeName}" (${processedPlaces.length} results) - requires manual review`,
+        `⚠️  Low confidence (${confidence}%) for "${placeName}" → "${best.candidate.name}" - requires manual review`,
       )
       return {
         status: VerificationStatus.MULTIPLE_MATCHES,
-        error: `Multiple matches found: ${processedPlaces.length} results`,
+        error: `Low confidence match: ${confidence}% for "${best.candidate.name}" (${candidates.length} results)`,
       }
     }
 
-    // Single match - proceed with verification
-    const match = processedPlaces[0]
-
-    // Verify name similarity to ensure it's a good match
-    const normalizedPlaceName = placeName.toLowerCase().trim()
-    const normalizedOsmName = match.name.toLowerCase().trim()
-
-    let similarityScore = 0
-
-    // Exact match
-    if (normalizedOsmName === normalizedPlaceName) {
-      similarityScore = 100
-    }
-    // Contains the place name
-    else if (normalizedOsmName.includes(normalizedPlaceName) || normalizedPlaceName.includes(normalizedOsmName)) {
-      similarityScore = 50
-      // Prefer shorter names (more specific)
-      if (normalizedOsmName.length < normalizedPlaceName.length + 10) {
-        similarityScore += 20
-      }
-    }
-    // Similarity based on common words
-    else {
-      const placeWords = normalizedPlaceName.split(/\s+/)
-      const osmWords = normalizedOsmName.split(/\s+/)
-      const commonWords = placeWords.filter((word) => osmWords.includes(word))
-      similarityScore = (commonWords.length / Math.max(placeWords.length, osmWords.length)) * 30
-    }
-
-    // Require high confidence (at least 50) for a single match to be considered valid
-    if (similarityScore < 50) {
+    if (runnerUp && best.score - runnerUp.score < MIN_CONFIDENCE_MARGIN) {
       console.log(
-        `⚠️  Low similarity score (${similarityScore}) for "${placeName}" → "${match.name}" - requires manual review`,
+        `⚠️  Multiple matches found for "${placeName}" ("${best.candidate.name}", "${runnerUp.candidate.name}") - requires manual review`,
       )
       return {
         status: VerificationStatus.MULTIPLE_MATCHES,
-        error: `Low confidence match: similarity score ${similarityScore}`,
+        error: `Multiple matches found: ${candidates.length} results`,
       }
     }
 
-    console.log(`✅ Found OSM match: ${match.name} (similarity: ${similarityScore}, OSM ID: ${match.osm_id})`)
+    const match = best.candidate
 
-    // Verify uniqueness by OSM ID before adding/updating
-    const { data: existingPlace, error: findError } = await supabase
-      .from('places')
-      .select('*')
-      .eq('osm_id', String(match.osm_id))
-      .maybeSingle()
+    console.log(
+      `✅ Found OSM match: ${match.name} (confidence: ${Math.round(best.score * 100)}%, OSM ID: ${match.osm_id})`,
+    )
 
-    if (findError && findError.code !== 'PGRST116') {
-      // PGRST116 is "not found" which is expected, other errors are real issues
-      console.error(`❌ Error checking for existing place:`, findError)
-      return { status: VerificationStatus.NO_MATCH, error: `Database error: ${findError.message}` }
-    }
-
-    if (existingPlace) {
-      // Place already exists with this OSM ID - update it instead of creating duplicate
-      const currentScore = existingPlace.source_score || 0
-      const newSourceScore = currentScore + scoreBump
-      const newTotalScore = newSourceScore + (existingPlace.enhancement_score || 0)
-
-      await updatePlace(existingPlace.id, {
-        source_score: newSourceScore,
-        score: newTotalScore,
-        description: description || existingPlace.description,
-        source_id: sourceId,
-      })
-
-      console.log(`🔄 Updated existing place: ${existingPlace.name} (score: ${currentScore} → ${newSourceScore})`)
-      return { status: VerificationStatus.ADDED, placeId: existingPlace.id, osmId: match.osm_id }
-    }
-
-    // Create new place
-    const placeData = formatPlaceObject({
-      source: sourceUrl,
-      sourceId: sourceId,
-      osm_id: String(match.osm_id),
-      name: match.name,
-      type: match.type,
-      location: match.latitude && match.longitude ? `POINT(${match.longitude} ${match.latitude})` : null,
-      geometry: match.geometry,
-      description: description,
-      source_score: scoreBump,
-      score: scoreBump,
-      country: 'France', // Default, could be improved
-    })
-
-    // Insert the place
-    const { data: newPlace, error: insertError } = await supabase.from('places').insert(placeData).select().single()
-
-    if (insertError) {
-      console.error(`❌ Error creating place:`, insertError)
-      return { status: VerificationStatus.NO_MATCH, error: `Failed to create place: ${insertError.message}` }
-    }
-
-    console.log(`✅ Created new place: ${newPlace.name} (score: ${scoreBump})`)
-    return { status: VerificationStatus.ADDED, placeId: newPlace.id, osmId: match.osm_id }
+    return await createOrUpdatePlaceFromOsm(match, description, sourceId, sourceUrl, scoreBump)
   } catch (error) {
     console.error(`❌ Error searching/creating place "${placeName}":`, error)
     return { status: VerificationStatus.NO_MATCH, error: error instanceof Error ? error.message : 'Unknown error' }
@@ -182,13 +235,13 @@ async function searchAndCreatePlace(
 }
 
 /**
- * Core place verification logic - shared between API and scripts
+ * Core place verification logic - shared between API, jobs and scripts
  */
 export async function verifyPlacesCore(
   options: VerificationOptions = {},
 ): Promise<{ results: VerificationResult[]; error: string | null }> {
   try {
-    const { generatedPlaceId, scoreBump = 2, limit } = options
+    const { generatedPlaceId, scoreBump = 2, limit, onItemProcessed, shouldStop } = options
 
     let generatedPlaces: Array<{
       id: string
@@ -264,13 +317,31 @@ export async function verifyPlacesCore(
     console.log(`\n🔍 Verifying ${generatedPlaces.length} generated place(s) (without status)...`)
 
     const results: VerificationResult[] = []
+    // Search areas inferred per source, so that each source is only looked up once per run
+    const searchAreas = new Map<string, SourceSearchArea | null>()
+
+    for (let i = 0; i < generatedPlaces.length; i++) {
+      if (shouldStop && (await shouldStop())) {
+        console.log(`🛑 Verification stopped after ${i} place(s)`)
+        break
+      }
 
-    for (const generatedPlace of generatedPlaces) {
+      const generatedPlace = generatedPlaces[i]
       console.log(`\n--- Verifying: ${generatedPlace.name} ---`)
 
       // Get source URL for this place
       const sourceResponse = await getSourceById(generatedPlace.source_id)
-      const sourceUrl = sourceResponse.data?.url || 'unknown'
+      const source = sourceResponse.data
+      const sourceUrl = source?.url || 'unknown'
+
+      if (source && !searchAreas.has(source.id)) {
+        const searchArea = await inferSourceSearchArea(source)
+        searchAreas.set(source.id, searchArea)
+        if (searchArea) {
+          console.log(`🧭 Search area for source ${sourceUrl}: ${searchArea.label} (${searchArea.origin})`)
+        }
+      }
+      const searchArea = source ? searchAreas.get(source.id) || null : null
 
       const verification = await searchAndCreatePlace(
         generatedPlace.name,
@@ -278,6 +349,7 @@ export async function verifyPlacesCore(
         generatedPlace.source_id,
         sourceUrl,
         scoreBump,
+        searchArea,
       )
 
       // Update the generated place status
@@ -286,16 +358,31 @@ export async function verifyPlacesCore(
         place_id: verification.placeId || null,
       })
 
-      results.push({
+      const result: VerificationResult = {
         generatedPlaceId: generatedPlace.id,
         generatedPlaceName: generatedPlace.name,
         status: verification.status,
         placeId: verification.placeId,
         osmId: verification.osmId,
+        searchArea: searchArea ? `${searchArea.origin}: ${searchArea.label}` : undefined,
+        scoreBump: verification.scoreBump,
         error: verification.error,
-      })
+      }
+      results.push(result)
+
+      if (onItemProcessed) {
+        await onItemProcessed(result, i, generatedPlaces.length)
+      }
     }
 
+    // Link the places that mention the verified places (mentions graph)
+    const verifiedSourceIds = generatedPlaces
+      .filter((generatedPlace) =>
+        results.some((r) => r.generatedPlaceId === generatedPlace.id && r.status === VerificationStatus.ADDED),
+      )
+      .map((generatedPlace) => generatedPlace.source_id)
+    await syncPlaceMentionsOfSources(verifiedSourceIds)
+
     return {
       results,
       error: null,
@@ -0,0 +1,203 @@
+import { loadScraperConfig, ScraperConfig } from '../config/scraper.config'
+import { delay } from '../utils/common'
+import { getRobotsPolicy, isPathAllowed, parseRobotsTxt, RobotsPolicy } from '../utils/robots'
+
+/**
+ * Outcome of a polite fetch: the response, or no request at all when robots.txt disallows the URL
+ * Network errors and timeouts are thrown, like fetch
+ */
+export type PoliteFetchResult =
+  | { blockedByRobots: false; response: Response }
+  | { blockedByRobots: true; response: null }
+
+export interface PoliteFetchOptions {
+  headers?: Record<string, string>
+  timeoutMs?: number
+}
+
+interface RobotsCacheEntry {
+  /** null when the site has no robots.txt (4xx), i.e. everything is allowed */
+  policy: Promise<RobotsPolicy | null>
+  /** null while the robots.txt is being fetched */
+  expiresAt: number | null
+}
+
+interface HostState {
+  active: number
+  waiting: Array<() => void>
+  /** Earliest time the next request to the host may start */
+  nextRequestAt: number
+}
+
+// Crawlers only have to read the first 500 KiB of a robots.txt (RFC 9309)
+const MAX_ROBOTS_TXT_LENGTH = 500 * 1024
+// A robots.txt that couldn't be fetched (server error, timeout) is retried sooner than a fetched one
+const ROBOTS_ERROR_TTL_MS = 5 * 60 * 1000
+// Policy of a site whose robots.txt is unreachable: nothing may be crawled (RFC 9309 section 2.3.1.4)
+const DISALLOW_ALL_POLICY: RobotsPolicy = { rules: [{ allow: false, path: '/' }], crawlDelay: null }
+
+/**
+ * Shared HTTP layer of the scrapers: checks robots.txt (cached per origin), waits the crawl-delay between two
+ * requests to the same host and limits the number of requests in flight per host
+ */
+export class PoliteFetchService {
+  private config: ScraperConfig | null = null
+  private readonly robotsCache = new Map<string, RobotsCacheEntry>()
+  private readonly hosts = new Map<string, HostState>()
+
+  private getConfig(): ScraperConfig {
+    if (!this.config) {
+      this.config = loadScraperConfig()
+    }
+    return this.config
+  }
+
+  /**
+   * Fetches a URL with the scraper user agent, unless robots.txt disallows it
+   */
+  public async fetch(url: string, options: PoliteFetchOptions = {}): Promise<PoliteFetchResult> {
+    const config = this.getConfig()
+    const { blockedByRobots, result } = await this.schedule(url, () =>
+      fetch(url, {
+        headers: { 'User-Agent': config.userAgent, ...options.headers },
+        signal: AbortSignal.timeout(options.timeoutMs ?? config.timeoutMs),
+      }),
+    )
+
+    return blockedByRobots ? { blockedByRobots, response: null } : { blockedByRobots, response: result }
+  }
+
+  /**
+   * Runs a request to a URL made by other means than fetch (e.g. a headless browser) with the same robots.txt
+   * check, crawl-delay and per-host concurrency limit
+   */
+  public async schedule<T>(
+    url: string,
+    request: () => Promise<T>,
+  ): Promise<{ blockedByRobots: false; result: T } | { blockedByRobots: true; result: null }> {
+    const target = new URL(url)
+    const policy = this.getConfig().respectRobotsTxt ? await this.getRobotsPolicy(target.origin) : null
+
+    if (policy && !isPathAllowed(policy, `${target.pathname}${target.search}`)) {
+      console.warn(`🤖 Blocked by robots.txt: ${url}`)
+      return { blockedByRobots: true, result: null }
+    }
+
+    const result = await this.withHostSlot(target.host, this.getDelayMs(policy), request)
+    return { blockedByRobots: false, result }
+  }
+
+  /**
+   * Whether robots.txt allows the scrapers to fetch a URL (always true when robots.txt checks are disabled)
+   */
+  public async isAllowed(url: string): Promise<boolean> {
+    if (!this.getConfig().respectRobotsTxt) {
+      return true
+    }
+
+    const target = new URL(url)
+    const policy = await this.getRobotsPolicy(target.origin)
+    return !policy || isPathAllowed(policy, `${target.pathname}${target.search}`)
+  }
+
+  /**
+   * Robots.txt rules of an origin, from the cache or fetched once for concurrent callers
+   */
+  private getRobotsPolicy(origin: string): Promise<RobotsPolicy | null> {
+    const cached = this.robotsCache.get(origin)
+    if (cached && (cached.expiresAt === null || cached.expiresAt > Date.now())) {
+      return cached.policy
+    }
+
+    const entry: RobotsCacheEntry = { policy: Promise.resolve(null), expiresAt: null }
+    entry.policy = this.loadRobotsPolicy(origin).then(({ policy, ttlMs }) => {
+      entry.expiresAt = Date.now() + ttlMs
+      return policy
+    })
+    this.robotsCache.set(origin, entry)
+
+    return entry.policy
+  }
+
+  /**
+   * Fetches and parses the robots.txt of an origin
+   * A missing robots.txt (4xx) allows everything; an unreachable one (5xx, network error) disallows everything
+   * until it is fetched again, a few minutes later
+   */
+  private async loadRobotsPolicy(origin: string): Promise<{ policy: RobotsPolicy | null; ttlMs: number }> {
+    const config = this.getConfig()
+    const robotsUrl = `${origin}/robots.txt`
+
+    try {
+      const { status, content } = await this.withHostSlot(new URL(origin).host, config.minDelayMs, async () => {
+        const response = await fetch(robotsUrl, {
+          headers: { 'User-Agent': config.userAgent },
+          signal: AbortSignal.timeout(config.timeoutMs),
+        })
+        return { status: response.status, content: response.ok ? await response.text() : null }
+      })
+
+      if (content !== null) {
+        const policy = getRobotsPolicy(parseRobotsTxt(content.slice(0, MAX_ROBOTS_TXT_LENGTH)), config.robotsUserAgent)
+        console.log(`🤖 Loaded robots.txt of ${origin} (${policy.rules.length} rules)`)
+        return { policy, ttlMs: config.robotsCacheTtlMs }
+      }
+
+      if (status >= 400 && status < 500) {
+        return { policy: null, ttlMs: config.robotsCacheTtlMs }
+      }
+
+      console.warn(`⚠️  Could not fetch ${robotsUrl} (${status}), not crawling ${origin} for now`)
+    } catch (error) {
+      console.warn(`⚠️  Could not fetch ${robotsUrl}, not crawling ${origin} for now:`, error)
+    }
+
+    return { policy: DISALLOW_ALL_POLICY, ttlMs: Math.min(config.robotsCacheTtlMs, ROBOTS_ERROR_TTL_MS) }
+  }
+
+  /**
+   * Delay between two requests to a host: its robots.txt crawl-delay (capped), at least the configured minimum
+   */
+  private getDelayMs(policy: RobotsPolicy | null): number {
+    const config = this.getConfig()
+    const crawlDelayMs = policy && policy.crawlDelay !== null ? policy.crawlDelay * 1000 : 0
+    return Math.max(config.minDelayMs, Math.min(crawlDelayMs, config.maxCrawlDelayMs))
+  }
+
+  /**
+   * Runs a request once the host has a free slot and its delay since the previous request has elapsed
+   */
+  private async withHostSlot<T>(host: string, delayMs: number, request: () => Promise<T>): Promise<T> {
+    const state = this.getHostState(host)
+
+    while (state.active >= this.getConfig().maxConcurrentPerHost) {
+      await new Promise<void>((resolve) => state.waiting.push(resolve))
+    }
+    state.active++
+
+    try {
+      // Reserve the start time before waiting, so concurrent requests are spaced out too
+      const startAt = Math.max(Date.now(), state.nextRequestAt)
+      state.nextRequestAt = startAt + delayMs
+      if (startAt > Date.now()) {
+        await delay(startAt - Date.now())
+      }
+
+      return await request()
+    } finally {
+      state.active--
+      state.waiting.shift()?.()
+    }
+  }
+
+  private getHostState(host: string): HostState {
+    let state = this.hosts.get(host)
+    if (!state) {
+      state = { active: 0, waiting: [], nextRequestAt: 0 }
+      this.hosts.set(host, state)
+    }
+    return state
+  }
+}
+
+export const politeFetchService = new PoliteFetchService()
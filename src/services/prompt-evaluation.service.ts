@@ -0,0 +1,240 @@
+import { getPlacesWithRawContent } from '../db/places'
+import { buildPromptRequest, getPromptDefinition, PromptId, PromptInputs } from '../prompts/prompt-registry'
+import { getLlmProvider, getLlmProviderError } from './llm-provider.service'
+import { runWithLlmUsageContext } from './llm-usage.service'
+
+export type RawContentField = 'website_raw' | 'wikipedia_raw'
+
+/**
+ * Builds the input of the prompts that can be evaluated on the cached raw content of a place
+ */
+const EVALUATION_INPUTS: Partial<{ [K in PromptId]: (placeName: string, content: string) => PromptInputs[K] }> = {
+  'website-summary': (placeName, content) => ({ placeName, content }),
+  'wikipedia-summary': (placeName, content) => ({ placeName, content }),
+  'scraped-content-summary': (placeName, content) => ({ placeName, content }),
+  'scraped-content-analysis': (placeName, content) => ({ placeName, content }),
+  'mentioned-places': (placeName, content) => ({ placeName, content }),
+  'url-places-extraction': (_placeName, content) => ({ content }),
+  'visitor-facts': (placeName, content) => ({ placeName, content }),
+}
+
+export const EVALUABLE_PROMPT_IDS = Object.keys(EVALUATION_INPUTS) as PromptId[]
+
+export interface PromptEvaluationOptions {
+  promptId: PromptId
+  versionA: string
+  versionB: string
+  contentField: RawContentField
+  /** Number of places to evaluate on */
+  sampleSize: number
+}
+
+export interface PromptRunResult {
+  /** Parsed response, null when the call failed */
+  output: unknown
+  error: string | null
+  latencyMs: number
+}
+
+export interface PromptComparison {
+  placeId: string
+  placeName: string
+  contentLength: number
+  a: PromptRunResult
+  b: PromptRunResult
+}
+
+export interface PromptVersionStats {
+  version: string
+  description: string
+  successCount: number
+  errorCount: number
+  /** Responses without any content, e.g. no summary or no places */
+  emptyCount: number
+  averageLatencyMs: number
+  averageOutputLength: number
+}
+
+export interface PromptEvaluation {
+  promptId: PromptId
+  contentField: RawContentField
+  versionA: PromptVersionStats
+  versionB: PromptVersionStats
+  comparisons: PromptComparison[]
+}
+
+/**
+ * Readable text of a response: strings as is, lists joined, objects as "key: value" pairs
+ */
+export function describeOutput(output: unknown): string {
+  if (output === null || output === undefined) return ''
+  if (typeof output === 'string') return output
+  if (typeof output !== 'object') return String(output)
+  if (Array.isArray(output)) return output.map(describeOutput).join('; ')
+
+  return Object.entries(output as Record<string, unknown>)
+    .map(([key, value]) => `${key}: ${describeOutput(value)}`)
+    .join(' | ')
+}
+
+function isEmptyOutput(output: unknown): boolean {
+  if (output === null || output === undefined || output === false || output === '') return true
+  if (Array.isArray(output)) return output.length === 0
+  if (typeof output === 'object') return Object.values(output as Record<string, unknown>).every(isEmptyOutput)
+  return false
+}
+
+async function runPromptVersion<K extends PromptId>(
+  promptId: K,
+  version: string,
+  input: PromptInputs[K],
+): Promise<PromptRunResult> {
+  const provider = getLlmProvider()
+  if (!provider) {
+    return { output: null, error: getLlmProviderError() || 'AI service is not available', latencyMs: 0 }
+  }
+
+  const startedAt = Date.now()
+  try {
+    const output = await provider.generateJson<unknown>(buildPromptRequest(promptId, input, version))
+    return { output, error: null, latencyMs: Date.now() - startedAt }
+  } catch (error) {
+    return {
+      output: null,
+      error: error instanceof Error ? error.message : String(error),
+      latencyMs: Date.now() - startedAt,
+    }
+  }
+}
+
+function computeStats(promptId: PromptId, version: string, results: PromptRunResult[]): PromptVersionStats {
+  const successes = results.filter((result) => !result.error)
+  const average = (values: number[]) =>
+    values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0
+
+  return {
+    version,
+    description: getPromptDefinition(promptId).versions[version].description,
+    successCount: successes.length,
+    errorCount: results.length - successes.length,
+    emptyCount: successes.filter((result) => isEmptyOutput(result.output)).length,
+    averageLatencyMs: average(successes.map((result) => result.latencyMs)),
+    averageOutputLength: average(successes.map((result) => describeOutput(result.output).length)),
+  }
+}
+
+/**
+ * Runs two versions of a prompt on the cached raw content of a sample of places, for a side-by-side comparison
+ * Both versions run on the same content, one place at a time
+ */
+export async function evaluatePromptVersions(
+  options: PromptEvaluationOptions,
+): Promise<{ evaluation: PromptEvaluation | null; error: string | null }> {
+  const { promptId, versionA, versionB, contentField, sampleSize } = options
+  const buildInput = EVALUATION_INPUTS[promptId] as
+    | ((placeName: string, content: string) => PromptInputs[PromptId])
+    | undefined
+
+  if (!buildInput) {
+    return {
+      evaluation: null,
+      error: `Prompt ${promptId} can't be evaluated on raw content (evaluable: ${EVALUABLE_PROMPT_IDS.join(', ')})`,
+    }
+  }
+
+  const versions = getPromptDefinition(promptId).versions
+  for (const version of [versionA, versionB]) {
+    if (!versions[version]) {
+      return {
+        evaluation: null,
+        error: `Unknown version "${version}" for prompt ${promptId} (available: ${Object.keys(versions).join(', ')})`,
+      }
+    }
+  }
+
+  const { data: places, error } = await getPlacesWithRawContent(contentField, sampleSize)
+  if (error) {
+    return { evaluation: null, error: `Database error: ${error.message}` }
+  }
+
+  const sample = places || []
+  const comparisons: PromptComparison[] = []
+
+  for (const [index, place] of sample.entries()) {
+    const placeName = place.name || 'Unknown Place'
+    const content = place[contentField] || ''
+    const input = buildInput(placeName, content)
+
+    console.log(`🧪 [${index + 1}/${sample.length}] ${placeName} (${content.length} chars)`)
+
+    const [a, b] = await runWithLlmUsageContext({ placeId: place.id }, async () => [
+      await runPromptVersion(promptId, versionA, input),
+      await runPromptVersion(promptId, versionB, input),
+    ])
+
+    comparisons.push({ placeId: place.id, placeName, contentLength: content.length, a, b })
+  }
+
+  return {
+    evaluation: {
+      promptId,
+      contentField,
+      versionA: computeStats(
+        promptId,
+        versionA,
+        comparisons.map((comparison) => comparison.a),
+      ),
+      versionB: computeStats(
+        promptId,
+        versionB,
+        comparisons.map((comparison) => comparison.b),
+      ),
+      comparisons,
+    },
+    error: null,
+  }
+}
+
+function toTableCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>') || '_(empty)_'
+}
+
+function describeRun(result: PromptRunResult): string {
+  return result.error ? `❌ ${result.error}` : describeOutput(result.output)
+}
+
+/**
+ * Markdown report of an evaluation: the stats of both versions, then their responses side by side for each place
+ */
+export function formatEvaluationMarkdown(evaluation: PromptEvaluation): string {
+  const { versionA: a, versionB: b } = evaluation
+  const lines = [
+    `# Prompt evaluation: ${evaluation.promptId} ${a.version} vs ${b.version}`,
+    '',
+    `Evaluated on the \`${evaluation.contentField}\` of ${evaluation.comparisons.length} places.`,
+    '',
+    `| | ${a.version} | ${b.version} |`,
+    '| --- | --- | --- |',
+    `| Description | ${toTableCell(a.description)} | ${toTableCell(b.description)} |`,
+    `| Successful calls | ${a.successCount} | ${b.successCount} |`,
+    `| Failed calls | ${a.errorCount} | ${b.errorCount} |`,
+    `| Empty responses | ${a.emptyCount} | ${b.emptyCount} |`,
+    `| Average latency (ms) | ${a.averageLatencyMs} | ${b.averageLatencyMs} |`,
+    `| Average response length | ${a.averageOutputLength} | ${b.averageOutputLength} |`,
+  ]
+
+  for (const comparison of evaluation.comparisons) {
+    lines.push(
+      '',
+      `## ${comparison.placeName}`,
+      '',
+      `Place \`${comparison.placeId}\`, ${comparison.contentLength} characters of content`,
+      '',
+      `| ${a.version} (${comparison.a.latencyMs} ms) | ${b.version} (${comparison.b.latencyMs} ms) |`,
+      '| --- | --- |',
+      `| ${toTableCell(describeRun(comparison.a))} | ${toTableCell(describeRun(comparison.b))} |`,
+    )
+  }
+
+  return lines.join('\n') + '\n'
+}
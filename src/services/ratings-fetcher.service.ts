@@ -1,6 +1,10 @@
+import { ScoreChangeTrigger } from '../db/place-score-history'
 import { Place, updatePlace } from '../db/places'
+import { BatchHooks } from '../types'
 import { calculateGeometryCenter } from '../utils/common'
 import { googlePlacesService } from './google-places.service'
+import { refreshPlaceScore } from './score-recalculation.service'
+import { supabase } from './supabase.service'
 
 export interface RatingsFetchResult {
   placeId: string
@@ -12,6 +16,11 @@ export interface RatingsFetchResult {
   error?: string
 }
 
+export interface RatingsFetchOptions extends BatchHooks<RatingsFetchResult> {
+  minScore?: number
+  limit?: number
+}
+
 export class RatingsFetcherService {
   /**
    * Check if ratings should be fetched (not fetched or older than 6 months)
@@ -93,14 +102,14 @@ export class RatingsFetcherService {
         console.log(`❌ No ratings found for: ${place.name}`)
         result.error = 'No ratings found'
         result.googlePlacesId = googlePlacesId
-        // Still mark as fetched to avoid repeated attempts (but don't bump score)
+        // Still mark as fetched to avoid repeated attempts
         await this.markRatingsFetched(place.id, null, null, googlePlacesId)
         return result
       }
 
       console.log(`✅ Found rating: ${rating} (${ratingCount || 0} reviews)`)
 
-      // Store ratings, Google Places ID, and bump score (+2)
+      // Store ratings and Google Places ID, then recalculate the score
       await this.saveRatings(place.id, rating, ratingCount, googlePlacesId)
 
       result.success = true
@@ -118,7 +127,7 @@ export class RatingsFetcherService {
   }
 
   /**
-   * Save ratings to database and bump score (only if first time collecting ratings)
+   * Save ratings to database and recalculate the place score (which includes the Google rating bonus)
    */
   private async saveRatings(
     placeId: string,
@@ -127,33 +136,10 @@ export class RatingsFetcherService {
     googlePlacesId: string | null,
   ): Promise<void> {
     try {
-      // Get current place to check if it already has ratings
-      const { supabase } = await import('../services/supabase.service')
-      const { data: place, error: fetchError } = await supabase
-        .from('places')
-        .select('score, google_rating, enhancement_score')
-        .eq('id', placeId)
-        .single()
-
-      if (fetchError || !place) {
-        console.error(`❌ Error fetching place for score update:`, fetchError)
-        throw fetchError
-      }
-
-      // Only bump score if this is the first time collecting ratings
-      const isFirstTime = !place.google_rating
-      const currentScore = place.score || 0
-      const currentEnhancementScore = place.enhancement_score || 0
-      const newEnhancementScore = isFirstTime ? currentEnhancementScore + 2 : currentEnhancementScore
-      const newScore = isFirstTime ? currentScore + 2 : currentScore
-
-      // Prepare updates
       const updates: Partial<Place> = {
         google_rating: rating,
         google_rating_count: ratingCount,
         google_rating_fetched_at: new Date().toISOString(),
-        score: newScore,
-        enhancement_score: newEnhancementScore,
       }
 
       // Store Google Places ID if we found one and it's different
@@ -168,15 +154,8 @@ export class RatingsFetcherService {
         throw error
       }
 
-      if (isFirstTime) {
-        console.log(
-          `✅ Saved ratings and bumped scores: ${currentScore} → ${newScore} (+2 total), ${currentEnhancementScore} → ${newEnhancementScore} (+2 enhancement)`,
-        )
-      } else {
-        console.log(
-          `✅ Updated ratings (scores unchanged: ${currentScore} total, ${currentEnhancementScore} enhancement)`,
-        )
-      }
+      console.log(`✅ Saved ratings`)
+      await refreshPlaceScore(placeId, ScoreChangeTrigger.RATINGS)
     } catch (error) {
       console.error(`❌ Error in saveRatings:`, error)
       throw error
@@ -223,3 +202,74 @@ export class RatingsFetcherService {
 }
 
 export const ratingsFetcherService = new RatingsFetcherService()
+
+/**
+ * Core ratings fetching logic - shared between API, jobs and scripts
+ * Fetches ratings for places never fetched or fetched more than 6 months ago, highest scores first
+ */
+export async function fetchRatingsCore(
+  options: RatingsFetchOptions = {},
+): Promise<{ results: RatingsFetchResult[]; error: string | null }> {
+  const { minScore, limit, onItemProcessed, shouldStop } = options
+
+  // Get places that need ratings fetched
+  // Either never fetched, or fetched more than 6 months ago
+  const sixMonthsAgo = new Date()
+  sixMonthsAgo.setMonth(sixMonthsAgo.getMonth() - 6)
+
+  let query = supabase
+    .from('places')
+    .select('*')
+    .or(`google_rating_fetched_at.is.null,google_rating_fetched_at.lt.${sixMonthsAgo.toISOString()}`)
+
+  if (minScore !== undefined) {
+    query = query.gte('score', minScore)
+  }
+
+  // Order by score descending to prioritize higher-scored places
+  query = query.order('score', { ascending: false })
+
+  if (limit !== undefined) {
+    query = query.limit(limit)
+  }
+
+  const { data: placesToProcess, error: queryError } = await query
+
+  if (queryError) {
+    console.error('❌ Error fetching places:', queryError)
+    return { results: [], error: `Database error: ${queryError.message}` }
+  }
+
+  if (!placesToProcess || placesToProcess.length === 0) {
+    return { results: [], error: null }
+  }
+
+  console.log(`📋 Found ${placesToProcess.length} places to process`)
+
+  const results: RatingsFetchResult[] = []
+
+  // Process places one by one with delay
+  for (let i = 0; i < placesToProcess.length; i++) {
+    if (shouldStop && (await shouldStop())) {
+      console.log(`🛑 Ratings fetch stopped after ${i} places`)
+      break
+    }
+
+    const place = placesToProcess[i] as Place
+    console.log(`\n📍 Processing place ${i + 1}/${placesToProcess.length}: ${place.name}`)
+
+    const result = await ratingsFetcherService.fetchRatingsForPlace(place)
+    results.push(result)
+
+    if (onItemProcessed) {
+      await onItemProcessed(result, i, placesToProcess.length)
+    }
+
+    // Add delay between requests (except for the last one)
+    if (i < placesToProcess.length - 1) {
+      await ratingsFetcherService.delay()
+    }
+  }
+
+  return { results, error: null }
+}
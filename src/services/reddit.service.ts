@@ -1,4 +1,5 @@
 import { summarizeRedditContent } from './ai.service'
+import { getHttpClient } from './http-client.service'
 
 interface RedditPost {
   data: {
@@ -74,7 +75,7 @@ export class RedditService {
     try {
       const auth = Buffer.from(`${clientId}:${clientSecret}`).toString('base64')
 
-      const response = await fetch('https://www.reddit.com/api/v1/access_token', {
+      const response = await getHttpClient('reddit').request('https://www.reddit.com/api/v1/access_token', {
         method: 'POST',
         headers: {
           Authorization: `Basic ${auth}`,
@@ -133,7 +134,7 @@ export class RedditService {
         const searchQuery = `${query} (${allSubreddits.map((sub) => `subreddit:${sub}`).join(' OR ')})`
 
         try {
-          const response = await fetch(
+          const response = await getHttpClient('reddit').request(
             `https://oauth.reddit.com/search?q=${encodeURIComponent(searchQuery)}&sort=top&t=all&limit=3`,
             {
               headers: {
@@ -191,12 +192,15 @@ export class RedditService {
     }
 
     try {
-      const response = await fetch(`https://oauth.reddit.com${permalink}.json?sort=top&limit=10`, {
-        headers: {
-          Authorization: `Bearer ${token}`,
-          'User-Agent': 'EmpreinteBot/1.0 (Nature Places Data Enhancement)',
+      const response = await getHttpClient('reddit').request(
+        `https://oauth.reddit.com${permalink}.json?sort=top&limit=10`,
+        {
+          headers: {
+            Authorization: `Bearer ${token}`,
+            'User-Agent': 'EmpreinteBot/1.0 (Nature Places Data Enhancement)',
+          },
         },
-      })
+      )
 
       if (!response.ok) {
         return []
@@ -0,0 +1,187 @@
+import { loadSchedulerConfig, ScheduledTaskConfig, ScheduledTaskName } from '../config/scheduler.config'
+import { enhancementController } from '../controllers/enhancement.controller'
+import { acquireScheduledRunLock, finishScheduledRun, ScheduledRunStatus } from '../db/scheduled-runs'
+import { createProcessStats, ProcessStats } from '../utils/common'
+import { CronSchedule, matchesCronSchedule, parseCronExpression } from '../utils/cron'
+import { checkContentChangesCore } from './content-change.service'
+import { fetchPhotosCore } from './photo-fetcher.service'
+import { VerificationStatus, verifyPlacesCore } from './place-verification.service'
+import { fetchRatingsCore } from './ratings-fetcher.service'
+import { recalculateScoresCore } from './score-recalculation.service'
+
+type TaskRunner = (config: ScheduledTaskConfig, stats: ProcessStats) => Promise<void>
+
+/**
+ * Pipelines run by the scheduler
+ * Each runner fills the ProcessStats of the run: insertedCount counts items that were successfully enriched,
+ * errorCount counts items that failed
+ */
+const TASK_RUNNERS: Record<ScheduledTaskName, TaskRunner> = {
+  'fetch-photos': async (config, stats) => {
+    const { results, error } = await fetchPhotosCore({ limit: config.limit })
+    if (error) {
+      throw new Error(error)
+    }
+    stats.processedCount = results.length
+    stats.insertedCount = results.filter((r) => r.success).length
+    stats.errorCount = results.filter((r) => r.error).length
+  },
+  'fetch-ratings': async (config, stats) => {
+    const { results, error } = await fetchRatingsCore({ limit: config.limit })
+    if (error) {
+      throw new Error(error)
+    }
+    stats.processedCount = results.length
+    stats.insertedCount = results.filter((r) => r.success).length
+    stats.errorCount = results.filter((r) => r.error).length
+  },
+  'enhance-places': async (config, stats) => {
+    const results = await enhancementController.enhanceAllPlaces(config.limit)
+    stats.processedCount = results.length
+    stats.insertedCount = results.filter((r) => r.websiteEnhanced || r.redditEnhanced || r.wikipediaEnhanced).length
+    stats.errorCount = results.filter((r) => r.errors.length > 0).length
+  },
+  'check-content-changes': async (config, stats) => {
+    const { results, error } = await checkContentChangesCore({ limit: config.limit })
+    if (error) {
+      throw new Error(error)
+    }
+    stats.processedCount = results.length
+    stats.insertedCount = results.filter((r) => r.reanalyzed).length
+    stats.errorCount = results.filter((r) => r.status === 'failed').length
+  },
+  'recalculate-scores': async (_config, stats) => {
+    const { results, error } = await recalculateScoresCore()
+    if (error) {
+      throw new Error(error)
+    }
+    stats.processedCount = results.length
+    stats.insertedCount = results.filter((r) => r.updated).length
+    stats.errorCount = results.filter((r) => r.error).length
+  },
+  'verify-places': async (config, stats) => {
+    const { results, error } = await verifyPlacesCore({ limit: config.limit })
+    if (error) {
+      throw new Error(error)
+    }
+    stats.processedCount = results.length
+    stats.insertedCount = results.filter((r) => r.status === VerificationStatus.ADDED).length
+    stats.errorCount = results.filter((r) => r.error).length
+  },
+}
+
+interface ScheduledTask {
+  config: ScheduledTaskConfig
+  schedule: CronSchedule
+}
+
+export class SchedulerService {
+  private tasks: ScheduledTask[] = []
+  private timer: NodeJS.Timeout | null = null
+  // Start of the last minute ticked (ms since epoch)
+  private lastTickAt = 0
+  private runningTasks = new Set<ScheduledTaskName>()
+
+  /**
+   * Load the schedules and start checking them every minute
+   * @throws Error if a cron expression is invalid
+   */
+  start(): void {
+    if (this.timer) {
+      return
+    }
+
+    this.tasks = loadSchedulerConfig()
+      .filter((config) => config.enabled)
+      .map((config) => ({ config, schedule: parseCronExpression(config.cron) }))
+
+    console.log(`⏰ Scheduler started with ${this.tasks.length} task(s)`)
+    for (const { config } of this.tasks) {
+      console.log(`   ${config.task}: "${config.cron}"${config.limit ? ` (limit ${config.limit})` : ''}`)
+    }
+
+    this.scheduleNextTick()
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer)
+      this.timer = null
+    }
+  }
+
+  /**
+   * Run a task now, unless a run of the same task is already in progress
+   * @returns false if the task was skipped because it is already running
+   */
+  async runTask(config: ScheduledTaskConfig): Promise<boolean> {
+    // In-process guard first, then the database lock shared by all server instances
+    if (this.runningTasks.has(config.task)) {
+      console.log(`⏭️  Skipping ${config.task}: previous run still in progress`)
+      return false
+    }
+
+    this.runningTasks.add(config.task)
+    try {
+      const run = await acquireScheduledRunLock(config.task, config.lockTimeoutMinutes * 60 * 1000)
+      if (!run) {
+        console.log(`⏭️  Skipping ${config.task}: already running on another instance`)
+        return false
+      }
+
+      console.log(`\n⏰ Starting scheduled ${config.task} run ${run.id}`)
+      const stats = createProcessStats()
+
+      try {
+        await TASK_RUNNERS[config.task](config, stats)
+        await finishScheduledRun(run.id, ScheduledRunStatus.COMPLETED, this.serializeStats(stats))
+        console.log(`✅ Scheduled ${config.task} run completed (${stats.processedCount} processed)`)
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+        console.error(`❌ Scheduled ${config.task} run failed:`, error)
+        await finishScheduledRun(run.id, ScheduledRunStatus.FAILED, this.serializeStats(stats), errorMessage)
+      }
+
+      return true
+    } finally {
+      this.runningTasks.delete(config.task)
+    }
+  }
+
+  private serializeStats(stats: ProcessStats) {
+    return {
+      ...stats,
+      startTime: stats.startTime.toISOString(),
+      durationMs: Date.now() - stats.startTime.getTime(),
+    }
+  }
+
+  /**
+   * Wait until the start of the next minute, then run the tasks due at that minute
+   * The tick is for the minute the timer was set for: a timer firing a few milliseconds early
+   * must neither evaluate the previous minute again nor be followed by a second tick for the same minute
+   */
+  private scheduleNextTick(): void {
+    const now = Date.now()
+    const nextMinute = Math.max(Math.floor(now / 60000) * 60000 + 60000, this.lastTickAt + 60000)
+
+    this.timer = setTimeout(() => {
+      this.lastTickAt = nextMinute
+      this.tick(new Date(nextMinute))
+      this.scheduleNextTick()
+    }, nextMinute - now)
+  }
+
+  private tick(date: Date): void {
+    for (const task of this.tasks) {
+      if (matchesCronSchedule(task.schedule, date)) {
+        // Not awaited: a long run must not delay the other tasks
+        this.runTask(task.config).catch((error) => {
+          console.error(`❌ Error running scheduled ${task.config.task}:`, error)
+        })
+      }
+    }
+  }
+}
+
+export const schedulerService = new SchedulerService()
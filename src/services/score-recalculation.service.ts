@@ -0,0 +1,301 @@
+import { createScoreHistoryEntry, ScoreChangeTrigger } from '../db/place-score-history'
+import { getPlaceScoringContexts } from '../db/place-scoring'
+import { getPlaceById, Place } from '../db/places'
+import { BatchHooks } from '../types'
+import { calculatePlaceScore, PlaceScoreCalculation, PlaceScoreContext } from './score.service'
+import { supabase } from './supabase.service'
+
+export interface ScoreRecalculationResult {
+  placeId: string
+  placeName: string
+  previousEnhancementScore: number
+  newEnhancementScore: number
+  previousTotalScore: number
+  newTotalScore: number
+  calculation: PlaceScoreCalculation
+  updated: boolean
+  error?: string
+}
+
+export interface ScoreRecalculationOptions extends BatchHooks<ScoreRecalculationResult> {
+  /** Compute the new scores without saving them */
+  dryRun?: boolean
+  /** Recorded in the score history of the places whose score changed */
+  trigger?: ScoreChangeTrigger
+}
+
+interface ScoreStats {
+  mean: number
+  median: number
+  min: number
+  max: number
+}
+
+export interface ScoreDistributionReport {
+  placesCount: number
+  increasedCount: number
+  decreasedCount: number
+  unchangedCount: number
+  previous: ScoreStats
+  next: ScoreStats
+  buckets: Array<{ range: string; previousCount: number; newCount: number }>
+  topChanges: ScoreRecalculationResult[]
+}
+
+const DISTRIBUTION_BUCKET_SIZE = 5
+const DISTRIBUTION_BUCKET_COUNT = 6
+const TOP_CHANGES_COUNT = 10
+
+/**
+ * Calculates the score of a place and saves it if it changed
+ * This is the single write path for place scores: enrichment services call it (through refreshPlaceScore)
+ * after saving their data instead of bumping scores themselves
+ * Every saved change is recorded in place_score_history with its breakdown and trigger
+ */
+async function applyPlaceScore(
+  place: Place,
+  context: PlaceScoreContext,
+  trigger: ScoreChangeTrigger,
+  dryRun: boolean = false,
+): Promise<ScoreRecalculationResult> {
+  const calculation = calculatePlaceScore(place, context)
+
+  const result: ScoreRecalculationResult = {
+    placeId: place.id,
+    placeName: place.name || 'Unknown',
+    previousEnhancementScore: place.enhancement_score || 0,
+    newEnhancementScore: calculation.totalEnhancementScore,
+    previousTotalScore: place.score || 0,
+    newTotalScore: calculation.totalScore,
+    calculation,
+    updated: false,
+  }
+
+  const hasChanged =
+    result.previousEnhancementScore !== result.newEnhancementScore || result.previousTotalScore !== result.newTotalScore
+
+  if (!hasChanged || dryRun) {
+    return result
+  }
+
+  const { error } = await supabase
+    .from('places')
+    .update({
+      enhancement_score: result.newEnhancementScore,
+      score: result.newTotalScore,
+    })
+    .eq('id', place.id)
+
+  if (error) {
+    result.error = error.message
+    return result
+  }
+
+  result.updated = true
+
+  const { error: historyError } = await createScoreHistoryEntry({
+    place_id: place.id,
+    old_score: result.previousTotalScore,
+    new_score: result.newTotalScore,
+    old_enhancement_score: result.previousEnhancementScore,
+    new_enhancement_score: result.newEnhancementScore,
+    breakdown: { ...calculation },
+    trigger,
+  })
+
+  if (historyError) {
+    // Don't fail the update - the score itself was saved
+    console.error(`❌ Error recording score history for place ${place.id}:`, historyError)
+  }
+
+  return result
+}
+
+/**
+ * Recalculates and saves the score of a single place from its current data
+ * @param trigger What caused the recalculation, recorded in the score history
+ * @returns The recalculation result, or null if the place or its scoring context could not be loaded
+ */
+export async function refreshPlaceScore(
+  placeId: string,
+  trigger: ScoreChangeTrigger,
+): Promise<ScoreRecalculationResult | null> {
+  const { data: place, error } = await getPlaceById(placeId)
+
+  if (error || !place) {
+    console.error(`❌ Error fetching place ${placeId} for score update:`, error)
+    return null
+  }
+
+  // Without its context the place would lose its photos, area, protected area and mentions points
+  const { data: contexts, error: contextsError } = await getPlaceScoringContexts([place.id])
+
+  if (contextsError) {
+    console.error(`❌ Error fetching scoring context of place ${placeId}:`, contextsError)
+    return null
+  }
+
+  const result = await applyPlaceScore(place, contexts?.get(place.id) || {}, trigger)
+
+  if (result.error) {
+    console.error(`❌ Failed to update scores: ${result.error}`)
+  } else if (result.updated) {
+    console.log(
+      `📈 Updated scores: ${result.previousEnhancementScore} → ${result.newEnhancementScore} (enhancement), ${result.previousTotalScore} → ${result.newTotalScore} (total)`,
+    )
+  }
+
+  return result
+}
+
+/**
+ * Core score recalculation logic - shared between scripts and the scheduler
+ * Recomputes the enhancement score of every place and saves the places whose scores changed
+ */
+export async function recalculateScoresCore(
+  options: ScoreRecalculationOptions = {},
+): Promise<{ results: ScoreRecalculationResult[]; places: Place[]; error: string | null }> {
+  const { dryRun = false, trigger = ScoreChangeTrigger.RECALCULATE_SCORES, onItemProcessed, shouldStop } = options
+
+  // Fetch all places
+  console.log('📋 Fetching all places...')
+  const { data: places, error } = await supabase.from('places').select('*')
+
+  if (error) {
+    console.error('❌ Error fetching places:', error)
+    return { results: [], places: [], error: `Database error: ${error.message}` }
+  }
+
+  if (!places || places.length === 0) {
+    return { results: [], places: [], error: null }
+  }
+
+  console.log(`📊 Found ${places.length} places to process\n`)
+
+  console.log('📐 Fetching scoring context (area, protected areas, photos)...')
+  const { data: contexts, error: contextsError } = await getPlaceScoringContexts()
+
+  if (contextsError) {
+    console.error('❌ Error fetching place scoring context:', contextsError)
+    return { results: [], places: [], error: `Database error: ${contextsError.message}` }
+  }
+
+  const results: ScoreRecalculationResult[] = []
+
+  for (let i = 0; i < places.length; i++) {
+    if (shouldStop && (await shouldStop())) {
+      console.log(`🛑 Score recalculation stopped after ${i} places`)
+      break
+    }
+
+    const place = places[i]
+    console.log(`📍 Processing place ${i + 1}/${places.length}: ${place.name}`)
+
+    const result = await applyPlaceScore(place, contexts?.get(place.id) || {}, trigger, dryRun)
+    const { calculation } = result
+
+    if (calculation.websiteScore > 0) {
+      console.log(`  ✅ Website enhancement found (+${calculation.websiteScore} points)`)
+    }
+    if (calculation.redditScore > 0) {
+      console.log(`  ✅ Reddit enhancement found (+${calculation.redditScore} points)`)
+    }
+    if (calculation.wikipediaScore > 0) {
+      console.log(`  ✅ Wikipedia enhancement found (+${calculation.wikipediaScore} points)`)
+    }
+    if (calculation.googleRatingScore > 0) {
+      console.log(`  ✅ Google rating found (+${calculation.googleRatingScore} points)`)
+    }
+    if (calculation.photosScore > 0) {
+      console.log(`  ✅ Photos found (+${calculation.photosScore} points)`)
+    }
+    if (calculation.areaScore > 0) {
+      console.log(`  ✅ Large area (+${calculation.areaScore} points)`)
+    }
+    if (calculation.protectedAreaScore > 0) {
+      console.log(`  ✅ Within a protected area (+${calculation.protectedAreaScore} points)`)
+    }
+    if (calculation.mentionsScore > 0) {
+      console.log(`  ✅ Mentioned by other places (+${calculation.mentionsScore} points)`)
+    }
+
+    if (result.error) {
+      console.error(`  ❌ Failed to update scores: ${result.error}`)
+    } else if (
+      result.previousEnhancementScore === result.newEnhancementScore &&
+      result.previousTotalScore === result.newTotalScore
+    ) {
+      console.log(`  ✅ Scores already correct`)
+    } else {
+      console.log(
+        `  📈 ${dryRun ? 'Would update' : 'Updated'} scores: ${result.previousEnhancementScore} → ${result.newEnhancementScore} (enhancement), ${result.previousTotalScore} → ${result.newTotalScore} (total)`,
+      )
+    }
+
+    results.push(result)
+
+    if (onItemProcessed) {
+      await onItemProcessed(result, i, places.length)
+    }
+
+    console.log() // Empty line for readability
+  }
+
+  return { results, places, error: null }
+}
+
+function computeScoreStats(scores: number[]): ScoreStats {
+  if (scores.length === 0) {
+    return { mean: 0, median: 0, min: 0, max: 0 }
+  }
+
+  const sorted = [...scores].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+
+  return {
+    mean: Math.round((sorted.reduce((sum, s) => sum + s, 0) / sorted.length) * 100) / 100,
+    median: sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle],
+    min: sorted[0],
+    max: sorted[sorted.length - 1],
+  }
+}
+
+/**
+ * Summarizes how the total score distribution shifts between the previous and new scores
+ * Used by the recalculate-scores dry-run to evaluate scoring config changes before applying them
+ */
+export function buildScoreDistributionReport(results: ScoreRecalculationResult[]): ScoreDistributionReport {
+  const bucketIndex = (score: number) =>
+    Math.min(Math.max(Math.floor(score / DISTRIBUTION_BUCKET_SIZE), 0), DISTRIBUTION_BUCKET_COUNT - 1)
+
+  const buckets = Array.from({ length: DISTRIBUTION_BUCKET_COUNT }, (_, i) => {
+    const start = i * DISTRIBUTION_BUCKET_SIZE
+    const isLast = i === DISTRIBUTION_BUCKET_COUNT - 1
+    return {
+      range: isLast ? `${start}+` : `${start}-${start + DISTRIBUTION_BUCKET_SIZE - 1}`,
+      previousCount: 0,
+      newCount: 0,
+    }
+  })
+
+  for (const result of results) {
+    buckets[bucketIndex(result.previousTotalScore)].previousCount++
+    buckets[bucketIndex(result.newTotalScore)].newCount++
+  }
+
+  const topChanges = [...results]
+    .filter((r) => r.newTotalScore !== r.previousTotalScore)
+    .sort((a, b) => Math.abs(b.newTotalScore - b.previousTotalScore) - Math.abs(a.newTotalScore - a.previousTotalScore))
+    .slice(0, TOP_CHANGES_COUNT)
+
+  return {
+    placesCount: results.length,
+    increasedCount: results.filter((r) => r.newTotalScore > r.previousTotalScore).length,
+    decreasedCount: results.filter((r) => r.newTotalScore < r.previousTotalScore).length,
+    unchangedCount: results.filter((r) => r.newTotalScore === r.previousTotalScore).length,
+    previous: computeScoreStats(results.map((r) => r.previousTotalScore)),
+    next: computeScoreStats(results.map((r) => r.newTotalScore)),
+    buckets,
+    topChanges,
+  }
+}
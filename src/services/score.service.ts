@@ -1,11 +1,28 @@
+import { PointsTier, SCORING_CONFIG, ScoringConfig } from '../config/scoring.config'
 import { Tables } from '../types/database'
 
 type Place = Tables<'places'>
 
+/**
+ * Place data that doesn't live on the places row, see getPlaceScoringContexts
+ */
+export interface PlaceScoreContext {
+  photoCount?: number
+  areaM2?: number | null
+  inProtectedArea?: boolean
+  /** Number of other places mentioning the place, see place_mentions */
+  mentionedByCount?: number
+}
+
 export interface EnhancementScoreCalculation {
   websiteScore: number
   redditScore: number
   wikipediaScore: number
+  googleRatingScore: number
+  photosScore: number
+  areaScore: number
+  protectedAreaScore: number
+  mentionsScore: number
   totalEnhancementScore: number
 }
 
@@ -14,6 +31,8 @@ export interface PlaceScoreCalculation extends EnhancementScoreCalculation {
   totalScore: number
 }
 
+const DAY_MS = 24 * 60 * 60 * 1000
+
 export function isValidEnhancement(field: string | null): boolean {
   if (!field) return false
   if (field === 'not found') return false
@@ -21,39 +40,119 @@ export function isValidEnhancement(field: string | null): boolean {
   return true
 }
 
-export function calculateEnhancementScore(place: Place): EnhancementScoreCalculation {
-  let websiteScore = 0
-  let redditScore = 0
-  let wikipediaScore = 0
+/**
+ * Returns the points of the first tier whose minimum is reached (tiers are sorted by descending min)
+ */
+function pointsForTier(value: number, tiers: PointsTier[]): number {
+  const tier = tiers.find((t) => value >= t.min)
+  return tier ? tier.points : 0
+}
 
-  // Website enhancement (+2 points)
-  if (isValidEnhancement(place.website_generated)) {
-    websiteScore = 2
-  }
+/**
+ * Returns the factor (between minFactor and 1) applied to the points of an enrichment
+ * based on when it was collected. Enrichments without a timestamp are not decayed.
+ */
+export function calculateStaleDecayFactor(
+  collectedAt: string | null,
+  config: ScoringConfig = SCORING_CONFIG,
+  now: Date = new Date(),
+): number {
+  if (!collectedAt) return 1
 
-  // Reddit enhancement (+2 points)
-  if (isValidEnhancement(place.reddit_generated)) {
-    redditScore = 2
-  }
+  const { graceDays, decayDays, minFactor } = config.staleDecay
+  const ageDays = (now.getTime() - new Date(collectedAt).getTime()) / DAY_MS
 
-  // Wikipedia enhancement (+4 points)
-  if (isValidEnhancement(place.wikipedia_generated)) {
-    wikipediaScore = 4
-  }
+  if (isNaN(ageDays) || ageDays <= graceDays) return 1
+  if (decayDays <= 0) return minFactor
+
+  const progress = Math.min(1, (ageDays - graceDays) / decayDays)
+  return 1 - (1 - minFactor) * progress
+}
 
-  const totalEnhancementScore = websiteScore + redditScore + wikipediaScore
+function calculateGoogleRatingScore(place: Place, config: ScoringConfig, now: Date): number {
+  if (!place.google_rating) return 0
+
+  const { basePoints, ratingTiers, countTiers, maxPoints } = config.googleRating
+  const points =
+    basePoints +
+    pointsForTier(place.google_rating, ratingTiers) +
+    pointsForTier(place.google_rating_count || 0, countTiers)
+
+  return Math.min(points, maxPoints) * calculateStaleDecayFactor(place.google_rating_fetched_at, config, now)
+}
+
+/**
+ * Calculates the enhancement score of a place from its enrichments and scoring context
+ * All weights, caps and decay come from the scoring config
+ */
+export function calculateEnhancementScore(
+  place: Place,
+  context: PlaceScoreContext = {},
+  config: ScoringConfig = SCORING_CONFIG,
+  now: Date = new Date(),
+): EnhancementScoreCalculation {
+  const decay = (collectedAt: string | null) => calculateStaleDecayFactor(collectedAt, config, now)
+
+  const websiteScore = isValidEnhancement(place.website_generated)
+    ? Math.round(config.enrichments.website.points * decay(place.last_website_analyzed_at || place.last_enhanced_at))
+    : 0
+
+  const redditScore = isValidEnhancement(place.reddit_generated)
+    ? Math.round(config.enrichments.reddit.points * decay(place.last_enhanced_at))
+    : 0
+
+  const wikipediaScore = isValidEnhancement(place.wikipedia_generated)
+    ? Math.round(
+        config.enrichments.wikipedia.points * decay(place.last_wikipedia_analyzed_at || place.last_enhanced_at),
+      )
+    : 0
+
+  const googleRatingScore = Math.round(calculateGoogleRatingScore(place, config, now))
+
+  const photosScore = (context.photoCount || 0) > 0 ? config.photos.points : 0
+
+  const areaScore = context.areaM2 ? pointsForTier(context.areaM2, config.area.tiers) : 0
+
+  const protectedAreaScore =
+    context.inProtectedArea && place.type && config.protectedArea.boostedTypes.includes(place.type)
+      ? config.protectedArea.points
+      : 0
+
+  const mentionsScore = pointsForTier(context.mentionedByCount || 0, config.mentions.tiers)
+
+  const totalEnhancementScore = Math.min(
+    websiteScore +
+      redditScore +
+      wikipediaScore +
+      googleRatingScore +
+      photosScore +
+      areaScore +
+      protectedAreaScore +
+      mentionsScore,
+    config.maxEnhancementScore,
+  )
 
   return {
     websiteScore,
     redditScore,
     wikipediaScore,
+    googleRatingScore,
+    photosScore,
+    areaScore,
+    protectedAreaScore,
+    mentionsScore,
     totalEnhancementScore,
   }
 }
 
-export function calculatePlaceScore(place: Place): PlaceScoreCalculation {
+export function calculatePlaceScore(
+  place: Place,
+  context: PlaceScoreContext = {},
+  config: ScoringConfig = SCORING_CONFIG,
+  now: Date = new Date(),
+): PlaceScoreCalculation {
   const sourceScore = place.source_score || 0
-  const enhancement = calculateEnhancementScore(place)
+  const enhancement = calculateEnhancementScore(place, context, config, now)
   const totalScore = sourceScore + enhancement.totalEnhancementScore
 
   return {
@@ -73,4 +172,4 @@ export function hasRedditEnhancement(place: Place): boolean {
 
 export function hasWikipediaEnhancement(place: Place): boolean {
   return isValidEnhancement(place.wikipedia_generated)
-}
\ No newline at end of file
+}
@@ -0,0 +1,348 @@
+import * as cheerio from 'cheerio'
+import { getAnalyzedSiteSourceUrls, getOrCreateSource, Source, updateSource } from '../db/sources'
+import { BatchHooks } from '../types'
+import { deepWebsiteScraperService } from './deep-website-scraper.service'
+import { readDocument } from './document-reader.service'
+import { isLlmBudgetExceeded } from './llm-usage.service'
+import { politeFetchService } from './polite-fetch.service'
+import { analyzeSingleUrl } from './url-analysis.service'
+
+/**
+ * How the pages of a site are discovered
+ * - sitemap: the URLs listed in its sitemap
+ * - links: the links followed from the root page, down to maxDepth
+ * - auto: the sitemap, or the links when the site has no sitemap
+ */
+export type SiteDiscoveryMode = 'auto' | 'sitemap' | 'links'
+
+export const SITE_DISCOVERY_MODES: SiteDiscoveryMode[] = ['auto', 'sitemap', 'links']
+
+export type SitePageStatus = 'analyzed' | 'skipped' | 'failed'
+
+export interface SitePageResult {
+  url: string
+  sourceId: string | null
+  /** skipped: the page was analyzed by a previous ingestion (see bypassCache) */
+  status: SitePageStatus
+  placesCount: number
+}
+
+export interface SiteIngestionResult {
+  siteUrl: string
+  discovery: Exclude<SiteDiscoveryMode, 'auto'>
+  /** Pages to analyze, without the pages analyzed by a previous ingestion (see bypassCache) */
+  pagesDiscovered: number
+  pages: SitePageResult[]
+}
+
+export interface SiteIngestionOptions extends BatchHooks<SitePageResult> {
+  discovery?: SiteDiscoveryMode
+  /** Links followed from the root page, 0 only ingests the root page (link discovery only) */
+  maxDepth?: number
+  maxPages?: number
+  /** Regular expressions matched against the page URLs, a page must match one of them when set */
+  includePatterns?: string[]
+  /** Regular expressions matched against the page URLs, matching pages are neither ingested nor crawled */
+  excludePatterns?: string[]
+  /** Re-analyzes the pages analyzed by a previous ingestion, from freshly scraped content */
+  bypassCache?: boolean
+}
+
+const DEFAULT_MAX_DEPTH = 2
+const DEFAULT_MAX_PAGES = 100
+
+// Link discovery fetches at most this many pages per page to ingest, so sites with few matching pages end the crawl
+const CRAWLED_PAGES_PER_INGESTED_PAGE = 5
+
+// Links to these files are never pages to analyze
+const SKIPPED_EXTENSIONS =
+  /\.(jpe?g|png|gif|webp|svg|ico|css|js|json|xml|zip|gz|mp3|mp4|avi|mov|webm|docx?|xlsx?|pptx?)$/i
+
+interface UrlFilter {
+  include: RegExp[]
+  exclude: RegExp[]
+}
+
+/**
+ * Compiles the URL patterns of a site ingestion
+ * @throws Error naming the invalid pattern
+ */
+export function compileUrlPatterns(includePatterns: string[] = [], excludePatterns: string[] = []): UrlFilter {
+  const compile = (pattern: string) => {
+    try {
+      return new RegExp(pattern, 'i')
+    } catch {
+      throw new Error(`Invalid URL pattern "${pattern}"`)
+    }
+  }
+
+  return { include: includePatterns.map(compile), exclude: excludePatterns.map(compile) }
+}
+
+function isExcluded(url: string, filter: UrlFilter): boolean {
+  return filter.exclude.some((pattern) => pattern.test(url))
+}
+
+function isIncluded(url: string, filter: UrlFilter): boolean {
+  return (
+    (filter.include.length === 0 || filter.include.some((pattern) => pattern.test(url))) && !isExcluded(url, filter)
+  )
+}
+
+/**
+ * Pages of the same site, www. or not
+ */
+function isSameSite(url: URL, root: URL): boolean {
+  return url.hostname.replace(/^www\./, '') === root.hostname.replace(/^www\./, '')
+}
+
+/**
+ * Resolves a link against its page, without its fragment
+ * @returns The URL, or null for links that aren't web pages (mailto:, javascript:, files...)
+ */
+function resolveLink(href: string, pageUrl: string): URL | null {
+  try {
+    const url = new URL(href, pageUrl)
+    if ((url.protocol !== 'http:' && url.protocol !== 'https:') || SKIPPED_EXTENSIONS.test(url.pathname)) {
+      return null
+    }
+    url.hash = ''
+    return url
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Fetches a page and returns the URLs of its links
+ */
+async function fetchPageLinks(pageUrl: string): Promise<URL[]> {
+  try {
+    const { response, blockedByRobots } = await politeFetchService.fetch(pageUrl)
+    if (blockedByRobots || !response.ok) {
+      return []
+    }
+
+    const document = await readDocument(response, pageUrl)
+    if (!document || document.format !== 'html') {
+      return []
+    }
+
+    const $ = cheerio.load(document.body)
+    return $('a[href]')
+      .map((_, element) => resolveLink($(element).attr('href') || '', pageUrl))
+      .get()
+      .filter((url): url is URL => url !== null)
+  } catch (error) {
+    console.warn(`❌ Error fetching links of ${pageUrl}:`, error)
+    return []
+  }
+}
+
+/**
+ * Discovers pages by following the links of the site breadth-first from its root page
+ * The links of the analyzed pages are followed, but the pages themselves are not kept
+ */
+async function discoverPagesFromLinks(
+  root: URL,
+  maxDepth: number,
+  maxPages: number,
+  filter: UrlFilter,
+  analyzedPages: Set<string>,
+): Promise<string[]> {
+  const pages: string[] = []
+  const visited = new Set<string>([root.href])
+  // The analyzed pages are crawled again to reach the pages behind them
+  const maxCrawledPages = (maxPages + analyzedPages.size) * CRAWLED_PAGES_PER_INGESTED_PAGE
+  let crawledPagesCount = 0
+  let frontier = [root.href]
+
+  for (let depth = 0; depth <= maxDepth && frontier.length > 0 && pages.length < maxPages; depth++) {
+    console.log(`🔗 Depth ${depth}: ${frontier.length} pages`)
+    const nextFrontier: string[] = []
+
+    for (const url of frontier) {
+      if (pages.length >= maxPages) break
+
+      if (isIncluded(url, filter) && !analyzedPages.has(url) && (await politeFetchService.isAllowed(url))) {
+        pages.push(url)
+      }
+
+      // The links of the last level would not be crawled
+      if (depth === maxDepth || crawledPagesCount >= maxCrawledPages) continue
+
+      crawledPagesCount++
+      for (const link of await fetchPageLinks(url)) {
+        if (!visited.has(link.href) && isSameSite(link, root) && !isExcluded(link.href, filter)) {
+          visited.add(link.href)
+          nextFrontier.push(link.href)
+        }
+      }
+    }
+
+    frontier = nextFrontier
+  }
+
+  console.log(`✅ Found ${pages.length} pages from links (${crawledPagesCount} pages crawled)`)
+  return pages
+}
+
+/**
+ * Discovers pages from the sitemap of the site, without the analyzed pages
+ * @returns The pages, or null when the site has no sitemap
+ */
+async function discoverPagesFromSitemap(
+  root: URL,
+  maxPages: number,
+  filter: UrlFilter,
+  analyzedPages: Set<string>,
+): Promise<string[] | null> {
+  const sitemapUrls = await deepWebsiteScraperService.fetchSitemapUrls(root.origin)
+  if (!sitemapUrls) {
+    return null
+  }
+
+  const pages = [...new Set(sitemapUrls)].filter((url) => {
+    const parsed = resolveLink(url, root.href)
+    return parsed !== null && isSameSite(parsed, root) && isIncluded(parsed.href, filter)
+  })
+
+  const remainingPages = pages.filter((url) => !analyzedPages.has(url))
+  console.log(
+    `✅ ${pages.length} sitemap pages match the URL patterns (from ${sitemapUrls.length} total), ` +
+      `${remainingPages.length} not analyzed yet`,
+  )
+  return remainingPages.slice(0, maxPages)
+}
+
+/**
+ * Creates the sources of the discovered pages (one per page), linked to the site
+ */
+async function registerSiteSources(siteUrl: string, urls: string[]): Promise<Map<string, Source>> {
+  const sources = new Map<string, Source>()
+
+  for (const url of urls) {
+    const { data: source, error } = await getOrCreateSource(url)
+    if (error || !source) {
+      console.error(`❌ Failed to get or create source for ${url}:`, error)
+      continue
+    }
+
+    if (source.site_url !== siteUrl) {
+      const updateResult = await updateSource(source.id, { site_url: siteUrl })
+      if (updateResult.error) {
+        console.error(`❌ Failed to link source ${source.id} to ${siteUrl}:`, updateResult.error)
+      }
+    }
+    sources.set(url, source)
+  }
+
+  return sources
+}
+
+/**
+ * Core site ingestion logic - shared between API, jobs and scripts
+ * Discovers the pages of a travel site, creates a source per page and extracts the nature places of each page
+ * Pages analyzed by a previous ingestion are skipped and don't count toward maxPages, so an interrupted ingestion
+ * resumes where it stopped and each run of a large site analyzes its next pages
+ */
+export async function ingestSiteCore(
+  rootUrl: string,
+  options: SiteIngestionOptions = {},
+): Promise<{ result: SiteIngestionResult | null; error: string | null }> {
+  const {
+    discovery = 'auto',
+    maxDepth = DEFAULT_MAX_DEPTH,
+    maxPages = DEFAULT_MAX_PAGES,
+    includePatterns,
+    excludePatterns,
+    bypassCache = false,
+    onItemProcessed,
+    shouldStop,
+  } = options
+
+  let root: URL
+  let filter: UrlFilter
+  try {
+    root = new URL(rootUrl)
+    filter = compileUrlPatterns(includePatterns, excludePatterns)
+  } catch (error) {
+    return { result: null, error: error instanceof Error ? error.message : `Invalid root URL "${rootUrl}"` }
+  }
+
+  const siteUrl = root.href
+
+  let analyzedPages = new Set<string>()
+  if (!bypassCache) {
+    const { data: analyzedUrls, error: analyzedError } = await getAnalyzedSiteSourceUrls(siteUrl)
+    if (analyzedError) {
+      console.error(`❌ Error fetching the analyzed pages of ${siteUrl}:`, analyzedError)
+      return { result: null, error: `Database error: ${analyzedError.message}` }
+    }
+    analyzedPages = new Set(analyzedUrls)
+  }
+
+  console.log(`🕸️  Discovering pages of ${siteUrl} (${discovery}, ${analyzedPages.size} pages already analyzed)`)
+
+  let urls: string[] | null = null
+  let discoveryUsed: SiteIngestionResult['discovery'] = 'sitemap'
+
+  if (discovery !== 'links') {
+    urls = await discoverPagesFromSitemap(root, maxPages, filter, analyzedPages)
+    if (!urls && discovery === 'sitemap') {
+      return { result: null, error: `No sitemap found for ${siteUrl}` }
+    }
+  }
+  if (!urls) {
+    if (discovery === 'auto') {
+      console.log(`⚠️  No sitemap found, following links instead`)
+    }
+    urls = await discoverPagesFromLinks(root, maxDepth, maxPages, filter, analyzedPages)
+    discoveryUsed = 'links'
+  }
+
+  if (urls.length === 0 && analyzedPages.size > 0) {
+    console.log(`✅ No pages left to analyze on ${siteUrl}`)
+    return { result: { siteUrl, discovery: discoveryUsed, pagesDiscovered: 0, pages: [] }, error: null }
+  }
+
+  if (urls.length === 0) {
+    return { result: null, error: `No pages found on ${siteUrl} matching the URL patterns` }
+  }
+
+  console.log(`📝 Creating sources for ${urls.length} pages...`)
+  const sources = await registerSiteSources(siteUrl, urls)
+
+  const pages: SitePageResult[] = []
+  for (let i = 0; i < urls.length; i++) {
+    if ((shouldStop && (await shouldStop())) || (await isLlmBudgetExceeded())) {
+      console.log(`🛑 Site ingestion stopped after ${i} page(s)`)
+      break
+    }
+
+    const url = urls[i]
+    const source = sources.get(url)
+    let page: SitePageResult
+
+    if (source && source.analyzed_at && !bypassCache) {
+      console.log(`⏭️  Already analyzed on ${source.analyzed_at}: ${url}`)
+      page = { url, sourceId: source.id, status: 'skipped', placesCount: 0 }
+    } else {
+      console.log(`\n📄 Page ${i + 1}/${urls.length}`)
+      const analysis = await analyzeSingleUrl(url, bypassCache)
+      page = analysis
+        ? { url, sourceId: analysis.sourceId, status: 'analyzed', placesCount: analysis.places.length }
+        : { url, sourceId: source?.id || null, status: 'failed', placesCount: 0 }
+    }
+
+    pages.push(page)
+    if (onItemProcessed) {
+      await onItemProcessed(page, i, urls.length)
+    }
+  }
+
+  return {
+    result: { siteUrl, discovery: discoveryUsed, pagesDiscovered: urls.length, pages },
+    error: null,
+  }
+}
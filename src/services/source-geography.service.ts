@@ -0,0 +1,124 @@
+import { Department, departments } from '../data/department.data'
+import { getLinkedPlaceGeometriesBySourceId } from '../db/generated-places'
+import { getSourceOriginPlace } from '../db/places'
+import { Source } from '../db/sources'
+import {
+  BoundingBox,
+  calculateBoundingBox,
+  calculateGeometryBoundingBox,
+  expandBoundingBox,
+  Point,
+} from '../utils/geometry'
+
+export type SearchAreaOrigin = 'origin-place' | 'verified-places' | 'department'
+
+export interface SourceSearchArea {
+  bbox: BoundingBox
+  origin: SearchAreaOrigin
+  /** Human readable description, e.g. the origin place or department name */
+  label: string
+}
+
+// Places mentioned by a page are usually around the place the page is about
+const ORIGIN_PLACE_MARGIN_KM = 30
+const VERIFIED_PLACES_MARGIN_KM = 20
+const DEPARTMENT_MARGIN_KM = 5
+// Sources whose verified places are spread over a larger area (e.g. national guides) give no useful area
+const MAX_VERIFIED_PLACES_SPAN_KM = 300
+
+/**
+ * Removes diacritics and replaces hyphens and apostrophes by spaces, keeping the case
+ * so that capitalized department names can be told apart from common words ("Nord" vs "nord")
+ */
+function foldText(text: string): string {
+  return text
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[-'’\s]+/g, ' ')
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * Finds the department mentioned the most in a text, by name or by "(code)"
+ * Longer names are matched first so that "Haute-Savoie" doesn't count as "Savoie"
+ */
+export function findMostMentionedDepartment(text: string): Department | null {
+  let remaining = foldText(text)
+  let best: { department: Department; count: number } | null = null
+
+  const byNameLength = [...departments].sort((a, b) => b.name.length - a.name.length)
+
+  for (const department of byNameLength) {
+    const namePattern = new RegExp(`(?<![\\p{L}\\d])${escapeRegExp(foldText(department.name))}(?![\\p{L}\\d])`, 'gu')
+    const nameCount = (remaining.match(namePattern) || []).length
+    remaining = remaining.replace(namePattern, ' ')
+
+    const codeCount = (remaining.match(new RegExp(`\\(${escapeRegExp(department.code)}\\)`, 'g')) || []).length
+    const count = nameCount + codeCount
+
+    if (count > 0 && (!best || count > best.count)) {
+      best = { department, count }
+    }
+  }
+
+  return best ? best.department : null
+}
+
+/**
+ * Infers the area where the places mentioned by a source are, to disambiguate OSM searches. In order:
+ * 1. The geometry of the place the source was analyzed for (its website or Wikipedia article)
+ * 2. The places of the same source that were already verified
+ * 3. The department mentioned the most in the source content
+ * @returns The search area, or null if nothing is known about the source's geography
+ */
+export async function inferSourceSearchArea(source: Source): Promise<SourceSearchArea | null> {
+  const originPlace = await getSourceOriginPlace(source)
+  const originBbox = originPlace ? calculateGeometryBoundingBox(originPlace.geometry) : null
+
+  if (originPlace && originBbox) {
+    return {
+      bbox: expandBoundingBox(originBbox, ORIGIN_PLACE_MARGIN_KM),
+      origin: 'origin-place',
+      label: originPlace.name || originPlace.id,
+    }
+  }
+
+  const verifiedGeometries = await getLinkedPlaceGeometriesBySourceId(source.id)
+  const verifiedBboxes = verifiedGeometries
+    .map(calculateGeometryBoundingBox)
+    .filter((bbox): bbox is BoundingBox => bbox !== null)
+
+  if (verifiedBboxes.length > 0) {
+    const corners: Point[] = verifiedBboxes.flatMap((bbox) => [
+      { lat: bbox.south, lon: bbox.west },
+      { lat: bbox.north, lon: bbox.east },
+    ])
+    const verifiedBbox = calculateBoundingBox(corners)
+    const spanKm = verifiedBbox
+      ? Math.max((verifiedBbox.north - verifiedBbox.south) * 111, (verifiedBbox.east - verifiedBbox.west) * 111)
+      : Infinity
+
+    if (verifiedBbox && spanKm <= MAX_VERIFIED_PLACES_SPAN_KM) {
+      return {
+        bbox: expandBoundingBox(verifiedBbox, VERIFIED_PLACES_MARGIN_KM),
+        origin: 'verified-places',
+        label: `${verifiedBboxes.length} verified place(s)`,
+      }
+    }
+  }
+
+  const department = source.raw_content ? findMostMentionedDepartment(source.raw_content) : null
+
+  if (department) {
+    return {
+      bbox: expandBoundingBox(department.bbox, DEPARTMENT_MARGIN_KM),
+      origin: 'department',
+      label: `${department.name} (${department.code})`,
+    }
+  }
+
+  return null
+}
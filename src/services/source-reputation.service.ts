@@ -0,0 +1,257 @@
+import { SCORING_CONFIG, ScoringConfig } from '../config/scoring.config'
+import { getGeneratedPlacesByPlaceId } from '../db/generated-places'
+import { getSourceDomainReputationRows, SourceDomainReputationRow, upsertSourceDomain } from '../db/source-domains'
+import { getSourceById, getSourceDomain } from '../db/sources'
+
+export interface SourceReputation {
+  domain: string
+  sourcesCount: number
+  /** Generated places matched to a real place (ADDED) */
+  verifiedCount: number
+  /** Generated places rejected in review or that are not nature places (REJECTED, NO_NATURE_MATCH) */
+  rejectedCount: number
+  /** Generated places OSM couldn't match or matched ambiguously (NO_MATCH, MULTIPLE_MATCHES), not counted in the ratio */
+  unresolvedCount: number
+  /** Generated places not verified yet */
+  pendingCount: number
+  /** verified / (verified + rejected), null before a generated place of the domain was verified or rejected */
+  verifiedRatio: number | null
+  /** Manual trust (0-1), replaces the computed trust when set */
+  trustOverride: number | null
+  /** Trust weighting the score bumps of the domain (0-1): the override, or the verified ratio smoothed towards neutral */
+  trust: number
+  notes: string | null
+}
+
+export interface PlaceSourceMention {
+  source: { id: string; url: string; name: string | null }
+  domain: string | null
+  trust: number
+  /** Generated places of the source verified as this place */
+  generatedPlaces: Array<{ id: string; name: string | null; createdAt: string }>
+}
+
+export interface PlaceSources {
+  placeId: string
+  /** Number of distinct domains mentioning the place, pages of the same site count once */
+  independentSourcesCount: number
+  sources: PlaceSourceMention[]
+}
+
+export interface WeightedScoreBump {
+  domain: string | null
+  trust: number
+  /** Whether another page of the same domain already mentions the place */
+  repeatedDomain: boolean
+  /** Distinct domains mentioning the place, including this mention */
+  independentSourcesCount: number
+  /** Bump applied to the source score */
+  bump: number
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+/**
+ * Trust of a domain: its manual override, or its verified ratio smoothed towards the neutral trust,
+ * so that a few verified or rejected places don't swing the trust of a new domain to 0 or 1
+ */
+export function calculateDomainTrust(
+  verifiedCount: number,
+  rejectedCount: number,
+  trustOverride: number | null,
+  config: ScoringConfig = SCORING_CONFIG,
+): number {
+  if (trustOverride !== null) {
+    return trustOverride
+  }
+
+  const { neutralTrust, priorWeight } = config.sourceReputation
+  return round((verifiedCount + neutralTrust * priorWeight) / (verifiedCount + rejectedCount + priorWeight))
+}
+
+function toSourceReputation(row: SourceDomainReputationRow): SourceReputation {
+  const trustOverride = row.trust_override === null ? null : Number(row.trust_override)
+  const resolvedCount = row.verified_count + row.rejected_count
+
+  return {
+    domain: row.domain,
+    sourcesCount: row.sources_count,
+    verifiedCount: row.verified_count,
+    rejectedCount: row.rejected_count,
+    unresolvedCount: row.unresolved_count,
+    pendingCount: row.pending_count,
+    verifiedRatio: resolvedCount > 0 ? round(row.verified_count / resolvedCount) : null,
+    trustOverride,
+    trust: calculateDomainTrust(row.verified_count, row.rejected_count, trustOverride),
+    notes: row.notes,
+  }
+}
+
+function neutralReputation(domain: string): SourceReputation {
+  return toSourceReputation({
+    domain,
+    sources_count: 0,
+    verified_count: 0,
+    rejected_count: 0,
+    unresolved_count: 0,
+    pending_count: 0,
+    trust_override: null,
+    notes: null,
+  })
+}
+
+/**
+ * Lists the reputation of every source domain, with the domains that only have a manual override
+ */
+export async function listSourceReputations(): Promise<{ reputations: SourceReputation[]; error: string | null }> {
+  const { data, error } = await getSourceDomainReputationRows()
+
+  if (error) {
+    console.error('❌ Error fetching source reputations:', error)
+    return { reputations: [], error: `Database error: ${error.message}` }
+  }
+
+  return { reputations: (data || []).map(toSourceReputation), error: null }
+}
+
+/**
+ * Gets the reputation of a domain, neutral for a domain without sources or override
+ */
+export async function getDomainReputation(
+  domain: string,
+): Promise<{ reputation: SourceReputation; error: string | null }> {
+  const { data, error } = await getSourceDomainReputationRows(domain)
+
+  if (error) {
+    console.error(`❌ Error fetching reputation of ${domain}:`, error)
+    return { reputation: neutralReputation(domain), error: `Database error: ${error.message}` }
+  }
+
+  return { reputation: data && data.length > 0 ? toSourceReputation(data[0]) : neutralReputation(domain), error: null }
+}
+
+/**
+ * Sets (or clears, with null) the manual trust override of a domain
+ */
+export async function setDomainTrustOverride(
+  domain: string,
+  trustOverride: number | null,
+  notes: string | null,
+): Promise<{ reputation: SourceReputation | null; error: string | null }> {
+  const { error } = await upsertSourceDomain(domain, { trust_override: trustOverride, notes })
+
+  if (error) {
+    console.error(`❌ Error saving trust override of ${domain}:`, error)
+    return { reputation: null, error: `Database error: ${error.message}` }
+  }
+
+  console.log(`⚖️  Trust override of ${domain}: ${trustOverride === null ? 'cleared' : trustOverride}`)
+  return getDomainReputation(domain)
+}
+
+/**
+ * Lists the sources whose generated places were verified as a place, with the trust of their domain
+ */
+export async function getPlaceSources(placeId: string): Promise<{ result: PlaceSources | null; error: string | null }> {
+  const { data: generatedPlaces, error: generatedPlacesError } = await getGeneratedPlacesByPlaceId(placeId)
+
+  if (generatedPlacesError) {
+    console.error(`❌ Error fetching generated places of place ${placeId}:`, generatedPlacesError)
+    return { result: null, error: `Database error: ${generatedPlacesError.message}` }
+  }
+
+  const mentions = new Map<string, PlaceSourceMention>()
+
+  for (const generatedPlace of generatedPlaces || []) {
+    if (!generatedPlace.sources) {
+      continue
+    }
+
+    let mention = mentions.get(generatedPlace.sources.id)
+    if (!mention) {
+      mention = {
+        source: generatedPlace.sources,
+        domain: getSourceDomain(generatedPlace.sources.url),
+        trust: SCORING_CONFIG.sourceReputation.neutralTrust,
+        generatedPlaces: [],
+      }
+      mentions.set(generatedPlace.sources.id, mention)
+    }
+    mention.generatedPlaces.push({
+      id: generatedPlace.id,
+      name: generatedPlace.name,
+      createdAt: generatedPlace.created_at,
+    })
+  }
+
+  const sources = [...mentions.values()]
+  const domains = [...new Set(sources.map((mention) => mention.domain))].filter((domain): domain is string => !!domain)
+
+  for (const domain of domains) {
+    const { reputation, error } = await getDomainReputation(domain)
+    if (error) {
+      return { result: null, error }
+    }
+    sources.filter((mention) => mention.domain === domain).forEach((mention) => (mention.trust = reputation.trust))
+  }
+
+  return {
+    result: {
+      placeId,
+      independentSourcesCount: domains.length,
+      sources: sources.sort((a, b) => b.trust - a.trust),
+    },
+    error: null,
+  }
+}
+
+/**
+ * Weights the source score bump of a verified mention by the trust of the source's domain,
+ * and by whether the domain is a new independent source for the place: other pages of a domain that
+ * already mentions the place only give repeatedDomainFactor of the bump
+ * @param placeId The mentioned place, null for a place that is being created
+ */
+export async function weightScoreBump(
+  placeId: string | null,
+  sourceId: string,
+  scoreBump: number,
+  config: ScoringConfig = SCORING_CONFIG,
+): Promise<WeightedScoreBump> {
+  const { data: source } = sourceId ? await getSourceById(sourceId) : { data: null }
+  const domain = source ? source.domain || getSourceDomain(source.url) : null
+  const { reputation } = domain ? await getDomainReputation(domain) : { reputation: null }
+  const trust = reputation ? reputation.trust : config.sourceReputation.neutralTrust
+
+  // The generated place being verified is not linked to the place yet, these are the previous mentions
+  const mentioningDomains = new Set<string>()
+  let previousMentionsUnknown = false
+  if (placeId) {
+    const { data: generatedPlaces, error } = await getGeneratedPlacesByPlaceId(placeId)
+    if (error) {
+      // Without the previous mentions the domain can't be counted as a new independent source
+      console.error(`❌ Error fetching generated places of place ${placeId}:`, error)
+      previousMentionsUnknown = true
+    }
+
+    for (const generatedPlace of generatedPlaces || []) {
+      const mentioningDomain = generatedPlace.sources ? getSourceDomain(generatedPlace.sources.url) : null
+      if (mentioningDomain) {
+        mentioningDomains.add(mentioningDomain)
+      }
+    }
+  }
+  const repeatedDomain = domain !== null && (previousMentionsUnknown || mentioningDomains.has(domain))
+
+  const { neutralTrust, repeatedDomainFactor } = config.sourceReputation
+  const bump = round(scoreBump * (trust / neutralTrust) * (repeatedDomain ? repeatedDomainFactor : 1))
+
+  return {
+    domain,
+    trust,
+    repeatedDomain,
+    independentSourcesCount: mentioningDomains.size + (domain !== null && mentioningDomains.has(domain) ? 0 : 1),
+    bump,
+  }
+}
@@ -1,51 +1,74 @@
 import * as cheerio from 'cheerio'
 import { batchGetOrCreateGeneratedPlaces } from '../db/generated-places'
-import { getOrCreateSource, updateSource } from '../db/sources'
+import { getOrCreateSource, markSourceAnalyzed, updateSource } from '../db/sources'
+import { BatchHooks } from '../types'
+import { getPageValidator, hashContent, PageValidator } from '../utils/content-fingerprint'
 import { cleanText } from '../utils/text-cleaner'
 import { ExtractedPlace, extractPlacesFromUrlContent } from './ai.service'
+import { DocumentFormat, readDocument } from './document-reader.service'
+import { isLlmBudgetExceeded, runWithLlmUsageContext } from './llm-usage.service'
+import { politeFetchService } from './polite-fetch.service'
 
 export interface UrlAnalysisResult {
   sourceId: string
   url: string
+  /** Format of the document the places were extracted from (null for sources cached before formats were stored) */
+  contentFormat: DocumentFormat | null
   places: ExtractedPlace[]
 }
 
-export interface UrlAnalysisOptions {
+export interface ScrapedUrl {
+  text: string
+  format: DocumentFormat
+  validator: PageValidator
+}
+
+/**
+ * Per-URL hooks receive null when a URL could not be processed
+ */
+export interface UrlAnalysisOptions extends BatchHooks<UrlAnalysisResult | null> {
   bypassCache?: boolean
 }
 
 /**
- * Scrapes a single URL and extracts text content
+ * Scrapes a single URL and extracts text content, from an HTML page or a PDF, plain text or Markdown document
  */
-async function scrapeSingleUrl(url: string): Promise<string | null> {
+export async function scrapeSingleUrl(url: string): Promise<ScrapedUrl | null> {
   try {
     console.log(`🌐 Scraping URL: ${url}`)
-    const response = await fetch(url, {
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (compatible; EmpreinteBot/1.0; Nature Places Data Enhancement)',
-      },
-      signal: AbortSignal.timeout(10000),
-    })
+    const { response, blockedByRobots } = await politeFetchService.fetch(url)
+
+    if (blockedByRobots) {
+      console.warn(`🤖 Skipping ${url}: disallowed by robots.txt`)
+      return null
+    }
 
     if (!response.ok) {
       console.error(`❌ Failed to fetch URL ${url}: ${response.status} ${response.statusText}`)
       return null
     }
 
-    const html = await response.text()
-    const $ = cheerio.load(html)
+    const document = await readDocument(response, url)
+    if (!document) {
+      return null
+    }
 
-    // Remove script and style elements
-    $('script, style, nav, header, footer, aside').remove()
+    let text = document.body
+    if (document.format === 'html') {
+      const $ = cheerio.load(document.body)
 
-    // Extract text content
-    const text = $('body').text() || $('main').text() || $('article').text() || ''
+      // Remove script and style elements
+      $('script, style, nav, header, footer, aside').remove()
+
+      // Extract text content
+      text = $('body').text() || $('main').text() || $('article').text() || ''
+    }
 
     // Clean the text
     const cleanedText = cleanText(text)
 
-    console.log(`✅ Scraped ${cleanedText.length} characters from ${url}`)
-    return cleanedText
+    console.log(`✅ Scraped ${cleanedText.length} characters from ${url} (${document.format})`)
+    return { text: cleanedText, format: document.format, validator: getPageValidator(response) }
   } catch (error) {
     console.error(`❌ Error scraping URL ${url}:`, error)
     return null
@@ -53,121 +76,159 @@ async function scrapeSingleUrl(url: string): Promise<string | null> {
 }
 
 /**
- * Core URL analysis logic - shared between API and scripts
- * Analyzes a list of URLs and extracts nature places from them
+ * Analyzes a single URL: scrapes (or reads cached) content, extracts places and stores them
+ * @returns The analysis result, or null if the URL could not be processed
  */
-export async function analyzeUrlsCore(
-  urls: string[],
-  options: UrlAnalysisOptions = {},
-): Promise<{ results: UrlAnalysisResult[]; error: string | null }> {
-  if (!urls || urls.length === 0) {
-    return {
-      results: [],
-      error: 'At least one URL is required',
+export async function analyzeSingleUrl(url: string, bypassCache: boolean): Promise<UrlAnalysisResult | null> {
+  try {
+    console.log(`\n--- Analyzing URL: ${url} ---`)
+
+    // Step 1: Get or create source
+    console.log('📝 Step 1: Getting or creating source...')
+    const sourceResponse = await getOrCreateSource(url)
+
+    if (sourceResponse.error || !sourceResponse.data) {
+      console.error(`❌ Failed to get or create source for ${url}:`, sourceResponse.error)
+      return null
     }
-  }
 
-  const results: UrlAnalysisResult[] = []
+    const source = sourceResponse.data
+    console.log(`✅ Source ID: ${source.id}`)
+
+    // Step 2: Check cache or scrape URL content
+    console.log(`\n--- Step 2: Fetching URL Content ---`)
+    let urlContent: string | null = null
+    let contentFormat: DocumentFormat | null = null
+
+    // Check if we have cached raw content (and not bypassing cache)
+    if (!bypassCache && source.raw_content && source.raw_content.trim().length > 0) {
+      console.log(`✅ Using cached raw content (${source.raw_content.length} chars)`)
+      urlContent = source.raw_content
+      contentFormat = source.raw_content_format as DocumentFormat | null
+    } else {
+      if (bypassCache) {
+        console.log(`🔄 Cache bypassed, scraping URL...`)
+      } else {
+        console.log(`🔍 No cache found, scraping URL...`)
+      }
 
-  for (const url of urls) {
-    try {
-      console.log(`\n--- Analyzing URL: ${url} ---`)
+      // Scrape URL content
+      const scraped = await scrapeSingleUrl(url)
 
-      // Step 1: Get or create source
-      console.log('📝 Step 1: Getting or creating source...')
-      const sourceResponse = await getOrCreateSource(url)
+      if (!scraped || scraped.text.trim().length === 0) {
+        console.warn(`⚠️  No content extracted from ${url}, skipping...`)
+        return null
+      }
 
-      if (sourceResponse.error || !sourceResponse.data) {
-        console.error(`❌ Failed to get or create source for ${url}:`, sourceResponse.error)
-        continue
+      // Clean and store raw content in cache
+      const cleanedRawContent = cleanText(scraped.text)
+      urlContent = cleanedRawContent
+      contentFormat = scraped.format
+
+      // Store cleaned raw content in cache, with the format it was extracted from and its fingerprint
+      const updateResult = await updateSource(source.id, {
+        raw_content: cleanedRawContent,
+        raw_content_format: scraped.format,
+        content_hash: hashContent(cleanedRawContent),
+        content_validators: { [url]: scraped.validator },
+        content_checked_at: new Date().toISOString(),
+      })
+      if (updateResult.error) {
+        console.error(`❌ Failed to save raw content to database:`, updateResult.error)
+        console.error(`   Error message:`, updateResult.error.message)
+        console.error(`   Error details:`, JSON.stringify(updateResult.error, null, 2))
+      } else {
+        console.log(`💾 Cached cleaned raw content (${cleanedRawContent.length} chars)`)
       }
+    }
 
-      const source = sourceResponse.data
-      console.log(`✅ Source ID: ${source.id}`)
+    // Ensure we have content before proceeding
+    if (!urlContent || urlContent.trim().length === 0) {
+      console.warn(`⚠️  No content available for ${url}, skipping...`)
+      return null
+    }
 
-      const bypassCache = options.bypassCache || false
+    console.log(`✅ Content ready: ${urlContent.length} characters`)
 
-      // Step 2: Check cache or scrape URL content
-      console.log(`\n--- Step 2: Fetching URL Content ---`)
-      let urlContent: string | null = null
+    // Step 3: Extract places using AI
+    console.log('🤖 Step 3: Extracting places with AI...')
+    const content = urlContent
+    const extractedPlaces = await runWithLlmUsageContext({ sourceId: source.id }, () =>
+      extractPlacesFromUrlContent(content),
+    )
 
-      // Check if we have cached raw content (and not bypassing cache)
-      if (!bypassCache && source.raw_content && source.raw_content.trim().length > 0) {
-        console.log(`✅ Using cached raw content (${source.raw_content.length} chars)`)
-        urlContent = source.raw_content
-      } else {
-        if (bypassCache) {
-          console.log(`🔄 Cache bypassed, scraping URL...`)
-        } else {
-          console.log(`🔍 No cache found, scraping URL...`)
-        }
-
-        // Scrape URL content
-        urlContent = await scrapeSingleUrl(url)
-
-        if (!urlContent || urlContent.trim().length === 0) {
-          console.warn(`⚠️  No content extracted from ${url}, skipping...`)
-          continue
-        }
-
-        // Clean and store raw content in cache
-        const cleanedRawContent = cleanText(urlContent)
-        urlContent = cleanedRawContent
-
-        // Store cleaned raw content in cache
-        const updateResult = await updateSource(source.id, { raw_content: cleanedRawContent })
-        if (updateResult.error) {
-          console.error(`❌ Failed to save raw content to database:`, updateResult.error)
-          console.error(`   Error message:`, updateResult.error.message)
-          console.error(`   Error details:`, JSON.stringify(updateResult.error, null, 2))
-        } else {
-          console.log(`💾 Cached cleaned raw content (${cleanedRawContent.length} chars)`)
-        }
+    if (extractedPlaces.length === 0) {
+      console.warn(`⚠️  No places extracted from ${url}`)
+      await markSourceAnalyzed(source.id)
+      return {
+        sourceId: source.id,
+        url: url,
+        contentFormat,
+        places: [],
       }
+    }
 
-      // Ensure we have content before proceeding
-      if (!urlContent || urlContent.trim().length === 0) {
-        console.warn(`⚠️  No content available for ${url}, skipping...`)
-        continue
-      }
+    console.log(`✅ Extracted ${extractedPlaces.length} places from ${url}`)
 
-      console.log(`✅ Content ready: ${urlContent.length} characters`)
+    // Step 4: Store generated places in database
+    console.log('💾 Step 4: Storing generated places in database...')
+    const placesToStore = extractedPlaces.map((place) => ({
+      name: place.name,
+      description: place.description,
+      source_id: source.id,
+      place_type: place.type,
+      location_text: place.locationText,
+      confidence: place.confidence,
+    }))
 
-      // Step 3: Extract places using AI
-      console.log('🤖 Step 3: Extracting places with AI...')
-      const extractedPlaces = await extractPlacesFromUrlContent(urlContent)
+    const storedPlaces = await batchGetOrCreateGeneratedPlaces(placesToStore)
+    console.log(`✅ Stored ${storedPlaces.length} places in database`)
+    await markSourceAnalyzed(source.id)
 
-      if (extractedPlaces.length === 0) {
-        console.warn(`⚠️  No places extracted from ${url}`)
-        results.push({
-          sourceId: source.id,
-          url: url,
-          places: [],
-        })
-        continue
-      }
+    return {
+      sourceId: source.id,
+      url: url,
+      contentFormat,
+      places: extractedPlaces,
+    }
+  } catch (error) {
+    console.error(`❌ Error analyzing URL ${url}:`, error)
+    // Let the caller continue with next URL instead of failing completely
+    return null
+  }
+}
 
-      console.log(`✅ Extracted ${extractedPlaces.length} places from ${url}`)
+/**
+ * Core URL analysis logic - shared between API, jobs and scripts
+ * Analyzes a list of URLs and extracts nature places from them
+ */
+export async function analyzeUrlsCore(
+  urls: string[],
+  options: UrlAnalysisOptions = {},
+): Promise<{ results: UrlAnalysisResult[]; error: string | null }> {
+  if (!urls || urls.length === 0) {
+    return {
+      results: [],
+      error: 'At least one URL is required',
+    }
+  }
 
-      // Step 4: Store generated places in database
-      console.log('💾 Step 4: Storing generated places in database...')
-      const placesToStore = extractedPlaces.map((place) => ({
-        name: place.name,
-        description: place.description,
-        source_id: source.id,
-      }))
+  const { bypassCache = false, onItemProcessed, shouldStop } = options
+  const results: UrlAnalysisResult[] = []
 
-      const storedPlaces = await batchGetOrCreateGeneratedPlaces(placesToStore)
-      console.log(`✅ Stored ${storedPlaces.length} places in database`)
+  for (let i = 0; i < urls.length; i++) {
+    if ((shouldStop && (await shouldStop())) || (await isLlmBudgetExceeded())) {
+      console.log(`🛑 URL analysis stopped after ${i} URL(s)`)
+      break
+    }
 
-      results.push({
-        sourceId: source.id,
-        url: url,
-        places: extractedPlaces,
-      })
-    } catch (error) {
-      console.error(`❌ Error analyzing URL ${url}:`, error)
-      // Continue with next URL instead of failing completely
+    const result = await analyzeSingleUrl(urls[i], bypassCache)
+    if (result) {
+      results.push(result)
+    }
+
+    if (onItemProcessed) {
+      await onItemProcessed(result, i, urls.length)
     }
   }
 
@@ -0,0 +1,208 @@
+import {
+  getPlaceVisitorFacts,
+  PlaceVisitorFact,
+  replacePlaceVisitorFacts,
+  VISITOR_FACT_KEYS,
+  VISITOR_FACT_SOURCES,
+  VisitorFactKey,
+  VisitorFactSource,
+} from '../db/place-visitor-facts'
+import { getPlaceById } from '../db/places'
+import { getPromptVersionTag } from '../prompts/prompt-registry'
+import { extractVisitorFacts } from './ai.service'
+import { isLlmBudgetExceeded, LLM_BUDGET_EXCEEDED_ERROR, runWithLlmUsageContext } from './llm-usage.service'
+import { wikipediaService } from './wikipedia.service'
+
+/**
+ * A visitor fact with where it comes from
+ */
+export interface VisitorFact {
+  value: string
+  source: VisitorFactSource
+  sourceUrl: string | null
+  /** Passage of the content the fact was extracted from */
+  evidence: string | null
+  confidence: number
+  promptVersion: string
+  extractedAt: string
+}
+
+/**
+ * The visitor facts of a place, null when no source gives them
+ */
+export type PlaceVisitorFacts = Record<VisitorFactKey, VisitorFact | null>
+
+export interface VisitorFactsExtractionResult {
+  placeId: string
+  placeName: string
+  sources: Array<{ source: VisitorFactSource; sourceUrl: string | null; factsCount: number }>
+  facts: PlaceVisitorFacts
+}
+
+export interface VisitorFactsExtractionOptions {
+  /** Contents to extract from, all the cached ones by default */
+  sources?: VisitorFactSource[]
+}
+
+/**
+ * Picks the value of each fact among the sources: the most confident one, the website (official) on ties
+ */
+export function resolveVisitorFacts(rows: PlaceVisitorFact[]): PlaceVisitorFacts {
+  const facts = Object.fromEntries(VISITOR_FACT_KEYS.map((key) => [key, null])) as PlaceVisitorFacts
+
+  for (const row of rows) {
+    const key = row.fact as VisitorFactKey
+    const current = facts[key]
+    const confidence = Number(row.confidence)
+
+    if (
+      key in facts &&
+      (!current ||
+        confidence > current.confidence ||
+        (confidence === current.confidence && row.source === 'website' && current.source !== 'website'))
+    ) {
+      facts[key] = {
+        value: row.value,
+        source: row.source as VisitorFactSource,
+        sourceUrl: row.source_url,
+        evidence: row.evidence,
+        confidence,
+        promptVersion: row.prompt_version,
+        extractedAt: row.extracted_at,
+      }
+    }
+  }
+
+  return facts
+}
+
+/**
+ * Extracts the visitor facts of a place from the content of one source and replaces the facts it gave before
+ * Used as a step of the website and Wikipedia analyses
+ * @returns The number of facts saved, or null if the extraction or saving failed (the previous facts are kept)
+ */
+export async function extractAndSaveVisitorFacts(
+  place: { id: string; name: string | null },
+  source: VisitorFactSource,
+  content: string,
+  sourceUrl: string | null,
+): Promise<number | null> {
+  const facts = await extractVisitorFacts(place.name || 'Unknown Place', content)
+
+  if (!facts) {
+    return null
+  }
+
+  const promptVersion = getPromptVersionTag('visitor-facts')
+  const { error } = await replacePlaceVisitorFacts(
+    place.id,
+    source,
+    facts.map((fact) => ({
+      fact: fact.fact,
+      value: fact.value,
+      evidence: fact.evidence,
+      confidence: fact.confidence,
+      source_url: sourceUrl,
+      prompt_version: promptVersion,
+    })),
+  )
+
+  if (error) {
+    console.error(`❌ Failed to save ${source} visitor facts:`, error.message)
+    return null
+  }
+
+  console.log(`💾 Saved ${facts.length} visitor facts from the ${source} content`)
+  return facts.length
+}
+
+/**
+ * Core visitor facts extraction logic - shared between API and scripts
+ * Extracts from the cached website_raw and wikipedia_raw, so the place must have been analyzed before
+ * The LLM calls are attributed to the place (see llm-usage.service)
+ */
+export async function extractPlaceVisitorFactsCore(
+  placeId: string,
+  options: VisitorFactsExtractionOptions = {},
+): Promise<{ result: VisitorFactsExtractionResult | null; error?: string }> {
+  return runWithLlmUsageContext({ placeId }, () => runPlaceVisitorFactsExtraction(placeId, options))
+}
+
+async function runPlaceVisitorFactsExtraction(
+  placeId: string,
+  options: VisitorFactsExtractionOptions,
+): Promise<{ result: VisitorFactsExtractionResult | null; error?: string }> {
+  try {
+    const { data: place, error: placeError } = await getPlaceById(placeId)
+
+    if (placeError || !place) {
+      return { result: null, error: `Place not found: ${placeId}` }
+    }
+
+    console.log(`📍 Extracting visitor facts of: ${place.name}`)
+
+    const metadata = place.metadata as { wikipedia?: string } | null
+    const contents: Record<VisitorFactSource, { content: string | null; sourceUrl: string | null }> = {
+      website: { content: place.website_raw, sourceUrl: place.website },
+      wikipedia: {
+        content: place.wikipedia_raw,
+        sourceUrl: metadata?.wikipedia ? wikipediaService.getArticleUrl(metadata.wikipedia) : null,
+      },
+    }
+
+    const sources = (options.sources || VISITOR_FACT_SOURCES).filter(
+      (source) => (contents[source].content || '').trim().length > 0,
+    )
+
+    if (sources.length === 0) {
+      return {
+        result: null,
+        error: 'Place has no cached website or Wikipedia content to extract from. Analyze the place first.',
+      }
+    }
+
+    const extracted: VisitorFactsExtractionResult['sources'] = []
+    let budgetExceeded = false
+    for (const source of sources) {
+      if (await isLlmBudgetExceeded()) {
+        console.log(`🛑 Visitor facts extraction stopped before the ${source} content`)
+        budgetExceeded = true
+        break
+      }
+
+      const { content, sourceUrl } = contents[source]
+      console.log(`\n🔍 Extracting from the ${source} content (${content!.length} chars)...`)
+
+      const factsCount = await extractAndSaveVisitorFacts(place, source, content!, sourceUrl)
+      if (factsCount !== null) {
+        extracted.push({ source, sourceUrl, factsCount })
+      }
+    }
+
+    if (extracted.length === 0) {
+      return {
+        result: null,
+        error: budgetExceeded
+          ? LLM_BUDGET_EXCEEDED_ERROR
+          : 'Failed to extract visitor facts. The AI service may be unavailable.',
+      }
+    }
+
+    const { data: rows, error } = await getPlaceVisitorFacts(place.id)
+    if (error) {
+      return { result: null, error: `Database error: ${error.message}` }
+    }
+
+    return {
+      result: {
+        placeId: place.id,
+        placeName: place.name || 'Unknown',
+        sources: extracted,
+        facts: resolveVisitorFacts(rows || []),
+      },
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error'
+    return { result: null, error: `Internal error: ${errorMessage}` }
+  }
+}
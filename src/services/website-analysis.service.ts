@@ -1,9 +1,17 @@
-import { getPlaceById, updatePlace, type Place } from '../db/places'
-import { getOrCreateSource } from '../db/sources'
 import { batchGetOrCreateGeneratedPlaces } from '../db/generated-places'
-import { summarizeScrapedContent, extractMentionedPlaces } from './ai.service'
-import { deepWebsiteScraperService } from './deep-website-scraper.service'
+import { ScoreChangeTrigger } from '../db/place-score-history'
+import { getPlaceById, updatePlace } from '../db/places'
+import { getOrCreateSource, getSourceByUrl } from '../db/sources'
+import { withPromptVersions } from '../prompts/prompt-registry'
+import { hashContent } from '../utils/content-fingerprint'
+import { pickLocalizedText, SUPPORTED_LOCALES } from '../utils/locale'
 import { cleanText } from '../utils/text-cleaner'
+import { extractMentionedPlaces, summarizeInLocales, summarizeScrapedContent } from './ai.service'
+import { deepWebsiteScraperService } from './deep-website-scraper.service'
+import { isLlmBudgetExceeded, LLM_BUDGET_EXCEEDED_ERROR, runWithLlmUsageContext } from './llm-usage.service'
+import { syncSourcePlaceMentions } from './place-mentions.service'
+import { refreshPlaceScore } from './score-recalculation.service'
+import { extractAndSaveVisitorFacts } from './visitor-facts.service'
 
 export interface WebsiteAnalysisResult {
   placeId: string
@@ -12,6 +20,10 @@ export interface WebsiteAnalysisResult {
   description: string
   mentionedPlaces: string[]
   scrapedPagesCount: number
+  /** True when the website's robots.txt disallows crawling it, nothing was scraped */
+  blockedByRobots: boolean
+  /** Pages read from their headless-rendered DOM because their static HTML had too little text */
+  renderedPagesCount: number
 }
 
 export interface WebsiteAnalysisOptions {
@@ -20,10 +32,18 @@ export interface WebsiteAnalysisOptions {
 
 /**
  * Core website analysis logic - shared between API and scripts
+ * The LLM calls are attributed to the place (see llm-usage.service)
  */
 export async function analyzePlaceWebsiteCore(
   placeId: string,
   options: WebsiteAnalysisOptions = {},
+): Promise<{ result: WebsiteAnalysisResult; error?: string }> {
+  return runWithLlmUsageContext({ placeId }, () => runPlaceWebsiteAnalysis(placeId, options))
+}
+
+async function runPlaceWebsiteAnalysis(
+  placeId: string,
+  options: WebsiteAnalysisOptions,
 ): Promise<{ result: WebsiteAnalysisResult; error?: string }> {
   try {
     // Fetch place from database
@@ -38,6 +58,8 @@ export async function analyzePlaceWebsiteCore(
           description: '',
           mentionedPlaces: [],
           scrapedPagesCount: 0,
+          blockedByRobots: false,
+          renderedPagesCount: 0,
         },
         error: `Place not found: ${placeId}`,
       }
@@ -57,11 +79,29 @@ export async function analyzePlaceWebsiteCore(
           description: '',
           mentionedPlaces: [],
           scrapedPagesCount: 0,
+          blockedByRobots: false,
+          renderedPagesCount: 0,
         },
         error: 'Place has no website to analyze',
       }
     }
 
+    if (await isLlmBudgetExceeded()) {
+      return {
+        result: {
+          placeId: place.id,
+          placeName: place.name || 'Unknown',
+          website: place.website,
+          description: '',
+          mentionedPlaces: [],
+          scrapedPagesCount: 0,
+          blockedByRobots: false,
+          renderedPagesCount: 0,
+        },
+        error: LLM_BUDGET_EXCEEDED_ERROR,
+      }
+    }
+
     const bypassCache = options.bypassCache || false
 
     if (bypassCache) {
@@ -72,22 +112,41 @@ export async function analyzePlaceWebsiteCore(
     console.log(`\n--- Step 1: Fetching Website Content ---`)
     let scrapedContent: string | null = null
     let pagesCount = 0
+    let renderedPagesCount = 0
 
     if (!bypassCache && place.website_raw && place.website_raw.trim().length > 0) {
       console.log(`✅ Using cached website content (${place.website_raw.length} chars)`)
       scrapedContent = place.website_raw
       pagesCount = (scrapedContent.match(/=== Page \d+:/g) || []).length
+      renderedPagesCount = (scrapedContent.match(/=== Page \d+: .* \(rendered\) ===/g) || []).length
     } else {
       if (bypassCache) {
         console.log(`🔄 Cache bypassed, scraping website...`)
       } else {
         console.log(`🔍 No cache found, scraping website...`)
       }
-      scrapedContent = await deepWebsiteScraperService.scrapeWebsiteDeep(
+      const scrapeResult = await deepWebsiteScraperService.scrapeWebsiteDeep(
         place.website,
         place.name || undefined,
         place.country || undefined,
       )
+      scrapedContent = scrapeResult.content
+
+      if (scrapeResult.blockedByRobots) {
+        return {
+          result: {
+            placeId: place.id,
+            placeName: place.name || 'Unknown',
+            website: place.website,
+            description: '',
+            mentionedPlaces: [],
+            scrapedPagesCount: 0,
+            blockedByRobots: true,
+            renderedPagesCount: 0,
+          },
+          error: `Website ${place.website} disallows crawling by robots.txt`,
+        }
+      }
 
       if (!scrapedContent) {
         return {
@@ -98,6 +157,8 @@ export async function analyzePlaceWebsiteCore(
             description: '',
             mentionedPlaces: [],
             scrapedPagesCount: 0,
+            blockedByRobots: false,
+            renderedPagesCount: 0,
           },
           error: 'Failed to scrape website. The site may have protections or be unavailable.',
         }
@@ -106,23 +167,33 @@ export async function analyzePlaceWebsiteCore(
       // Clean and store raw content
       const cleanedRawContent = cleanText(scrapedContent)
       pagesCount = (cleanedRawContent.match(/=== Page \d+:/g) || []).length
+      renderedPagesCount = scrapeResult.renderedPagesCount
       scrapedContent = cleanedRawContent
 
-      // Store cleaned raw content in cache
-      await updatePlace(place.id, { website_raw: cleanedRawContent })
+      // Store cleaned raw content in cache, with its fingerprint
+      await updatePlace(place.id, {
+        website_raw: cleanedRawContent,
+        website_content_hash: hashContent(cleanedRawContent),
+        website_content_validators: scrapeResult.validators,
+        website_checked_at: new Date().toISOString(),
+      })
       console.log(`💾 Cached cleaned website content (${cleanedRawContent.length} chars)`)
     }
 
-    console.log(`✅ Content ready: ${pagesCount} pages, ${scrapedContent.length} characters`)
+    console.log(
+      `✅ Content ready: ${pagesCount} pages (${renderedPagesCount} rendered), ${scrapedContent.length} characters`,
+    )
 
-    // Step 2: Two separate LLM calls - summarization and place extraction (done in parallel)
+    // Step 2: Separate LLM calls - summarization in each language and place extraction (done in parallel)
     console.log(`\n--- Step 2: Analyzing Content with AI ---`)
-    console.log(`📝 Summarizing content...`)
+    console.log(`📝 Summarizing content (${SUPPORTED_LOCALES.join(', ')})...`)
     console.log(`📍 Extracting mentioned places...`)
-    const [summary, mentionedPlaces] = await Promise.all([
-      summarizeScrapedContent(place.name || 'Unknown Place', scrapedContent),
-      extractMentionedPlaces(place.name || 'Unknown Place', scrapedContent),
+    const content = scrapedContent
+    const [summaries, mentionedPlaces] = await Promise.all([
+      summarizeInLocales((locale) => summarizeScrapedContent(place.name || 'Unknown Place', content, locale)),
+      extractMentionedPlaces(place.name || 'Unknown Place', content),
     ])
+    const summary = pickLocalizedText(summaries)?.text ?? null
 
     if (!summary) {
       return {
@@ -133,6 +204,8 @@ export async function analyzePlaceWebsiteCore(
           description: '',
           mentionedPlaces: [],
           scrapedPagesCount: pagesCount,
+          blockedByRobots: false,
+          renderedPagesCount,
         },
         error: 'Failed to summarize content. The website content may not be relevant or AI service is unavailable.',
       }
@@ -141,15 +214,21 @@ export async function analyzePlaceWebsiteCore(
     // Step 3: Save results to database
     console.log(`\n--- Step 3: Saving Results to Database ---`)
     console.log(`   Saving website_generated (${summary.length} chars)`)
+    console.log(`   Saving website_generated_localized (${Object.keys(summaries).join(', ')})`)
     console.log(`   Saving website_places_generated (${mentionedPlaces.length} places)`)
     console.log(`   Saving website_raw (${scrapedContent.length} chars)`)
     console.log(`   Saving last_website_analyzed_at timestamp`)
 
     const updateResult = await updatePlace(place.id, {
       website_generated: summary,
+      website_generated_localized: summaries,
       website_places_generated: mentionedPlaces,
       website_raw: scrapedContent,
       last_website_analyzed_at: new Date().toISOString(),
+      metadata: withPromptVersions(place.metadata, {
+        website_generated: 'scraped-content-summary',
+        website_places_generated: 'mentioned-places',
+      }),
     })
 
     if (updateResult.error) {
@@ -161,6 +240,7 @@ export async function analyzePlaceWebsiteCore(
     } else {
       console.log(`✅ Results saved to database successfully`)
       console.log(`   Updated place ID: ${place.id}`)
+      await refreshPlaceScore(place.id, ScoreChangeTrigger.WEBSITE_ANALYSIS)
     }
 
     // Step 4: Store source and generated places
@@ -184,13 +264,26 @@ export async function analyzePlaceWebsiteCore(
 
           const storedPlaces = await batchGetOrCreateGeneratedPlaces(placesToStore)
           console.log(`✅ Stored ${storedPlaces.length} generated places linked to source`)
+
+          // Mentioned places verified by a previous analysis are linked right away, the others once verified
+          await syncSourcePlaceMentions(source, place.id)
         }
       } catch (error) {
         console.error(`❌ Error storing source and generated places:`, error)
         // Don't fail the whole operation if this step fails
       }
+    } else if (place.website && !updateResult.error) {
+      // The website no longer mentions any place: remove the mention edges of the previous analyses
+      const { data: source } = await getSourceByUrl(place.website)
+      if (source) {
+        await syncSourcePlaceMentions(source, place.id)
+      }
     }
 
+    // Step 5: Extract visitor facts (fees, hours, parking...) - failures keep the previous facts
+    console.log(`\n--- Step 5: Extracting Visitor Facts ---`)
+    await extractAndSaveVisitorFacts(place, 'website', scrapedContent, place.website)
+
     return {
       result: {
         placeId: place.id,
@@ -199,6 +292,8 @@ export async function analyzePlaceWebsiteCore(
         description: summary,
         mentionedPlaces: mentionedPlaces,
         scrapedPagesCount: pagesCount,
+        blockedByRobots: false,
+        renderedPagesCount,
       },
     }
   } catch (error) {
@@ -211,9 +306,10 @@ export async function analyzePlaceWebsiteCore(
         description: '',
         mentionedPlaces: [],
         scrapedPagesCount: 0,
+        blockedByRobots: false,
+        renderedPagesCount: 0,
       },
       error: `Internal error: ${errorMessage}`,
     }
   }
 }
-
@@ -1,37 +1,38 @@
 import * as cheerio from 'cheerio'
-import { summarizeWebsiteContent } from './ai.service'
+import { LocalizedText, pickLocalizedText, SUPPORTED_LOCALES } from '../utils/locale'
+import { summarizeInLocales, summarizeWebsiteContent } from './ai.service'
+import { FetchedDocument, readDocument } from './document-reader.service'
+import { politeFetchService } from './polite-fetch.service'
 
 export class WebsiteScraperService {
-  private async fetchWebsiteContent(url: string): Promise<string | null> {
+  /**
+   * Fetches a website page, or a PDF, plain text or Markdown document when the website URL points to one
+   */
+  private async fetchWebsiteContent(
+    url: string,
+  ): Promise<{ document: FetchedDocument | null; blockedByRobots: boolean }> {
     try {
       console.log(`🌐 Fetching website content from: ${url}`)
 
-      const response = await fetch(url, {
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (compatible; EmpreinteBot/1.0; Nature Places Data Enhancement)',
-        },
-        signal: AbortSignal.timeout(10000), // 10 second timeout
-      })
+      const { response, blockedByRobots } = await politeFetchService.fetch(url)
 
-      if (!response.ok) {
-        console.warn(`❌ Failed to fetch ${url}: ${response.status} ${response.statusText}`)
-        return null
+      if (blockedByRobots) {
+        return { document: null, blockedByRobots: true }
       }
 
-      const contentType = response.headers.get('content-type')
-      if (!contentType || !contentType.includes('text/html')) {
-        console.warn(`❌ Non-HTML content type for ${url}: ${contentType}`)
-        return null
+      if (!response.ok) {
+        console.warn(`❌ Failed to fetch ${url}: ${response.status} ${response.statusText}`)
+        return { document: null, blockedByRobots: false }
       }
 
-      return await response.text()
+      return { document: await readDocument(response, url), blockedByRobots: false }
     } catch (error) {
       if (error instanceof Error && error.name === 'TimeoutError') {
         console.warn(`⏰ Timeout fetching ${url}`)
       } else {
         console.warn(`❌ Error fetching ${url}:`, error)
       }
-      return null
+      return { document: null, blockedByRobots: false }
     }
   }
 
@@ -85,33 +86,52 @@ export class WebsiteScraperService {
     }
   }
 
-  public async scrapeAndSummarizeWebsite(placeName: string, websiteUrl: string): Promise<{ summary: string | null; rawContent: string | null }> {
+  public async scrapeAndSummarizeWebsite(
+    placeName: string,
+    websiteUrl: string,
+  ): Promise<{
+    summary: string | null
+    summaries: LocalizedText
+    rawContent: string | null
+    blockedByRobots: boolean
+  }> {
     try {
       console.log(`🔍 Processing website for place: ${placeName}`)
 
       if (!this.isValidUrl(websiteUrl)) {
         console.warn(`❌ Invalid URL: ${websiteUrl}`)
-        return { summary: null, rawContent: null }
+        return { summary: null, summaries: {}, rawContent: null, blockedByRobots: false }
       }
 
-      const html = await this.fetchWebsiteContent(websiteUrl)
-      if (!html) {
+      const { document, blockedByRobots } = await this.fetchWebsiteContent(websiteUrl)
+      if (blockedByRobots) {
+        console.warn(`🤖 Website disallows crawling by robots.txt: ${websiteUrl}`)
+        return { summary: null, summaries: {}, rawContent: null, blockedByRobots: true }
+      }
+      if (!document) {
         console.warn(`❌ Failed to fetch website content for ${websiteUrl}`)
-        return { summary: null, rawContent: null }
+        return { summary: null, summaries: {}, rawContent: null, blockedByRobots: false }
       }
 
-      const textContent = this.extractTextContent(html)
+      // Documents already are text, only pages go through the HTML extraction
+      const textContent =
+        document.format === 'html'
+          ? this.extractTextContent(document.body)
+          : document.body.replace(/\s+/g, ' ').trim().slice(0, 5000)
       if (!textContent || textContent.length < 100) {
         console.warn(`❌ Insufficient content extracted from ${websiteUrl}`)
-        return { summary: null, rawContent: null }
+        return { summary: null, summaries: {}, rawContent: null, blockedByRobots: false }
       }
 
       // Always store raw content, with more generous limit for AI processing
       const rawContent = textContent.length > 8000 ? textContent.substring(0, 8000) + '...' : textContent
 
-      console.log(`📄 Extracted ${textContent.length} characters, sending to AI for summarization`)
+      console.log(
+        `📄 Extracted ${textContent.length} characters, sending to AI for summarization (${SUPPORTED_LOCALES.join(', ')})`,
+      )
 
-      const summary = await summarizeWebsiteContent(placeName, textContent)
+      const summaries = await summarizeInLocales((locale) => summarizeWebsiteContent(placeName, textContent, locale))
+      const summary = pickLocalizedText(summaries)?.text ?? null
 
       if (summary) {
         console.log(`✅ Generated website summary for ${placeName}`)
@@ -119,10 +139,10 @@ export class WebsiteScraperService {
         console.log(`❌ No relevant summary generated for ${placeName}`)
       }
 
-      return { summary, rawContent }
+      return { summary, summaries, rawContent, blockedByRobots: false }
     } catch (error) {
       console.error(`❌ Error processing website for ${placeName}:`, error)
-      return { summary: null, rawContent: null }
+      return { summary: null, summaries: {}, rawContent: null, blockedByRobots: false }
     }
   }
 }
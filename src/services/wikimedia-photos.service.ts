@@ -1,3 +1,5 @@
+import { getHttpClient } from './http-client.service'
+
 interface WikimediaSearchResult {
   query: {
     search: Array<{
@@ -95,11 +97,10 @@ export class WikimediaPhotosService {
         origin: '*',
       })
 
-      const response = await fetch(`${baseUrl}?${params.toString()}`, {
+      const response = await getHttpClient('wikimedia').request(`${baseUrl}?${params.toString()}`, {
         headers: {
           'User-Agent': 'empreinte-backend/1.0.0 (https://github.com/alexphiev/empreinte_backend)',
         },
-        signal: AbortSignal.timeout(10000),
       })
 
       if (!response.ok) {
@@ -147,11 +148,10 @@ export class WikimediaPhotosService {
           origin: '*',
         })
 
-        const response = await fetch(`${baseUrl}?${params.toString()}`, {
+        const response = await getHttpClient('wikimedia').request(`${baseUrl}?${params.toString()}`, {
           headers: {
             'User-Agent': 'empreinte-backend/1.0.0 (https://github.com/alexphiev/empreinte_backend)',
           },
-          signal: AbortSignal.timeout(10000),
         })
 
         if (!response.ok) {
@@ -192,11 +192,10 @@ export class WikimediaPhotosService {
         origin: '*',
       })
 
-      const response = await fetch(`${baseUrl}?${params.toString()}`, {
+      const response = await getHttpClient('wikimedia').request(`${baseUrl}?${params.toString()}`, {
         headers: {
           'User-Agent': 'empreinte-backend/1.0.0 (https://github.com/alexphiev/empreinte_backend)',
         },
-        signal: AbortSignal.timeout(10000),
       })
 
       if (!response.ok) {
@@ -1,8 +1,16 @@
+import { batchGetOrCreateGeneratedPlaces } from '../db/generated-places'
+import { ScoreChangeTrigger } from '../db/place-score-history'
 import { getPlaceById, updatePlace } from '../db/places'
 import { getOrCreateSource } from '../db/sources'
-import { batchGetOrCreateGeneratedPlaces } from '../db/generated-places'
+import { PromptId, withPromptVersions } from '../prompts/prompt-registry'
+import { Json } from '../types/database'
+import { LocalizedText, pickLocalizedText, SUPPORTED_LOCALES } from '../utils/locale'
 import { cleanWikipediaText } from '../utils/text-cleaner'
-import { extractMentionedPlaces, summarizeScrapedContent } from './ai.service'
+import { extractMentionedPlaces, summarizeInLocales, summarizeScrapedContent } from './ai.service'
+import { isLlmBudgetExceeded, LLM_BUDGET_EXCEEDED_ERROR, runWithLlmUsageContext } from './llm-usage.service'
+import { syncSourcePlaceMentions } from './place-mentions.service'
+import { refreshPlaceScore } from './score-recalculation.service'
+import { extractAndSaveVisitorFacts } from './visitor-facts.service'
 import { wikipediaService } from './wikipedia.service'
 
 export interface WikipediaAnalysisResult {
@@ -19,10 +27,18 @@ export interface WikipediaAnalysisOptions {
 
 /**
  * Core Wikipedia analysis logic - shared between API and scripts
+ * The LLM calls are attributed to the place (see llm-usage.service)
  */
 export async function analyzePlaceWikipediaCore(
   placeId: string,
   options: WikipediaAnalysisOptions = {},
+): Promise<{ result: WikipediaAnalysisResult; error?: string }> {
+  return runWithLlmUsageContext({ placeId }, () => runPlaceWikipediaAnalysis(placeId, options))
+}
+
+async function runPlaceWikipediaAnalysis(
+  placeId: string,
+  options: WikipediaAnalysisOptions,
 ): Promise<{ result: WikipediaAnalysisResult; error?: string }> {
   try {
     // Fetch place from database
@@ -43,6 +59,19 @@ export async function analyzePlaceWikipediaCore(
 
     const place = placeResponse.data
     const metadata = place.metadata as any
+
+    if (await isLlmBudgetExceeded()) {
+      return {
+        result: {
+          placeId: place.id,
+          placeName: place.name || 'Unknown',
+          wikipediaReference: metadata?.wikipedia || null,
+          description: '',
+          mentionedPlaces: [],
+        },
+        error: LLM_BUDGET_EXCEEDED_ERROR,
+      }
+    }
     const bypassCache = options.bypassCache || false
 
     console.log(`📍 Analyzing place: ${place.name}`)
@@ -56,10 +85,13 @@ export async function analyzePlaceWikipediaCore(
     let wikipediaContent: string | null = null
     let wikipediaResult: {
       summary: string | null
+      summaries: LocalizedText
       rawContent: string | null
       mentionedPlaces: string[]
       wikipediaReference?: string | null
     } | null = null
+    // Fetched articles are summarized by the Wikipedia service, cached content here
+    let summaryPromptId: PromptId = 'wikipedia-summary'
 
     // Check cache first (unless bypassing)
     if (!bypassCache && place.wikipedia_raw && place.wikipedia_raw.trim().length > 0) {
@@ -123,13 +155,16 @@ export async function analyzePlaceWikipediaCore(
     if (!wikipediaResult) {
       // We have cached content, need to analyze it
       console.log(`\n--- Step 2: Analyzing Cached Content with AI ---`)
-      console.log(`📝 Summarizing content...`)
+      console.log(`📝 Summarizing content (${SUPPORTED_LOCALES.join(', ')})...`)
       console.log(`📍 Extracting mentioned places...`)
 
-      const [summary, mentionedPlaces] = await Promise.all([
-        summarizeScrapedContent(place.name || 'Unknown Place', wikipediaContent),
-        extractMentionedPlaces(place.name || 'Unknown Place', wikipediaContent),
+      const content = wikipediaContent
+      const [summaries, mentionedPlaces] = await Promise.all([
+        summarizeInLocales((locale) => summarizeScrapedContent(place.name || 'Unknown Place', content, locale)),
+        extractMentionedPlaces(place.name || 'Unknown Place', content),
       ])
+      const summary = pickLocalizedText(summaries)?.text ?? null
+      summaryPromptId = 'scraped-content-summary'
 
       if (!summary) {
         return {
@@ -146,6 +181,7 @@ export async function analyzePlaceWikipediaCore(
 
       wikipediaResult = {
         summary,
+        summaries,
         rawContent: wikipediaContent,
         mentionedPlaces: mentionedPlaces || [],
         wikipediaReference: metadata?.wikipedia || null,
@@ -154,12 +190,15 @@ export async function analyzePlaceWikipediaCore(
       // We already have results from fetching, but ensure we use cleaned content
       console.log(`\n--- Step 2: Analyzing Content with AI ---`)
       if (wikipediaContent && wikipediaContent !== wikipediaResult.rawContent) {
-        const [summary, mentionedPlaces] = await Promise.all([
-          summarizeScrapedContent(place.name || 'Unknown Place', wikipediaContent),
-          extractMentionedPlaces(place.name || 'Unknown Place', wikipediaContent),
+        const content = wikipediaContent
+        const [summaries, mentionedPlaces] = await Promise.all([
+          summarizeInLocales((locale) => summarizeScrapedContent(place.name || 'Unknown Place', content, locale)),
+          extractMentionedPlaces(place.name || 'Unknown Place', content),
         ])
-        wikipediaResult.summary = summary
+        wikipediaResult.summaries = summaries
+        wikipediaResult.summary = pickLocalizedText(summaries)?.text ?? null
         wikipediaResult.mentionedPlaces = mentionedPlaces || []
+        summaryPromptId = 'scraped-content-summary'
       }
     }
 
@@ -180,21 +219,30 @@ export async function analyzePlaceWikipediaCore(
     // Step 4: Save results to database
     console.log(`\n--- Step 3: Saving Results to Database ---`)
     console.log(`   Saving wikipedia_generated (${wikipediaResult.summary.length} chars)`)
+    console.log(`   Saving wikipedia_generated_localized (${Object.keys(wikipediaResult.summaries).join(', ')})`)
     console.log(`   Saving wikipedia_places_generated (${wikipediaResult.mentionedPlaces.length} places)`)
     console.log(`   Saving wikipedia_raw (${wikipediaContent?.length || 0} chars)`)
     console.log(`   Saving last_wikipedia_analyzed_at timestamp`)
 
+    const hasMentionedPlaces = wikipediaResult.mentionedPlaces && wikipediaResult.mentionedPlaces.length > 0
     const updateData: {
       wikipedia_generated: string
+      wikipedia_generated_localized: Json
       wikipedia_places_generated?: string[]
       wikipedia_raw?: string
       last_wikipedia_analyzed_at: string
+      metadata: Json
     } = {
       wikipedia_generated: wikipediaResult.summary,
+      wikipedia_generated_localized: wikipediaResult.summaries,
       last_wikipedia_analyzed_at: new Date().toISOString(),
+      metadata: withPromptVersions(place.metadata, {
+        wikipedia_generated: summaryPromptId,
+        ...(hasMentionedPlaces ? { wikipedia_places_generated: 'mentioned-places' } : {}),
+      }),
     }
 
-    if (wikipediaResult.mentionedPlaces && wikipediaResult.mentionedPlaces.length > 0) {
+    if (hasMentionedPlaces) {
       updateData.wikipedia_places_generated = wikipediaResult.mentionedPlaces
     }
 
@@ -214,6 +262,7 @@ export async function analyzePlaceWikipediaCore(
     } else {
       console.log(`✅ Results saved to database successfully`)
       console.log(`   Updated place ID: ${place.id}`)
+      await refreshPlaceScore(place.id, ScoreChangeTrigger.WIKIPEDIA_ANALYSIS)
     }
 
     // Use the wikipediaReference from the result if available, otherwise fall back to metadata
@@ -246,6 +295,9 @@ export async function analyzePlaceWikipediaCore(
 
             const storedPlaces = await batchGetOrCreateGeneratedPlaces(placesToStore)
             console.log(`✅ Stored ${storedPlaces.length} generated places linked to source`)
+
+            // Mentioned places verified by a previous analysis are linked right away, the others once verified
+            await syncSourcePlaceMentions(source, place.id)
           }
         }
       } catch (error) {
@@ -254,6 +306,17 @@ export async function analyzePlaceWikipediaCore(
       }
     }
 
+    // Step 5: Extract visitor facts (fees, hours, parking...) - failures keep the previous facts
+    if (wikipediaContent) {
+      console.log(`\n--- Step 5: Extracting Visitor Facts ---`)
+      await extractAndSaveVisitorFacts(
+        place,
+        'wikipedia',
+        wikipediaContent,
+        wikipediaReference ? wikipediaService.getArticleUrl(wikipediaReference) : null,
+      )
+    }
+
     return {
       result: {
         placeId: place.id,
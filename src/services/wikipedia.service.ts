@@ -1,4 +1,6 @@
-import { summarizeWikipediaContent, extractMentionedPlaces } from './ai.service'
+import { LocalizedText, pickLocalizedText, SUPPORTED_LOCALES } from '../utils/locale'
+import { summarizeWikipediaContent, extractMentionedPlaces, summarizeInLocales } from './ai.service'
+import { getHttpClient } from './http-client.service'
 
 interface WikipediaSearchResult {
   query: {
@@ -39,6 +41,18 @@ export class WikipediaService {
     }
   }
 
+  /**
+   * URL of the article of a Wikipedia reference (e.g. "fr:Lac d'Annecy")
+   */
+  public getArticleUrl(wikipediaReference: string): string | null {
+    const parsed = this.parseWikipediaReference(wikipediaReference)
+    if (!parsed || !parsed.title) {
+      return null
+    }
+
+    return `https://${parsed.language}.wikipedia.org/wiki/${encodeURIComponent(parsed.title.replace(/ /g, '_'))}`
+  }
+
   private async searchWikipediaArticle(
     title: string,
     language: string = 'en',
@@ -51,7 +65,7 @@ export class WikipediaService {
       // First, search for the article
       const searchUrl = `${baseUrl}?action=query&format=json&list=search&srsearch=${encodeURIComponent(title)}&srlimit=1`
 
-      const searchResponse = await fetch(searchUrl, {
+      const searchResponse = await getHttpClient('wikipedia').request(searchUrl, {
         headers: {
           'User-Agent': 'EmpreinteBot/1.0 (Nature Places Data Enhancement)',
         },
@@ -75,7 +89,7 @@ export class WikipediaService {
       // Get the page content
       const contentUrl = `${baseUrl}?action=query&format=json&prop=extracts&exintro=1&explaintext=1&exsectionformat=plain&titles=${encodeURIComponent(pageTitle)}`
 
-      const contentResponse = await fetch(contentUrl, {
+      const contentResponse = await getHttpClient('wikipedia').request(contentUrl, {
         headers: {
           'User-Agent': 'EmpreinteBot/1.0 (Nature Places Data Enhancement)',
         },
@@ -112,6 +126,7 @@ export class WikipediaService {
     wikipediaReference: string,
   ): Promise<{
     summary: string | null
+    summaries: LocalizedText
     rawContent: string | null
     mentionedPlaces: string[]
     wikipediaReference: string
@@ -122,13 +137,26 @@ export class WikipediaService {
       const parsed = this.parseWikipediaReference(wikipediaReference)
       if (!parsed) {
         console.warn(`❌ Invalid Wikipedia reference format: ${wikipediaReference}`)
-        return { summary: null, rawContent: null, mentionedPlaces: [], wikipediaReference }
+        return { summary: null, summaries: {}, rawContent: null, mentionedPlaces: [], wikipediaReference }
       }
 
-      const searchResult = await this.searchWikipediaArticle(parsed.title, parsed.language)
+      let searchResult = await this.searchWikipediaArticle(parsed.title, parsed.language)
+
+      // Without a French article, the English one is summarized in every language
+      // (a title without a language prefix is parsed as an English reference)
+      if (!searchResult && parsed.language === 'fr') {
+        const englishReference = this.parseWikipediaReference(parsed.title)
+        if (englishReference) {
+          console.log(`🔁 No French article, trying the English Wikipedia`)
+          searchResult = await this.searchWikipediaArticle(englishReference.title, englishReference.language)
+          if (searchResult) {
+            wikipediaReference = `${englishReference.language}:${searchResult.articleTitle}`
+          }
+        }
+      }
 
       if (!searchResult) {
-        return { summary: null, rawContent: null, mentionedPlaces: [], wikipediaReference }
+        return { summary: null, summaries: {}, rawContent: null, mentionedPlaces: [], wikipediaReference }
       }
 
       const wikipediaContent = searchResult.content
@@ -137,14 +165,15 @@ export class WikipediaService {
       const rawContent = wikipediaContent.length > 4000 ? wikipediaContent.substring(0, 4000) + '...' : wikipediaContent
 
       console.log(`📄 Retrieved ${wikipediaContent.length} characters from Wikipedia`)
-      console.log(`📝 Summarizing content...`)
+      console.log(`📝 Summarizing content (${SUPPORTED_LOCALES.join(', ')})...`)
       console.log(`📍 Extracting mentioned places...`)
 
-      // Two separate LLM calls in parallel - summarization and place extraction
-      const [summary, mentionedPlaces] = await Promise.all([
-        summarizeWikipediaContent(placeName, wikipediaContent),
+      // Separate LLM calls in parallel - summarization in each language and place extraction
+      const [summaries, mentionedPlaces] = await Promise.all([
+        summarizeInLocales((locale) => summarizeWikipediaContent(placeName, wikipediaContent, locale)),
         extractMentionedPlaces(placeName, wikipediaContent),
       ])
+      const summary = pickLocalizedText(summaries)?.text ?? null
 
       if (summary) {
         console.log(`✅ Generated Wikipedia summary for ${placeName}`)
@@ -156,10 +185,10 @@ export class WikipediaService {
         console.log(`✅ Extracted ${mentionedPlaces.length} mentioned places from Wikipedia`)
       }
 
-      return { summary, rawContent, mentionedPlaces, wikipediaReference }
+      return { summary, summaries, rawContent, mentionedPlaces, wikipediaReference }
     } catch (error) {
       console.error(`❌ Error processing Wikipedia for ${placeName}:`, error)
-      return { summary: null, rawContent: null, mentionedPlaces: [], wikipediaReference }
+      return { summary: null, summaries: {}, rawContent: null, mentionedPlaces: [], wikipediaReference }
     }
   }
 
@@ -168,6 +197,7 @@ export class WikipediaService {
     country?: string | null,
   ): Promise<{
     summary: string | null
+    summaries: LocalizedText
     rawContent: string | null
     mentionedPlaces: string[]
     wikipediaReference: string | null
@@ -189,36 +219,37 @@ export class WikipediaService {
           const articleTitle = searchResult.articleTitle
           const wikipediaReference = `${language}:${articleTitle}`
           
-          console.log(`📝 Summarizing content...`)
+          console.log(`📝 Summarizing content (${SUPPORTED_LOCALES.join(', ')})...`)
           console.log(`📍 Extracting mentioned places...`)
 
           // Always store raw content, with more generous limit for AI processing
           const rawContent = content.length > 4000 ? content.substring(0, 4000) + '...' : content
 
-          // Two separate LLM calls in parallel - summarization and place extraction
-          const [summary, mentionedPlaces] = await Promise.all([
-            summarizeWikipediaContent(placeName, content),
+          // Separate LLM calls in parallel - summarization in each language and place extraction
+          const [summaries, mentionedPlaces] = await Promise.all([
+            summarizeInLocales((locale) => summarizeWikipediaContent(placeName, content, locale)),
             extractMentionedPlaces(placeName, content),
           ])
+          const summary = pickLocalizedText(summaries)?.text ?? null
 
           if (summary) {
             console.log(`✅ Generated Wikipedia summary for ${placeName}`)
             if (mentionedPlaces.length > 0) {
               console.log(`✅ Extracted ${mentionedPlaces.length} mentioned places from Wikipedia`)
             }
-            return { summary, rawContent, mentionedPlaces, wikipediaReference }
+            return { summary, summaries, rawContent, mentionedPlaces, wikipediaReference }
           }
 
           // Return raw content and places even if AI summarization failed
-          return { summary: null, rawContent, mentionedPlaces, wikipediaReference }
+          return { summary: null, summaries: {}, rawContent, mentionedPlaces, wikipediaReference }
         }
       }
 
       console.log(`❌ No relevant Wikipedia content found for ${placeName}`)
-      return { summary: null, rawContent: null, mentionedPlaces: [], wikipediaReference: null }
+      return { summary: null, summaries: {}, rawContent: null, mentionedPlaces: [], wikipediaReference: null }
     } catch (error) {
       console.error(`❌ Error searching Wikipedia for ${placeName}:`, error)
-      return { summary: null, rawContent: null, mentionedPlaces: [], wikipediaReference: null }
+      return { summary: null, summaries: {}, rawContent: null, mentionedPlaces: [], wikipediaReference: null }
     }
   }
 
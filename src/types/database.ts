@@ -16,31 +16,40 @@ export type Database = {
     Tables: {
       generated_places: {
         Row: {
+          confidence: number | null
           created_at: string
           description: string | null
           id: string
+          location_text: string | null
           name: string | null
           place_id: string | null
+          place_type: string | null
           source_id: string | null
           status: string | null
           updated_at: string
         }
         Insert: {
+          confidence?: number | null
           created_at?: string
           description?: string | null
           id?: string
+          location_text?: string | null
           name?: string | null
           place_id?: string | null
+          place_type?: string | null
           source_id?: string | null
           status?: string | null
           updated_at?: string
         }
         Update: {
+          confidence?: number | null
           created_at?: string
           description?: string | null
           id?: string
+          location_text?: string | null
           name?: string | null
           place_id?: string | null
+          place_type?: string | null
           source_id?: string | null
           status?: string | null
           updated_at?: string
@@ -62,6 +71,283 @@ export type Database = {
           },
         ]
       }
+      job_items: {
+        Row: {
+          created_at: string
+          error: string | null
+          id: string
+          item_id: string | null
+          item_index: number
+          job_id: string
+          result: Json | null
+          status: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          item_id?: string | null
+          item_index: number
+          job_id: string
+          result?: Json | null
+          status: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          id?: string
+          item_id?: string | null
+          item_index?: number
+          job_id?: string
+          result?: Json | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "job_items_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      jobs: {
+        Row: {
+          cancel_requested: boolean
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          heartbeat_at: string | null
+          id: string
+          payload: Json
+          progress_current: number
+          progress_total: number | null
+          started_at: string | null
+          status: string
+          summary: Json | null
+          type: string
+          updated_at: string | null
+        }
+        Insert: {
+          cancel_requested?: boolean
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          payload?: Json
+          progress_current?: number
+          progress_total?: number | null
+          started_at?: string | null
+          status?: string
+          summary?: Json | null
+          type: string
+          updated_at?: string | null
+        }
+        Update: {
+          cancel_requested?: boolean
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          heartbeat_at?: string | null
+          id?: string
+          payload?: Json
+          progress_current?: number
+          progress_total?: number | null
+          started_at?: string | null
+          status?: string
+          summary?: Json | null
+          type?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      llm_usage: {
+        Row: {
+          cost_usd: number
+          created_at: string
+          error: string | null
+          id: string
+          job_id: string | null
+          latency_ms: number
+          model: string | null
+          outcome: string
+          place_id: string | null
+          prompt_tokens: number | null
+          provider: string
+          response_tokens: number | null
+          source_id: string | null
+          task: string
+        }
+        Insert: {
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id?: string | null
+          latency_ms: number
+          model?: string | null
+          outcome: string
+          place_id?: string | null
+          prompt_tokens?: number | null
+          provider: string
+          response_tokens?: number | null
+          source_id?: string | null
+          task: string
+        }
+        Update: {
+          cost_usd?: number
+          created_at?: string
+          error?: string | null
+          id?: string
+          job_id?: string | null
+          latency_ms?: number
+          model?: string | null
+          outcome?: string
+          place_id?: string | null
+          prompt_tokens?: number | null
+          provider?: string
+          response_tokens?: number | null
+          source_id?: string | null
+          task?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "llm_usage_job_id_fkey"
+            columns: ["job_id"]
+            isOneToOne: false
+            referencedRelation: "jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "llm_usage_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "llm_usage_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_mentions: {
+        Row: {
+          created_at: string
+          generated_place_id: string
+          id: string
+          mentioned_name: string | null
+          mentioned_place_id: string
+          place_id: string
+          source_id: string | null
+          source_type: string
+        }
+        Insert: {
+          created_at?: string
+          generated_place_id: string
+          id?: string
+          mentioned_name?: string | null
+          mentioned_place_id: string
+          place_id: string
+          source_id?: string | null
+          source_type: string
+        }
+        Update: {
+          created_at?: string
+          generated_place_id?: string
+          id?: string
+          mentioned_name?: string | null
+          mentioned_place_id?: string
+          place_id?: string
+          source_id?: string | null
+          source_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_mentions_generated_place_id_fkey"
+            columns: ["generated_place_id"]
+            isOneToOne: true
+            referencedRelation: "generated_places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_mentions_mentioned_place_id_fkey"
+            columns: ["mentioned_place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_mentions_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "place_mentions_source_id_fkey"
+            columns: ["source_id"]
+            isOneToOne: false
+            referencedRelation: "sources"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_merges: {
+        Row: {
+          canonical_place_id: string
+          created_at: string
+          distance_km: number | null
+          id: string
+          merged_name: string | null
+          merged_osm_id: string | null
+          merged_place_id: string
+          merged_source: string | null
+          merged_source_id: string | null
+          name_similarity: number
+          overlap_ratio: number | null
+        }
+        Insert: {
+          canonical_place_id: string
+          created_at?: string
+          distance_km?: number | null
+          id?: string
+          merged_name?: string | null
+          merged_osm_id?: string | null
+          merged_place_id: string
+          merged_source?: string | null
+          merged_source_id?: string | null
+          name_similarity: number
+          overlap_ratio?: number | null
+        }
+        Update: {
+          canonical_place_id?: string
+          created_at?: string
+          distance_km?: number | null
+          id?: string
+          merged_name?: string | null
+          merged_osm_id?: string | null
+          merged_place_id?: string
+          merged_source?: string | null
+          merged_source_id?: string | null
+          name_similarity?: number
+          overlap_ratio?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_merges_canonical_place_id_fkey"
+            columns: ["canonical_place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       place_photos: {
         Row: {
           attribution: string | null
@@ -103,6 +389,97 @@ export type Database = {
           },
         ]
       }
+      place_score_history: {
+        Row: {
+          breakdown: Json
+          created_at: string
+          id: string
+          new_enhancement_score: number | null
+          new_score: number
+          old_enhancement_score: number | null
+          old_score: number
+          place_id: string
+          trigger: string
+        }
+        Insert: {
+          breakdown: Json
+          created_at?: string
+          id?: string
+          new_enhancement_score?: number | null
+          new_score: number
+          old_enhancement_score?: number | null
+          old_score: number
+          place_id: string
+          trigger: string
+        }
+        Update: {
+          breakdown?: Json
+          created_at?: string
+          id?: string
+          new_enhancement_score?: number | null
+          new_score?: number
+          old_enhancement_score?: number | null
+          old_score?: number
+          place_id?: string
+          trigger?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_score_history_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      place_visitor_facts: {
+        Row: {
+          confidence: number
+          evidence: string | null
+          extracted_at: string
+          fact: string
+          id: string
+          place_id: string
+          prompt_version: string
+          source: string
+          source_url: string | null
+          value: string
+        }
+        Insert: {
+          confidence: number
+          evidence?: string | null
+          extracted_at?: string
+          fact: string
+          id?: string
+          place_id: string
+          prompt_version: string
+          source: string
+          source_url?: string | null
+          value: string
+        }
+        Update: {
+          confidence?: number
+          evidence?: string | null
+          extracted_at?: string
+          fact?: string
+          id?: string
+          place_id?: string
+          prompt_version?: string
+          source?: string
+          source_url?: string | null
+          value?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "place_visitor_facts_place_id_fkey"
+            columns: ["place_id"]
+            isOneToOne: false
+            referencedRelation: "places"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       places: {
         Row: {
           country: string | null
@@ -134,10 +511,17 @@ export type Database = {
           type: string | null
           updated_at: string | null
           website: string | null
+          website_changed_at: string | null
+          website_checked_at: string | null
+          website_content_diff: Json | null
+          website_content_hash: string | null
+          website_content_validators: Json | null
           website_generated: string | null
+          website_generated_localized: Json | null
           website_places_generated: string[] | null
           website_raw: string | null
           wikipedia_generated: string | null
+          wikipedia_generated_localized: Json | null
           wikipedia_places_generated: string[] | null
           wikipedia_query: string | null
           wikipedia_raw: string | null
@@ -172,10 +556,17 @@ export type Database = {
           type?: string | null
           updated_at?: string | null
           website?: string | null
+          website_changed_at?: string | null
+          website_checked_at?: string | null
+          website_content_diff?: Json | null
+          website_content_hash?: string | null
+          website_content_validators?: Json | null
           website_generated?: string | null
+          website_generated_localized?: Json | null
           website_places_generated?: string[] | null
           website_raw?: string | null
           wikipedia_generated?: string | null
+          wikipedia_generated_localized?: Json | null
           wikipedia_places_generated?: string[] | null
           wikipedia_query?: string | null
           wikipedia_raw?: string | null
@@ -210,10 +601,17 @@ export type Database = {
           type?: string | null
           updated_at?: string | null
           website?: string | null
+          website_changed_at?: string | null
+          website_checked_at?: string | null
+          website_content_diff?: Json | null
+          website_content_hash?: string | null
+          website_content_validators?: Json | null
           website_generated?: string | null
+          website_generated_localized?: Json | null
           website_places_generated?: string[] | null
           website_raw?: string | null
           wikipedia_generated?: string | null
+          wikipedia_generated_localized?: Json | null
           wikipedia_places_generated?: string[] | null
           wikipedia_query?: string | null
           wikipedia_raw?: string | null
@@ -289,6 +687,39 @@ export type Database = {
         }
         Relationships: []
       }
+      scheduled_runs: {
+        Row: {
+          created_at: string
+          error: string | null
+          finished_at: string | null
+          id: string
+          started_at: string
+          stats: Json | null
+          status: string
+          task: string
+        }
+        Insert: {
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          stats?: Json | null
+          status?: string
+          task: string
+        }
+        Update: {
+          created_at?: string
+          error?: string | null
+          finished_at?: string | null
+          id?: string
+          started_at?: string
+          stats?: Json | null
+          status?: string
+          task?: string
+        }
+        Relationships: []
+      }
       search_history: {
         Row: {
           created_at: string
@@ -331,28 +762,82 @@ export type Database = {
         }
         Relationships: []
       }
+      source_domains: {
+        Row: {
+          created_at: string
+          domain: string
+          notes: string | null
+          trust_override: number | null
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          domain: string
+          notes?: string | null
+          trust_override?: number | null
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          domain?: string
+          notes?: string | null
+          trust_override?: number | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
       sources: {
         Row: {
+          analyzed_at: string | null
+          content_changed_at: string | null
+          content_checked_at: string | null
+          content_diff: Json | null
+          content_hash: string | null
+          content_validators: Json | null
           created_at: string
+          domain: string | null
           id: string
           name: string | null
+          origin_place_id: string | null
           raw_content: string | null
+          raw_content_format: string | null
+          site_url: string | null
           updated_at: string | null
           url: string
         }
         Insert: {
+          analyzed_at?: string | null
+          content_changed_at?: string | null
+          content_checked_at?: string | null
+          content_diff?: Json | null
+          content_hash?: string | null
+          content_validators?: Json | null
           created_at?: string
+          domain?: string | null
           id: string
           name?: string | null
+          origin_place_id?: string | null
           raw_content?: string | null
+          raw_content_format?: string | null
+          site_url?: string | null
           updated_at?: string | null
           url: string
         }
         Update: {
+          analyzed_at?: string | null
+          content_changed_at?: string | null
+          content_checked_at?: string | null
+          content_diff?: Json | null
+          content_hash?: string | null
+          content_validators?: Json | null
           created_at?: string
+          domain?: string | null
           id?: string
           name?: string | null
+          origin_place_id?: string | null
           raw_content?: string | null
+          raw_content_format?: string | null
+          site_url?: string | null
           updated_at?: string | null
           url?: string
         }
@@ -363,6 +848,87 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      get_llm_spend: {
+        Args: {
+          from_date: string
+          to_date: string
+        }
+        Returns: number
+      }
+      get_llm_usage_report: {
+        Args: {
+          from_date: string
+          to_date: string
+        }
+        Returns: {
+          call_count: number
+          cost_usd: number
+          day: string
+          department: string | null
+          error_count: number
+          model: string | null
+          prompt_tokens: number
+          response_tokens: number
+          task: string
+          total_latency_ms: number
+        }[]
+      }
+      get_place_dedup_candidates: {
+        Args: {
+          max_distance_m?: number
+          min_name_similarity?: number
+        }
+        Returns: {
+          other_place_id: string
+          other_place_lat: number
+          other_place_lon: number
+          other_place_name: string
+          other_place_source: string
+          overlap_ratio: number | null
+          place_id: string
+          place_lat: number
+          place_lon: number
+          place_name: string
+          place_source: string
+        }[]
+      }
+      get_place_scoring_context: {
+        Args: {
+          place_ids?: string[]
+          protected_area_types?: string[]
+        }
+        Returns: {
+          area_m2: number
+          in_protected_area: boolean
+          mentioned_by_count: number
+          photo_count: number
+          place_id: string
+        }[]
+      }
+      get_source_domain_reputation: {
+        Args: {
+          domain_filter?: string
+        }
+        Returns: {
+          domain: string
+          notes: string | null
+          pending_count: number
+          rejected_count: number
+          sources_count: number
+          trust_override: number | null
+          unresolved_count: number
+          verified_count: number
+        }[]
+      }
+      merge_places: {
+        Args: {
+          canonical_id: string
+          canonical_updates: Json
+          duplicate_ids: string[]
+          merges: Json
+        }
+        Returns: undefined
+      }
       places_in_view: {
         Args: {
           max_lat: number
@@ -383,8 +949,10 @@ export type Database = {
       search_places_by_location: {
         Args: {
           min_score?: number
+          place_types?: string[]
           radius_km: number
           result_limit?: number
+          result_offset?: number
           search_lat: number
           search_lng: number
         }
@@ -400,6 +968,7 @@ export type Database = {
           region: string
           score: number
           source: string
+          total_count: number
           type: string
           website: string
           wikipedia_query: string
@@ -409,10 +978,12 @@ export type Database = {
         Args: {
           max_lat: number
           max_long: number
-          max_results: number
+          max_results?: number
           min_lat: number
           min_long: number
-          min_score: number
+          min_score?: number
+          place_types?: string[]
+          result_offset?: number
         }
         Returns: {
           country: string
@@ -425,6 +996,7 @@ export type Database = {
           region: string
           score: number
           source: string
+          total_count: number
           type: string
           website: string
           wikipedia_query: string
@@ -4,4 +4,14 @@ export interface ErrorResponse {
   error: string
 }
 
-export type { Database }
\ No newline at end of file
+/**
+ * Optional hooks for batch processing functions (used by background jobs to track progress and cancel)
+ */
+export interface BatchHooks<TResult> {
+  /** Called after each item is processed */
+  onItemProcessed?: (result: TResult, index: number, total: number) => Promise<void> | void
+  /** Checked before each item, processing stops early when it returns true */
+  shouldStop?: () => Promise<boolean> | boolean
+}
+
+export type { Database }
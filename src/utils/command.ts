@@ -0,0 +1,56 @@
+import { spawn } from 'child_process'
+
+export interface CommandOptions {
+  /** Name of the program in the error messages, e.g. "Chromium" */
+  name: string
+  timeoutMs: number
+  /** Output beyond this length (in characters) is not kept */
+  maxOutputLength?: number
+}
+
+/**
+ * Runs an external program and resolves with its standard output
+ * The output is decoded as a UTF-8 stream rather than chunk by chunk, so that a character whose bytes are split
+ * between two chunks (e.g. an accented letter) is not garbled
+ * Rejects when the program can't be started, times out (it is then killed) or exits with a non-zero code
+ */
+export function runCommand(command: string, args: string[], options: CommandOptions): Promise<string> {
+  const { name, timeoutMs, maxOutputLength = Infinity } = options
+
+  return new Promise((resolve, reject) => {
+    const childProcess = spawn(command, args, { stdio: ['ignore', 'pipe', 'pipe'] })
+
+    let stdout = ''
+    let stderr = ''
+
+    const timer = setTimeout(() => {
+      childProcess.kill('SIGKILL')
+      reject(new Error(`${name} timed out after ${timeoutMs}ms`))
+    }, timeoutMs)
+
+    childProcess.stdout.setEncoding('utf8')
+    childProcess.stdout.on('data', (data: string) => {
+      if (stdout.length < maxOutputLength) {
+        stdout += data
+      }
+    })
+
+    childProcess.stderr.on('data', (data) => {
+      stderr += data.toString()
+    })
+
+    childProcess.on('close', (code) => {
+      clearTimeout(timer)
+      if (code === 0) {
+        resolve(stdout)
+      } else {
+        reject(new Error(`${name} exited with code ${code}: ${stderr.trim().slice(-500)}`))
+      }
+    })
+
+    childProcess.on('error', (error) => {
+      clearTimeout(timer)
+      reject(new Error(`Failed to start ${name} (${command}): ${error.message}`))
+    })
+  })
+}
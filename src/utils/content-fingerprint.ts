@@ -0,0 +1,126 @@
+import { createHash } from 'crypto'
+import { Json } from '../types/database'
+
+/**
+ * HTTP validators of a fetched page, sent back as If-None-Match / If-Modified-Since to check it for changes
+ * (types rather than interfaces, so they are assignable to the Json columns they are stored in)
+ */
+export type PageValidator = {
+  etag: string | null
+  lastModified: string | null
+}
+
+/**
+ * Validators of the pages a content was read from, by page URL
+ */
+export type ContentValidators = Record<string, PageValidator>
+
+/**
+ * What changed between two versions of a content
+ */
+export type ContentDiffSummary = {
+  /** Share of the text (in characters) that was added or removed, from 0 to 1 */
+  changeRatio: number
+  addedSegmentsCount: number
+  removedSegmentsCount: number
+  previousLength: number
+  newLength: number
+  /** First added and removed sentences, truncated */
+  added: string[]
+  removed: string[]
+}
+
+const MAX_DIFF_SAMPLES = 5
+const MAX_SAMPLE_LENGTH = 200
+
+export function getPageValidator(response: Response): PageValidator {
+  return {
+    etag: response.headers.get('etag'),
+    lastModified: response.headers.get('last-modified'),
+  }
+}
+
+/**
+ * Normalizes a text before hashing, so whitespace-only changes keep the same fingerprint
+ */
+function normalizeForFingerprint(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * SHA-256 fingerprint of a cleaned text
+ */
+export function hashContent(text: string): string {
+  return createHash('sha256').update(normalizeForFingerprint(text)).digest('hex')
+}
+
+/**
+ * Splits a text in sentences and lines, the unit of the diff
+ */
+function splitSegments(text: string): string[] {
+  return text
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map((segment) => segment.replace(/\s+/g, ' ').trim())
+    .filter((segment) => segment.length > 0)
+}
+
+/**
+ * Compares two versions of a content sentence by sentence, ignoring their order
+ * (pages may be scraped in another order)
+ */
+export function diffContent(previous: string, next: string): ContentDiffSummary {
+  const remaining = new Map<string, number>()
+  for (const segment of splitSegments(previous)) {
+    remaining.set(segment, (remaining.get(segment) || 0) + 1)
+  }
+
+  const added: string[] = []
+  for (const segment of splitSegments(next)) {
+    const count = remaining.get(segment) || 0
+    if (count > 0) {
+      remaining.set(segment, count - 1)
+    } else {
+      added.push(segment)
+    }
+  }
+
+  const removed = [...remaining.entries()].flatMap(([segment, count]) => Array<string>(count).fill(segment))
+
+  const changedLength = [...added, ...removed].reduce((sum, segment) => sum + segment.length, 0)
+  const totalLength = previous.length + next.length
+
+  const toSamples = (segments: string[]) =>
+    segments
+      .slice(0, MAX_DIFF_SAMPLES)
+      .map((segment) => (segment.length > MAX_SAMPLE_LENGTH ? `${segment.slice(0, MAX_SAMPLE_LENGTH)}...` : segment))
+
+  return {
+    changeRatio: totalLength > 0 ? Math.round((changedLength / totalLength) * 1000) / 1000 : 0,
+    addedSegmentsCount: added.length,
+    removedSegmentsCount: removed.length,
+    previousLength: previous.length,
+    newLength: next.length,
+    added: toSamples(added),
+    removed: toSamples(removed),
+  }
+}
+
+/**
+ * Reads the validators stored in a JSON column, ignoring malformed entries
+ */
+export function toContentValidators(value: Json | null | undefined): ContentValidators {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {}
+  }
+
+  const validators: ContentValidators = {}
+  for (const [url, validator] of Object.entries(value)) {
+    if (validator && typeof validator === 'object' && !Array.isArray(validator)) {
+      validators[url] = {
+        etag: typeof validator.etag === 'string' ? validator.etag : null,
+        lastModified: typeof validator.lastModified === 'string' ? validator.lastModified : null,
+      }
+    }
+  }
+  return validators
+}
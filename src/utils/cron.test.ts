@@ -0,0 +1,66 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { matchesCronSchedule, parseCronExpression } from './cron'
+
+describe('parseCronExpression', () => {
+  it('parses single values, ranges, lists and steps', () => {
+    const schedule = parseCronExpression('*/15 8-10 1,15 1-12/3 *')
+
+    assert.deepEqual([...schedule.minutes], [0, 15, 30, 45])
+    assert.deepEqual([...schedule.hours], [8, 9, 10])
+    assert.deepEqual([...schedule.daysOfMonth], [1, 15])
+    assert.deepEqual([...schedule.months], [1, 4, 7, 10])
+    assert.equal(schedule.daysOfWeek.size, 7)
+  })
+
+  it('steps from a single value up to the end of the field', () => {
+    assert.deepEqual([...parseCronExpression('5/20 * * * *').minutes], [5, 25, 45])
+  })
+
+  it('counts Sunday as 0 or 7', () => {
+    assert.deepEqual([...parseCronExpression('0 0 * * 7').daysOfWeek], [0])
+  })
+
+  it('treats the day fields starting with "*" as unrestricted', () => {
+    const schedule = parseCronExpression('0 0 */2 * */2')
+
+    assert.equal(schedule.daysOfMonthRestricted, false)
+    assert.equal(schedule.daysOfWeekRestricted, false)
+    assert.equal(parseCronExpression('0 0 1 * 1-5').daysOfWeekRestricted, true)
+  })
+
+  it('rejects invalid expressions', () => {
+    assert.throws(() => parseCronExpression('0 0 * *'), /expected 5 fields/)
+    assert.throws(() => parseCronExpression('60 * * * *'), /minute field/)
+    assert.throws(() => parseCronExpression('*/0 * * * *'), /Invalid step/)
+    assert.throws(() => parseCronExpression('0 5-2 * * *'), /hour field/)
+  })
+})
+
+describe('matchesCronSchedule', () => {
+  // Wednesday 15 January 2025, 08:30 (server local time)
+  const date = new Date(2025, 0, 15, 8, 30)
+
+  it('matches the minute, hour and month', () => {
+    assert.ok(matchesCronSchedule(parseCronExpression('30 8 * 1 *'), date))
+    assert.ok(!matchesCronSchedule(parseCronExpression('0 8 * * *'), date))
+    assert.ok(!matchesCronSchedule(parseCronExpression('30 8 * 2 *'), date))
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 1st of the month or a Wednesday
+    assert.ok(matchesCronSchedule(parseCronExpression('30 8 1 * 3'), date))
+    // The 15th of the month or a Monday
+    assert.ok(matchesCronSchedule(parseCronExpression('30 8 15 * 1'), date))
+    // The 1st of the month or a Monday
+    assert.ok(!matchesCronSchedule(parseCronExpression('30 8 1 * 1'), date))
+  })
+
+  it('matches both day fields when only one is restricted', () => {
+    assert.ok(matchesCronSchedule(parseCronExpression('30 8 * * 3'), date))
+    assert.ok(!matchesCronSchedule(parseCronExpression('30 8 * * 1'), date))
+    // Every other day of the month (1, 3, 5...) on Wednesdays only
+    assert.ok(matchesCronSchedule(parseCronExpression('30 8 */2 * 3'), date))
+    assert.ok(!matchesCronSchedule(parseCronExpression('30 8 */2 * 1'), date))
+  })
+})
@@ -0,0 +1,123 @@
+/**
+ * Minimal cron expression support for the in-process scheduler
+ * Supports the standard 5 fields (minute hour day-of-month month day-of-week) with
+ * `*`, single values, ranges (`1-5`), lists (`1,15`) and steps (`*\/15`, `0-30/10`)
+ */
+
+export interface CronSchedule {
+  expression: string
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron semantics: when both day fields are restricted, a date matches if either matches
+  daysOfMonthRestricted: boolean
+  daysOfWeekRestricted: boolean
+}
+
+const FIELD_RANGES: Array<{ name: string; min: number; max: number }> = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  { name: 'day of week', min: 0, max: 7 }, // 0 and 7 are both Sunday
+]
+
+/**
+ * Parses a single cron field into the set of values it matches
+ */
+function parseField(field: string, min: number, max: number, name: string): Set<number> {
+  const values = new Set<number>()
+
+  for (const part of field.split(',')) {
+    const [rangePart, stepPart] = part.split('/')
+    const step = stepPart === undefined ? 1 : Number(stepPart)
+
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepPart}" in cron ${name} field`)
+    }
+
+    let start: number
+    let end: number
+
+    if (rangePart === '*') {
+      start = min
+      end = max
+    } else if (rangePart.includes('-')) {
+      const [rangeStart, rangeEnd] = rangePart.split('-')
+      start = Number(rangeStart)
+      end = Number(rangeEnd)
+    } else {
+      start = Number(rangePart)
+      // "5/10" means every 10 starting at 5
+      end = stepPart === undefined ? start : max
+    }
+
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < min || end > max || start > end) {
+      throw new Error(`Invalid value "${part}" in cron ${name} field (expected ${min}-${max})`)
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parses a 5-field cron expression
+ * @throws Error if the expression is invalid
+ */
+export function parseCronExpression(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/)
+
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`)
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) =>
+    parseField(field, FIELD_RANGES[i].min, FIELD_RANGES[i].max, FIELD_RANGES[i].name),
+  )
+
+  // Normalize Sunday to 0
+  if (daysOfWeek.has(7)) {
+    daysOfWeek.delete(7)
+    daysOfWeek.add(0)
+  }
+
+  return {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    // A day field starting with "*" (e.g. "*/2") is unrestricted, as in standard cron
+    daysOfMonthRestricted: !fields[2].startsWith('*'),
+    daysOfWeekRestricted: !fields[4].startsWith('*'),
+  }
+}
+
+/**
+ * Checks whether a date (to the minute, in server local time) matches a cron schedule
+ */
+export function matchesCronSchedule(schedule: CronSchedule, date: Date): boolean {
+  if (
+    !schedule.minutes.has(date.getMinutes()) ||
+    !schedule.hours.has(date.getHours()) ||
+    !schedule.months.has(date.getMonth() + 1)
+  ) {
+    return false
+  }
+
+  const dayOfMonthMatches = schedule.daysOfMonth.has(date.getDate())
+  const dayOfWeekMatches = schedule.daysOfWeek.has(date.getDay())
+
+  if (schedule.daysOfMonthRestricted && schedule.daysOfWeekRestricted) {
+    return dayOfMonthMatches || dayOfWeekMatches
+  }
+
+  return dayOfMonthMatches && dayOfWeekMatches
+}
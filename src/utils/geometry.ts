@@ -239,6 +239,62 @@ export function calculateDistance(point1: Point, point2: Point): number {
   return R * c
 }
 
+/**
+ * Calculate the bounding box of a list of points
+ */
+export function calculateBoundingBox(points: Point[]): BoundingBox | null {
+  const validPoints = points.filter((p) => isValidCoordinate(p.lat, p.lon))
+  if (validPoints.length === 0) return null
+
+  return {
+    south: Math.min(...validPoints.map((p) => p.lat)),
+    west: Math.min(...validPoints.map((p) => p.lon)),
+    north: Math.max(...validPoints.map((p) => p.lat)),
+    east: Math.max(...validPoints.map((p) => p.lon)),
+  }
+}
+
+/**
+ * Calculate the bounding box of a GeoJSON geometry (Point, LineString, Polygon or MultiPolygon)
+ */
+export function calculateGeometryBoundingBox(geometry: any): BoundingBox | null {
+  if (!geometry || !geometry.coordinates) return null
+
+  const points: Point[] = []
+  const collect = (coordinates: any): void => {
+    if (typeof coordinates[0] === 'number') {
+      points.push({ lon: coordinates[0], lat: coordinates[1] })
+    } else {
+      coordinates.forEach(collect)
+    }
+  }
+
+  try {
+    collect(transformGeometry(geometry).coordinates)
+  } catch (error) {
+    console.warn('⚠️ Failed to calculate geometry bounding box:', error)
+    return null
+  }
+
+  return calculateBoundingBox(points)
+}
+
+/**
+ * Expand a bounding box by a margin in kilometers on each side
+ */
+export function expandBoundingBox(bbox: BoundingBox, marginKm: number): BoundingBox {
+  const latMargin = marginKm / 111 // ~111 km per degree of latitude
+  const centerLat = (bbox.south + bbox.north) / 2
+  const lonMargin = marginKm / (111 * Math.max(Math.cos((centerLat * Math.PI) / 180), 0.01))
+
+  return {
+    south: Math.max(bbox.south - latMargin, -90),
+    west: Math.max(bbox.west - lonMargin, -180),
+    north: Math.min(bbox.north + latMargin, 90),
+    east: Math.min(bbox.east + lonMargin, 180),
+  }
+}
+
 /**
  * Detect if coordinates are in a projected coordinate system (like Lambert 93)
  * vs standard lat/lon. Lambert 93 coordinates are typically much larger numbers.
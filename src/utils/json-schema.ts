@@ -0,0 +1,118 @@
+/**
+ * Minimal JSON Schema subset used to declare and validate the structured output of the LLM
+ */
+export type JsonSchema =
+  | { type: 'string'; enum?: string[]; nullable?: boolean; description?: string }
+  | { type: 'number'; minimum?: number; maximum?: number; nullable?: boolean; description?: string }
+  | { type: 'boolean'; nullable?: boolean; description?: string }
+  | { type: 'array'; items: JsonSchema; nullable?: boolean; description?: string }
+  | {
+      type: 'object'
+      properties: Record<string, JsonSchema>
+      /** All properties are required when undefined */
+      required?: string[]
+      nullable?: boolean
+      description?: string
+    }
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+/**
+ * Validates a value against a schema
+ * @returns The validation errors, with the JSON path of each invalid value (empty if the value is valid)
+ */
+export function validateJsonSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+  if (value === null || value === undefined) {
+    return schema.nullable ? [] : [`${path}: expected ${schema.type}, got ${describeValue(value)}`]
+  }
+
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path}: expected string, got ${describeValue(value)}`]
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path}: expected one of ${schema.enum.join(', ')}, got "${value}"`]
+      }
+      return []
+
+    case 'number':
+      if (typeof value !== 'number' || isNaN(value)) return [`${path}: expected number, got ${describeValue(value)}`]
+      if (schema.minimum !== undefined && value < schema.minimum) return [`${path}: must be >= ${schema.minimum}`]
+      if (schema.maximum !== undefined && value > schema.maximum) return [`${path}: must be <= ${schema.maximum}`]
+      return []
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path}: expected boolean, got ${describeValue(value)}`]
+
+    case 'array':
+      if (!Array.isArray(value)) return [`${path}: expected array, got ${describeValue(value)}`]
+      return value.flatMap((item, index) => validateJsonSchema(item, schema.items, `${path}[${index}]`))
+
+    case 'object': {
+      if (typeof value !== 'object' || Array.isArray(value)) {
+        return [`${path}: expected object, got ${describeValue(value)}`]
+      }
+      const record = value as Record<string, unknown>
+      const required = schema.required ?? Object.keys(schema.properties)
+      const missing = required.filter((key) => !(key in record)).map((key) => `${path}.${key}: missing`)
+
+      return [
+        ...missing,
+        ...Object.entries(schema.properties)
+          .filter(([key]) => key in record)
+          .flatMap(([key, propertySchema]) => validateJsonSchema(record[key], propertySchema, `${path}.${key}`)),
+      ]
+    }
+  }
+}
+
+/**
+ * Converts a schema to standard JSON Schema, as accepted by the structured output APIs
+ * (nullable becomes a ["type", "null"] union, objects don't accept other properties)
+ */
+export function toStandardJsonSchema(schema: JsonSchema): Record<string, unknown> {
+  const { nullable, ...rest } = schema
+  const type = nullable ? [schema.type, 'null'] : schema.type
+
+  switch (rest.type) {
+    case 'array':
+      return { ...rest, type, items: toStandardJsonSchema(rest.items) }
+    case 'object':
+      return {
+        ...rest,
+        type,
+        properties: Object.fromEntries(
+          Object.entries(rest.properties).map(([key, propertySchema]) => [key, toStandardJsonSchema(propertySchema)]),
+        ),
+        required: rest.required ?? Object.keys(rest.properties),
+        additionalProperties: false,
+      }
+    default:
+      return { ...rest, type }
+  }
+}
+
+/**
+ * Smallest value matching a schema: null when nullable, otherwise empty strings and arrays, false, 0 or the minimum
+ */
+export function createEmptyJsonValue(schema: JsonSchema): unknown {
+  if (schema.nullable) return null
+
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? schema.enum[0] : ''
+    case 'number':
+      return schema.minimum ?? 0
+    case 'boolean':
+      return false
+    case 'array':
+      return []
+    case 'object': {
+      const required = schema.required ?? Object.keys(schema.properties)
+      return Object.fromEntries(required.map((key) => [key, createEmptyJsonValue(schema.properties[key])]))
+    }
+  }
+}
@@ -0,0 +1,105 @@
+import { Request } from 'express'
+import { Json } from '../types/database'
+
+/**
+ * Languages the generated descriptions are written in
+ */
+export const SUPPORTED_LOCALES = ['fr', 'en'] as const
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number]
+
+/**
+ * Language of the single-language fields (website_generated, wikipedia_generated) and of the responses
+ * when the request doesn't ask for a supported one
+ */
+export const DEFAULT_LOCALE: Locale = 'fr'
+
+export const LOCALE_NAMES: Record<Locale, string> = {
+  fr: 'French',
+  en: 'English',
+}
+
+/**
+ * A text in several languages, e.g. { "fr": "...", "en": "..." }
+ */
+export type LocalizedText = Partial<Record<Locale, string>>
+
+export function isLocale(value: string): value is Locale {
+  return (SUPPORTED_LOCALES as readonly string[]).includes(value)
+}
+
+/**
+ * Reads a localized text stored as JSON, ignoring unsupported languages and empty texts
+ */
+export function toLocalizedText(value: Json | null | undefined): LocalizedText {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return {}
+  }
+
+  const texts: LocalizedText = {}
+  for (const [locale, text] of Object.entries(value)) {
+    if (isLocale(locale) && typeof text === 'string' && text.trim().length > 0) {
+      texts[locale] = text
+    }
+  }
+  return texts
+}
+
+/**
+ * Picks the text in the requested language, then in the default language, then in any language
+ * @returns The text and its language, or null if there is no text
+ */
+export function pickLocalizedText(
+  texts: LocalizedText,
+  locale: Locale = DEFAULT_LOCALE,
+): { text: string; locale: Locale } | null {
+  for (const candidate of [locale, DEFAULT_LOCALE, ...SUPPORTED_LOCALES]) {
+    const text = texts[candidate]
+    if (text) {
+      return { text, locale: candidate }
+    }
+  }
+  return null
+}
+
+/**
+ * First supported language of an Accept-Language header, by preference (e.g. "en-GB,en;q=0.9,fr;q=0.8" is "en")
+ */
+export function parseAcceptLanguage(header: string | undefined): Locale | null {
+  if (!header) {
+    return null
+  }
+
+  const languages = header
+    .split(',')
+    .map((part) => {
+      const [tag, ...params] = part.trim().split(';')
+      const quality = params.find((param) => param.trim().startsWith('q='))
+      return {
+        language: tag.trim().toLowerCase().split('-')[0],
+        quality: quality ? Number(quality.trim().slice(2)) : 1,
+      }
+    })
+    .filter(({ language, quality }) => language.length > 0 && !isNaN(quality) && quality > 0)
+    .sort((a, b) => b.quality - a.quality)
+
+  return languages.map(({ language }) => language).find(isLocale) ?? null
+}
+
+/**
+ * Language requested by a read endpoint: the `lang` query parameter, then the Accept-Language header,
+ * then the default language
+ * @returns The language, or an error if `lang` is not a supported language
+ */
+export function getRequestLocale(req: Request): { locale: Locale; error?: string } {
+  const lang = req.query.lang
+
+  if (lang !== undefined) {
+    if (typeof lang !== 'string' || !isLocale(lang.toLowerCase())) {
+      return { locale: DEFAULT_LOCALE, error: `lang must be one of: ${SUPPORTED_LOCALES.join(', ')}` }
+    }
+    return { locale: lang.toLowerCase() as Locale }
+  }
+
+  return { locale: parseAcceptLanguage(req.headers['accept-language']) ?? DEFAULT_LOCALE }
+}
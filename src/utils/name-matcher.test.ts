@@ -0,0 +1,38 @@
+import assert from 'node:assert/strict'
+import { describe, it } from 'node:test'
+import { calculateNameMatchScore, normalizePlaceName } from './name-matcher'
+
+describe('normalizePlaceName', () => {
+  it('folds accents, drops articles and normalizes plurals and synonyms', () => {
+    assert.equal(normalizePlaceName("Les Gorges de l'Ardèche"), 'gorge ardeche')
+    assert.equal(normalizePlaceName('Étang de Thau'), 'lac thau')
+    assert.equal(normalizePlaceName('Bois de Vincennes'), 'foret vincenne')
+  })
+})
+
+describe('calculateNameMatchScore', () => {
+  it('matches names differing by accents, articles, word order and synonyms', () => {
+    assert.equal(calculateNameMatchScore('Lac de la Forêt', 'lac foret'), 1)
+    assert.equal(calculateNameMatchScore('Étang de Thau', 'Lac de Thau'), 1)
+    assert.equal(calculateNameMatchScore('Cascade du Hérisson', 'Hérisson Cascade'), 1)
+  })
+
+  it('tolerates typos', () => {
+    assert.ok(calculateNameMatchScore('Lac d’Annecy', 'Lac d’Anecy') >= 0.8)
+  })
+
+  it('caps subset matches below 1', () => {
+    assert.equal(calculateNameMatchScore('Vercors', 'Parc naturel régional du Vercors'), 0.9)
+    assert.equal(calculateNameMatchScore('Annecy', "Lac d'Annecy"), 0.9)
+  })
+
+  it('does not count names made only of generic type words as subset matches', () => {
+    assert.ok(calculateNameMatchScore('Lac', 'Lac du Bourget') < 0.5)
+    assert.ok(calculateNameMatchScore('Forêt', 'Bois de Vincennes') < 0.5)
+    assert.ok(calculateNameMatchScore('Parc naturel régional', 'Parc naturel régional du Vercors') < 0.9)
+  })
+
+  it('does not match names only sharing a type word', () => {
+    assert.ok(calculateNameMatchScore('Plage de la Baule', 'Plage des Sables') < 0.8)
+  })
+})
@@ -0,0 +1,213 @@
+/**
+ * French-aware fuzzy matching of place names
+ * Used to compare names coming from different sources (OSM, Overture, data.gouv.fr, AI-extracted places)
+ */
+
+/**
+ * Articles, prepositions and conjunctions that don't identify a place ("Lac de la Forêt" = "Lac Forêt")
+ */
+const STOP_WORDS = new Set([
+  'le',
+  'la',
+  'les',
+  'l',
+  'de',
+  'du',
+  'des',
+  'd',
+  'et',
+  'en',
+  'au',
+  'aux',
+  'a',
+  'sur',
+  'sous',
+  'the',
+  'of',
+])
+
+/**
+ * Type words with the same meaning in place names, mapped to a single token
+ */
+const TYPE_SYNONYMS: Record<string, string> = {
+  bois: 'foret',
+  sylve: 'foret',
+  chute: 'cascade',
+  saut: 'cascade',
+  canyon: 'gorge',
+  montagne: 'mont',
+  etang: 'lac',
+  reservoir: 'lac',
+  crique: 'anse',
+  calanque: 'anse',
+  ilot: 'ile',
+}
+
+/**
+ * Generic type words (after normalization) that name a kind of place, not a place: a name made only of them
+ * ("Lac", "Forêt") is contained in many names without designating the same place
+ */
+const GENERIC_TOKENS = new Set([
+  'lac',
+  'foret',
+  'cascade',
+  'gorge',
+  'mont',
+  'anse',
+  'ile',
+  'plage',
+  'baie',
+  'pointe',
+  'cap',
+  'col',
+  'pic',
+  'grotte',
+  'vallee',
+  'riviere',
+  'source',
+  'dune',
+  'marais',
+  'parc',
+  'naturel',
+  'national',
+  'regional',
+  'reserve',
+])
+
+// Subset matches ("Vercors" vs "Parc naturel régional du Vercors") are likely but not certain
+const SUBSET_MATCH_FACTOR = 0.9
+
+/**
+ * Lowercases, folds diacritics and ligatures, and replaces punctuation (including elisions like "d'") by spaces
+ */
+export function foldName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/œ/g, 'oe')
+    .replace(/æ/g, 'ae')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+}
+
+function normalizeToken(token: string): string {
+  if (TYPE_SYNONYMS[token]) return TYPE_SYNONYMS[token]
+  // Drop the plural so "Gorges" and "Gorge" match
+  const singular = token.length > 3 && /[sx]$/.test(token) ? token.slice(0, -1) : token
+  return TYPE_SYNONYMS[singular] || singular
+}
+
+/**
+ * Splits a name into its significant tokens: folded, without stop words, plurals and synonyms normalized
+ */
+export function tokenizeName(name: string): string[] {
+  return foldName(name)
+    .split(' ')
+    .filter((token) => token && !STOP_WORDS.has(token))
+    .map(normalizeToken)
+}
+
+/**
+ * Normalized name used for comparisons: significant tokens joined by spaces
+ */
+export function normalizePlaceName(name: string): string {
+  return tokenizeName(name).join(' ')
+}
+
+/**
+ * Levenshtein edit distance between two strings
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0
+  if (a.length === 0) return b.length
+  if (b.length === 0) return a.length
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost)
+    }
+    previous = current
+  }
+
+  return previous[b.length]
+}
+
+/**
+ * Similarity (0-1) of two strings based on their edit distance
+ */
+export function editRatio(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length)
+  if (maxLength === 0) return 1
+  return 1 - levenshteinDistance(a, b) / maxLength
+}
+
+/**
+ * Token-set ratio (0-1), ignoring word order:
+ * - 1 when all the tokens of one name are contained in the other
+ * - when the names share tokens, the similarity of their other tokens: shared type words ("Lac", "Plage") must not
+ *   make "Plage de la Baule" match "Plage des Sables"
+ * - otherwise, the similarity of the sorted token lists
+ */
+export function tokenSetRatio(tokens1: string[], tokens2: string[]): number {
+  const set1 = new Set(tokens1)
+  const set2 = new Set(tokens2)
+  const rest1 = [...set1].filter((token) => !set2.has(token)).sort()
+  const rest2 = [...set2].filter((token) => !set1.has(token)).sort()
+
+  if (rest1.length === 0 || rest2.length === 0) return 1
+
+  if (rest1.length < set1.size) {
+    return editRatio(rest1.join(' '), rest2.join(' '))
+  }
+
+  return editRatio([...set1].sort().join(' '), [...set2].sort().join(' '))
+}
+
+/**
+ * Confidence (0-1) that two names designate the same place
+ * Names are compared on their significant tokens (see tokenizeName) with the token-set ratio, so accents,
+ * articles, word order, plurals and type-word synonyms don't matter and typos are tolerated by the edit distance.
+ * Subset matches ("Vercors" vs "Parc naturel régional du Vercors") are capped below 1, and only count when the
+ * contained name has a non-generic token: "Lac" is not a subset match of "Lac du Bourget".
+ */
+export function calculateNameMatchScore(name1: string, name2: string): number {
+  const tokens1 = tokenizeName(name1)
+  const tokens2 = tokenizeName(name2)
+
+  // Names made only of stop words: fall back to the folded names
+  if (tokens1.length === 0 || tokens2.length === 0) {
+    return editRatio(foldName(name1), foldName(name2))
+  }
+
+  const score = tokenSetRatio(tokens1, tokens2)
+  const set1 = new Set(tokens1)
+  const set2 = new Set(tokens2)
+  const isSameTokenSet = set1.size === set2.size && [...set1].every((token) => set2.has(token))
+
+  if (score < 1 || isSameTokenSet) return score
+
+  const smallerSet = set1.size <= set2.size ? set1 : set2
+  if (![...smallerSet].some((token) => !GENERIC_TOKENS.has(token))) {
+    return editRatio([...set1].sort().join(' '), [...set2].sort().join(' '))
+  }
+
+  return SUBSET_MATCH_FACTOR
+}
+
+/**
+ * Scores candidate names against a name, best match first
+ */
+export function rankNameMatches<T>(
+  name: string,
+  candidates: T[],
+  getName: (candidate: T) => string,
+): Array<{ candidate: T; score: number }> {
+  return candidates
+    .map((candidate) => ({ candidate, score: calculateNameMatchScore(name, getName(candidate)) }))
+    .sort((a, b) => b.score - a.score)
+}
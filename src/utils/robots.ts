@@ -0,0 +1,135 @@
+/**
+ * Parsed robots.txt (RFC 9309): the rules of each user-agent group
+ */
+export interface RobotsTxt {
+  groups: RobotsGroup[]
+}
+
+export interface RobotsGroup {
+  /** Lowercased user-agent tokens of the group, "*" for any crawler */
+  userAgents: string[]
+  rules: RobotsRule[]
+  /** Crawl-delay in seconds (non-standard but widely used), null when not set */
+  crawlDelay: number | null
+}
+
+export interface RobotsRule {
+  allow: boolean
+  /** Path pattern, may contain "*" wildcards and end with "$" */
+  path: string
+}
+
+/**
+ * Rules that apply to a crawler: the groups naming it, or the "*" group when none does
+ */
+export interface RobotsPolicy {
+  rules: RobotsRule[]
+  crawlDelay: number | null
+}
+
+/**
+ * Parses a robots.txt file, ignoring unknown fields and malformed lines
+ */
+export function parseRobotsTxt(content: string): RobotsTxt {
+  const groups: RobotsGroup[] = []
+  let current: RobotsGroup | null = null
+  // Consecutive user-agent lines share the same group, a user-agent line after rules starts a new one
+  let collectingUserAgents = false
+
+  for (const rawLine of content.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, '').trim()
+    const separator = line.indexOf(':')
+    if (separator === -1) continue
+
+    const field = line.slice(0, separator).trim().toLowerCase()
+    const value = line.slice(separator + 1).trim()
+
+    if (field === 'user-agent') {
+      if (!current || !collectingUserAgents) {
+        current = { userAgents: [], rules: [], crawlDelay: null }
+        groups.push(current)
+      }
+      current.userAgents.push(value.toLowerCase())
+      collectingUserAgents = true
+      continue
+    }
+
+    if (!current) continue
+    collectingUserAgents = false
+
+    if (field === 'allow' || field === 'disallow') {
+      // An empty disallow allows everything, it is the same as no rule
+      if (value) {
+        current.rules.push({ allow: field === 'allow', path: value })
+      }
+    } else if (field === 'crawl-delay') {
+      const delay = Number(value)
+      if (Number.isFinite(delay) && delay >= 0) {
+        current.crawlDelay = delay
+      }
+    }
+  }
+
+  return { groups }
+}
+
+/**
+ * Merges the groups matching a user-agent token (e.g. "empreintebot"), falling back to the "*" groups
+ */
+export function getRobotsPolicy(robots: RobotsTxt, userAgent: string): RobotsPolicy {
+  const token = userAgent.toLowerCase()
+  const matching = robots.groups.filter((group) => group.userAgents.some((agent) => agent !== '*' && agent === token))
+  const groups = matching.length > 0 ? matching : robots.groups.filter((group) => group.userAgents.includes('*'))
+
+  const delays = groups.map((group) => group.crawlDelay).filter((delay): delay is number => delay !== null)
+
+  return {
+    rules: groups.flatMap((group) => group.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+  }
+}
+
+/**
+ * Whether a path (with its query string) may be crawled: the longest matching rule wins, allow wins ties
+ */
+export function isPathAllowed(policy: RobotsPolicy, path: string): boolean {
+  let match: RobotsRule | null = null
+
+  for (const rule of policy.rules) {
+    if (!matchesPattern(rule.path, path)) continue
+
+    if (
+      !match ||
+      rule.path.length > match.path.length ||
+      (rule.path.length === match.path.length && rule.allow && !match.allow)
+    ) {
+      match = rule
+    }
+  }
+
+  return match ? match.allow : true
+}
+
+function matchesPattern(pattern: string, path: string): boolean {
+  const anchored = pattern.endsWith('$')
+  const body = anchored ? pattern.slice(0, -1) : pattern
+  const regex = body
+    .split('*')
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+
+  const matcher = new RegExp(`^${regex}${anchored ? '$' : ''}`)
+
+  return matcher.test(path) || matcher.test(safeDecode(path))
+}
+
+/**
+ * Compares decoded paths so "/caf%C3%A9" matches a "/café" rule
+ */
+function safeDecode(path: string): string {
+  try {
+    return decodeURI(path)
+  } catch {
+    return path
+  }
+}
@@ -0,0 +1,20 @@
+-- Change detection of cached contents (see content-change.service.ts)
+-- *_hash: SHA-256 of the cleaned text that was last analyzed
+-- *_validators: ETag and Last-Modified of its pages by URL, e.g. {"https://...": {"etag": "\"abc\"", "lastModified": null}}
+-- *_checked_at: last check, *_changed_at: last material change (which triggered a re-analysis)
+-- *_diff: summary of that change: change ratio, counts and samples of added and removed sentences
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS content_hash TEXT;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS content_validators JSONB;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS content_checked_at TIMESTAMPTZ;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS content_changed_at TIMESTAMPTZ;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS content_diff JSONB;
+
+ALTER TABLE places ADD COLUMN IF NOT EXISTS website_content_hash TEXT;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS website_content_validators JSONB;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS website_checked_at TIMESTAMPTZ;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS website_changed_at TIMESTAMPTZ;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS website_content_diff JSONB;
+
+-- The periodic check picks the contents checked the longest time ago
+CREATE INDEX IF NOT EXISTS idx_sources_content_checked_at ON sources(content_checked_at NULLS FIRST);
+CREATE INDEX IF NOT EXISTS idx_places_website_checked_at ON places(website_checked_at NULLS FIRST);
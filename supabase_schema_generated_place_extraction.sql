@@ -0,0 +1,4 @@
+-- Richer AI extraction fields on generated places (see ExtractedPlace in src/services/ai.service.ts)
+ALTER TABLE generated_places ADD COLUMN IF NOT EXISTS place_type TEXT;
+ALTER TABLE generated_places ADD COLUMN IF NOT EXISTS location_text TEXT;
+ALTER TABLE generated_places ADD COLUMN IF NOT EXISTS confidence REAL CHECK (confidence IS NULL OR (confidence >= 0 AND confidence <= 1));
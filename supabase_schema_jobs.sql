@@ -0,0 +1,41 @@
+-- Create jobs table (background jobs for long-running enrichment endpoints)
+CREATE TABLE IF NOT EXISTS jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  type TEXT NOT NULL CHECK (type IN ('fetch-photos', 'fetch-ratings', 'verify-places', 'analyze-urls')),
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled')),
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  progress_current INTEGER NOT NULL DEFAULT 0,
+  progress_total INTEGER,
+  summary JSONB,
+  error TEXT,
+  cancel_requested BOOLEAN NOT NULL DEFAULT FALSE,
+  started_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- heartbeat_at is refreshed by the server running the job, running jobs without a recent heartbeat were interrupted
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMPTZ;
+
+-- Create job_items table (per-item results of a job)
+CREATE TABLE IF NOT EXISTS job_items (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  job_id UUID NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  item_index INTEGER NOT NULL,
+  item_id TEXT,
+  status TEXT NOT NULL,
+  result JSONB,
+  error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_jobs_status_created_at ON jobs(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_job_items_job_id ON job_items(job_id, item_index);
+
+-- Reuse the updated_at trigger function (see supabase_schema_place_photos.sql)
+DROP TRIGGER IF EXISTS update_jobs_updated_at ON jobs;
+CREATE TRIGGER update_jobs_updated_at BEFORE UPDATE ON jobs
+FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
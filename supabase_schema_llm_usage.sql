@@ -0,0 +1,78 @@
+-- Create llm_usage table (one row per LLM call, for cost accounting)
+-- Calls are attributed to the place, source and/or job they were made for, when known
+CREATE TABLE IF NOT EXISTS llm_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT,
+  prompt_tokens INTEGER,
+  response_tokens INTEGER,
+  latency_ms INTEGER NOT NULL,
+  outcome TEXT NOT NULL CHECK (outcome IN ('success', 'error', 'invalid_output')),
+  error TEXT,
+  cost_usd NUMERIC NOT NULL DEFAULT 0,
+  place_id UUID REFERENCES places(id) ON DELETE SET NULL,
+  source_id UUID REFERENCES sources(id) ON DELETE SET NULL,
+  job_id UUID REFERENCES jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_llm_usage_created_at ON llm_usage(created_at);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_place_id ON llm_usage(place_id);
+CREATE INDEX IF NOT EXISTS idx_llm_usage_job_id ON llm_usage(job_id);
+
+-- Usage aggregated by day (UTC), task, department and model between two dates (inclusive)
+-- The department is the region of the place the calls were made for, NULL for calls without a place
+CREATE OR REPLACE FUNCTION get_llm_usage_report(
+  from_date DATE,
+  to_date DATE
+)
+RETURNS TABLE (
+  day DATE,
+  task TEXT,
+  department TEXT,
+  model TEXT,
+  call_count BIGINT,
+  error_count BIGINT,
+  prompt_tokens BIGINT,
+  response_tokens BIGINT,
+  total_latency_ms BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    (u.created_at AT TIME ZONE 'UTC')::date,
+    u.task,
+    p.region,
+    u.model,
+    COUNT(*),
+    COUNT(*) FILTER (WHERE u.outcome <> 'success'),
+    COALESCE(SUM(u.prompt_tokens), 0),
+    COALESCE(SUM(u.response_tokens), 0),
+    COALESCE(SUM(u.latency_ms), 0),
+    COALESCE(SUM(u.cost_usd), 0)
+  FROM llm_usage u
+  LEFT JOIN places p ON p.id = u.place_id
+  WHERE u.created_at >= from_date::timestamp AT TIME ZONE 'UTC'
+    AND u.created_at < (to_date + 1)::timestamp AT TIME ZONE 'UTC'
+  GROUP BY 1, 2, 3, 4
+  ORDER BY 1, 2, 3, 4;
+$$;
+
+-- Cost of the calls between two dates (inclusive), e.g. the spend of the current day checked against the daily budget
+CREATE OR REPLACE FUNCTION get_llm_spend(
+  from_date DATE,
+  to_date DATE
+)
+RETURNS NUMERIC
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(SUM(u.cost_usd), 0)
+  FROM llm_usage u
+  WHERE u.created_at >= from_date::timestamp AT TIME ZONE 'UTC'
+    AND u.created_at < (to_date + 1)::timestamp AT TIME ZONE 'UTC';
+$$;
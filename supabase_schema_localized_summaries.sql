@@ -0,0 +1,4 @@
+-- Add the generated descriptions by language, e.g. {"fr": "...", "en": "..."}
+-- website_generated and wikipedia_generated keep the description in the default language (fr)
+ALTER TABLE places ADD COLUMN IF NOT EXISTS website_generated_localized JSONB;
+ALTER TABLE places ADD COLUMN IF NOT EXISTS wikipedia_generated_localized JSONB;
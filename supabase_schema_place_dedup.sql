@@ -0,0 +1,183 @@
+-- Create place_merges table (places merged into a canonical place by the deduplication)
+-- The merged place row is deleted, so its identifiers are kept here
+CREATE TABLE IF NOT EXISTS place_merges (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  canonical_place_id UUID NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  merged_place_id UUID NOT NULL,
+  merged_name TEXT,
+  merged_source TEXT,
+  merged_source_id TEXT,
+  merged_osm_id TEXT,
+  name_similarity NUMERIC NOT NULL,
+  distance_km NUMERIC,
+  overlap_ratio NUMERIC,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_place_merges_canonical_place_id ON place_merges(canonical_place_id);
+CREATE INDEX IF NOT EXISTS idx_place_merges_merged_place_id ON place_merges(merged_place_id);
+
+-- Trigram similarity, to prefilter the names of the candidate pairs
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+CREATE EXTENSION IF NOT EXISTS unaccent;
+
+-- Candidate duplicate pairs: places from different sources within max_distance_m of each other
+-- whose names share at least min_name_similarity of their trigrams (word similarity, in either direction,
+-- so that "Vercors" matches "Parc naturel régional du Vercors")
+-- Returns the center of both places and, when both are polygons, how much they overlap
+-- (intersection area / area of the smaller polygon). Name matching is done by the application.
+CREATE OR REPLACE FUNCTION get_place_dedup_candidates(
+  max_distance_m DOUBLE PRECISION DEFAULT 2000,
+  min_name_similarity DOUBLE PRECISION DEFAULT 0.3
+)
+RETURNS TABLE (
+  place_id UUID,
+  place_name TEXT,
+  place_source TEXT,
+  place_lat DOUBLE PRECISION,
+  place_lon DOUBLE PRECISION,
+  other_place_id UUID,
+  other_place_name TEXT,
+  other_place_source TEXT,
+  other_place_lat DOUBLE PRECISION,
+  other_place_lon DOUBLE PRECISION,
+  overlap_ratio DOUBLE PRECISION
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      a.id AS a_id, a.name AS a_name, a.source AS a_source, COALESCE(a.geometry, a.location) AS a_geom,
+      b.id AS b_id, b.name AS b_name, b.source AS b_source, COALESCE(b.geometry, b.location) AS b_geom
+    FROM places a
+    JOIN places b
+      ON a.id < b.id
+      AND a.source IS DISTINCT FROM b.source
+      AND a.name IS NOT NULL
+      AND b.name IS NOT NULL
+      AND ST_DWithin(COALESCE(a.geometry, a.location)::geography, COALESCE(b.geometry, b.location)::geography, max_distance_m)
+      AND GREATEST(
+        word_similarity(unaccent(lower(a.name)), unaccent(lower(b.name))),
+        word_similarity(unaccent(lower(b.name)), unaccent(lower(a.name)))
+      ) >= min_name_similarity
+  )
+  SELECT
+    a_id,
+    a_name,
+    a_source,
+    ST_Y(ST_PointOnSurface(a_geom)),
+    ST_X(ST_PointOnSurface(a_geom)),
+    b_id,
+    b_name,
+    b_source,
+    ST_Y(ST_PointOnSurface(b_geom)),
+    ST_X(ST_PointOnSurface(b_geom)),
+    CASE
+      WHEN GeometryType(a_geom) IN ('POLYGON', 'MULTIPOLYGON') AND GeometryType(b_geom) IN ('POLYGON', 'MULTIPOLYGON')
+        THEN ST_Area(ST_Intersection(a_geom, b_geom)::geography) / NULLIF(LEAST(ST_Area(a_geom::geography), ST_Area(b_geom::geography)), 0)
+      ELSE NULL
+    END
+  FROM candidates
+  ORDER BY a_id, b_id;
+$$;
+
+-- Merges duplicate places into their canonical place, in a single transaction:
+-- moves their generated places, mentions, visitor facts (the canonical place's facts win, then the most recent),
+-- score history and, when the canonical place has none, photos; records the merges (place_merges rows as JSON),
+-- deletes the duplicates, then applies canonical_updates (a JSON object of places columns) to the canonical place
+-- The duplicates are deleted before the update: the canonical place may take over their unique osm_id
+CREATE OR REPLACE FUNCTION merge_places(
+  canonical_id UUID,
+  duplicate_ids UUID[],
+  merges JSONB,
+  canonical_updates JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  cluster_ids UUID[] := canonical_id || duplicate_ids;
+  assignments TEXT;
+BEGIN
+  UPDATE generated_places SET place_id = canonical_id WHERE place_id = ANY(duplicate_ids);
+
+  -- Mentions between the canonical place and the merged places would become self-mentions
+  DELETE FROM place_mentions WHERE place_id = ANY(cluster_ids) AND mentioned_place_id = ANY(cluster_ids);
+  UPDATE place_mentions SET place_id = canonical_id WHERE place_id = ANY(duplicate_ids);
+  UPDATE place_mentions SET mentioned_place_id = canonical_id WHERE mentioned_place_id = ANY(duplicate_ids);
+
+  -- A source gives at most one value per fact and place
+  DELETE FROM place_visitor_facts f
+  USING (
+    SELECT
+      id,
+      ROW_NUMBER() OVER (PARTITION BY fact, source ORDER BY place_id = canonical_id DESC, extracted_at DESC) AS rank
+    FROM place_visitor_facts
+    WHERE place_id = ANY(cluster_ids)
+  ) ranked
+  WHERE f.id = ranked.id AND ranked.rank > 1;
+  UPDATE place_visitor_facts SET place_id = canonical_id WHERE place_id = ANY(duplicate_ids);
+
+  UPDATE place_score_history SET place_id = canonical_id WHERE place_id = ANY(duplicate_ids);
+  UPDATE sources SET origin_place_id = canonical_id WHERE origin_place_id = ANY(duplicate_ids);
+
+  -- Photos are only moved when the canonical place has none, to keep a single primary photo
+  IF NOT EXISTS (SELECT 1 FROM place_photos WHERE place_id = canonical_id) THEN
+    DELETE FROM place_photos ph
+    USING (
+      SELECT id, ROW_NUMBER() OVER (PARTITION BY url ORDER BY is_primary DESC, created_at) AS rank
+      FROM place_photos
+      WHERE place_id = ANY(duplicate_ids)
+    ) ranked
+    WHERE ph.id = ranked.id AND ranked.rank > 1;
+    UPDATE place_photos SET place_id = canonical_id WHERE place_id = ANY(duplicate_ids);
+    UPDATE place_photos ph
+    SET is_primary = ph.id = (
+      SELECT id FROM place_photos WHERE place_id = canonical_id ORDER BY is_primary DESC, created_at LIMIT 1
+    )
+    WHERE ph.place_id = canonical_id;
+    IF FOUND THEN
+      UPDATE places SET photos_fetched_at = COALESCE(photos_fetched_at, NOW()) WHERE id = canonical_id;
+    END IF;
+  END IF;
+
+  INSERT INTO place_merges (
+    canonical_place_id,
+    merged_place_id,
+    merged_name,
+    merged_source,
+    merged_source_id,
+    merged_osm_id,
+    name_similarity,
+    distance_km,
+    overlap_ratio
+  )
+  SELECT
+    canonical_id,
+    merged_place_id,
+    merged_name,
+    merged_source,
+    merged_source_id,
+    merged_osm_id,
+    name_similarity,
+    distance_km,
+    overlap_ratio
+  FROM jsonb_populate_recordset(NULL::place_merges, merges);
+
+  DELETE FROM places WHERE id = ANY(duplicate_ids);
+
+  SELECT string_agg(format('%I = updates.%I', key, key), ', ')
+  INTO assignments
+  FROM jsonb_object_keys(canonical_updates) AS key;
+
+  IF assignments IS NOT NULL THEN
+    EXECUTE format(
+      'UPDATE places SET %s FROM jsonb_populate_record(NULL::places, $1) AS updates WHERE places.id = $2',
+      assignments
+    )
+    USING canonical_updates, canonical_id;
+  END IF;
+END;
+$$;
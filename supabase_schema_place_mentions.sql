@@ -0,0 +1,65 @@
+-- Create place_mentions table (place mentions graph: the website or Wikipedia article of a place mentions another place)
+-- One edge per verified generated place of a source analyzed for a place: the generated place comes from the
+-- mentioned places extracted from the source (website_places_generated, wikipedia_places_generated) and its
+-- place_id was resolved by the verification or a manual review
+CREATE TABLE IF NOT EXISTS place_mentions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id UUID NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  mentioned_place_id UUID NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  source_id UUID REFERENCES sources(id) ON DELETE SET NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('website', 'wikipedia')),
+  generated_place_id UUID NOT NULL REFERENCES generated_places(id) ON DELETE CASCADE,
+  mentioned_name TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (place_id <> mentioned_place_id)
+);
+
+-- Create indexes for better query performance
+CREATE UNIQUE INDEX IF NOT EXISTS idx_place_mentions_generated_place_id ON place_mentions(generated_place_id);
+CREATE INDEX IF NOT EXISTS idx_place_mentions_place_id ON place_mentions(place_id);
+CREATE INDEX IF NOT EXISTS idx_place_mentions_mentioned_place_id ON place_mentions(mentioned_place_id);
+
+-- Place a source was analyzed for (the place whose website or Wikipedia article it is), recorded by the analysis
+-- Several places can share a website, and a Wikipedia article may have been found by a search: the URL alone
+-- doesn't always lead back to the place
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS origin_place_id UUID REFERENCES places(id) ON DELETE SET NULL;
+
+-- Add the number of places mentioning each place to the scoring context (see supabase_schema_scoring.sql)
+-- The return type changes, so the function is dropped first
+DROP FUNCTION IF EXISTS get_place_scoring_context(UUID[], TEXT[]);
+
+CREATE OR REPLACE FUNCTION get_place_scoring_context(
+  place_ids UUID[] DEFAULT NULL,
+  protected_area_types TEXT[] DEFAULT ARRAY['national_park', 'regional_park', 'protected_area', 'nature_reserve']
+)
+RETURNS TABLE (
+  place_id UUID,
+  area_m2 DOUBLE PRECISION,
+  in_protected_area BOOLEAN,
+  photo_count INTEGER,
+  mentioned_by_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id AS place_id,
+    CASE
+      WHEN p.geometry IS NOT NULL AND GeometryType(p.geometry) IN ('POLYGON', 'MULTIPOLYGON')
+        THEN ST_Area(p.geometry::geography)
+      ELSE NULL
+    END AS area_m2,
+    EXISTS (
+      SELECT 1
+      FROM places pa
+      WHERE pa.id <> p.id
+        AND pa.type = ANY(protected_area_types)
+        AND pa.geometry IS NOT NULL
+        AND ST_Intersects(pa.geometry, COALESCE(p.geometry, p.location))
+    ) AS in_protected_area,
+    (SELECT COUNT(*)::INTEGER FROM place_photos pp WHERE pp.place_id = p.id) AS photo_count,
+    (SELECT COUNT(DISTINCT pm.place_id)::INTEGER FROM place_mentions pm WHERE pm.mentioned_place_id = p.id)
+      AS mentioned_by_count
+  FROM places p
+  WHERE place_ids IS NULL OR p.id = ANY(place_ids);
+$$;
@@ -0,0 +1,16 @@
+-- Create place_score_history table (audit trail of place score changes)
+CREATE TABLE IF NOT EXISTS place_score_history (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id UUID NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  old_score NUMERIC NOT NULL,
+  new_score NUMERIC NOT NULL,
+  old_enhancement_score NUMERIC,
+  new_enhancement_score NUMERIC,
+  breakdown JSONB NOT NULL,
+  trigger TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_place_score_history_place_id ON place_score_history(place_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_place_score_history_trigger ON place_score_history(trigger);
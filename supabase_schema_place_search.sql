@@ -0,0 +1,131 @@
+-- Place search functions used by GET /api/places/search and GET /api/places/nearby
+-- (see src/controllers/place-search.controller.ts)
+-- The type filter and the page offset are applied before the result limit, so that the pages of a search filtered
+-- by type are not emptied by the places of other types. total_count is the number of places matching the search
+
+-- Replace the previous versions, whose arguments differ (a new signature would add an ambiguous overload)
+DO $$
+DECLARE
+  fn REGPROCEDURE;
+BEGIN
+  FOR fn IN
+    SELECT oid::REGPROCEDURE
+    FROM pg_proc
+    WHERE proname IN ('search_places_in_view', 'search_places_by_location')
+      AND pronamespace = 'public'::REGNAMESPACE
+  LOOP
+    EXECUTE format('DROP FUNCTION %s', fn);
+  END LOOP;
+END $$;
+
+-- Places inside a bounding box, best score first
+CREATE OR REPLACE FUNCTION search_places_in_view(
+  min_lat DOUBLE PRECISION,
+  min_long DOUBLE PRECISION,
+  max_lat DOUBLE PRECISION,
+  max_long DOUBLE PRECISION,
+  min_score DOUBLE PRECISION DEFAULT 0,
+  max_results INTEGER DEFAULT 200,
+  place_types TEXT[] DEFAULT NULL,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  type TEXT,
+  source TEXT,
+  country TEXT,
+  region TEXT,
+  website TEXT,
+  wikipedia_query TEXT,
+  metadata JSONB,
+  score DOUBLE PRECISION,
+  lat DOUBLE PRECISION,
+  long DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id,
+    p.name::TEXT,
+    p.description::TEXT,
+    p.type::TEXT,
+    p.source::TEXT,
+    p.country::TEXT,
+    p.region::TEXT,
+    p.website::TEXT,
+    p.wikipedia_query::TEXT,
+    p.metadata::JSONB,
+    p.score::DOUBLE PRECISION,
+    ST_Y(p.location),
+    ST_X(p.location),
+    COUNT(*) OVER () AS total_count
+  FROM places p
+  WHERE p.location && ST_MakeEnvelope(min_long, min_lat, max_long, max_lat, 4326)
+    AND p.score >= min_score
+    AND (place_types IS NULL OR p.type = ANY(place_types))
+  ORDER BY p.score DESC, p.id
+  LIMIT max_results
+  OFFSET result_offset;
+$$;
+
+-- Places around a point, closest first
+CREATE OR REPLACE FUNCTION search_places_by_location(
+  search_lat DOUBLE PRECISION,
+  search_lng DOUBLE PRECISION,
+  radius_km DOUBLE PRECISION,
+  min_score DOUBLE PRECISION DEFAULT 0,
+  result_limit INTEGER DEFAULT 50,
+  place_types TEXT[] DEFAULT NULL,
+  result_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  name TEXT,
+  description TEXT,
+  type TEXT,
+  source TEXT,
+  country TEXT,
+  region TEXT,
+  website TEXT,
+  wikipedia_query TEXT,
+  metadata JSONB,
+  score DOUBLE PRECISION,
+  lat DOUBLE PRECISION,
+  long DOUBLE PRECISION,
+  distance_km DOUBLE PRECISION,
+  total_count BIGINT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH search_point AS (
+    SELECT ST_SetSRID(ST_MakePoint(search_lng, search_lat), 4326)::geography AS point
+  )
+  SELECT
+    p.id,
+    p.name::TEXT,
+    p.description::TEXT,
+    p.type::TEXT,
+    p.source::TEXT,
+    p.country::TEXT,
+    p.region::TEXT,
+    p.website::TEXT,
+    p.wikipedia_query::TEXT,
+    p.metadata::JSONB,
+    p.score::DOUBLE PRECISION,
+    ST_Y(p.location),
+    ST_X(p.location),
+    ST_Distance(p.location::geography, s.point) / 1000 AS distance_km,
+    COUNT(*) OVER () AS total_count
+  FROM places p, search_point s
+  WHERE ST_DWithin(p.location::geography, s.point, radius_km * 1000)
+    AND p.score >= min_score
+    AND (place_types IS NULL OR p.type = ANY(place_types))
+  ORDER BY distance_km, p.id
+  LIMIT result_limit
+  OFFSET result_offset;
+$$;
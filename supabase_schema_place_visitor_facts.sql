@@ -0,0 +1,29 @@
+-- Create place_visitor_facts table (structured visitor information extracted from the website and Wikipedia content)
+-- The facts mirror the saved_places fields, one row per place, fact and source, with the passage it was extracted from
+CREATE TABLE IF NOT EXISTS place_visitor_facts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  place_id UUID NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  fact TEXT NOT NULL CHECK (
+    fact IN (
+      'best_time_to_visit',
+      'entrance_fee',
+      'operating_hours',
+      'parking_info',
+      'estimated_activity_duration',
+      'activity'
+    )
+  ),
+  value TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('website', 'wikipedia')),
+  source_url TEXT,
+  evidence TEXT,
+  confidence NUMERIC(3, 2) NOT NULL CHECK (confidence >= 0 AND confidence <= 1),
+  prompt_version TEXT NOT NULL,
+  extracted_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_place_visitor_facts_place_id ON place_visitor_facts(place_id);
+
+-- A source gives at most one value per fact, re-extractions replace it
+CREATE UNIQUE INDEX IF NOT EXISTS idx_place_visitor_facts_unique ON place_visitor_facts(place_id, fact, source);
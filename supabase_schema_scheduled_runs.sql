@@ -0,0 +1,17 @@
+-- Create scheduled_runs table (history of scheduler pipeline runs)
+CREATE TABLE IF NOT EXISTS scheduled_runs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  task TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  stats JSONB,
+  error TEXT,
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  finished_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Only one running row per task: this is the lock that prevents overlapping runs
+CREATE UNIQUE INDEX IF NOT EXISTS idx_scheduled_runs_running_task ON scheduled_runs(task) WHERE status = 'running';
+
+-- Create indexes for better query performance
+CREATE INDEX IF NOT EXISTS idx_scheduled_runs_task_started_at ON scheduled_runs(task, started_at DESC);
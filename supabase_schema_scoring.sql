@@ -0,0 +1,35 @@
+-- Scoring context of places: area, protected-area membership and photo count
+-- Used by the scoring model (see src/config/scoring.config.ts)
+-- When place_ids is NULL, returns the context of all places
+CREATE OR REPLACE FUNCTION get_place_scoring_context(
+  place_ids UUID[] DEFAULT NULL,
+  protected_area_types TEXT[] DEFAULT ARRAY['national_park', 'regional_park', 'protected_area', 'nature_reserve']
+)
+RETURNS TABLE (
+  place_id UUID,
+  area_m2 DOUBLE PRECISION,
+  in_protected_area BOOLEAN,
+  photo_count INTEGER
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    p.id AS place_id,
+    CASE
+      WHEN p.geometry IS NOT NULL AND GeometryType(p.geometry) IN ('POLYGON', 'MULTIPOLYGON')
+        THEN ST_Area(p.geometry::geography)
+      ELSE NULL
+    END AS area_m2,
+    EXISTS (
+      SELECT 1
+      FROM places pa
+      WHERE pa.id <> p.id
+        AND pa.type = ANY(protected_area_types)
+        AND pa.geometry IS NOT NULL
+        AND ST_Intersects(pa.geometry, COALESCE(p.geometry, p.location))
+    ) AS in_protected_area,
+    (SELECT COUNT(*)::INTEGER FROM place_photos pp WHERE pp.place_id = p.id) AS photo_count
+  FROM places p
+  WHERE place_ids IS NULL OR p.id = ANY(place_ids);
+$$;
@@ -0,0 +1,11 @@
+-- Site ingestion: pages discovered on a travel site are stored as sources linked to the site's root URL
+-- analyzed_at marks the pages whose places were extracted, an interrupted ingestion resumes with the others
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS site_url TEXT;
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS analyzed_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_sources_site_url ON sources(site_url);
+
+-- Allow the ingest-site job type
+ALTER TABLE jobs DROP CONSTRAINT IF EXISTS jobs_type_check;
+ALTER TABLE jobs ADD CONSTRAINT jobs_type_check
+  CHECK (type IN ('fetch-photos', 'fetch-ratings', 'verify-places', 'analyze-urls', 'ingest-site'));
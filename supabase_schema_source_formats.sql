@@ -0,0 +1,4 @@
+-- Format of sources.raw_content: text extracted from an HTML page, a PDF, a plain text or a Markdown document
+-- NULL for sources fetched before documents were supported (HTML pages)
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS raw_content_format TEXT
+  CHECK (raw_content_format IN ('html', 'pdf', 'text', 'markdown'));
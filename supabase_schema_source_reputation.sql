@@ -0,0 +1,69 @@
+-- Source reputation: generated places are verified (ADDED) or rejected (REJECTED, NO_NATURE_MATCH) per source domain,
+-- the verified ratio of a domain (or its manual trust override) weights the score bump its sources give to places
+ALTER TABLE sources ADD COLUMN IF NOT EXISTS domain TEXT;
+
+-- Host of the source URL, lowercased and without "www." (same normalization as getSourceDomain)
+UPDATE sources
+SET domain = lower(regexp_replace(substring(url from '^[a-zA-Z][a-zA-Z0-9+.-]*://(?:[^@/]*@)?([^/?#:]+)'), '^www\.', ''))
+WHERE domain IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_sources_domain ON sources(domain);
+CREATE INDEX IF NOT EXISTS idx_generated_places_source_id ON generated_places(source_id);
+CREATE INDEX IF NOT EXISTS idx_generated_places_place_id ON generated_places(place_id);
+
+-- Manual trust overrides (0-1), replacing the trust computed from the verified ratio of the domain
+CREATE TABLE IF NOT EXISTS source_domains (
+  domain TEXT PRIMARY KEY,
+  trust_override NUMERIC(3, 2) CHECK (trust_override >= 0 AND trust_override <= 1),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Generated place statuses counted per source domain, with the manual override of the domain
+-- NO_MATCH and MULTIPLE_MATCHES are unresolved (OSM gaps, homonyms) and pending places have no status yet
+CREATE OR REPLACE FUNCTION get_source_domain_reputation(
+  domain_filter TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  domain TEXT,
+  sources_count BIGINT,
+  verified_count BIGINT,
+  rejected_count BIGINT,
+  unresolved_count BIGINT,
+  pending_count BIGINT,
+  trust_override NUMERIC,
+  notes TEXT
+)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH stats AS (
+    SELECT
+      s.domain,
+      COUNT(DISTINCT s.id) AS sources_count,
+      COUNT(g.id) FILTER (WHERE g.status = 'ADDED') AS verified_count,
+      COUNT(g.id) FILTER (WHERE g.status IN ('REJECTED', 'NO_NATURE_MATCH')) AS rejected_count,
+      COUNT(g.id) FILTER (WHERE g.status IN ('NO_MATCH', 'MULTIPLE_MATCHES')) AS unresolved_count,
+      COUNT(g.id) FILTER (WHERE g.status IS NULL) AS pending_count
+    FROM sources s
+    LEFT JOIN generated_places g ON g.source_id = s.id
+    WHERE s.domain IS NOT NULL
+      AND (domain_filter IS NULL OR s.domain = domain_filter)
+    GROUP BY s.domain
+  )
+  SELECT
+    COALESCE(st.domain, d.domain),
+    COALESCE(st.sources_count, 0),
+    COALESCE(st.verified_count, 0),
+    COALESCE(st.rejected_count, 0),
+    COALESCE(st.unresolved_count, 0),
+    COALESCE(st.pending_count, 0),
+    d.trust_override,
+    d.notes
+  FROM stats st
+  FULL OUTER JOIN (
+    SELECT * FROM source_domains WHERE domain_filter IS NULL OR source_domains.domain = domain_filter
+  ) d ON d.domain = st.domain
+  ORDER BY 1;
+$$;